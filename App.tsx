@@ -1,6 +1,6 @@
 import { StatusBar } from 'expo-status-bar';
-import { StyleSheet, View } from 'react-native';
-import { useState } from 'react';
+import { Linking, StyleSheet, View } from 'react-native';
+import { useEffect, useState } from 'react';
 import { AuthProvider, useAuth } from './src/contexts/AuthContext';
 import { ThemeProvider } from './src/contexts/ThemeContext';
 import { useTheme } from './src/hooks/useTheme';
@@ -11,6 +11,8 @@ import CreateGroupScreen from './src/screens/CreateGroupScreen';
 import GroupDetailScreen from './src/screens/GroupDetailScreen';
 import AddExpenseScreen from './src/screens/AddExpenseScreen';
 import SettingsScreen from './src/screens/SettingsScreen';
+import { parseJoinCode } from './src/utils/invitations';
+import { startOfflineSync } from './src/api/offline';
 
 type Screen = 'login' | 'signup' | 'groups' | 'createGroup' | 'groupDetail' | 'addExpense' | 'settings';
 
@@ -22,6 +24,28 @@ function AppContent() {
   const [currentScreen, setCurrentScreen] = useState<Screen>('login');
   const [refreshTrigger, setRefreshTrigger] = useState(0);
   const [currentGroup, setCurrentGroup] = useState<any | null>(null);
+  const [pendingJoinCode, setPendingJoinCode] = useState<string | null>(null);
+
+  // Invite links (splityourbills://join/CODE) open the groups screen with the code filled in
+  useEffect(() => {
+    const handleUrl = (url: string | null) => {
+      const code = url ? parseJoinCode(url) : null;
+      if (code) {
+        setPendingJoinCode(code);
+        setCurrentScreen('groups');
+      }
+    };
+
+    Linking.getInitialURL().then(handleUrl);
+    const subscription = Linking.addEventListener('url', ({ url }) => handleUrl(url));
+    return () => subscription.remove();
+  }, []);
+
+  // Send changes made offline once the connection returns, then refresh
+  useEffect(() => {
+    if (!session) return;
+    return startOfflineSync(() => setRefreshTrigger(prev => prev + 1));
+  }, [session]);
 
   if (loading) {
     return (
@@ -44,6 +68,7 @@ function AppContent() {
           onAddGroup={() => setCurrentScreen('createGroup')}
           onOpenGroup={(g) => { setCurrentGroup(g); setCurrentScreen('groupDetail'); }}
           onOpenSettings={() => setCurrentScreen('settings')}
+          pendingJoinCode={pendingJoinCode}
           refreshTrigger={refreshTrigger}
         />
       ) : currentScreen === 'createGroup' ? (
@@ -64,6 +89,7 @@ function AppContent() {
       ) : currentScreen === 'addExpense' && currentGroup ? (
         <AddExpenseScreen
           groupId={currentGroup.id}
+          baseCurrency={currentGroup.base_currency}
           onCreated={() => { setCurrentScreen('groupDetail'); setRefreshTrigger(prev => prev + 1); }}
           onCancel={() => setCurrentScreen('groupDetail')}
         />
@@ -0,0 +1,106 @@
+/**
+ * Attachment Tests
+ * Tests for receipt attachment checks and uploads, run against the in-memory
+ * storage stand-in
+ */
+
+import {
+  AttachmentFile,
+  buildAttachmentPath,
+  createMemoryAttachmentStorage,
+  MAX_ATTACHMENTS_PER_EXPENSE,
+  uploadAttachmentFiles,
+  validateAttachment,
+} from '../utils/attachments';
+
+function file(name: string, contentType: string = 'image/jpeg', size: number = 1024): AttachmentFile {
+  return { name, content_type: contentType, size, body: new ArrayBuffer(size) };
+}
+
+function sequentialIds(): () => string {
+  let next = 0;
+  return () => `id${++next}`;
+}
+
+describe('Attachments', () => {
+  describe('validateAttachment', () => {
+    test('should accept photos and PDFs', () => {
+      expect(validateAttachment(file('receipt.jpg'))).toBeNull();
+      expect(validateAttachment(file('bill.pdf', 'application/pdf'))).toBeNull();
+    });
+
+    test('should reject other file types', () => {
+      expect(validateAttachment(file('notes.txt', 'text/plain'))).toContain('not a supported file');
+    });
+
+    test('should reject empty and oversized files', () => {
+      expect(validateAttachment(file('empty.png', 'image/png', 0))).toBe('empty.png is empty');
+      expect(validateAttachment(file('huge.png', 'image/png', 11 * 1024 * 1024))).toBe('huge.png is larger than 10 MB');
+    });
+
+    test('should limit attachments per expense', () => {
+      expect(validateAttachment(file('one-more.jpg'), MAX_ATTACHMENTS_PER_EXPENSE)).toBe(
+        'An expense can have at most 10 attachments'
+      );
+    });
+  });
+
+  test('should build paths under the group and expense', () => {
+    expect(buildAttachmentPath('g1', 'e1', 'Dinner receipt (1).jpg', 'abc')).toBe('g1/e1/abc-Dinner_receipt_1_.jpg');
+    expect(buildAttachmentPath('g1', 'e1', '../../etc', 'abc')).toBe('g1/e1/abc-etc');
+  });
+
+  describe('uploadAttachmentFiles', () => {
+    test('should upload every file and describe it', async () => {
+      const storage = createMemoryAttachmentStorage();
+      const uploaded = await uploadAttachmentFiles(
+        storage,
+        'g1',
+        'e1',
+        [file('a.jpg'), file('b.pdf', 'application/pdf', 2048)],
+        0,
+        sequentialIds()
+      );
+
+      expect(uploaded).toEqual([
+        { storage_path: 'g1/e1/id1-a.jpg', file_name: 'a.jpg', content_type: 'image/jpeg', size_bytes: 1024 },
+        { storage_path: 'g1/e1/id2-b.pdf', file_name: 'b.pdf', content_type: 'application/pdf', size_bytes: 2048 },
+      ]);
+      expect(storage.files.get('g1/e1/id2-b.pdf')?.content_type).toBe('application/pdf');
+      await expect(storage.getUrl('g1/e1/id1-a.jpg', 60)).resolves.toBe('memory://receipts/g1/e1/id1-a.jpg?expires_in=60');
+    });
+
+    test('should upload nothing if any file is invalid', async () => {
+      const storage = createMemoryAttachmentStorage();
+      await expect(
+        uploadAttachmentFiles(storage, 'g1', 'e1', [file('a.jpg'), file('b.txt', 'text/plain')])
+      ).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+      expect(storage.files.size).toBe(0);
+    });
+
+    test('should count existing attachments towards the limit', async () => {
+      const storage = createMemoryAttachmentStorage();
+      await expect(
+        uploadAttachmentFiles(storage, 'g1', 'e1', [file('a.jpg'), file('b.jpg')], MAX_ATTACHMENTS_PER_EXPENSE - 1)
+      ).rejects.toMatchObject({ message: 'An expense can have at most 10 attachments' });
+    });
+
+    test('should remove files already uploaded when a later upload fails', async () => {
+      const storage = createMemoryAttachmentStorage();
+      await storage.upload('g1/e1/id2-b.jpg', new ArrayBuffer(1), 'image/jpeg'); // Collides with the second file
+
+      await expect(
+        uploadAttachmentFiles(storage, 'g1', 'e1', [file('a.jpg'), file('b.jpg')], 0, sequentialIds())
+      ).rejects.toThrow('already exists');
+      expect(Array.from(storage.files.keys())).toEqual(['g1/e1/id2-b.jpg']);
+    });
+  });
+
+  test('should ignore missing files on remove', async () => {
+    const storage = createMemoryAttachmentStorage();
+    await storage.upload('g1/e1/a.jpg', new ArrayBuffer(1), 'image/jpeg');
+    await storage.remove(['g1/e1/a.jpg', 'g1/e1/missing.jpg']);
+    expect(storage.files.size).toBe(0);
+    await expect(storage.getUrl('g1/e1/a.jpg', 60)).rejects.toThrow('Object not found');
+  });
+});
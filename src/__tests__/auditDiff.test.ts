@@ -0,0 +1,111 @@
+/**
+ * Audit Diff Tests
+ * Tests for field-level expense diffs in the audit log
+ */
+
+import { describeChange, diffExpenseSnapshots, diffShares, ExpenseSnapshot } from '../utils/auditDiff';
+
+const dinner: ExpenseSnapshot = {
+  description: 'Dinner',
+  amount: 300,
+  currency: 'INR',
+  date: '2024-03-01',
+  split_type: 'equal',
+  payers: [{ user_id: 'alex', amount: 300 }],
+  splits: [
+    { user_id: 'alex', amount: 100 },
+    { user_id: 'sam', amount: 100 },
+    { user_id: 'priya', amount: 100 },
+  ],
+};
+
+const names: Record<string, string> = { alex: 'Alex', sam: 'Sam', priya: 'Priya' };
+const nameOf = (id: string) => names[id] || id;
+
+describe('Audit Diff', () => {
+  describe('diffExpenseSnapshots', () => {
+    test('should report nothing for identical snapshots', () => {
+      expect(diffExpenseSnapshots(dinner, { ...dinner })).toHaveLength(0);
+    });
+
+    test('should ignore share order and decimal formatting', () => {
+      const reordered = {
+        ...dinner,
+        amount: 300.0,
+        splits: [...dinner.splits].reverse().map((s) => ({ ...s, amount: Number(s.amount.toFixed(2)) })),
+      };
+      expect(diffExpenseSnapshots(dinner, reordered)).toHaveLength(0);
+    });
+
+    test('should report changed fields in order', () => {
+      const edited = {
+        ...dinner,
+        description: 'Team dinner',
+        amount: 360,
+        payers: [{ user_id: 'alex', amount: 360 }],
+        splits: [
+          { user_id: 'alex', amount: 120 },
+          { user_id: 'sam', amount: 120 },
+          { user_id: 'priya', amount: 120 },
+        ],
+      };
+      const changes = diffExpenseSnapshots(dinner, edited);
+
+      expect(changes.map((c) => c.field)).toEqual(['description', 'amount', 'payers', 'splits']);
+      expect(changes[1]).toEqual({ field: 'amount', from: 300, to: 360 });
+    });
+
+    test('should record every field on create', () => {
+      const changes = diffExpenseSnapshots(null, dinner);
+      expect(changes.map((c) => c.field)).toEqual([
+        'description',
+        'amount',
+        'currency',
+        'date',
+        'split_type',
+        'payers',
+        'splits',
+      ]);
+      expect(changes.every((c) => c.from === null)).toBe(true);
+    });
+  });
+
+  describe('diffShares', () => {
+    test('should list changed, added and removed people', () => {
+      const after = [
+        { user_id: 'alex', amount: 150 },
+        { user_id: 'sam', amount: 100 },
+        { user_id: 'jo', amount: 50 },
+      ];
+      expect(diffShares(dinner.splits, after)).toEqual([
+        { user_id: 'alex', from: 100, to: 150 },
+        { user_id: 'jo', from: null, to: 50 },
+        { user_id: 'priya', from: 100, to: null },
+      ]);
+    });
+  });
+
+  describe('describeChange', () => {
+    test('should describe scalar changes', () => {
+      expect(describeChange({ field: 'amount', from: 300, to: 360 }, 'INR')).toBe('Amount: ₹300.00 → ₹360.00');
+      expect(describeChange({ field: 'description', from: null, to: 'Dinner' }, 'INR')).toBe('Description: Dinner');
+    });
+
+    test('should name categories', () => {
+      expect(describeChange({ field: 'category', from: 'food', to: 'travel' }, 'INR')).toBe('Category: Food & Drink → Travel');
+      expect(describeChange({ field: 'category', from: 'food', to: null }, 'INR')).toBe('Category: Food & Drink → —');
+    });
+
+    test('should describe split changes by person', () => {
+      const change = {
+        field: 'splits' as const,
+        from: dinner.splits,
+        to: [
+          { user_id: 'alex', amount: 200 },
+          { user_id: 'sam', amount: 100 },
+        ],
+      };
+      expect(describeChange(change, 'INR', nameOf)).toBe('Split: Alex ₹100.00 → ₹200.00, Priya removed');
+    });
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Category Tests
+ * Tests for the category taxonomy and spend per category
+ */
+
+import {
+  CategorizedExpense,
+  DEFAULT_CATEGORIES,
+  filterByCategory,
+  findCategory,
+  mergeCategories,
+  summarizeByCategory,
+  toCategoryKey,
+  validateCategoryName,
+} from '../utils/categories';
+
+const expenses: CategorizedExpense[] = [
+  {
+    id: '1',
+    amount: '300',
+    category: 'food',
+    splits: [
+      { user_id: 'alice', amount: '100' },
+      { user_id: 'bob', amount: '200' },
+    ],
+  },
+  {
+    id: '2',
+    amount: '100',
+    category: 'transport',
+    splits: [{ user_id: 'alice', amount: '100' }],
+  },
+  {
+    // $10 at 83.5 INR per USD
+    id: '3',
+    amount: '10',
+    exchange_rate: '83.5',
+    category: 'food',
+    splits: [
+      { user_id: 'alice', amount: '5' },
+      { user_id: 'bob', amount: '5' },
+    ],
+  },
+  {
+    id: '4',
+    amount: '50',
+    category: null,
+    splits: [{ user_id: 'bob', amount: '50' }],
+  },
+];
+
+describe('Categories', () => {
+  describe('custom categories', () => {
+    test('should build keys from names', () => {
+      expect(toCategoryKey("  Kids' Club ")).toBe('kids-club');
+      expect(toCategoryKey('Fuel / Tolls')).toBe('fuel-tolls');
+    });
+
+    test('should reject names that clash with existing categories', () => {
+      expect(validateCategoryName('Groceries', DEFAULT_CATEGORIES)).toBe('Groceries is already a category');
+      expect(validateCategoryName('food & drink', DEFAULT_CATEGORIES)).toBe('food & drink is already a category');
+      expect(validateCategoryName('Pets', DEFAULT_CATEGORIES)).toBeNull();
+    });
+
+    test('should reject empty names', () => {
+      expect(validateCategoryName('  ', DEFAULT_CATEGORIES)).toBe('Category name is required');
+      expect(validateCategoryName('!!', DEFAULT_CATEGORIES)).toBe('Category name must contain a letter or number');
+    });
+
+    test('should list custom categories after the defaults', () => {
+      const categories = mergeCategories([{ key: 'pets', label: 'Pets', icon: '🐶' }]);
+      expect(categories).toHaveLength(DEFAULT_CATEGORIES.length + 1);
+      expect(categories[categories.length - 1]).toEqual({ key: 'pets', label: 'Pets', icon: '🐶', custom: true });
+    });
+  });
+
+  describe('findCategory', () => {
+    test('should resolve known keys', () => {
+      expect(findCategory('rent', DEFAULT_CATEGORIES).label).toBe('Rent');
+    });
+
+    test('should treat missing keys as uncategorized', () => {
+      expect(findCategory(null, DEFAULT_CATEGORIES).label).toBe('Uncategorized');
+    });
+
+    test('should still name deleted custom categories', () => {
+      expect(findCategory('board-games', DEFAULT_CATEGORIES).label).toBe('Board games');
+    });
+  });
+
+  test('should filter by category', () => {
+    expect(filterByCategory(expenses, null)).toHaveLength(4);
+    expect(filterByCategory(expenses, 'food').map((e) => e.id)).toEqual(['1', '3']);
+    expect(filterByCategory(expenses, '').map((e) => e.id)).toEqual(['4']);
+  });
+
+  describe('summarizeByCategory', () => {
+    test('should total the group spend in the base currency', () => {
+      const report = summarizeByCategory(expenses);
+      expect(report.map((r) => r.key)).toEqual(['food', 'transport', '']);
+      expect(report[0].total).toBe(1135);
+      expect(report[0].count).toBe(2);
+      expect(report[1].total).toBe(100);
+    });
+
+    test('should count only a member’s share', () => {
+      const report = summarizeByCategory(expenses, 'bob');
+      expect(report).toEqual([
+        { key: 'food', total: 617.5, count: 2, percent: 92.5 },
+        { key: '', total: 50, count: 1, percent: 7.5 },
+      ]);
+    });
+
+    test('should be empty without expenses', () => {
+      expect(summarizeByCategory([])).toEqual([]);
+    });
+  });
+});
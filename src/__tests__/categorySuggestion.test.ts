@@ -0,0 +1,71 @@
+/**
+ * Category Suggestion Tests
+ * Tests for suggesting a category from an expense description
+ */
+
+import { buildCategoryModel, suggestCategory, tokenize } from '../utils/categorySuggestion';
+
+describe('Category Suggestion', () => {
+  describe('tokenize', () => {
+    test('should drop punctuation, stop words and plurals', () => {
+      expect(tokenize("Domino's for the team")).toEqual(['domino', 'team']);
+      expect(tokenize('Movie tickets @ PVR')).toEqual(['movie', 'ticket', 'pvr']);
+    });
+
+    test('should keep short words that are not plurals', () => {
+      expect(tokenize('Bus pass')).toEqual(['bus', 'pass']);
+    });
+  });
+
+  describe('keyword rules', () => {
+    test('should suggest default categories for common descriptions', () => {
+      expect(suggestCategory('Dominos')?.key).toBe('food');
+      expect(suggestCategory('Electricity bill March')?.key).toBe('utilities');
+      expect(suggestCategory('BigBasket order')?.key).toBe('groceries');
+      expect(suggestCategory('Hotel in Goa')?.key).toBe('accommodation');
+    });
+
+    test('should prefer the word that comes first when rules disagree', () => {
+      const suggestion = suggestCategory('Uber to airport');
+      expect(suggestion).toEqual({ key: 'transport', source: 'keywords', confidence: 0.5 });
+    });
+
+    test('should return null when nothing matches', () => {
+      expect(suggestCategory('Misc')).toBeNull();
+      expect(suggestCategory('   ')).toBeNull();
+    });
+  });
+
+  describe('learning from history', () => {
+    const history = [
+      { description: 'Airport drop', category: 'transport' },
+      { description: 'Airport pickup', category: 'transport' },
+      { description: 'Sunday football', category: 'sports' },
+      { description: 'Sunday football', category: 'sports' },
+      { description: 'Football boots', category: 'shopping' },
+      { description: 'Rent', category: null },
+    ];
+    const model = buildCategoryModel(history);
+
+    test('should reuse the category of a repeated description', () => {
+      expect(suggestCategory('sunday  FOOTBALL', model)).toEqual({ key: 'sports', source: 'history', confidence: 1 });
+    });
+
+    test('should suggest custom categories from past words', () => {
+      expect(suggestCategory('Football on Friday', model)?.key).toBe('sports');
+    });
+
+    test("should let the group's habits outweigh the keyword rules", () => {
+      expect(suggestCategory('Airport', model)).toEqual({ key: 'transport', source: 'history', confidence: 0.67 });
+    });
+
+    test('should ignore expenses without a category', () => {
+      expect(model.tokens.rent).toBeUndefined();
+    });
+
+    test('should not suggest categories the group no longer has', () => {
+      const keys = ['food', 'transport', 'travel', 'shopping'];
+      expect(suggestCategory('Sunday football', model, keys)?.key).toBe('shopping');
+    });
+  });
+});
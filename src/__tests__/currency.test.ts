@@ -0,0 +1,102 @@
+/**
+ * Currency Tests
+ * Tests for currency formatting, exchange rate providers and conversion
+ */
+
+import {
+  DEFAULT_CURRENCY,
+  FIXED_RATES_PER_USD,
+  convertAmount,
+  createFixedRateProvider,
+  getCurrencySymbol,
+  getExchangeRateProvider,
+  isSupportedCurrency,
+  setExchangeRateProvider,
+} from '../utils/currency';
+import { formatCurrency } from '../utils/errorHandler';
+
+describe('Currency Utilities', () => {
+  describe('isSupportedCurrency', () => {
+    test('should accept supported codes', () => {
+      expect(isSupportedCurrency('INR')).toBe(true);
+      expect(isSupportedCurrency('EUR')).toBe(true);
+    });
+
+    test('should reject unknown codes', () => {
+      expect(isSupportedCurrency('XYZ')).toBe(false);
+      expect(isSupportedCurrency('')).toBe(false);
+    });
+  });
+
+  describe('getCurrencySymbol', () => {
+    test('should return symbol for supported currency', () => {
+      expect(getCurrencySymbol('USD')).toBe('$');
+      expect(getCurrencySymbol('EUR')).toBe('€');
+    });
+
+    test('should fall back to the code for unknown currency', () => {
+      expect(getCurrencySymbol('XYZ')).toBe('XYZ ');
+    });
+  });
+
+  describe('formatCurrency', () => {
+    test('should default to rupees', () => {
+      expect(DEFAULT_CURRENCY).toBe('INR');
+      expect(formatCurrency(100)).toBe('₹100.00');
+    });
+
+    test('should format with the given currency', () => {
+      expect(formatCurrency(12.5, 'EUR')).toBe('€12.50');
+      expect(formatCurrency(99.999, 'USD')).toBe('$100.00');
+    });
+  });
+
+  describe('createFixedRateProvider', () => {
+    test('should return 1 for same currency', async () => {
+      const provider = createFixedRateProvider();
+      expect(await provider.getRate('EUR', 'EUR')).toBe(1);
+    });
+
+    test('should derive cross rates from the table', async () => {
+      const provider = createFixedRateProvider({ USD: 1, INR: 80, EUR: 0.8 });
+
+      expect(await provider.getRate('USD', 'INR')).toBe(80);
+      expect(await provider.getRate('EUR', 'INR')).toBe(100);
+      expect(await provider.getRate('INR', 'USD')).toBe(0.0125);
+    });
+
+    test('should reject currencies missing from the table', async () => {
+      const provider = createFixedRateProvider({ USD: 1 });
+      await expect(provider.getRate('USD', 'INR')).rejects.toThrow(
+        'No exchange rate available'
+      );
+    });
+
+    test('should use offline reference rates by default', async () => {
+      const provider = createFixedRateProvider();
+      expect(await provider.getRate('USD', 'INR')).toBe(FIXED_RATES_PER_USD.INR);
+    });
+  });
+
+  describe('setExchangeRateProvider', () => {
+    test('should swap the active provider', async () => {
+      const original = getExchangeRateProvider();
+      const stub = { getRate: async () => 42 };
+
+      setExchangeRateProvider(stub);
+      expect(await getExchangeRateProvider().getRate('USD', 'INR')).toBe(42);
+
+      setExchangeRateProvider(original);
+    });
+  });
+
+  describe('convertAmount', () => {
+    test('should multiply by the stored rate', () => {
+      expect(convertAmount(50, 90)).toBe(4500);
+    });
+
+    test('should default to a rate of 1', () => {
+      expect(convertAmount(50)).toBe(50);
+    });
+  });
+});
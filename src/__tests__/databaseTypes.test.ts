@@ -0,0 +1,114 @@
+/**
+ * Database Types Tests
+ * Checks the generated types in src/types/database.ts against
+ * supabase/migrations, so a schema change without `npm run db:types` fails
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+const ROOT = path.join(__dirname, '..', '..');
+const MIGRATIONS_DIR = path.join(ROOT, 'supabase', 'migrations');
+const schema = fs
+  .readdirSync(MIGRATIONS_DIR)
+  .filter((file) => file.endsWith('.sql'))
+  .sort()
+  .map((file) => fs.readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8'))
+  .join('\n');
+const types = fs.readFileSync(path.join(ROOT, 'src', 'types', 'database.ts'), 'utf8');
+
+// Postgres column type -> type of the column in a generated Row
+const TS_TYPES: Record<string, string> = {
+  uuid: 'string',
+  text: 'string',
+  date: 'string',
+  timestamp: 'string',
+  timestamptz: 'string',
+  decimal: 'number',
+  integer: 'number',
+  boolean: 'boolean',
+  jsonb: 'Json',
+};
+
+const COLUMN = /^ {2}([a-z_]+) +([a-z]+)(\[\])?(.*)$/;
+const NOT_COLUMNS = ['check', 'unique', 'primary', 'constraint', 'foreign'];
+
+type Columns = Record<string, string>; // Column -> TypeScript type
+
+function sorted(columns: Columns | undefined): string[] {
+  return Object.entries(columns || {}).map(([column, type]) => `${column}: ${type}`).sort();
+}
+
+function columnType(pgType: string, isArray: boolean, rest: string): string {
+  const base = TS_TYPES[pgType];
+  if (!base) throw new Error(`No TypeScript type for ${pgType}`);
+  const type = isArray ? `${base}[]` : base;
+  return /not null|primary key/.test(rest) ? type : `${type} | null`;
+}
+
+/**
+ * Tables and columns as the migrations leave them: create table, then the
+ * columns and nullability changes added by later alter table statements
+ */
+function schemaTables(): Record<string, Columns> {
+  const tables: Record<string, Columns> = {};
+
+  for (const [, table, body] of schema.matchAll(/^create table if not exists (\w+) \(\n([\s\S]*?)^\);/gm)) {
+    tables[table] = {};
+    for (const line of body.split('\n')) {
+      const match = line.match(COLUMN);
+      if (match && !NOT_COLUMNS.includes(match[1])) {
+        tables[table][match[1]] = columnType(match[2], !!match[3], match[4]);
+      }
+    }
+  }
+
+  for (const [, table, column, pgType, isArray, rest] of schema.matchAll(
+    /^alter table (\w+) add column if not exists (\w+) ([a-z]+)(\[\])?(.*)$/gm
+  )) {
+    tables[table][column] = columnType(pgType, !!isArray, rest);
+  }
+
+  for (const [, table, column, change] of schema.matchAll(/^alter table (\w+) alter column (\w+) (set|drop) not null/gm)) {
+    const type = tables[table][column].replace(' | null', '');
+    tables[table][column] = change === 'set' ? type : `${type} | null`;
+  }
+
+  return tables;
+}
+
+/**
+ * Row types of every table in the generated Database type
+ */
+function generatedTables(): Record<string, Columns> {
+  const tables: Record<string, Columns> = {};
+
+  for (const [, table, body] of types.matchAll(/^ {6}(\w+): \{\n {8}Row: \{\n([\s\S]*?)^ {8}\};/gm)) {
+    tables[table] = {};
+    for (const [, column, type] of body.matchAll(/^ {10}(\w+): (.+);$/gm)) {
+      tables[table][column] = type;
+    }
+  }
+
+  return tables;
+}
+
+describe('Database Types', () => {
+  const expected = schemaTables();
+  const generated = generatedTables();
+
+  test('should find the tables in both files', () => {
+    expect(Object.keys(expected).length).toBeGreaterThan(10);
+    expect(expected.expenses.amount).toBe('number');
+  });
+
+  test('should have a Row type for every table in the schema', () => {
+    expect(Object.keys(generated).sort()).toEqual(Object.keys(expected).sort());
+  });
+
+  test('should match every column and its nullability', () => {
+    for (const table of Object.keys(expected)) {
+      expect({ table, columns: sorted(generated[table]) }).toEqual({ table, columns: sorted(expected[table]) });
+    }
+  });
+});
@@ -65,6 +65,21 @@ describe('Error Handler', () => {
       expect(result.code).toBe(ErrorCode.VALIDATION_ERROR);
     });
 
+    test('should keep the message of database function rule violations', () => {
+      const error = { code: '22023', message: 'Splits total (90.00) must equal expense amount (100.00)' };
+      const result = parseSupabaseError(error);
+
+      expect(result.code).toBe(ErrorCode.VALIDATION_ERROR);
+      expect(result.message).toBe(error.message);
+    });
+
+    test('should parse insufficient privilege as permission error', () => {
+      const error = { code: '42501', message: 'only the payer can edit this expense' };
+      const result = parseSupabaseError(error);
+
+      expect(result.code).toBe(ErrorCode.PERMISSION_DENIED);
+    });
+
     test('should default to unknown error', () => {
       const error = { message: 'something weird happened' };
       const result = parseSupabaseError(error);
@@ -0,0 +1,60 @@
+/**
+ * Expense Date Tests
+ * Tests for expense date validation, labels and grouping
+ */
+
+import { formatExpenseDate, groupByDate, shiftDate, validateExpenseDate } from '../utils/expenseDates';
+
+const today = '2026-10-18'; // A Sunday
+
+describe('Expense Dates', () => {
+  test('should shift dates across month and year ends', () => {
+    expect(shiftDate('2026-03-01', -1)).toBe('2026-02-28');
+    expect(shiftDate('2026-12-31', 1)).toBe('2027-01-01');
+  });
+
+  describe('validateExpenseDate', () => {
+    test('should accept today and backdated expenses', () => {
+      expect(validateExpenseDate(today, today)).toBeNull();
+      expect(validateExpenseDate('2026-10-17', today)).toBeNull();
+    });
+
+    test('should reject future dates', () => {
+      expect(validateExpenseDate('2026-10-19', today)).toBe('Date cannot be in the future');
+    });
+
+    test('should reject malformed and impossible dates', () => {
+      expect(validateExpenseDate('18/10/2026', today)).toBe('Enter the date as YYYY-MM-DD');
+      expect(validateExpenseDate('2026-02-30', today)).toBe('Enter the date as YYYY-MM-DD');
+    });
+
+    test('should reject dates too far back', () => {
+      expect(validateExpenseDate('2020-01-01', today)).toBe('Date cannot be more than 5 years ago');
+    });
+  });
+
+  describe('formatExpenseDate', () => {
+    test('should name today and yesterday', () => {
+      expect(formatExpenseDate(today, today)).toBe('Today');
+      expect(formatExpenseDate('2026-10-17', today)).toBe('Yesterday');
+    });
+
+    test('should show the weekday, and the year outside the current one', () => {
+      expect(formatExpenseDate('2026-10-14', today)).toBe('Wed, 14 Oct');
+      expect(formatExpenseDate('2025-12-25', today)).toBe('Thu, 25 Dec 2025');
+    });
+  });
+
+  test('should group expenses by date, newest first', () => {
+    const expenses = [
+      { id: 'a', date: '2026-10-17' },
+      { id: 'b', date: today },
+      { id: 'c', date: '2026-10-17' },
+      { id: 'd', date: '2026-09-30' },
+    ];
+
+    const sections = groupByDate(expenses, today);
+    expect(sections.map((s) => s.title)).toEqual(['Today', 'Yesterday', 'Wed, 30 Sep']);
+    expect(sections[1].data.map((e) => e.id)).toEqual(['a', 'c']);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Invitation Tests
+ * Tests for join codes, invite links and expiry
+ */
+
+import {
+  buildInviteLink,
+  describeExpiry,
+  formatJoinCode,
+  getInviteExpiry,
+  isInvitationExpired,
+  isValidEmail,
+  isValidJoinCode,
+  parseJoinCode,
+} from '../utils/invitations';
+
+const now = new Date('2024-03-01T12:00:00.000Z');
+
+describe('Invitations', () => {
+  describe('join codes', () => {
+    test('should accept codes from the join code alphabet', () => {
+      expect(isValidJoinCode('ABCDEFGH')).toBe(true);
+      expect(isValidJoinCode('ABCDEFG')).toBe(false);
+    });
+
+    test('should avoid ambiguous characters', () => {
+      expect(isValidJoinCode('ABCD0EFG')).toBe(false);
+      expect(isValidJoinCode('ABCDIEFG')).toBe(false);
+    });
+
+    test('should format codes in two halves', () => {
+      expect(formatJoinCode('ABCDEFGH')).toBe('ABCD-EFGH');
+    });
+  });
+
+  describe('parseJoinCode', () => {
+    test('should accept typed codes in any case', () => {
+      expect(parseJoinCode(' abcd-efgh ')).toBe('ABCDEFGH');
+    });
+
+    test('should read codes from invite links', () => {
+      expect(parseJoinCode(buildInviteLink('ABCDEFGH'))).toBe('ABCDEFGH');
+      expect(parseJoinCode('https://example.com/join/ABCD-EFGH?ref=share')).toBe('ABCDEFGH');
+    });
+
+    test('should reject anything else', () => {
+      expect(parseJoinCode('hello')).toBeNull();
+      expect(parseJoinCode('splityourbills://join/')).toBeNull();
+    });
+  });
+
+  describe('expiry', () => {
+    test('should expire after the chosen number of days', () => {
+      const expiresAt = getInviteExpiry(7, now);
+      expect(expiresAt).toBe('2024-03-08T12:00:00.000Z');
+      expect(isInvitationExpired(expiresAt, now)).toBe(false);
+      expect(isInvitationExpired(expiresAt, new Date('2024-03-08T12:00:00.000Z'))).toBe(true);
+    });
+
+    test('should reject out of range lifetimes', () => {
+      expect(() => getInviteExpiry(0, now)).toThrow();
+      expect(() => getInviteExpiry(31, now)).toThrow();
+    });
+
+    test('should describe time left', () => {
+      expect(describeExpiry('2024-03-04T12:00:00.000Z', now)).toBe('Expires in 3 days');
+      expect(describeExpiry('2024-03-01T13:00:00.000Z', now)).toBe('Expires in 1 hour');
+      expect(describeExpiry('2024-02-29T12:00:00.000Z', now)).toBe('Expired');
+    });
+  });
+
+  test('should validate email addresses', () => {
+    expect(isValidEmail('sam@example.com')).toBe(true);
+    expect(isValidEmail('sam@example')).toBe(false);
+  });
+});
@@ -0,0 +1,309 @@
+/**
+ * Ledger Tests
+ * Tests for balances, pairwise debts and the simplified payment plan
+ */
+
+import {
+  buildLedger,
+  calculateBalances,
+  calculatePairwiseBreakdown,
+  calculatePairwiseDebts,
+  simplifyDebts,
+  LedgerExpense,
+} from '../utils/ledger';
+
+// Trip to Goa: hotel (Alice), food (Bob), gas (Charlie), all split 3 ways
+const tripExpenses: LedgerExpense[] = [
+  {
+    id: '1',
+    amount: '300',
+    paid_by: 'alice',
+    payers: [{ user_id: 'alice', amount: '300' }],
+    splits: [
+      { user_id: 'alice', amount: '100' },
+      { user_id: 'bob', amount: '100' },
+      { user_id: 'charlie', amount: '100' },
+    ],
+  },
+  {
+    id: '2',
+    amount: '90',
+    paid_by: 'bob',
+    payers: [{ user_id: 'bob', amount: '90' }],
+    splits: [
+      { user_id: 'alice', amount: '30' },
+      { user_id: 'bob', amount: '30' },
+      { user_id: 'charlie', amount: '30' },
+    ],
+  },
+  {
+    id: '3',
+    amount: '60',
+    paid_by: 'charlie',
+    payers: [{ user_id: 'charlie', amount: '60' }],
+    splits: [
+      { user_id: 'alice', amount: '20' },
+      { user_id: 'bob', amount: '20' },
+      { user_id: 'charlie', amount: '20' },
+    ],
+  },
+];
+
+describe('Ledger', () => {
+  describe('calculateBalances', () => {
+    test('should net paid minus owed per user', () => {
+      const balances = calculateBalances(tripExpenses);
+
+      expect(balances.get('alice')).toBe(150);
+      expect(balances.get('bob')).toBe(-60);
+      expect(balances.get('charlie')).toBe(-90);
+    });
+
+    test('should honour multiple payers', () => {
+      const balances = calculateBalances([
+        {
+          id: '1',
+          amount: 300,
+          paid_by: 'alice',
+          payers: [
+            { user_id: 'alice', amount: 200 },
+            { user_id: 'bob', amount: 100 },
+          ],
+          splits: [
+            { user_id: 'alice', amount: 100 },
+            { user_id: 'bob', amount: 100 },
+            { user_id: 'charlie', amount: 100 },
+          ],
+        },
+      ]);
+
+      expect(balances.get('alice')).toBe(100);
+      expect(balances.get('bob')).toBe(0);
+      expect(balances.get('charlie')).toBe(-100);
+    });
+
+    test('should fall back to paid_by when payers are missing', () => {
+      const balances = calculateBalances([
+        {
+          id: '1',
+          amount: '50',
+          paid_by: 'alice',
+          splits: [
+            { user_id: 'alice', amount: '25' },
+            { user_id: 'bob', amount: '25' },
+          ],
+        },
+      ]);
+
+      expect(balances.get('alice')).toBe(25);
+      expect(balances.get('bob')).toBe(-25);
+    });
+
+    test('should convert with the stored exchange rate', () => {
+      const balances = calculateBalances([
+        {
+          id: '1',
+          amount: '10',
+          paid_by: 'alice',
+          exchange_rate: '90',
+          splits: [
+            { user_id: 'alice', amount: '5' },
+            { user_id: 'bob', amount: '5' },
+          ],
+        },
+      ]);
+
+      expect(balances.get('alice')).toBe(450);
+      expect(balances.get('bob')).toBe(-450);
+    });
+
+    test('should apply recorded settlements', () => {
+      const balances = calculateBalances(tripExpenses, [
+        { payer_id: 'bob', payee_id: 'alice', amount: '60' },
+      ]);
+
+      expect(balances.get('alice')).toBe(90);
+      expect(balances.get('bob')).toBe(0);
+      expect(balances.get('charlie')).toBe(-90);
+    });
+  });
+
+  describe('simplifyDebts', () => {
+    test('should produce minimal payments for the trip', () => {
+      const plan = simplifyDebts(calculateBalances(tripExpenses));
+
+      expect(plan).toEqual([
+        { payer_id: 'charlie', payee_id: 'alice', amount: 90 },
+        { payer_id: 'bob', payee_id: 'alice', amount: 60 },
+      ]);
+    });
+
+    test('should return no payments when everyone is even', () => {
+      const plan = simplifyDebts(
+        new Map([
+          ['alice', 0],
+          ['bob', 0.001],
+        ])
+      );
+
+      expect(plan).toHaveLength(0);
+    });
+  });
+
+  describe('calculatePairwiseDebts', () => {
+    test('should net debts in both directions', () => {
+      const debts = calculatePairwiseDebts(tripExpenses);
+
+      // Bob owes Alice 100, Alice owes Bob 30 -> Bob owes Alice 70
+      expect(debts).toContainEqual({ payer_id: 'bob', payee_id: 'alice', amount: 70 });
+      // Charlie owes Alice 100, Alice owes Charlie 20 -> 80
+      expect(debts).toContainEqual({ payer_id: 'charlie', payee_id: 'alice', amount: 80 });
+      // Charlie owes Bob 30, Bob owes Charlie 20 -> 10
+      expect(debts).toContainEqual({ payer_id: 'charlie', payee_id: 'bob', amount: 10 });
+      expect(debts).toHaveLength(3);
+    });
+
+    test('should split debts proportionally between payers', () => {
+      const debts = calculatePairwiseDebts([
+        {
+          id: '1',
+          amount: 90,
+          payers: [
+            { user_id: 'alice', amount: 60 },
+            { user_id: 'bob', amount: 30 },
+          ],
+          splits: [{ user_id: 'charlie', amount: 90 }],
+        },
+      ]);
+
+      expect(debts).toEqual([
+        { payer_id: 'charlie', payee_id: 'alice', amount: 60 },
+        { payer_id: 'charlie', payee_id: 'bob', amount: 30 },
+      ]);
+    });
+
+    test('should reduce a debt by recorded settlements', () => {
+      const debts = calculatePairwiseDebts(tripExpenses, [
+        { payer_id: 'bob', payee_id: 'alice', amount: 70 },
+      ]);
+
+      expect(debts.some((d) => d.payer_id === 'bob' && d.payee_id === 'alice')).toBe(false);
+    });
+  });
+
+  describe('calculatePairwiseBreakdown', () => {
+    test('should list the expenses behind each debt', () => {
+      const debts = calculatePairwiseBreakdown(tripExpenses);
+      const bobToAlice = debts.find((d) => d.payer_id === 'bob' && d.payee_id === 'alice');
+
+      // Bob's share of the hotel, less Alice's share of the food he paid for
+      expect(bobToAlice?.amount).toBe(70);
+      expect(bobToAlice?.contributions).toEqual([
+        { source: 'expense', id: '1', amount: 100 },
+        { source: 'expense', id: '2', amount: -30 },
+      ]);
+    });
+
+    test('should match the debts from calculatePairwiseDebts', () => {
+      const settlements = [{ id: 's1', payer_id: 'charlie', payee_id: 'alice', amount: 25 }];
+      const breakdown = calculatePairwiseBreakdown(tripExpenses, settlements);
+
+      expect(breakdown.map(({ payer_id, payee_id, amount }) => ({ payer_id, payee_id, amount }))).toEqual(
+        calculatePairwiseDebts(tripExpenses, settlements)
+      );
+    });
+
+    test('should add up the contributions to each debt', () => {
+      const debts = calculatePairwiseBreakdown(
+        [
+          {
+            id: 'dinner',
+            amount: 100,
+            payers: [
+              { user_id: 'alice', amount: 66.67 },
+              { user_id: 'bob', amount: 33.33 },
+            ],
+            splits: [
+              { user_id: 'alice', amount: 33.34 },
+              { user_id: 'bob', amount: 33.33 },
+              { user_id: 'charlie', amount: 33.33 },
+            ],
+          },
+          ...tripExpenses,
+        ],
+        [{ payer_id: 'charlie', payee_id: 'bob', amount: 5 }]
+      );
+
+      for (const debt of debts) {
+        const total = debt.contributions.reduce((sum, c) => sum + Math.round(c.amount * 100), 0);
+        expect(total).toBe(Math.round(debt.amount * 100));
+      }
+    });
+
+    test('should list payments made towards a debt', () => {
+      const debts = calculatePairwiseBreakdown(tripExpenses, [
+        { id: 's1', payer_id: 'charlie', payee_id: 'alice', amount: 30 },
+      ]);
+      const charlieToAlice = debts.find((d) => d.payer_id === 'charlie' && d.payee_id === 'alice');
+
+      expect(charlieToAlice?.amount).toBe(50);
+      expect(charlieToAlice?.contributions).toContainEqual({ source: 'settlement', id: 's1', amount: -30 });
+    });
+
+    test('should ignore payer rows with a negative amount', () => {
+      const debts = calculatePairwiseBreakdown([
+        {
+          id: '1',
+          amount: 90,
+          payers: [
+            { user_id: 'alice', amount: 100 },
+            { user_id: 'bob', amount: -10 },
+          ],
+          splits: [{ user_id: 'charlie', amount: 90 }],
+        },
+      ]);
+
+      expect(debts.map(({ payer_id, payee_id, amount }) => ({ payer_id, payee_id, amount }))).toEqual([
+        { payer_id: 'charlie', payee_id: 'alice', amount: 90 },
+      ]);
+    });
+
+    test('should leave out pairs that are settled up', () => {
+      const debts = calculatePairwiseBreakdown(tripExpenses, [
+        { id: 's1', payer_id: 'bob', payee_id: 'alice', amount: 70 },
+      ]);
+
+      expect(debts.some((d) => [d.payer_id, d.payee_id].sort().join() === 'alice,bob')).toBe(false);
+      expect(debts).toHaveLength(2);
+    });
+  });
+
+  describe('buildLedger', () => {
+    test('should keep balances, debts and plan consistent', () => {
+      const ledger = buildLedger(tripExpenses);
+
+      const balanceTotal = ledger.balances.reduce((sum, b) => sum + b.balance, 0);
+      expect(balanceTotal).toBe(0);
+
+      // Every member's pairwise and simplified positions agree with their balance
+      for (const { user_id, balance } of ledger.balances) {
+        const net = (payments: typeof ledger.plan) =>
+          payments.reduce(
+            (sum, p) =>
+              sum + (p.payee_id === user_id ? p.amount : 0) - (p.payer_id === user_id ? p.amount : 0),
+            0
+          );
+        expect(net(ledger.plan)).toBeCloseTo(balance);
+        expect(net(ledger.debts)).toBeCloseTo(balance);
+      }
+    });
+
+    test('should return empty results for an empty group', () => {
+      const ledger = buildLedger([]);
+
+      expect(ledger.balances).toHaveLength(0);
+      expect(ledger.debts).toHaveLength(0);
+      expect(ledger.plan).toHaveLength(0);
+    });
+  });
+});
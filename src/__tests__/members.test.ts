@@ -0,0 +1,93 @@
+/**
+ * Member Tests
+ * Tests for member display names, guest name rules and balance checks
+ */
+
+import {
+  buildMemberLabels,
+  describeOutstandingBalance,
+  getMemberLabel,
+  getMemberName,
+  getOutstandingBalance,
+  validateGuestName,
+} from '../utils/members';
+
+const members = [
+  { id: 'u1', email: 'alice@example.com', name: 'Alice' },
+  { id: 'u2', email: 'bob@example.com', name: '' },
+  { id: 'g1', email: null, name: 'Sam', is_guest: true },
+];
+
+describe('Members', () => {
+  describe('display names', () => {
+    test('should prefer the name and fall back to the email', () => {
+      expect(getMemberName(members[0])).toBe('Alice');
+      expect(getMemberName(members[1])).toBe('bob@example.com');
+    });
+
+    test('should mark guests', () => {
+      expect(getMemberLabel(members[2])).toBe('Sam (guest)');
+      expect(getMemberLabel(members[0])).toBe('Alice');
+    });
+
+    test('should map every member to a label', () => {
+      expect(buildMemberLabels(members)).toEqual({
+        u1: 'Alice',
+        u2: 'bob@example.com',
+        g1: 'Sam (guest)',
+      });
+    });
+  });
+
+  describe('validateGuestName', () => {
+    test('should accept a new name', () => {
+      expect(validateGuestName('  Priya ', members)).toBeNull();
+    });
+
+    test('should require a name', () => {
+      expect(validateGuestName('   ', members)).toBe('Guest name is required');
+    });
+
+    test('should reject long names', () => {
+      expect(validateGuestName('x'.repeat(41), members)).toBe('Guest name must be 40 characters or less');
+    });
+
+    test('should reject names already in the group, ignoring case', () => {
+      expect(validateGuestName('sam', members)).toBe('Someone called sam is already in this group');
+      expect(validateGuestName('ALICE', members)).toBe('Someone called ALICE is already in this group');
+    });
+  });
+
+  describe('getOutstandingBalance', () => {
+    const plan = [
+      { payer_id: 'u2', payee_id: 'u1', amount: 100.1 },
+      { payer_id: 'g1', payee_id: 'u1', amount: 50.2 },
+    ];
+
+    test('should add up what a member is owed', () => {
+      const { balance, payments } = getOutstandingBalance(plan, 'u1');
+      expect(balance).toBe(150.3);
+      expect(payments).toHaveLength(2);
+    });
+
+    test('should be negative for a member who owes', () => {
+      expect(getOutstandingBalance(plan, 'g1').balance).toBe(-50.2);
+    });
+
+    test('should be zero for a settled member', () => {
+      expect(getOutstandingBalance(plan, 'u3')).toEqual({ balance: 0, payments: [] });
+    });
+  });
+
+  describe('describeOutstandingBalance', () => {
+    test('should speak to the current user', () => {
+      expect(describeOutstandingBalance('You', -120, 'INR')).toBe('You still owe ₹120.00');
+      expect(describeOutstandingBalance('You', 45.5, 'INR')).toBe('You are still owed ₹45.50');
+    });
+
+    test('should name other members', () => {
+      expect(describeOutstandingBalance('Sam', -10, 'USD')).toBe('Sam still owes $10.00');
+      expect(describeOutstandingBalance('Sam', 10, 'USD')).toBe('Sam is still owed $10.00');
+    });
+  });
+});
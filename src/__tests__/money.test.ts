@@ -0,0 +1,127 @@
+/**
+ * Money Tests
+ * Tests for minor-unit conversion, arithmetic and allocation
+ */
+
+import {
+  addMoney,
+  allocateEvenly,
+  allocateMinorUnits,
+  equalsMoney,
+  formatMoney,
+  fromMinorUnits,
+  money,
+  multiplyMoney,
+  subtractMoney,
+  sumMoney,
+  toMajorUnits,
+  toMinorUnits,
+} from '../utils/money';
+import { distributeEvenly, isEqualSplit, validateSplits } from '../validators/splitValidator';
+
+describe('Money', () => {
+  describe('toMinorUnits', () => {
+    test('should convert numbers and decimal strings', () => {
+      expect(toMinorUnits(12.34)).toBe(1234);
+      expect(toMinorUnits('12.34')).toBe(1234);
+      expect(toMinorUnits('100')).toBe(10000);
+      expect(toMinorUnits('.5')).toBe(50);
+    });
+
+    test('should round half away from zero without float error', () => {
+      expect(toMinorUnits(1.005)).toBe(101);
+      expect(toMinorUnits('12.345')).toBe(1235);
+      expect(toMinorUnits(-1.005)).toBe(-101);
+      expect(toMinorUnits(0.1 + 0.2)).toBe(30);
+    });
+
+    test('should return NaN for invalid input', () => {
+      expect(toMinorUnits('abc')).toBeNaN();
+    });
+
+    test('should round-trip through major units', () => {
+      expect(toMajorUnits(toMinorUnits(99.99))).toBe(99.99);
+    });
+  });
+
+  describe('arithmetic', () => {
+    test('should add and subtract exactly', () => {
+      const total = addMoney(money(0.1), money(0.2));
+      expect(total.minor).toBe(30);
+      expect(subtractMoney(total, money(0.3)).minor).toBe(0);
+    });
+
+    test('should sum a list of values', () => {
+      const values = Array.from({ length: 10 }, () => money('0.1'));
+      expect(equalsMoney(sumMoney(values), money(1))).toBe(true);
+    });
+
+    test('should reject mixing currencies', () => {
+      expect(() => addMoney(money(1, 'USD'), money(1, 'INR'))).toThrow('Currency mismatch');
+    });
+
+    test('should multiply by an exchange rate and round', () => {
+      const converted = multiplyMoney(money(10, 'USD'), 83.2, 'INR');
+      expect(converted).toEqual({ minor: 83200, currency: 'INR' });
+    });
+
+    test('should reject fractional minor units', () => {
+      expect(() => fromMinorUnits(1.5)).toThrow();
+    });
+
+    test('should format with the currency symbol', () => {
+      expect(formatMoney(money(1234.5, 'USD'))).toBe('$1234.50');
+    });
+  });
+
+  describe('allocateMinorUnits', () => {
+    test('should split evenly with remainder to earlier parts', () => {
+      expect(allocateMinorUnits(1000, [1, 1, 1])).toEqual([334, 333, 333]);
+    });
+
+    test('should split by ratio and always sum to the total', () => {
+      const parts = allocateMinorUnits(10001, [3, 2, 1]);
+      expect(parts.reduce((sum, p) => sum + p, 0)).toBe(10001);
+      expect(parts).toEqual([5000, 3334, 1667]);
+    });
+
+    test('should never give units to zero-weight parts', () => {
+      expect(allocateMinorUnits(5, [0, 1, 1])).toEqual([0, 3, 2]);
+    });
+
+    test('should handle negative totals', () => {
+      expect(allocateMinorUnits(-100, [1, 1, 1])).toEqual([-34, -33, -33]);
+    });
+
+    test('should reject invalid ratios', () => {
+      expect(() => allocateMinorUnits(100, [0, 0])).toThrow();
+      expect(() => allocateMinorUnits(100, [1, -1])).toThrow();
+    });
+
+    test('should allocate Money values evenly', () => {
+      const parts = allocateEvenly(money(100), 3);
+      expect(parts.map((p) => p.minor)).toEqual([3334, 3333, 3333]);
+    });
+  });
+
+  describe('split helpers', () => {
+    test('should distribute 100 across three people exactly', () => {
+      const splits = distributeEvenly(['a', 'b', 'c'], 100);
+      expect(splits.map((s) => s.amount)).toEqual([33.34, 33.33, 33.33]);
+      expect(validateSplits(splits, 100)).toHaveLength(0);
+    });
+
+    test('should reject splits that are off by one paisa', () => {
+      const splits = [
+        { user_id: 'a', amount: 33.33 },
+        { user_id: 'b', amount: 33.33 },
+        { user_id: 'c', amount: 33.33 },
+      ];
+      expect(validateSplits(splits, 100).length).toBeGreaterThan(0);
+    });
+
+    test('should treat remainder-adjusted splits as equal', () => {
+      expect(isEqualSplit(distributeEvenly(['a', 'b', 'c'], 100), 100)).toBe(true);
+    });
+  });
+});
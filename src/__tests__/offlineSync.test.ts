@@ -0,0 +1,264 @@
+/**
+ * Offline Sync Tests
+ * Tests for the local cache, the outbox and replaying queued changes,
+ * run against the in-memory store
+ */
+
+import {
+  applyOutbox,
+  createMemoryStore,
+  detectConflict,
+  enqueue,
+  generateUuid,
+  getOutbox,
+  isOfflineError,
+  OutboxEntry,
+  readCache,
+  replayOutbox,
+  ServerVersion,
+  SyncHandlers,
+  updateOutboxEntry,
+  writeCache,
+} from '../utils/offlineSync';
+import { createError, ErrorCode } from '../utils/errorHandler';
+
+const NOW = new Date('2025-10-18T09:00:00Z');
+const BASE = '2025-10-17T10:00:00';
+
+function sequentialIds(): () => string {
+  let next = 0;
+  return () => `q${++next}`;
+}
+
+function handlers(
+  versions: Record<string, ServerVersion | null> = {},
+  fail: (entry: OutboxEntry) => Error | null = () => null
+): SyncHandlers & { sent: string[] } {
+  const sent: string[] = [];
+  const run = async (entry: OutboxEntry) => {
+    const error = fail(entry);
+    if (error) throw error;
+    sent.push(entry.id);
+  };
+  return {
+    sent,
+    run: { create_expense: run, update_expense: run, delete_expense: run, record_settlement: run },
+    getServerVersion: async (id) => (id in versions ? versions[id] : { updated_at: BASE, deleted_at: null }),
+    retry: (fn) => fn(),
+  };
+}
+
+const createDinner = {
+  action: 'create_expense' as const,
+  group_id: 'g1',
+  label: 'Dinner',
+  payload: {
+    expense: {
+      groupId: 'g1',
+      description: 'Dinner',
+      amount: 900,
+      currency: 'INR' as const,
+      date: '2025-10-18',
+      payers: [{ userId: 'u1', amount: 900 }],
+      splits: [{ userId: 'u1', amount: 900 }],
+    },
+    receipt: null,
+  },
+};
+
+const editTaxi = {
+  action: 'update_expense' as const,
+  group_id: 'g1',
+  label: 'Taxi',
+  expense_id: 'e1',
+  base_updated_at: BASE,
+  payload: { data: { description: 'Airport taxi', amount: 450 } },
+};
+
+describe('Offline Sync', () => {
+  test('should cache data with the time it was saved', async () => {
+    const store = createMemoryStore();
+    expect(await readCache(store, 'groups:u1')).toBeNull();
+
+    await writeCache(store, 'groups:u1', [{ id: 'g1' }], NOW);
+    expect(await readCache(store, 'groups:u1')).toEqual({ data: [{ id: 'g1' }], saved_at: NOW.toISOString() });
+  });
+
+  test('should queue changes in order as pending', async () => {
+    const store = createMemoryStore();
+    const ids = sequentialIds();
+    await enqueue(store, createDinner, NOW, ids);
+    await enqueue(store, editTaxi, NOW, ids);
+
+    const outbox = await getOutbox(store);
+    expect(outbox.map((e) => [e.id, e.action, e.status])).toEqual([
+      ['q1', 'create_expense', 'pending'],
+      ['q2', 'update_expense', 'pending'],
+    ]);
+    expect(outbox[0].expense_id).toBeNull();
+  });
+
+  test('should generate random version 4 UUIDs', () => {
+    const ids = Array.from({ length: 20 }, generateUuid);
+    ids.forEach((id) => expect(id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/));
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+    test('should tell offline errors from refusals', () => {
+    expect(isOfflineError(new Error('TypeError: Network request failed'))).toBe(true);
+    expect(isOfflineError(new Error('Failed to fetch expense: TypeError: Failed to fetch'))).toBe(true);
+    expect(isOfflineError(new Error('Failed to fetch expense: JWT expired'))).toBe(false);
+    expect(isOfflineError(createError(ErrorCode.NETWORK_ERROR, 'Network error'))).toBe(true);
+    expect(isOfflineError(createError(ErrorCode.PERMISSION_DENIED, 'Only the payer can edit'))).toBe(false);
+  });
+
+  describe('detectConflict', () => {
+    const entry = { ...editTaxi, id: 'q1', created_at: '', status: 'pending', error: null, force: false } as OutboxEntry;
+
+    test('should allow changes to an unchanged expense', () => {
+      expect(detectConflict(entry, { updated_at: BASE, deleted_at: null })).toBeNull();
+    });
+
+    test('should flag expenses changed or removed on the server', () => {
+      expect(detectConflict(entry, { updated_at: '2025-10-18T08:00:00', deleted_at: null })).toContain('changed');
+      expect(detectConflict(entry, { updated_at: BASE, deleted_at: '2025-10-18T08:00:00Z' })).toContain('deleted');
+      expect(detectConflict(entry, null)).toContain('no longer exists');
+    });
+  });
+
+  describe('replayOutbox', () => {
+    test('should send pending changes in order and empty the outbox', async () => {
+      const store = createMemoryStore();
+      const ids = sequentialIds();
+      await enqueue(store, createDinner, NOW, ids);
+      await enqueue(store, editTaxi, NOW, ids);
+      const sync = handlers();
+
+      const result = await replayOutbox(store, sync);
+
+      expect(sync.sent).toEqual(['q1', 'q2']);
+      expect(result).toEqual({ synced: 2, conflicts: 0, failed: 0, remaining: 0, offline: false });
+      expect(await getOutbox(store)).toEqual([]);
+    });
+
+    test('should hold back edits to expenses changed on the server', async () => {
+      const store = createMemoryStore();
+      await enqueue(store, editTaxi, NOW, sequentialIds());
+      const sync = handlers({ e1: { updated_at: '2025-10-18T08:00:00', deleted_at: null } });
+
+      const result = await replayOutbox(store, sync);
+
+      expect(sync.sent).toEqual([]);
+      expect(result.conflicts).toBe(1);
+      const [entry] = await getOutbox(store);
+      expect(entry.status).toBe('conflict');
+      expect(entry.error).toBe('Someone else changed this expense while you were offline');
+    });
+
+    test('should apply a conflicting change once the user forces it', async () => {
+      const store = createMemoryStore();
+      const entry = await enqueue(store, editTaxi, NOW, sequentialIds());
+      const sync = handlers({ e1: { updated_at: '2025-10-18T08:00:00', deleted_at: null } });
+      await replayOutbox(store, sync);
+
+      await updateOutboxEntry(store, entry.id, { status: 'pending', error: null, force: true });
+      const result = await replayOutbox(store, sync);
+
+      expect(sync.sent).toEqual([entry.id]);
+      expect(result.remaining).toBe(0);
+    });
+
+    test('should treat deleting an already deleted expense as done', async () => {
+      const store = createMemoryStore();
+      await enqueue(store, { ...editTaxi, action: 'delete_expense', payload: { user_id: 'u1' } }, NOW, sequentialIds());
+      const sync = handlers({ e1: { updated_at: BASE, deleted_at: '2025-10-18T08:00:00Z' } });
+
+      expect(await replayOutbox(store, sync)).toMatchObject({ synced: 1, remaining: 0 });
+      expect(sync.sent).toEqual([]);
+    });
+
+    test('should treat an edit the server already has as done', async () => {
+      const store = createMemoryStore();
+      await enqueue(store, { ...editTaxi, payload: { ...editTaxi.payload, change_id: 'c1' } }, NOW, sequentialIds());
+      // The edit was saved but its response never arrived
+      const sync = handlers({ e1: { updated_at: '2025-10-18T08:00:00', deleted_at: null, last_change_id: 'c1' } });
+
+      expect(await replayOutbox(store, sync)).toMatchObject({ synced: 1, conflicts: 0, remaining: 0 });
+      expect(sync.sent).toEqual([]);
+    });
+
+    test('should stop and keep the rest queued when the connection drops', async () => {
+      const store = createMemoryStore();
+      const ids = sequentialIds();
+      await enqueue(store, createDinner, NOW, ids);
+      await enqueue(store, { ...createDinner, label: 'Lunch' }, NOW, ids);
+      await enqueue(store, { ...createDinner, label: 'Coffee' }, NOW, ids);
+      const sync = handlers({}, (entry) => (entry.id === 'q2' ? new Error('Network request failed') : null));
+
+      const result = await replayOutbox(store, sync);
+
+      expect(sync.sent).toEqual(['q1']);
+      expect(result).toEqual({ synced: 1, conflicts: 0, failed: 0, remaining: 2, offline: true });
+      expect((await getOutbox(store)).map((e) => e.status)).toEqual(['pending', 'pending']);
+    });
+
+    test('should mark changes the server refuses as failed and carry on', async () => {
+      const store = createMemoryStore();
+      const ids = sequentialIds();
+      await enqueue(store, createDinner, NOW, ids);
+      await enqueue(store, { ...createDinner, label: 'Lunch' }, NOW, ids);
+      const sync = handlers({}, (entry) =>
+        entry.id === 'q1' ? (createError(ErrorCode.PERMISSION_DENIED, 'Viewers cannot add expenses') as any) : null
+      );
+
+      const result = await replayOutbox(store, sync);
+
+      expect(result).toMatchObject({ synced: 1, failed: 1, remaining: 1 });
+      const [entry] = await getOutbox(store);
+      expect([entry.id, entry.status, entry.error]).toEqual(['q1', 'failed', 'Viewers cannot add expenses']);
+    });
+  });
+
+  test('should show queued changes in the expense list', async () => {
+    const store = createMemoryStore();
+    const ids = sequentialIds();
+    await enqueue(store, createDinner, NOW, ids);
+    await enqueue(store, editTaxi, NOW, ids);
+    await enqueue(store, { ...editTaxi, action: 'delete_expense', expense_id: 'e2', payload: { user_id: 'u1' } }, NOW, ids);
+    await enqueue(store, { ...createDinner, group_id: 'g2' }, NOW, ids);
+
+    const expenses = [
+      { id: 'e1', description: 'Taxi', amount: 400 },
+      { id: 'e2', description: 'Snacks', amount: 120 },
+      { id: 'e3', description: 'Hotel', amount: 6000 },
+    ];
+    const shown = applyOutbox(expenses, await getOutbox(store), 'g1');
+
+    expect(shown.map((e: any) => [e.id, e.description, e.amount, e.pending])).toEqual([
+      ['q1', 'Dinner', 900, 'pending'],
+      ['e1', 'Airport taxi', 450, 'pending'],
+      ['e3', 'Hotel', 6000, undefined],
+    ]);
+  });
+
+  test('should show edits and deletes of queued new expenses', async () => {
+    const store = createMemoryStore();
+    const ids = sequentialIds();
+    const dinner = { ...createDinner.payload.expense, expenseId: 'x1' };
+    await enqueue(store, { ...createDinner, payload: { expense: dinner, receipt: null } }, NOW, ids);
+    await enqueue(store, { ...editTaxi, expense_id: 'x1', base_updated_at: null }, NOW, ids);
+    await enqueue(
+      store,
+      { ...createDinner, label: 'Lunch', payload: { expense: { ...dinner, expenseId: 'x2' }, receipt: null } },
+      NOW,
+      ids
+    );
+    await enqueue(store, { ...editTaxi, action: 'delete_expense', expense_id: 'x2', payload: { user_id: 'u1' } }, NOW, ids);
+
+    const shown = applyOutbox([], await getOutbox(store), 'g1');
+
+    expect(shown.map((e: any) => [e.id, e.description, e.amount, e.pending])).toEqual([
+      ['x1', 'Airport taxi', 450, 'pending'],
+    ]);
+  });
+});
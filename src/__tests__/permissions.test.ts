@@ -0,0 +1,86 @@
+/**
+ * Permission Tests
+ * Tests for group roles and what each role may do
+ */
+
+import {
+  can,
+  canModifyExpense,
+  canRemoveMember,
+  getAssignableRoles,
+  isGroupRole,
+} from '../utils/permissions';
+
+describe('Permissions', () => {
+  describe('can', () => {
+    test('should let owners do everything', () => {
+      expect(can('owner', 'archive_group')).toBe(true);
+      expect(can('owner', 'manage_roles')).toBe(true);
+    });
+
+    test('should let admins enter expenses for others but not archive', () => {
+      expect(can('admin', 'add_expense_for_others')).toBe(true);
+      expect(can('admin', 'archive_group')).toBe(false);
+    });
+
+    test('should limit members to their own expenses', () => {
+      expect(can('member', 'add_expense')).toBe(true);
+      expect(can('member', 'add_expense_for_others')).toBe(false);
+      expect(can('member', 'remove_members')).toBe(false);
+    });
+
+    test('should make viewers read only', () => {
+      expect(can('viewer', 'add_expense')).toBe(false);
+      expect(can('viewer', 'record_settlement')).toBe(false);
+    });
+
+    test('should deny non-members', () => {
+      expect(can(null, 'add_expense')).toBe(false);
+      expect(can(undefined, 'add_expense')).toBe(false);
+    });
+  });
+
+  describe('canModifyExpense', () => {
+    test('should let members edit expenses they paid', () => {
+      expect(canModifyExpense('member', 'u1', 'u1')).toBe(true);
+      expect(canModifyExpense('member', 'u1', 'u2')).toBe(false);
+    });
+
+    test('should let admins and owners edit any expense', () => {
+      expect(canModifyExpense('admin', 'u1', 'u2')).toBe(true);
+      expect(canModifyExpense('owner', 'u1', 'u2')).toBe(true);
+    });
+
+    test('should not let viewers edit even their own expense', () => {
+      expect(canModifyExpense('viewer', 'u1', 'u1')).toBe(false);
+    });
+  });
+
+  describe('managing members', () => {
+    test('should let admins remove members and viewers only', () => {
+      expect(canRemoveMember('admin', 'member')).toBe(true);
+      expect(canRemoveMember('admin', 'viewer')).toBe(true);
+      expect(canRemoveMember('admin', 'admin')).toBe(false);
+      expect(canRemoveMember('owner', 'admin')).toBe(true);
+      expect(canRemoveMember('member', 'viewer')).toBe(false);
+    });
+
+    test('should offer owners every role', () => {
+      expect(getAssignableRoles('owner', 'member', false)).toEqual(['owner', 'admin', 'member', 'viewer']);
+    });
+
+    test('should let admins switch between member and viewer', () => {
+      expect(getAssignableRoles('admin', 'viewer', false)).toEqual(['member', 'viewer']);
+      expect(getAssignableRoles('admin', 'owner', false)).toEqual([]);
+    });
+
+    test('should not let anyone change their own role', () => {
+      expect(getAssignableRoles('owner', 'owner', true)).toEqual([]);
+    });
+  });
+
+  test('should recognise role names', () => {
+    expect(isGroupRole('admin')).toBe(true);
+    expect(isGroupRole('treasurer')).toBe(false);
+  });
+});
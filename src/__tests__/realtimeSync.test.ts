@@ -0,0 +1,230 @@
+/**
+ * Realtime Sync Tests
+ * Tests for applying streamed row changes to an open group
+ */
+
+import {
+  applyChange,
+  applyChanges,
+  attachProfiles,
+  createRealtimeState,
+  GroupSnapshot,
+  RealtimeChange,
+  snapshotLedger,
+  SnapshotMember,
+  upsertExpense,
+} from '../utils/realtimeSync';
+import { GroupRole } from '../utils/permissions';
+import { Tables } from '../types/database';
+
+const GROUP = 'g1';
+
+const CREATED = '2025-10-17T20:00:00';
+
+function share(id: string, expenseId: string, userId: string, amount: number) {
+  return { id, expense_id: expenseId, user_id: userId, amount, split_value: null, created_at: CREATED };
+}
+
+function member(id: string, userId: string, name: string, role: GroupRole): SnapshotMember {
+  return {
+    id,
+    group_id: GROUP,
+    user_id: userId,
+    role,
+    joined_at: CREATED,
+    users: profile(userId, name),
+  };
+}
+
+function profile(id: string, name: string): Tables<'users'> {
+  return {
+    id,
+    name,
+    email: `${id}@example.com`,
+    avatar_url: null,
+    is_guest: false,
+    guest_group_id: null,
+    claimed_by: null,
+    created_at: CREATED,
+    updated_at: CREATED,
+  };
+}
+
+// Dinner (Alice paid 90, split with Bob)
+function snapshot(): GroupSnapshot {
+  return {
+    expenses: [
+      {
+        id: 'e1',
+        group_id: GROUP,
+        description: 'Dinner',
+        amount: 90,
+        paid_by: 'alice',
+        date: '2025-10-17',
+        currency: 'INR',
+        exchange_rate: 1,
+        split_type: 'equal',
+        category: null,
+        notes: null,
+        recurring_expense_id: null,
+        occurrence_date: null,
+        deleted_at: null,
+        deleted_by: null,
+        last_change_id: null,
+        created_at: CREATED,
+        updated_at: CREATED,
+        splits: [share('s1', 'e1', 'alice', 45), share('s2', 'e1', 'bob', 45)],
+        payers: [share('p1', 'e1', 'alice', 90)],
+      },
+    ],
+    members: [member('m1', 'alice', 'Alice', 'owner'), member('m2', 'bob', 'Bob', 'member')],
+    settlements: [],
+    legacy_payments: [],
+  };
+}
+
+function change(
+  table: RealtimeChange['table'],
+  eventType: RealtimeChange['eventType'],
+  row: Record<string, any>,
+  at: string
+): RealtimeChange {
+  return {
+    table,
+    eventType,
+    new: eventType === 'DELETE' ? {} : row,
+    old: eventType === 'DELETE' ? { id: row.id } : {},
+    commit_timestamp: at,
+  };
+}
+
+// Bob pays Alice back for dinner
+const payment = { id: 't1', group_id: GROUP, payer_id: 'bob', payee_id: 'alice', amount: '45', status: 'completed' };
+
+const taxi = {
+  id: 'e2',
+  group_id: GROUP,
+  description: 'Taxi',
+  amount: '30',
+  paid_by: 'bob',
+  date: '2025-10-18',
+  created_at: '2025-10-18T09:00:00',
+};
+
+// Adding the taxi: the expense row, then its split and payer rows
+const addTaxi = [
+  change('expenses', 'INSERT', taxi, '2025-10-18T09:00:00.100Z'),
+  change('splits', 'INSERT', { id: 's3', expense_id: 'e2', user_id: 'alice', amount: '15' }, '2025-10-18T09:00:00.100Z'),
+  change('splits', 'INSERT', { id: 's4', expense_id: 'e2', user_id: 'bob', amount: '15' }, '2025-10-18T09:00:00.100Z'),
+  change('expense_payers', 'INSERT', { id: 'p2', expense_id: 'e2', user_id: 'bob', amount: '30' }, '2025-10-18T09:00:00.100Z'),
+];
+
+function balanceOf(s: GroupSnapshot, userId: string): number | undefined {
+  return snapshotLedger(s).balances.find((b) => b.user_id === userId)?.balance;
+}
+
+describe('Realtime Sync', () => {
+  test('should add a new expense with its splits and payers, newest first', () => {
+    const { state } = applyChanges(createRealtimeState(snapshot()), addTaxi, GROUP);
+
+    expect(state.snapshot.expenses.map((e) => e.id)).toEqual(['e2', 'e1']);
+    expect(state.snapshot.expenses[0].splits).toHaveLength(2);
+    expect(balanceOf(state.snapshot, 'alice')).toBe(30); // 45 owed to her - 15 she owes
+    expect(balanceOf(state.snapshot, 'bob')).toBe(-30);
+  });
+
+  test('should ignore events delivered twice', () => {
+    const once = applyChanges(createRealtimeState(snapshot()), addTaxi, GROUP).state;
+    const twice = applyChanges(once, addTaxi, GROUP).state;
+
+    expect(twice.snapshot).toEqual(once.snapshot);
+    expect(twice.snapshot.expenses[0].splits).toHaveLength(2);
+  });
+
+  test('should drop changes older than one already applied', () => {
+    const dinner = snapshot().expenses[0];
+    const renamed = change('expenses', 'UPDATE', { ...dinner, description: 'Late dinner' }, '2025-10-18T10:00:00Z');
+    const stale = change('expenses', 'UPDATE', { ...dinner, description: 'Dinner' }, '2025-10-18T09:30:00Z');
+
+    const { state } = applyChanges(createRealtimeState(snapshot()), [renamed, stale], GROUP);
+
+    expect(state.snapshot.expenses[0].description).toBe('Late dinner');
+  });
+
+  test('should keep splits and payers when the expense row is updated', () => {
+    const { splits, payers, ...row } = snapshot().expenses[0];
+    const edited = change('expenses', 'UPDATE', { ...row, description: 'Team dinner' }, '2025-10-18T10:00:00Z');
+    const { state } = applyChange(createRealtimeState(snapshot()), edited, GROUP);
+
+    expect(state.snapshot.expenses[0].description).toBe('Team dinner');
+    expect(state.snapshot.expenses[0].splits.map((s) => s.id)).toEqual(['s1', 's2']);
+    expect(state.snapshot.expenses[0].payers).toHaveLength(1);
+  });
+
+  test('should replace splits when an expense is re-split', () => {
+    // Editing an expense deletes its splits (only the id is sent) and inserts new ones
+    const { state } = applyChanges(
+      createRealtimeState(snapshot()),
+      [
+        change('splits', 'DELETE', { id: 's1' }, '2025-10-18T10:00:00Z'),
+        change('splits', 'DELETE', { id: 's2' }, '2025-10-18T10:00:00Z'),
+        change('splits', 'INSERT', { id: 's5', expense_id: 'e1', user_id: 'bob', amount: '90' }, '2025-10-18T10:00:00Z'),
+      ],
+      GROUP
+    );
+
+    expect(state.snapshot.expenses[0].splits.map((s) => s.id)).toEqual(['s5']);
+    expect(balanceOf(state.snapshot, 'bob')).toBe(-90);
+  });
+
+  test('should remove soft-deleted expenses and ask for restored ones', () => {
+    const dinner = { ...taxi, id: 'e1' };
+    const deleted = change('expenses', 'UPDATE', { ...dinner, deleted_at: '2025-10-18T10:00Z' }, '2025-10-18T10:00:00Z');
+    const afterDelete = applyChange(createRealtimeState(snapshot()), deleted, GROUP);
+    expect(afterDelete.state.snapshot.expenses).toEqual([]);
+
+    const restored = change('expenses', 'UPDATE', { ...dinner, deleted_at: null }, '2025-10-18T10:05:00Z');
+    const afterRestore = applyChange(afterDelete.state, restored, GROUP);
+    expect(afterRestore.missing.expenses).toEqual(['e1']);
+
+    const reloaded = upsertExpense(afterRestore.state, snapshot().expenses[0]);
+    expect(balanceOf(reloaded.snapshot, 'bob')).toBe(-45);
+  });
+
+  test('should ignore rows from other groups', () => {
+    const otherGroup = [
+      change('expenses', 'INSERT', { ...taxi, id: 'x1', group_id: 'g2' }, '2025-10-18T09:00:00Z'),
+      change('splits', 'INSERT', { id: 'x2', expense_id: 'x1', user_id: 'bob', amount: '30' }, '2025-10-18T09:00:00Z'),
+      change('settlement_transactions', 'INSERT', { ...payment, group_id: 'g2' }, '2025-10-18T09:00:00Z'),
+    ];
+    const { state } = applyChanges(createRealtimeState(snapshot()), otherGroup, GROUP);
+
+    expect(state.snapshot).toEqual(snapshot());
+  });
+
+  test('should settle balances from recorded payments', () => {
+    const paid = change('settlement_transactions', 'INSERT', payment, '2025-10-18T11:00:00Z');
+    const { state } = applyChange(createRealtimeState(snapshot()), paid, GROUP);
+
+    expect(balanceOf(state.snapshot, 'bob')).toBe(0);
+    expect(snapshotLedger(state.snapshot).plan).toEqual([]);
+  });
+
+  test('should track members joining, changing role and leaving', () => {
+    const carol = { id: 'm3', group_id: GROUP, user_id: 'carol', role: 'member' };
+    const joined = change('group_members', 'INSERT', carol, '2025-10-18T12:00:00Z');
+    const { users, ...bob } = snapshot().members[1];
+    const promoted = change('group_members', 'UPDATE', { ...bob, role: 'admin' }, '2025-10-18T12:01:00Z');
+    const left = change('group_members', 'DELETE', { id: 'm1' }, '2025-10-18T12:02:00Z');
+
+    const { state, missing } = applyChanges(createRealtimeState(snapshot()), [joined, promoted, left], GROUP);
+    expect(missing.users).toEqual(['carol']);
+    expect(state.snapshot.members.map((m) => [m.user_id, m.role, m.users?.name])).toEqual([
+      ['bob', 'admin', 'Bob'],
+      ['carol', 'member', undefined],
+    ]);
+
+    const withProfile = attachProfiles(state, [profile('carol', 'Carol')]);
+    expect(withProfile.snapshot.members[1].users?.name).toBe('Carol');
+  });
+});
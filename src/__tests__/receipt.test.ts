@@ -0,0 +1,98 @@
+/**
+ * Itemized Receipt Tests
+ * Tests for item sharing, proportional charges and generated splits
+ */
+
+import {
+  calculateItemizedSplits,
+  calculateReceiptShares,
+  getReceiptTotal,
+  Receipt,
+  validateReceipt,
+} from '../utils/receipt';
+import { validateSplits } from '../validators/splitValidator';
+
+// Dinner: Alex had the wine, everyone shared the pizza
+const dinner: Receipt = {
+  items: [
+    { name: 'Pizza', amount: 900, participant_ids: ['alex', 'sam', 'priya'] },
+    { name: 'Wine', amount: 600, participant_ids: ['alex'] },
+    { name: 'Salad', amount: 300, participant_ids: ['sam', 'priya'] },
+  ],
+  charges: { tax: 90, service_charge: 0, tip: 90 },
+};
+
+describe('Itemized Receipts', () => {
+  describe('getReceiptTotal', () => {
+    test('should add items and charges', () => {
+      expect(getReceiptTotal(dinner)).toBe(1980);
+    });
+  });
+
+  describe('calculateReceiptShares', () => {
+    test('should share each item among the people who had it', () => {
+      const shares = calculateReceiptShares(dinner);
+
+      expect(shares.map((s) => s.subtotal)).toEqual([900, 450, 450]);
+    });
+
+    test('should distribute charges in proportion to subtotals', () => {
+      const shares = calculateReceiptShares(dinner);
+
+      // 180 in charges on a 1800 subtotal = 10%
+      expect(shares.map((s) => s.charges)).toEqual([90, 45, 45]);
+      expect(shares.map((s) => s.total)).toEqual([990, 495, 495]);
+    });
+
+    test('should keep totals exact when amounts do not divide evenly', () => {
+      const receipt: Receipt = {
+        items: [{ name: 'Nachos', amount: 100, participant_ids: ['a', 'b', 'c'] }],
+        charges: { tax: 0.1, service_charge: 0, tip: 0 },
+      };
+      const shares = calculateReceiptShares(receipt);
+      const totalMinor = shares.reduce((sum, s) => sum + Math.round(s.total * 100), 0);
+
+      expect(totalMinor).toBe(10010);
+    });
+  });
+
+  describe('calculateItemizedSplits', () => {
+    test('should generate splits that sum to the receipt total', () => {
+      const splits = calculateItemizedSplits(dinner);
+
+      expect(splits).toEqual([
+        { user_id: 'alex', amount: 990 },
+        { user_id: 'sam', amount: 495 },
+        { user_id: 'priya', amount: 495 },
+      ]);
+      expect(validateSplits(splits, getReceiptTotal(dinner))).toHaveLength(0);
+    });
+  });
+
+  describe('validateReceipt', () => {
+    test('should accept a valid receipt', () => {
+      expect(validateReceipt(dinner)).toHaveLength(0);
+    });
+
+    test('should require at least one item', () => {
+      const errors = validateReceipt({ items: [], charges: dinner.charges });
+      expect(errors[0].message).toContain('At least one item');
+    });
+
+    test('should require someone on every item', () => {
+      const errors = validateReceipt({
+        items: [{ name: 'Dessert', amount: 200, participant_ids: [] }],
+        charges: dinner.charges,
+      });
+      expect(errors[0].message).toContain('Dessert');
+    });
+
+    test('should reject negative charges', () => {
+      const errors = validateReceipt({
+        items: dinner.items,
+        charges: { tax: -5, service_charge: 0, tip: 0 },
+      });
+      expect(errors[0].field).toBe('charges.tax');
+    });
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Receipt Parser Tests
+ * Runs the text heuristics over OCR output of real-world style receipts in
+ * fixtures/receipts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  createTextReceiptParser,
+  itemsMatchTotal,
+  ParsedReceipt,
+  parseReceiptAmount,
+  parseReceiptText,
+  receiptFormValues,
+} from '../utils/receiptParser';
+
+const TODAY = '2025-10-18';
+const NO_CHARGES = { tax: 0, service_charge: 0, tip: 0 };
+
+function readFixture(name: string): string {
+  return fs.readFileSync(path.join(__dirname, 'fixtures', 'receipts', `${name}.txt`), 'utf8');
+}
+
+const FIXTURES: Array<{ name: string; expected: ParsedReceipt }> = [
+  {
+    name: 'indian-restaurant',
+    expected: {
+      merchant: 'Spice Garden Restaurant',
+      total: 1122,
+      date: '2025-10-14',
+      currency: 'INR',
+      items: [
+        { name: 'Paneer Tikka', amount: 280 },
+        { name: 'Butter Naan', amount: 240 },
+        { name: 'Dal Makhani', amount: 320 },
+        { name: 'Sweet Lime Soda', amount: 180 },
+      ],
+      charges: { tax: 51, service_charge: 51, tip: 0 },
+    },
+  },
+  {
+    name: 'us-grocery',
+    expected: {
+      merchant: 'Fresh Mart',
+      total: 19.01,
+      date: '2025-10-03',
+      currency: 'USD',
+      items: [
+        { name: 'Bananas', amount: 1.29 },
+        { name: 'Greek Yogurt', amount: 5.98 },
+        { name: 'Sourdough Bread', amount: 4.49 },
+        { name: 'Organic Eggs 12ct', amount: 6.79 },
+      ],
+      charges: { tax: 0.46, service_charge: 0, tip: 0 },
+    },
+  },
+  {
+    name: 'uk-cafe',
+    expected: {
+      merchant: 'The Corner Café',
+      total: 6.35,
+      date: '2025-10-14',
+      currency: 'GBP',
+      items: [
+        { name: 'Flat White', amount: 3.4 },
+        { name: 'Almond Croissant', amount: 2.95 },
+      ],
+      charges: NO_CHARGES,
+    },
+  },
+  {
+    name: 'eu-supermarket',
+    expected: {
+      merchant: 'Supermarkt Am Park',
+      total: 21.66,
+      date: '2025-10-08',
+      currency: 'EUR',
+      items: [
+        { name: 'Milch 1,5%', amount: 1.19 },
+        { name: 'Brot', amount: 2.49 },
+        { name: 'Käse', amount: 4.99 },
+        { name: 'Kaffee 500g', amount: 12.99 },
+      ],
+      charges: NO_CHARGES,
+    },
+  },
+  {
+    name: 'sg-taxi',
+    expected: {
+      merchant: 'Citycab Pte Ltd',
+      total: 21.7,
+      date: '2025-09-28',
+      currency: 'SGD',
+      items: [
+        { name: 'Fare', amount: 18.4 },
+        { name: 'Booking fee', amount: 3.3 },
+      ],
+      charges: NO_CHARGES,
+    },
+  },
+  {
+    // No total label, no currency and an impossible date
+    name: 'faded',
+    expected: {
+      merchant: 'A1 Mobile Repairs',
+      total: 849,
+      date: null,
+      currency: null,
+      items: [
+        { name: 'Screen guard', amount: 499 },
+        { name: 'Back cover', amount: 350 },
+      ],
+      charges: NO_CHARGES,
+    },
+  },
+];
+
+describe('Receipt Parser', () => {
+  describe('fixtures', () => {
+    FIXTURES.forEach(({ name, expected }) => {
+      test(`should read ${name}`, () => {
+        const parsed = parseReceiptText(readFixture(name), TODAY);
+        expect(parsed).toEqual(expected);
+        expect(itemsMatchTotal(parsed)).toBe(true);
+      });
+    });
+  });
+
+  test('should parse amounts in either decimal style', () => {
+    expect(parseReceiptAmount('1,234.50')).toBe(1234.5);
+    expect(parseReceiptAmount('1.234,50')).toBe(1234.5);
+    expect(parseReceiptAmount('12,99')).toBe(12.99);
+    expect(parseReceiptAmount('-3.00')).toBe(-3);
+  });
+
+  test('should prefer the grand total over earlier totals', () => {
+    const parsed = parseReceiptText('CAFE ROMA\nTotal 100.00\nGST 5.00\nGrand Total 105.00', TODAY);
+    expect(parsed.total).toBe(105);
+    expect(parsed.charges.tax).toBe(5);
+  });
+
+  test('should ignore dates in the future', () => {
+    expect(parseReceiptText('SHOP\n01/01/2030\n2025-10-01\nTotal 5.00', TODAY).date).toBe('2025-10-01');
+  });
+
+  test('should return nothing for unreadable text', () => {
+    expect(parseReceiptText('', TODAY)).toEqual({
+      merchant: null,
+      total: null,
+      date: null,
+      currency: null,
+      items: [],
+      charges: NO_CHARGES,
+    });
+  });
+
+  test('should not match items that do not add up to the total', () => {
+    const parsed = parseReceiptText('SHOP\nTea 2.00\nCake 3.00\nTotal 9.00', TODAY);
+    expect(parsed.total).toBe(9);
+    expect(itemsMatchTotal(parsed)).toBe(false);
+  });
+
+  test('should not replace a description or amount the user typed', () => {
+    const parsed = parseReceiptText('SHOP\n2025-10-01\nTotal 9.00', TODAY);
+    expect(receiptFormValues(parsed, { description: '', amount: '' })).toMatchObject({
+      description: 'Shop',
+      amount: '9.00',
+      date: '2025-10-01',
+    });
+
+    const values = receiptFormValues(parsed, { description: 'Snacks', amount: '12.50' });
+    expect(values.description).toBeUndefined();
+    expect(values.amount).toBeUndefined();
+    expect(values.date).toBe('2025-10-01');
+  });
+
+  test('should parse text from the recognizer', async () => {
+    const parser = createTextReceiptParser(async (uri) => (uri === 'file://receipt.jpg' ? readFixture('uk-cafe') : ''));
+    const parsed = await parser.parse('file://receipt.jpg');
+    expect(parsed).toMatchObject({ merchant: 'The Corner Café', total: 6.35, currency: 'GBP' });
+  });
+});
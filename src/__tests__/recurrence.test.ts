@@ -0,0 +1,161 @@
+/**
+ * Recurrence Tests
+ * Tests for the recurring expense schedule engine
+ */
+
+import {
+  describeRecurrence,
+  getDueOccurrences,
+  getNextOccurrence,
+  getOccurrences,
+  isValidDate,
+  RecurrenceRule,
+  validateRecurrenceRule,
+} from '../utils/recurrence';
+
+const monthlyRent: RecurrenceRule = {
+  frequency: 'monthly',
+  interval: 1,
+  start_date: '2024-01-31',
+};
+
+describe('Recurrence', () => {
+  describe('getOccurrences', () => {
+    test('should repeat daily', () => {
+      const rule: RecurrenceRule = { frequency: 'daily', interval: 1, start_date: '2024-02-27' };
+      expect(getOccurrences(rule, '2024-02-27', '2024-03-01')).toEqual([
+        '2024-02-27',
+        '2024-02-28',
+        '2024-02-29',
+        '2024-03-01',
+      ]);
+    });
+
+    test('should repeat every two weeks', () => {
+      const rule: RecurrenceRule = { frequency: 'weekly', interval: 2, start_date: '2024-01-01' };
+      expect(getOccurrences(rule, '2024-01-01', '2024-02-01')).toEqual([
+        '2024-01-01',
+        '2024-01-15',
+        '2024-01-29',
+      ]);
+    });
+
+    test('should clamp monthly dates to short months and recover', () => {
+      expect(getOccurrences(monthlyRent, '2024-01-01', '2024-04-30')).toEqual([
+        '2024-01-31',
+        '2024-02-29',
+        '2024-03-31',
+        '2024-04-30',
+      ]);
+    });
+
+    test('should handle leap day yearly rules', () => {
+      const rule: RecurrenceRule = { frequency: 'yearly', interval: 1, start_date: '2024-02-29' };
+      expect(getOccurrences(rule, '2024-01-01', '2028-12-31')).toEqual([
+        '2024-02-29',
+        '2025-02-28',
+        '2026-02-28',
+        '2027-02-28',
+        '2028-02-29',
+      ]);
+    });
+
+    test('should stop at the end date', () => {
+      const rule = { ...monthlyRent, end_date: '2024-03-15' };
+      expect(getOccurrences(rule, '2024-01-01', '2024-12-31')).toEqual(['2024-01-31', '2024-02-29']);
+    });
+
+    test('should leave out skipped dates', () => {
+      const rule = { ...monthlyRent, skipped_dates: ['2024-02-29'] };
+      expect(getOccurrences(rule, '2024-01-01', '2024-03-31')).toEqual(['2024-01-31', '2024-03-31']);
+    });
+  });
+
+  describe('getDueOccurrences', () => {
+    test('should return occurrences up to today', () => {
+      expect(getDueOccurrences(monthlyRent, '2024-03-31')).toEqual([
+        '2024-01-31',
+        '2024-02-29',
+        '2024-03-31',
+      ]);
+    });
+
+    test('should not return occurrences that were already generated', () => {
+      const due = getDueOccurrences(monthlyRent, '2024-03-31', ['2024-01-31', '2024-02-29']);
+      expect(due).toEqual(['2024-03-31']);
+    });
+
+    test('should be idempotent once everything is generated', () => {
+      const first = getDueOccurrences(monthlyRent, '2024-03-31');
+      expect(getDueOccurrences(monthlyRent, '2024-03-31', first)).toEqual([]);
+    });
+
+    test('should reach dates past the first 1000 once those are generated', () => {
+      const daily: RecurrenceRule = { frequency: 'daily', interval: 1, start_date: '2023-01-01' };
+      const first = getDueOccurrences(daily, '2025-10-01');
+      expect(first).toHaveLength(1000);
+      expect(first[first.length - 1]).toBe('2025-09-26');
+
+      expect(getDueOccurrences(daily, '2025-10-01', first)).toEqual([
+        '2025-09-27',
+        '2025-09-28',
+        '2025-09-29',
+        '2025-09-30',
+        '2025-10-01',
+      ]);
+    });
+
+    test('should return nothing before the start date', () => {
+      expect(getDueOccurrences(monthlyRent, '2023-12-31')).toEqual([]);
+    });
+  });
+
+  describe('getNextOccurrence', () => {
+    test('should find the next date after a given day', () => {
+      expect(getNextOccurrence(monthlyRent, '2024-02-01')).toBe('2024-02-29');
+    });
+
+    test('should skip skipped dates', () => {
+      const rule = { ...monthlyRent, skipped_dates: ['2024-02-29'] };
+      expect(getNextOccurrence(rule, '2024-02-01')).toBe('2024-03-31');
+    });
+
+    test('should return null after the end date', () => {
+      const rule = { ...monthlyRent, end_date: '2024-02-29' };
+      expect(getNextOccurrence(rule, '2024-02-29')).toBeNull();
+    });
+  });
+
+  describe('validateRecurrenceRule', () => {
+    test('should accept a valid rule', () => {
+      expect(validateRecurrenceRule(monthlyRent)).toHaveLength(0);
+    });
+
+    test('should reject bad intervals and dates', () => {
+      const errors = validateRecurrenceRule({
+        frequency: 'weekly',
+        interval: 0,
+        start_date: '2024-02-30',
+      });
+      expect(errors.map((e) => e.field)).toEqual(['interval', 'start_date']);
+    });
+
+    test('should reject an end date before the start date', () => {
+      const errors = validateRecurrenceRule({ ...monthlyRent, end_date: '2023-12-31' });
+      expect(errors[0].field).toBe('end_date');
+    });
+  });
+
+  describe('helpers', () => {
+    test('should validate calendar dates', () => {
+      expect(isValidDate('2024-02-29')).toBe(true);
+      expect(isValidDate('2023-02-29')).toBe(false);
+      expect(isValidDate('2024-2-1')).toBe(false);
+    });
+
+    test('should describe rules', () => {
+      expect(describeRecurrence(monthlyRent)).toBe('Every month');
+      expect(describeRecurrence({ ...monthlyRent, frequency: 'weekly', interval: 2 })).toBe('Every 2 weeks');
+    });
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * Restore Window Tests
+ * Tests for the 24-hour undo window on deleted expenses
+ */
+
+import { getRestoreCutoff, getRestoreWindow, RESTORE_WINDOW_HOURS } from '../utils/restoreWindow';
+
+const deletedAt = '2024-03-01T10:00:00.000Z';
+
+describe('Restore Window', () => {
+  test('should allow restore right after deleting', () => {
+    const window = getRestoreWindow(deletedAt, new Date(deletedAt));
+    expect(window).toEqual({ can_restore: true, hours_remaining: RESTORE_WINDOW_HOURS });
+  });
+
+  test('should round partial hours up', () => {
+    const window = getRestoreWindow(deletedAt, new Date('2024-03-02T08:30:00.000Z'));
+    expect(window).toEqual({ can_restore: true, hours_remaining: 2 });
+  });
+
+  test('should expire after 24 hours', () => {
+    const window = getRestoreWindow(deletedAt, new Date('2024-03-02T10:00:00.000Z'));
+    expect(window).toEqual({ can_restore: false, hours_remaining: 0 });
+  });
+
+  test('should refuse an invalid timestamp', () => {
+    expect(getRestoreWindow('not a date').can_restore).toBe(false);
+  });
+
+  test('should compute the cutoff 24 hours back', () => {
+    expect(getRestoreCutoff(new Date('2024-03-02T10:00:00.000Z'))).toBe(deletedAt);
+  });
+});
@@ -12,6 +12,7 @@ import {
   getPendingSettlement,
   settlementExists,
 } from '../api/settlements';
+import { generateUuid } from '../utils/offlineSync';
 
 // Mock data
 const mockGroupId = 'group-123';
@@ -328,6 +329,23 @@ describe('Settlement Recording Tests', () => {
     expect(new Date(completed?.completed_at)).toBeInstanceOf(Date);
     console.log('✓ Settlement completed timestamp verified');
   });
+
+  // Test 16: Replayed settlement
+  test('should record a settlement only once for the same ID', async () => {
+    const settlement = {
+      id: generateUuid(),
+      group_id: mockGroupId,
+      payer_id: mockUserId1,
+      payee_id: mockUserId3,
+      amount: 120,
+    };
+
+    const first = await recordSettlement(settlement);
+    const replayed = await recordSettlement(settlement);
+
+    expect(replayed.id).toBe(first.id);
+    console.log('✓ Replayed settlement recorded once:', first.id);
+  });
 });
 
 // Test summary
@@ -346,4 +364,5 @@ console.log('- User statistics calculation');
 console.log('- Settlement existence verification');
 console.log('- Large and small amounts');
 console.log('- Timestamp tracking');
+console.log('- Replayed settlements');
 console.log('================================\n');
@@ -13,6 +13,8 @@ import {
   isValidSplits,
   isEqualSplit,
   distributeEvenly,
+  validateSplitInputs,
+  calculateSplits,
 } from '../validators/splitValidator';
 import {
   validateSettlement,
@@ -103,6 +105,19 @@ describe('Expense Validator', () => {
       expect(errors.some((e) => e.field === 'date')).toBe(true);
     });
 
+    test('should reject notes that are too long', () => {
+      const expense = {
+        description: 'Test',
+        amount: 100,
+        paid_by: 'user1',
+        notes: 'x'.repeat(501),
+        splits: [{ user_id: 'user1', amount: 100 }],
+      };
+
+      const errors = validateExpense(expense);
+      expect(errors.some((e) => e.field === 'notes')).toBe(true);
+    });
+
     test('should reject splits that don\'t sum to total', () => {
       const expense = {
         description: 'Test',
@@ -275,6 +290,134 @@ describe('Split Validator', () => {
   });
 });
 
+describe('Split Modes', () => {
+  const users = ['alex', 'sam', 'priya'];
+
+  describe('calculateSplits', () => {
+    test('should split rent by shares', () => {
+      const inputs = [
+        { user_id: 'alex', value: 2 },
+        { user_id: 'sam', value: 1 },
+        { user_id: 'priya', value: 1 },
+      ];
+      const splits = calculateSplits('shares', inputs, 30000);
+
+      expect(splits.map((s) => s.amount)).toEqual([15000, 7500, 7500]);
+    });
+
+    test('should split utilities by percentage', () => {
+      const inputs = [
+        { user_id: 'alex', value: 50 },
+        { user_id: 'sam', value: 30 },
+        { user_id: 'priya', value: 20 },
+      ];
+      const splits = calculateSplits('percentage', inputs, 999.99);
+
+      const total = splits.reduce((sum, s) => sum + Math.round(s.amount * 100), 0);
+      expect(total).toBe(99999);
+      expect(splits.map((s) => s.amount)).toEqual([499.99, 300, 200]);
+    });
+
+    test('should apply adjustments on top of an equal split', () => {
+      const inputs = [
+        { user_id: 'alex', value: 200 },
+        { user_id: 'sam', value: 0 },
+        { user_id: 'priya', value: 0 },
+      ];
+      const splits = calculateSplits('adjustment', inputs, 1100);
+
+      expect(splits.map((s) => s.amount)).toEqual([500, 300, 300]);
+    });
+
+    test('should ignore values for equal splits', () => {
+      const inputs = users.map((user_id) => ({ user_id, value: 0 }));
+      const splits = calculateSplits('equal', inputs, 100);
+
+      expect(splits.map((s) => s.amount)).toEqual([33.34, 33.33, 33.33]);
+    });
+
+    test('should always produce valid splits', () => {
+      const inputs = [
+        { user_id: 'alex', value: 1 },
+        { user_id: 'sam', value: 1 },
+        { user_id: 'priya', value: 1 },
+      ];
+      const splits = calculateSplits('shares', inputs, 100);
+
+      expect(validateSplits(splits, 100)).toHaveLength(0);
+    });
+  });
+
+  describe('validateSplitInputs', () => {
+    test('should reject percentages that do not sum to 100', () => {
+      const inputs = [
+        { user_id: 'alex', value: 50 },
+        { user_id: 'sam', value: 40 },
+      ];
+      const errors = validateSplitInputs('percentage', inputs, 100);
+
+      expect(errors.length).toBeGreaterThan(0);
+      expect(errors[0].message).toContain('100%');
+    });
+
+    test('should reject zero or negative shares', () => {
+      const inputs = [
+        { user_id: 'alex', value: 0 },
+        { user_id: 'sam', value: 1 },
+      ];
+
+      expect(validateSplitInputs('shares', inputs, 100).length).toBeGreaterThan(0);
+    });
+
+    test('should allow negative adjustments', () => {
+      const inputs = [
+        { user_id: 'alex', value: -50 },
+        { user_id: 'sam', value: 50 },
+      ];
+
+      expect(validateSplitInputs('adjustment', inputs, 100)).toHaveLength(0);
+    });
+
+    test('should reject adjustments larger than the total', () => {
+      const inputs = [
+        { user_id: 'alex', value: 150 },
+        { user_id: 'sam', value: 0 },
+      ];
+
+      expect(validateSplitInputs('adjustment', inputs, 100).length).toBeGreaterThan(0);
+    });
+
+    test('should reject negative adjustments that leave a negative share', () => {
+      const inputs = [
+        { user_id: 'alex', value: -150 },
+        { user_id: 'sam', value: 0 },
+      ];
+
+      const errors = validateSplitInputs('adjustment', inputs, 100);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].field).toBe('splits[0].value');
+      expect(errors[0].message).toContain('cannot be negative');
+    });
+
+    test('should show amounts in the expense currency', () => {
+      const inputs = [
+        { user_id: 'alex', value: 150 },
+        { user_id: 'sam', value: 0 },
+      ];
+
+      expect(validateSplitInputs('adjustment', inputs, 100, 'USD')[0].message).toBe(
+        'Adjustments ($150.00) cannot exceed expense amount ($100.00)'
+      );
+    });
+
+    test('should reject missing values', () => {
+      const inputs = [{ user_id: 'alex', value: NaN }];
+
+      expect(validateSplitInputs('custom', inputs, 100).length).toBeGreaterThan(0);
+    });
+  });
+});
+
 describe('Settlement Validator', () => {
   describe('validateSettlement', () => {
     test('should validate correct settlement', () => {
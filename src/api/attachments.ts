@@ -0,0 +1,200 @@
+/**
+ * Expense Attachments API
+ * Upload, list and remove receipt photos and PDFs for an expense
+ *
+ * Files go to Supabase Storage (bucket "receipts") and are listed in
+ * expense_attachments. Attachments of a deleted expense are kept while it can
+ * still be restored and removed after that.
+ */
+
+import { supabase } from './supabase';
+import { createError, ErrorCode, parseSupabaseError } from '../utils/errorHandler';
+import { getRestoreCutoff } from '../utils/restoreWindow';
+import {
+  ATTACHMENT_BUCKET,
+  AttachmentFile,
+  AttachmentStorage,
+  uploadAttachmentFiles,
+} from '../utils/attachments';
+
+// How long a viewing URL stays valid
+const URL_EXPIRY_SECONDS = 60 * 60;
+
+export interface ExpenseAttachment {
+  id: string;
+  expense_id: string;
+  uploaded_by: string | null;
+  storage_path: string;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  created_at: string;
+  url: string | null; // Time-limited URL, null if the file could not be found
+}
+
+/**
+ * Storage backed by a Supabase Storage bucket
+ * @param bucket - Bucket name
+ */
+export function createSupabaseAttachmentStorage(bucket: string = ATTACHMENT_BUCKET): AttachmentStorage {
+  return {
+    async upload(path: string, body: ArrayBuffer, contentType: string): Promise<void> {
+      const { error } = await supabase.storage.from(bucket).upload(path, body, { contentType, upsert: false });
+      if (error) {
+        throw createError(ErrorCode.NETWORK_ERROR, `Failed to upload file: ${error.message}`, { path });
+      }
+    },
+    async getUrl(path: string, expiresInSeconds: number): Promise<string> {
+      const { data, error } = await supabase.storage.from(bucket).createSignedUrl(path, expiresInSeconds);
+      if (error || !data) {
+        throw createError(ErrorCode.NOT_FOUND, `File not found: ${path}`);
+      }
+      return data.signedUrl;
+    },
+    async remove(paths: string[]): Promise<void> {
+      if (paths.length === 0) return;
+      const { error } = await supabase.storage.from(bucket).remove(paths);
+      if (error) {
+        throw createError(ErrorCode.NETWORK_ERROR, `Failed to remove files: ${error.message}`);
+      }
+    },
+  };
+}
+
+let activeStorage: AttachmentStorage | null = null;
+
+/**
+ * Get the storage backend used for attachments (Supabase Storage by default)
+ */
+export function getAttachmentStorage(): AttachmentStorage {
+  if (!activeStorage) {
+    activeStorage = createSupabaseAttachmentStorage();
+  }
+  return activeStorage;
+}
+
+/**
+ * Replace the storage backend (e.g. with the in-memory stand-in)
+ * @param storage - Storage to use from now on
+ */
+export function setAttachmentStorage(storage: AttachmentStorage): void {
+  activeStorage = storage;
+}
+
+/**
+ * Get an expense's attachments with URLs to view them
+ * @param expenseId - Expense ID
+ * @returns Attachments, oldest first
+ */
+export async function getExpenseAttachments(expenseId: string): Promise<ExpenseAttachment[]> {
+  const { data, error } = await supabase
+    .from('expense_attachments')
+    .select('*')
+    .eq('expense_id', expenseId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw parseSupabaseError(error);
+  }
+
+  const storage = getAttachmentStorage();
+  return Promise.all(
+    (data || []).map(async (row) => ({
+      ...row,
+      url: await storage.getUrl(row.storage_path, URL_EXPIRY_SECONDS).catch(() => null),
+    }))
+  );
+}
+
+/**
+ * Attach files to an expense
+ * @param groupId - Expense's group
+ * @param expenseId - Expense ID
+ * @param files - Files read from the device
+ * @param userId - Current user's ID
+ * @param existingCount - Attachments the expense already has
+ * @throws AppError VALIDATION_ERROR if a file cannot be attached
+ */
+export async function addExpenseAttachments(
+  groupId: string,
+  expenseId: string,
+  files: AttachmentFile[],
+  userId: string,
+  existingCount: number = 0
+): Promise<void> {
+  const storage = getAttachmentStorage();
+  const uploaded = await uploadAttachmentFiles(storage, groupId, expenseId, files, existingCount);
+
+  const { error } = await supabase.from('expense_attachments').insert(
+    uploaded.map((attachment) => ({
+      ...attachment,
+      expense_id: expenseId,
+      uploaded_by: userId,
+    }))
+  );
+
+  if (error) {
+    await storage.remove(uploaded.map((a) => a.storage_path)).catch(() => {
+      // Keep the database error
+    });
+    throw parseSupabaseError(error);
+  }
+}
+
+/**
+ * Remove one attachment from an expense
+ * @param attachment - Attachment to remove
+ */
+export async function deleteExpenseAttachment(attachment: Pick<ExpenseAttachment, 'id' | 'storage_path'>): Promise<void> {
+  const { data, error } = await supabase
+    .from('expense_attachments')
+    .delete()
+    .eq('id', attachment.id)
+    .select('id');
+
+  if (error) {
+    throw parseSupabaseError(error);
+  }
+
+  // RLS hides rows the user may not delete instead of raising
+  if (!data || data.length === 0) {
+    throw createError(ErrorCode.PERMISSION_DENIED, 'Only the payer or a group admin can remove attachments');
+  }
+
+  await getAttachmentStorage().remove([attachment.storage_path]);
+}
+
+/**
+ * Remove the attachments of a group's expenses that were deleted and can no
+ * longer be restored. Only removes what the current user may edit; the rest
+ * is cleaned up when the payer or an admin opens the group.
+ * @param groupId - Group ID
+ * @returns Number of attachments removed
+ */
+export async function purgeDeletedExpenseAttachments(groupId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('expense_attachments')
+    .select('id, storage_path, expenses!inner(group_id, deleted_at)')
+    .eq('expenses.group_id', groupId)
+    .lt('expenses.deleted_at', getRestoreCutoff());
+
+  if (error) {
+    throw parseSupabaseError(error);
+  }
+
+  if (!data || data.length === 0) return 0;
+
+  const { data: deleted, error: deleteError } = await supabase
+    .from('expense_attachments')
+    .delete()
+    .in('id', data.map((row) => row.id))
+    .select('storage_path');
+
+  if (deleteError) {
+    throw parseSupabaseError(deleteError);
+  }
+
+  const paths = (deleted || []).map((row) => row.storage_path);
+  await getAttachmentStorage().remove(paths);
+  return paths.length;
+}
@@ -0,0 +1,173 @@
+/**
+ * Audit Log API
+ * Read the append-only history of expense and settlement changes. Events are
+ * written by the database as changes are saved (0020_server_audit_log.sql and
+ * 0027_settlement_audit.sql).
+ */
+
+import { supabase } from './supabase';
+import { expenseRepository } from './repositories';
+import { Tables } from '../types/database';
+import {
+  AuditAction,
+  AuditEntityType,
+  AuditShare,
+  ExpenseSnapshot,
+  FIELD_LABELS,
+  FieldChange,
+} from '../utils/auditDiff';
+import { getMemberLabel } from '../utils/members';
+
+export interface AuditEvent {
+  id: string;
+  group_id: string;
+  entity_type: AuditEntityType;
+  entity_id: string;
+  action: AuditAction;
+  actor_id: string;
+  entity_label: string | null;
+  changes: FieldChange[];
+  created_at: string;
+}
+
+export interface AuditTrail {
+  events: AuditEvent[];
+  names: Record<string, string>; // Display names for every user the events mention
+}
+
+/**
+ * Load the fields of an expense that the audit log tracks
+ * @param expenseId - Expense ID
+ * @returns Group ID and snapshot, or null if the expense does not exist
+ */
+export async function getExpenseSnapshot(
+  expenseId: string
+): Promise<{ group_id: string; snapshot: ExpenseSnapshot } | null> {
+  const data = await expenseRepository.getWithShares(expenseId);
+  if (!data) return null;
+
+  const amount = Number(data.amount);
+  const payers = data.payers.length > 0
+    ? data.payers
+    : [{ user_id: data.paid_by, amount }]; // Single-payer expenses have no payer rows
+
+  return {
+    group_id: data.group_id,
+    snapshot: {
+      description: data.description,
+      amount,
+      currency: data.currency,
+      date: data.date,
+      split_type: data.split_type,
+      category: data.category,
+      notes: data.notes,
+      payers: payers.map((p) => ({ user_id: p.user_id, amount: Number(p.amount) })),
+      splits: data.splits.map((s) => ({ user_id: s.user_id, amount: Number(s.amount) })),
+    },
+  };
+}
+
+/**
+ * Get the history of a single expense
+ * @param expenseId - Expense ID
+ * @returns Events oldest first, with names for the users they mention
+ */
+export async function getExpenseHistory(expenseId: string): Promise<AuditTrail> {
+  try {
+    const { data, error } = await supabase
+      .from('audit_log')
+      .select('*')
+      .eq('entity_type', 'expense')
+      .eq('entity_id', expenseId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch expense history: ${error.message}`);
+    }
+
+    return await withNames((data || []).map(toAuditEvent));
+  } catch (error: any) {
+    console.error('Error fetching expense history:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get recent activity across a group
+ * @param groupId - Group ID
+ * @param limit - Maximum number of events
+ * @returns Events newest first, with names for the users they mention
+ */
+export async function getGroupActivity(groupId: string, limit: number = 50): Promise<AuditTrail> {
+  try {
+    const { data, error } = await supabase
+      .from('audit_log')
+      .select('*')
+      .eq('group_id', groupId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch group activity: ${error.message}`);
+    }
+
+    return await withNames((data || []).map(toAuditEvent));
+  } catch (error: any) {
+    console.error('Error fetching group activity:', error);
+    throw error;
+  }
+}
+
+// entity_type and action are constrained by check constraints
+function toAuditEvent(row: Tables<'audit_log'>): AuditEvent {
+  const changes: unknown[] = Array.isArray(row.changes) ? row.changes : [];
+  return {
+    ...row,
+    entity_type: row.entity_type as AuditEntityType,
+    action: row.action as AuditAction,
+    changes: changes.filter(isFieldChange),
+  };
+}
+
+// Entries of changes, as the audit triggers write them
+function isFieldChange(value: unknown): value is FieldChange {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'field' in value &&
+    typeof value.field === 'string' &&
+    value.field in FIELD_LABELS &&
+    'from' in value &&
+    'to' in value
+  );
+}
+
+async function withNames(events: AuditEvent[]): Promise<AuditTrail> {
+  const userIds = new Set<string>();
+  events.forEach((event) => {
+    userIds.add(event.actor_id);
+    (event.changes || []).forEach((change) => {
+      if (change.field === 'payers' || change.field === 'splits') {
+        const shares: AuditShare[] = [...(change.from || []), ...(change.to || [])];
+        shares.forEach((share) => userIds.add(share.user_id));
+      } else if (change.field === 'payer_id' || change.field === 'payee_id') {
+        if (change.from) userIds.add(change.from);
+        if (change.to) userIds.add(change.to);
+      }
+    });
+  });
+
+  const names: Record<string, string> = {};
+  if (userIds.size > 0) {
+    const { data: users } = await supabase
+      .from('users')
+      .select('id, name, email, is_guest')
+      .in('id', Array.from(userIds));
+
+    (users || []).forEach((u) => {
+      names[u.id] = getMemberLabel(u);
+    });
+  }
+
+  return { events, names };
+}
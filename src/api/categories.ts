@@ -0,0 +1,112 @@
+/**
+ * Group Categories API
+ * Custom expense categories for a group, and the history category
+ * suggestions learn from
+ */
+
+import { supabase } from './supabase';
+import { expenseRepository } from './repositories';
+import { createError, ErrorCode, parseSupabaseError } from '../utils/errorHandler';
+import {
+  CUSTOM_CATEGORY_ICON,
+  ExpenseCategory,
+  mergeCategories,
+  toCategoryKey,
+  validateCategoryName,
+} from '../utils/categories';
+import { CategorizedDescription } from '../utils/categorySuggestion';
+
+// Past expenses used to learn the group's categories
+const CATEGORY_HISTORY_LIMIT = 500;
+
+/**
+ * Get the categories available to a group: the defaults plus its custom ones
+ * @param groupId - Group ID
+ * @returns Categories, defaults first
+ */
+export async function getGroupCategories(groupId: string): Promise<ExpenseCategory[]> {
+  const { data, error } = await supabase
+    .from('group_categories')
+    .select('key, name, icon')
+    .eq('group_id', groupId);
+
+  if (error) {
+    throw parseSupabaseError(error);
+  }
+
+  return mergeCategories(
+    (data || []).map((row) => ({
+      key: row.key,
+      label: row.name,
+      icon: row.icon || CUSTOM_CATEGORY_ICON,
+    }))
+  );
+}
+
+/**
+ * Add a custom category to a group
+ * @param groupId - Group ID
+ * @param name - Category name
+ * @param categories - Categories the group already has, used to check the name
+ * @returns Created category
+ */
+export async function createGroupCategory(
+  groupId: string,
+  name: string,
+  categories: ExpenseCategory[]
+): Promise<ExpenseCategory> {
+  const nameError = validateCategoryName(name, categories);
+  if (nameError) {
+    throw createError(ErrorCode.VALIDATION_ERROR, nameError);
+  }
+
+  const { data, error } = await supabase
+    .from('group_categories')
+    .insert({
+      group_id: groupId,
+      key: toCategoryKey(name),
+      name: name.trim(),
+      icon: CUSTOM_CATEGORY_ICON,
+    })
+    .select('key, name, icon')
+    .single();
+
+  if (error) {
+    throw parseSupabaseError(error);
+  }
+
+  return { key: data.key, label: data.name, icon: data.icon || CUSTOM_CATEGORY_ICON, custom: true };
+}
+
+/**
+ * Remove a custom category from a group
+ * Expenses filed under it keep its key and are still shown by name.
+ * @param groupId - Group ID
+ * @param key - Category key
+ */
+export async function deleteGroupCategory(groupId: string, key: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('group_categories')
+    .delete()
+    .eq('group_id', groupId)
+    .eq('key', key)
+    .select('id');
+
+  if (error) {
+    throw parseSupabaseError(error);
+  }
+
+  // RLS hides rows the user may not delete instead of raising
+  if (!data || data.length === 0) {
+    throw createError(ErrorCode.PERMISSION_DENIED, 'You cannot remove this category');
+  }
+}
+
+/**
+ * Get a group's most recent categorized expenses for buildCategoryModel
+ * @param groupId - Group ID
+ * @returns Descriptions and categories, newest first
+ */
+export async function getCategoryHistory(groupId: string): Promise<CategorizedDescription[]> {
+  return expenseRepository.listCategorized(groupId, CATEGORY_HISTORY_LIMIT);
+}
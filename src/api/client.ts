@@ -0,0 +1,16 @@
+import { createClient } from '@supabase/supabase-js';
+import { Database } from '../types/database';
+
+// Get these from your Supabase project dashboard
+const SUPABASE_URL = process.env.EXPO_PUBLIC_SUPABASE_URL || '';
+const SUPABASE_ANON_KEY = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY || '';
+
+if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+  console.warn(
+    'Supabase URL and/or Anon Key are missing. Add them to your .env file.'
+  );
+}
+
+// Typed against the generated schema: queries on tables or columns that do
+// not exist fail type-checking
+export const supabase = createClient<Database>(SUPABASE_URL, SUPABASE_ANON_KEY);
@@ -4,13 +4,27 @@
  */
 
 import { supabase } from './supabase';
+import { expenseRepository, ExpenseRow, ExpenseWithShares } from './repositories';
+import { getExpenseSnapshot } from './auditLog';
+import { toExpenseItemsParam } from './expenseItems';
+import { allocateMinorUnits, toMajorUnits, toMinorUnits } from '../utils/money';
+import { createError, ErrorCode, parseSupabaseError } from '../utils/errorHandler';
+import { Receipt } from '../utils/receipt';
+import { SplitType } from '../validators/splitValidator';
+import { assertValidExpense } from '../validators/expenseValidator';
+import { getRestoreCutoff, getRestoreWindow, RESTORE_WINDOW_HOURS } from '../utils/restoreWindow';
 
 export interface UpdateExpenseData {
   description?: string;
   amount?: number;
   date?: string;
   paid_by?: string;
-  splits?: Array<{ user_id: string; amount: number }>;
+  split_type?: SplitType;
+  category?: string | null; // '' or null clears it
+  notes?: string | null; // '' or null clears it
+  payers?: Array<{ user_id: string; amount: number }>;
+  splits?: Array<{ user_id: string; amount: number; value?: number | null }>;
+  receipt?: Receipt | null; // Items of an itemized expense; null removes them
 }
 
 export interface DeletedExpense {
@@ -20,88 +34,91 @@ export interface DeletedExpense {
   hours_remaining: number;
 }
 
+export interface RecentlyDeletedExpense extends DeletedExpense {
+  description: string;
+  amount: number;
+  currency: string;
+  deleted_by: string | null;
+}
+
 /**
  * Update an existing expense
+ * The expense row, payers, splits and receipt items are written in one
+ * transaction (update_expense_with_splits), so a failed write leaves the
+ * expense as it was.
  * @param expenseId - ID of expense to update
  * @param data - Fields to update
- * @returns Updated expense
+ * @param changeId - ID the app gave this change, stored so a replay of it can
+ *   be recognised (see utils/offlineSync.ts)
+ * @returns Updated expense with its splits and payers
+ * @throws AppError when validation fails or the database rejects the change
  */
 export async function updateExpense(
   expenseId: string,
-  data: UpdateExpenseData
-): Promise<any> {
+  data: UpdateExpenseData,
+  changeId: string | null = null
+): Promise<ExpenseWithShares> {
   try {
-    // First, get the current expense to validate ownership
-    const { data: currentExpense, error: fetchError } = await supabase
-      .from('expenses')
-      .select('*')
-      .eq('id', expenseId)
-      .single();
-
-    if (fetchError) {
-      throw new Error(`Failed to fetch expense: ${fetchError.message}`);
+    // Current state, used to validate the merged result
+    const current = await getExpenseSnapshot(expenseId);
+    if (!current) {
+      throw createError(ErrorCode.NOT_FOUND, 'Expense not found');
     }
-
-    if (!currentExpense) {
-      throw new Error('Expense not found');
+    const before = current.snapshot;
+
+    const amount = data.amount !== undefined ? toMajorUnits(toMinorUnits(data.amount)) : before.amount;
+    const splits = data.splits && data.splits.length > 0 ? data.splits : before.splits;
+    let payers = data.payers && data.payers.length > 0 ? data.payers : null;
+
+    // Keep payers in line with a new total: each payer keeps their share of it
+    if (!payers && toMinorUnits(amount) !== toMinorUnits(before.amount)) {
+      const paid = allocateMinorUnits(
+        toMinorUnits(amount),
+        before.payers.map((payer) => toMinorUnits(payer.amount))
+      );
+      payers = before.payers.map((payer, index) => ({ user_id: payer.user_id, amount: toMajorUnits(paid[index]) }));
     }
 
-    // Prepare update data for expenses table
-    const expenseUpdate: any = {};
-    if (data.description !== undefined) expenseUpdate.description = data.description;
-    if (data.amount !== undefined) expenseUpdate.amount = data.amount;
-    if (data.date !== undefined) expenseUpdate.date = data.date;
-    if (data.paid_by !== undefined) expenseUpdate.paid_by = data.paid_by;
-
-    // Update expense if there are changes
-    if (Object.keys(expenseUpdate).length > 0) {
-      const { error: updateError } = await supabase
-        .from('expenses')
-        .update(expenseUpdate)
-        .eq('id', expenseId);
-
-      if (updateError) {
-        throw new Error(`Failed to update expense: ${updateError.message}`);
-      }
-    }
-
-    // Update splits if provided
-    if (data.splits && data.splits.length > 0) {
-      // Delete existing splits
-      const { error: deleteError } = await supabase
-        .from('splits')
-        .delete()
-        .eq('expense_id', expenseId);
-
-      if (deleteError) {
-        throw new Error(`Failed to delete old splits: ${deleteError.message}`);
-      }
-
-      // Insert new splits
-      const newSplits = data.splits.map((split) => ({
-        expense_id: expenseId,
-        user_id: split.user_id,
-        amount: parseFloat(split.amount.toFixed(2)),
-      }));
-
-      const { error: insertError } = await supabase
-        .from('splits')
-        .insert(newSplits);
-
-      if (insertError) {
-        throw new Error(`Failed to insert new splits: ${insertError.message}`);
-      }
+    assertValidExpense({
+      description: data.description ?? before.description,
+      amount,
+      date: data.date ?? before.date,
+      notes: data.notes,
+      paid_by: payers?.[0].user_id ?? data.paid_by ?? before.payers[0]?.user_id ?? '',
+      splits,
+    });
+
+    const { error: rpcError } = await supabase.rpc('update_expense_with_splits', {
+      p_expense_id: expenseId,
+      p_description: data.description ?? null,
+      p_amount: data.amount !== undefined ? amount : null,
+      p_date: data.date ?? null,
+      p_paid_by: data.paid_by ?? null,
+      p_split_type: data.split_type ?? null,
+      p_category: data.category !== undefined ? data.category || '' : null,
+      p_notes: data.notes !== undefined ? data.notes?.trim() || '' : null,
+      p_payers: payers
+        ? payers.map((payer) => ({ user_id: payer.user_id, amount: toMajorUnits(toMinorUnits(payer.amount)) }))
+        : null,
+      p_splits: data.splits && data.splits.length > 0
+        ? data.splits.map((split) => ({
+            user_id: split.user_id,
+            amount: toMajorUnits(toMinorUnits(split.amount)),
+            value: split.value ?? null,
+          }))
+        : null,
+      p_items: data.receipt !== undefined ? (data.receipt ? toExpenseItemsParam(data.receipt) : []) : null,
+      p_change_id: changeId,
+    });
+
+    if (rpcError) {
+      throw parseSupabaseError(rpcError);
     }
 
     // Fetch and return updated expense
-    const { data: updatedExpense, error: finalError } = await supabase
-      .from('expenses')
-      .select('*, splits(*)')
-      .eq('id', expenseId)
-      .single();
-
-    if (finalError) {
-      throw new Error(`Failed to fetch updated expense: ${finalError.message}`);
+    const updatedExpense = await expenseRepository.getWithShares(expenseId);
+    if (!updatedExpense) {
+      throw createError(ErrorCode.NOT_FOUND, 'Expense not found');
     }
 
     return updatedExpense;
@@ -113,6 +130,7 @@ export async function updateExpense(
 
 /**
  * Soft delete an expense (mark as deleted, can be restored within 24h)
+ * Deleted expenses are left out of expense lists and balances.
  * @param expenseId - ID of expense to delete
  * @param userId - ID of user performing the delete
  * @returns Deleted expense info
@@ -124,53 +142,18 @@ export async function deleteExpense(
   try {
     const now = new Date().toISOString();
 
-    // Check if columns exist, if not, just mark in memory
-    // For now, we'll actually delete from database since schema may not have deleted_at
-    // In production, you should add these columns first
-    
-    // Option 1: Hard delete (current schema)
-    const { error: deleteError } = await supabase
-      .from('expenses')
-      .delete()
-      .eq('id', expenseId);
-
-    if (deleteError) {
-      throw new Error(`Failed to delete expense: ${deleteError.message}`);
-    }
-
-    // Return deletion info
-    return {
-      id: expenseId,
-      deleted_at: now,
-      can_restore: false, // Hard delete, no restore
-      hours_remaining: 0,
-    };
-
-    // Option 2: Soft delete (requires schema update)
-    // Uncomment this when deleted_at, is_deleted, deleted_by columns are added
-    /*
-    const { data, error } = await supabase
-      .from('expenses')
-      .update({
-        deleted_at: now,
-        is_deleted: true,
-        deleted_by: userId,
-      })
-      .eq('id', expenseId)
-      .select()
-      .single();
-
-    if (error) {
-      throw new Error(`Failed to soft delete expense: ${error.message}`);
+    const data = await expenseRepository.softDelete(expenseId, userId, now);
+    if (!data) {
+      throw new Error('Expense not found or already deleted');
     }
 
+    // The database stamps the deletion time with its own clock
+    const deletedAt = data.deleted_at || now;
     return {
-      id: expenseId,
-      deleted_at: now,
-      can_restore: true,
-      hours_remaining: 24,
+      id: data.id,
+      deleted_at: deletedAt,
+      ...getRestoreWindow(deletedAt),
     };
-    */
   } catch (error: any) {
     console.error('Error deleting expense:', error);
     throw error;
@@ -179,63 +162,64 @@ export async function deleteExpense(
 
 /**
  * Restore a soft-deleted expense (only works within 24 hours)
+ * The window is checked here for a clear message and enforced again by the
+ * database (enforce_restore_window).
  * @param expenseId - ID of expense to restore
  * @returns Restored expense
  */
-export async function restoreExpense(expenseId: string): Promise<any> {
+export async function restoreExpense(expenseId: string): Promise<ExpenseRow> {
   try {
-    // This requires soft-delete schema to be implemented
-    throw new Error('Restore functionality requires soft-delete schema. Please add deleted_at columns first.');
-
-    // Uncomment when schema is ready:
-    /*
-    const { data: expense, error: fetchError } = await supabase
-      .from('expenses')
-      .select('*')
-      .eq('id', expenseId)
-      .single();
-
-    if (fetchError || !expense) {
+    const expense = await expenseRepository.getById(expenseId);
+    if (!expense) {
       throw new Error('Expense not found');
     }
 
-    if (!expense.is_deleted) {
+    if (!expense.deleted_at) {
       throw new Error('Expense is not deleted');
     }
 
-    // Check if within 24 hours
-    const deletedAt = new Date(expense.deleted_at);
-    const now = new Date();
-    const hoursSinceDelete = (now.getTime() - deletedAt.getTime()) / (1000 * 60 * 60);
-
-    if (hoursSinceDelete > 24) {
-      throw new Error('Restore window has expired (24 hours)');
+    if (!getRestoreWindow(expense.deleted_at).can_restore) {
+      throw new Error(`Restore window has expired (${RESTORE_WINDOW_HOURS} hours)`);
     }
 
-    // Restore the expense
-    const { data, error } = await supabase
-      .from('expenses')
-      .update({
-        deleted_at: null,
-        is_deleted: false,
-        deleted_by: null,
-      })
-      .eq('id', expenseId)
-      .select()
-      .single();
-
-    if (error) {
-      throw new Error(`Failed to restore expense: ${error.message}`);
-    }
+    const data = await expenseRepository.restore(expenseId);
 
     return data;
-    */
   } catch (error: any) {
     console.error('Error restoring expense:', error);
     throw error;
   }
 }
 
+/**
+ * Get a group's expenses that were deleted recently enough to restore
+ * @param groupId - Group ID
+ * @returns Deleted expenses, most recently deleted first
+ */
+export async function getRecentlyDeletedExpenses(
+  groupId: string
+): Promise<RecentlyDeletedExpense[]> {
+  try {
+    const rows = await expenseRepository.listDeletedSince(groupId, getRestoreCutoff());
+
+    return rows.map((row) => {
+      const deletedAt = row.deleted_at || '';
+      return {
+        id: row.id,
+        description: row.description,
+        amount: Number(row.amount),
+        currency: row.currency,
+        deleted_at: deletedAt,
+        deleted_by: row.deleted_by,
+        ...getRestoreWindow(deletedAt),
+      };
+    });
+  } catch (error: any) {
+    console.error('Error fetching deleted expenses:', error);
+    throw error;
+  }
+}
+
 /**
  * Validate splits sum to expense amount
  * @param amount - Total expense amount
@@ -250,14 +234,13 @@ export function validateSplits(
     return { valid: false, error: 'At least one split is required' };
   }
 
-  const total = splits.reduce((sum, split) => sum + split.amount, 0);
-  const roundedTotal = parseFloat(total.toFixed(2));
-  const roundedAmount = parseFloat(amount.toFixed(2));
+  const totalMinor = splits.reduce((sum, split) => sum + toMinorUnits(split.amount), 0);
+  const amountMinor = toMinorUnits(amount);
 
-  if (Math.abs(roundedTotal - roundedAmount) > 0.01) {
+  if (totalMinor !== amountMinor) {
     return {
       valid: false,
-      error: `Splits total (₹${roundedTotal}) must equal expense amount (₹${roundedAmount})`,
+      error: `Splits total (₹${toMajorUnits(totalMinor)}) must equal expense amount (₹${toMajorUnits(amountMinor)})`,
     };
   }
 
@@ -0,0 +1,82 @@
+/**
+ * Expense Items API
+ * Load receipt line items for itemized expenses, and convert them for the
+ * expense functions, which save them with the expense
+ */
+
+import { supabase } from './client';
+import { Json } from '../types/database';
+import { EMPTY_CHARGES, Receipt, ReceiptCharges } from '../utils/receipt';
+import { toMajorUnits, toMinorUnits } from '../utils/money';
+
+type ChargeKind = keyof ReceiptCharges;
+
+const CHARGE_KINDS: ChargeKind[] = ['tax', 'service_charge', 'tip'];
+
+/**
+ * Get the receipt items stored for an expense
+ * @param expenseId - ID of the expense
+ * @returns Receipt, or null if the expense has no items
+ */
+export async function getExpenseItems(expenseId: string): Promise<Receipt | null> {
+  try {
+    const { data, error } = await supabase
+      .from('expense_items')
+      .select('id, kind, name, amount, position, participants:expense_item_participants(user_id)')
+      .eq('expense_id', expenseId)
+      .order('position', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch expense items: ${error.message}`);
+    }
+
+    if (!data || data.length === 0) {
+      return null;
+    }
+
+    const charges: ReceiptCharges = { ...EMPTY_CHARGES };
+    const items: Receipt['items'] = [];
+
+    for (const row of data) {
+      const amount = Number(row.amount);
+      if (row.kind === 'item') {
+        items.push({
+          name: row.name,
+          amount,
+          participant_ids: (row.participants || []).map((p) => p.user_id),
+        });
+      } else if (CHARGE_KINDS.includes(row.kind as ChargeKind)) {
+        charges[row.kind as ChargeKind] = amount;
+      }
+    }
+
+    return { items, charges };
+  } catch (error: any) {
+    console.error('Error fetching expense items:', error);
+    throw error;
+  }
+}
+
+/**
+ * Receipt items in the form create_expense_with_splits and
+ * update_expense_with_splits store them: items in order, then charges
+ * @param receipt - Items and charges to store
+ */
+export function toExpenseItemsParam(receipt: Receipt): Json {
+  return [
+    ...receipt.items.map((item, index) => ({
+      kind: 'item',
+      name: item.name.trim(),
+      amount: toMajorUnits(toMinorUnits(item.amount)),
+      position: index,
+      participant_ids: item.participant_ids,
+    })),
+    ...CHARGE_KINDS.filter((kind) => receipt.charges[kind] > 0).map((kind, index) => ({
+      kind,
+      name: kind,
+      amount: toMajorUnits(toMinorUnits(receipt.charges[kind])),
+      position: receipt.items.length + index,
+      participant_ids: [],
+    })),
+  ];
+}
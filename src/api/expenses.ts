@@ -4,6 +4,11 @@
  */
 
 import { supabase } from './supabase';
+import { expenseRepository, payerRepository, splitRepository } from './repositories';
+import { getExpenseItems } from './expenseItems';
+import { Receipt } from '../utils/receipt';
+import { CurrencyCode } from '../utils/currency';
+import { isEqualSplit as isEqualSplitAmounts, SplitType } from '../validators/splitValidator';
 
 export interface ExpensePayer {
   user_id: string;
@@ -15,6 +20,7 @@ export interface ExpenseSplit {
   user_id: string;
   name: string;
   amount: number;
+  value: number | null; // Share count, percentage or adjustment for the split mode
 }
 
 export interface ExpenseDetail {
@@ -24,11 +30,17 @@ export interface ExpenseDetail {
   amount: number;
   date: string;
   created_at: string;
+  updated_at: string | null; // Changes on every edit; offline edits are checked against it
   paid_by: string; // Primary payer
   payers: ExpensePayer[];
   splits: ExpenseSplit[];
-  split_type: 'equal' | 'custom';
-  created_by?: string;
+  split_type: SplitType;
+  category: string | null; // Category key
+  notes: string | null;
+  currency: CurrencyCode;
+  exchange_rate: number; // Rate from currency to the group's base currency
+  base_currency: CurrencyCode;
+  receipt: Receipt | null; // Line items for itemized expenses
 }
 
 /**
@@ -38,93 +50,46 @@ export interface ExpenseDetail {
  */
 export async function getExpenseDetail(expenseId: string): Promise<ExpenseDetail> {
   try {
-    // Fetch expense with splits
-    const { data: expense, error: expenseError } = await supabase
-      .from('expenses')
-      .select('*')
-      .eq('id', expenseId)
-      .single();
-
-    if (expenseError) {
-      throw new Error(`Failed to fetch expense: ${expenseError.message}`);
-    }
-
-    if (!expense) {
+    const found = await expenseRepository.getWithBaseCurrency(expenseId);
+    if (!found) {
       throw new Error('Expense not found');
     }
+    const { expense, base_currency: baseCurrency } = found;
 
-    // Fetch payers (check if expense_payers table exists)
-    let payers: ExpensePayer[] = [];
-    const { data: payersData, error: payersError } = await supabase
-      .from('expense_payers')
-      .select('user_id, amount')
-      .eq('expense_id', expenseId);
+    // Older single-payer expenses have no payer rows
+    const payerRows = await payerRepository.listForExpense(expenseId);
+    const splitRows = await splitRepository.listForExpense(expenseId);
 
-    if (!payersError && payersData && payersData.length > 0) {
-      // Multiple payers exist
-      const payerIds = payersData.map((p) => p.user_id);
-      const { data: users } = await supabase
-        .from('users')
-        .select('id, name')
-        .in('id', payerIds);
+    const userIds = [
+      ...new Set([expense.paid_by, ...payerRows.map((p) => p.user_id), ...splitRows.map((s) => s.user_id)]),
+    ];
+    const { data: users } = await supabase
+      .from('users')
+      .select('id, name')
+      .in('id', userIds);
+    const nameOf = (userId: string) => users?.find((u) => u.id === userId)?.name || 'Unknown User';
 
-      payers = payersData.map((payer) => {
-        const user = users?.find((u) => u.id === payer.user_id);
-        return {
+    const payers: ExpensePayer[] = payerRows.length > 0
+      ? payerRows.map((payer) => ({
           user_id: payer.user_id,
-          name: user?.name || 'Unknown User',
-          amount: parseFloat(payer.amount),
-        };
-      });
-    } else {
-      // Single payer (fallback to paid_by)
-      const { data: payerUser } = await supabase
-        .from('users')
-        .select('id, name')
-        .eq('id', expense.paid_by)
-        .single();
-
-      payers = [
-        {
-          user_id: expense.paid_by,
-          name: payerUser?.name || 'Unknown User',
-          amount: parseFloat(expense.amount),
-        },
-      ];
-    }
-
-    // Fetch splits
-    const { data: splitsData, error: splitsError } = await supabase
-      .from('splits')
-      .select('user_id, amount')
-      .eq('expense_id', expenseId);
-
-    if (splitsError) {
-      throw new Error(`Failed to fetch splits: ${splitsError.message}`);
-    }
+          name: nameOf(payer.user_id),
+          amount: Number(payer.amount),
+        }))
+      : [{ user_id: expense.paid_by, name: nameOf(expense.paid_by), amount: Number(expense.amount) }];
 
-    // Get user details for splits
-    const splitUserIds = splitsData?.map((s) => s.user_id) || [];
-    const { data: splitUsers } = await supabase
-      .from('users')
-      .select('id, name')
-      .in('id', splitUserIds);
+    const splits: ExpenseSplit[] = splitRows.map((split) => ({
+      user_id: split.user_id,
+      name: nameOf(split.user_id),
+      amount: Number(split.amount),
+      value: split.split_value !== null ? Number(split.split_value) : null,
+    }));
 
-    const splits: ExpenseSplit[] = (splitsData || []).map((split) => {
-      const user = splitUsers?.find((u) => u.id === split.user_id);
-      return {
-        user_id: split.user_id,
-        name: user?.name || 'Unknown User',
-        amount: parseFloat(split.amount),
-      };
-    });
+    // Use the stored split type; older expenses are inferred from the amounts
+    const totalAmount = Number(expense.amount);
+    const splitType: SplitType = expense.split_type
+      || (isEqualSplitAmounts(splits, totalAmount) ? 'equal' : 'custom');
 
-    // Determine split type
-    const totalAmount = parseFloat(expense.amount);
-    const equalSplitAmount = totalAmount / splits.length;
-    const isEqualSplit = splits.every(
-      (s) => Math.abs(s.amount - equalSplitAmount) < 0.01
-    );
+    const receipt = splitType === 'itemized' ? await getExpenseItems(expenseId) : null;
 
     return {
       id: expense.id,
@@ -132,12 +97,18 @@ export async function getExpenseDetail(expenseId: string): Promise<ExpenseDetail
       description: expense.description,
       amount: totalAmount,
       date: expense.date,
-      created_at: expense.created_at,
+      created_at: expense.created_at || '',
+      updated_at: expense.updated_at,
       paid_by: expense.paid_by,
       payers,
       splits,
-      split_type: isEqualSplit ? 'equal' : 'custom',
-      created_by: expense.created_by,
+      split_type: splitType,
+      category: expense.category || null,
+      notes: expense.notes || null,
+      currency: expense.currency,
+      exchange_rate: Number(expense.exchange_rate),
+      base_currency: baseCurrency,
+      receipt,
     };
   } catch (error: any) {
     console.error('Error fetching expense detail:', error);
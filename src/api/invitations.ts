@@ -0,0 +1,251 @@
+/**
+ * Group Invitations API
+ * Invite people by email or join code, and accept or decline invitations
+ */
+
+import { supabase } from './supabase';
+import { Tables } from '../types/database';
+import { createError, ErrorCode, parseSupabaseError } from '../utils/errorHandler';
+import {
+  DEFAULT_INVITE_EXPIRY_DAYS,
+  getInviteExpiry,
+  isValidEmail,
+  normalizeEmail,
+  normalizeJoinCode,
+} from '../utils/invitations';
+
+export type InvitationStatus = 'pending' | 'accepted' | 'declined' | 'revoked';
+
+export interface GroupInvitation {
+  id: string;
+  group_id: string;
+  invited_by: string;
+  email: string | null; // Null for join codes
+  code: string;
+  status: InvitationStatus;
+  expires_at: string;
+  use_count: number;
+  created_at: string;
+}
+
+export interface PendingInvitation {
+  id: string;
+  group_id: string;
+  group_name: string;
+  invited_by_name: string | null;
+  expires_at: string;
+}
+
+export interface JoinCodePreview {
+  group_id: string;
+  group_name: string;
+  invited_by_name: string | null;
+  expires_at: string;
+  member_count: number;
+  already_member: boolean;
+}
+
+// status is constrained to the InvitationStatus values by a check constraint
+function toInvitation(row: Tables<'group_invitations'>): GroupInvitation {
+  return { ...row, status: row.status as InvitationStatus };
+}
+
+/**
+ * Get a group's pending invitations (email invites and join codes)
+ * @param groupId - Group ID
+ * @returns Pending invitations, newest first; expired ones are included
+ */
+export async function getGroupInvitations(groupId: string): Promise<GroupInvitation[]> {
+  try {
+    const { data, error } = await supabase
+      .from('group_invitations')
+      .select('*')
+      .eq('group_id', groupId)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch invitations: ${error.message}`);
+    }
+
+    return (data || []).map(toInvitation);
+  } catch (error: any) {
+    console.error('Error fetching invitations:', error);
+    throw error;
+  }
+}
+
+/**
+ * Invite someone to a group by email
+ * Replaces any pending invitation for the same address.
+ * @param groupId - Group ID
+ * @param email - Invitee's email address
+ * @param expiresInDays - Days the invitation stays valid
+ * @returns Created invitation
+ */
+export async function inviteByEmail(
+  groupId: string,
+  email: string,
+  expiresInDays: number = DEFAULT_INVITE_EXPIRY_DAYS
+): Promise<GroupInvitation> {
+  try {
+    if (!isValidEmail(email)) {
+      throw createError(ErrorCode.VALIDATION_ERROR, 'Please enter a valid email address');
+    }
+    const normalized = normalizeEmail(email);
+
+    // Only one pending invitation per address: revoke the old one
+    const { data: pending, error: pendingError } = await supabase
+      .from('group_invitations')
+      .select('id')
+      .eq('group_id', groupId)
+      .eq('email', normalized)
+      .eq('status', 'pending');
+
+    if (pendingError) {
+      throw parseSupabaseError(pendingError);
+    }
+
+    for (const invitation of pending || []) {
+      await revokeInvitation(invitation.id);
+    }
+
+    const { data, error } = await supabase
+      .from('group_invitations')
+      .insert({
+        group_id: groupId,
+        email: normalized,
+        expires_at: getInviteExpiry(expiresInDays),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw parseSupabaseError(error);
+    }
+
+    return toInvitation(data);
+  } catch (error: any) {
+    console.error('Error inviting by email:', error);
+    throw error;
+  }
+}
+
+/**
+ * Create a shareable join code for a group
+ * Anyone with the code can join until it expires or is revoked.
+ * @param groupId - Group ID
+ * @param expiresInDays - Days the code stays valid
+ * @returns Created invitation; `code` is generated by the database
+ */
+export async function createJoinCode(
+  groupId: string,
+  expiresInDays: number = DEFAULT_INVITE_EXPIRY_DAYS
+): Promise<GroupInvitation> {
+  try {
+    const { data, error } = await supabase
+      .from('group_invitations')
+      .insert({
+        group_id: groupId,
+        email: null,
+        expires_at: getInviteExpiry(expiresInDays),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw parseSupabaseError(error);
+    }
+
+    return toInvitation(data);
+  } catch (error: any) {
+    console.error('Error creating join code:', error);
+    throw error;
+  }
+}
+
+/**
+ * Revoke a pending invitation or join code
+ * Does nothing if it is no longer pending.
+ * @param invitationId - Invitation ID
+ */
+export async function revokeInvitation(invitationId: string): Promise<void> {
+  const { error } = await supabase.rpc('revoke_invitation', { p_invitation_id: invitationId });
+
+  if (error) {
+    throw parseSupabaseError(error);
+  }
+}
+
+/**
+ * Get email invitations waiting for the signed-in user
+ * @returns Pending, unexpired invitations to groups the user is not in
+ */
+export async function getMyInvitations(): Promise<PendingInvitation[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_my_invitations');
+
+    if (error) {
+      throw parseSupabaseError(error);
+    }
+
+    return data || [];
+  } catch (error: any) {
+    console.error('Error fetching my invitations:', error);
+    throw error;
+  }
+}
+
+/**
+ * Accept or decline an email invitation
+ * @param invitationId - Invitation ID
+ * @param accept - True to join the group, false to decline
+ * @returns Group ID
+ */
+export async function respondToInvitation(invitationId: string, accept: boolean): Promise<string> {
+  const { data, error } = await supabase.rpc('respond_to_invitation', {
+    p_invitation_id: invitationId,
+    p_accept: accept,
+  });
+
+  if (error) {
+    throw parseSupabaseError(error);
+  }
+
+  return data;
+}
+
+/**
+ * Look up the group behind a join code
+ * @param code - Join code (any case, dashes allowed)
+ * @returns Group details, or null if the code is invalid or expired
+ */
+export async function previewJoinCode(code: string): Promise<JoinCodePreview | null> {
+  const { data, error } = await supabase.rpc('get_join_code_preview', {
+    p_code: normalizeJoinCode(code),
+  });
+
+  if (error) {
+    throw parseSupabaseError(error);
+  }
+
+  const row = data?.[0];
+  return row ? { ...row, member_count: Number(row.member_count) } : null;
+}
+
+/**
+ * Join a group with a join code
+ * @param code - Join code (any case, dashes allowed)
+ * @returns Group ID
+ */
+export async function joinWithCode(code: string): Promise<string> {
+  const { data, error } = await supabase.rpc('join_group_with_code', {
+    p_code: normalizeJoinCode(code),
+  });
+
+  if (error) {
+    throw parseSupabaseError(error);
+  }
+
+  return data;
+}
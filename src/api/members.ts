@@ -0,0 +1,212 @@
+/**
+ * Group Members API
+ * Guest members (people without an account), claiming a guest identity,
+ * roles, leaving and removing members, and archiving groups
+ */
+
+import { supabase } from './supabase';
+import { groupRepository, GroupRow, memberRepository } from './repositories';
+import { calculateGroupDebts } from './debtSimplification';
+import { createError, ErrorCode, parseSupabaseError } from '../utils/errorHandler';
+import { GroupRole } from '../utils/permissions';
+import {
+  describeOutstandingBalance,
+  getOutstandingBalance,
+  getMemberName,
+  GroupMember,
+  validateGuestName,
+} from '../utils/members';
+
+/**
+ * Add a guest to a group by name
+ * @param groupId - Group ID
+ * @param name - Guest's name, unique within the group
+ * @param members - Current members, used to check the name before saving
+ * @returns Guest's user ID
+ */
+export async function addGuestMember(groupId: string, name: string, members: GroupMember[]): Promise<string> {
+  const nameError = validateGuestName(name, members);
+  if (nameError) {
+    throw createError(ErrorCode.VALIDATION_ERROR, nameError);
+  }
+
+  const { data, error } = await supabase.rpc('add_guest_member', {
+    p_group_id: groupId,
+    p_name: name.trim(),
+  });
+
+  if (error) {
+    throw parseSupabaseError(error);
+  }
+
+  return data;
+}
+
+/**
+ * Claim a guest as the signed-in user
+ * The guest's payers, splits and settlements move to the user's account and
+ * the guest leaves the group.
+ * @param guestId - Guest's user ID
+ * @returns Group ID
+ */
+export async function claimGuestMember(guestId: string): Promise<string> {
+  const { data, error } = await supabase.rpc('claim_guest_member', {
+    p_guest_id: guestId,
+  });
+
+  if (error) {
+    throw parseSupabaseError(error);
+  }
+
+  return data;
+}
+
+/**
+ * Refuse to continue while a member has an unsettled balance
+ * The database refuses to remove unsettled members as well; this check
+ * comes first so the error can list the payments still to make.
+ * @param subject - "You" or the member's name, for the error message
+ */
+async function assertMemberSettled(group: GroupRow, groupId: string, userId: string, subject: string): Promise<void> {
+  const plan = await calculateGroupDebts(groupId);
+  const { balance, payments } = getOutstandingBalance(plan, userId);
+
+  if (payments.length > 0) {
+    throw createError(
+      ErrorCode.VALIDATION_ERROR,
+      `${describeOutstandingBalance(subject, balance, group.base_currency)} in this group. Record the settlement first.`,
+      { balance, payments }
+    );
+  }
+}
+
+/**
+ * Get a user's role in a group
+ * @param groupId - Group ID
+ * @param userId - User ID
+ * @returns Role, or null if the user is not a member
+ */
+export async function getMyRole(groupId: string, userId: string): Promise<GroupRole | null> {
+  return memberRepository.getRole(groupId, userId);
+}
+
+/**
+ * Change a member's role (owners, and admins for members and viewers)
+ * @param groupId - Group ID
+ * @param userId - Member's user ID
+ * @param role - New role
+ */
+export async function updateMemberRole(groupId: string, userId: string, role: GroupRole): Promise<void> {
+  const updated = await memberRepository.updateRole(groupId, userId, role);
+
+  // RLS hides rows the user may not change instead of raising
+  if (updated.length === 0) {
+    throw createError(ErrorCode.PERMISSION_DENIED, "You cannot change this member's role");
+  }
+}
+
+/**
+ * Leave a group
+ * Refused while the user still owes or is owed money. Owners cannot leave;
+ * they can archive the group instead.
+ * @param groupId - Group ID
+ * @param userId - Current user's ID
+ */
+export async function leaveGroup(groupId: string, userId: string): Promise<void> {
+  try {
+    const group = await groupRepository.getById(groupId);
+    if ((await getMyRole(groupId, userId)) === 'owner') {
+      throw createError(
+        ErrorCode.VALIDATION_ERROR,
+        'Owners cannot leave a group. Archive it, or ask another owner to change your role first.'
+      );
+    }
+
+    await assertMemberSettled(group, groupId, userId, 'You');
+
+    const removed = await memberRepository.remove(groupId, userId);
+
+    // RLS hides rows the user may not delete instead of raising
+    if (removed.length === 0) {
+      throw createError(ErrorCode.PERMISSION_DENIED, 'You cannot leave this group');
+    }
+  } catch (error: any) {
+    console.error('Error leaving group:', error);
+    throw error;
+  }
+}
+
+/**
+ * Remove a member (or guest) from a group (owners, and admins for members
+ * and viewers)
+ * Refused while the member still owes or is owed money. Their shares of
+ * past expenses are kept, and the group still sees their name in its history.
+ * @param groupId - Group ID
+ * @param member - Member to remove
+ */
+export async function removeMember(groupId: string, member: GroupMember): Promise<void> {
+  try {
+    const group = await groupRepository.getById(groupId);
+    await assertMemberSettled(group, groupId, member.id, getMemberName(member));
+
+    const removed = await memberRepository.remove(groupId, member.id);
+
+    // RLS hides rows the user may not delete instead of raising
+    if (removed.length === 0) {
+      throw createError(ErrorCode.PERMISSION_DENIED, 'You cannot remove this member');
+    }
+  } catch (error: any) {
+    console.error('Error removing member:', error);
+    throw error;
+  }
+}
+
+/**
+ * Archive a group (owners only)
+ * Archived groups are hidden from the groups list by default and become
+ * read-only. Refused until every balance in the group is settled.
+ * @param groupId - Group ID
+ * @returns Archive timestamp
+ */
+export async function archiveGroup(groupId: string): Promise<string> {
+  try {
+    const group = await groupRepository.getById(groupId);
+    const plan = await calculateGroupDebts(groupId);
+
+    if (plan.length > 0) {
+      throw createError(
+        ErrorCode.VALIDATION_ERROR,
+        `This group still has ${plan.length} payment${plan.length === 1 ? '' : 's'} to settle. Settle up before archiving it.`,
+        { payments: plan }
+      );
+    }
+
+    const archivedAt = group.archived_at || new Date().toISOString();
+    await setArchivedAt(groupId, archivedAt);
+    return archivedAt;
+  } catch (error: any) {
+    console.error('Error archiving group:', error);
+    throw error;
+  }
+}
+
+/**
+ * Make an archived group editable again (owners only)
+ * @param groupId - Group ID
+ */
+export async function unarchiveGroup(groupId: string): Promise<void> {
+  try {
+    await setArchivedAt(groupId, null);
+  } catch (error: any) {
+    console.error('Error unarchiving group:', error);
+    throw error;
+  }
+}
+
+async function setArchivedAt(groupId: string, archivedAt: string | null): Promise<void> {
+  const updated = await groupRepository.update(groupId, { archived_at: archivedAt });
+
+  if (updated.length === 0) {
+    throw createError(ErrorCode.PERMISSION_DENIED, 'Only group owners can archive this group');
+  }
+}
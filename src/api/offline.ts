@@ -0,0 +1,182 @@
+/**
+ * Offline API
+ * Cached reads, queued writes and syncing them when the connection returns
+ *
+ * The cache and outbox live in AsyncStorage (see utils/offlineSync.ts for
+ * how queued changes are replayed and checked for conflicts).
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import { createExpenseWithMultiplePayers } from './supabase';
+import { expenseRepository } from './repositories';
+import { updateExpense, deleteExpense } from './expenseActions';
+import { recordSettlement } from './settlements';
+import { retryWithBackoff } from '../utils/errorHandler';
+import {
+  enqueue,
+  getOutbox,
+  isOfflineError,
+  KeyValueStore,
+  NewOutboxEntry,
+  OutboxEntry,
+  readCache,
+  removeOutboxEntry,
+  replayOutbox,
+  ServerVersion,
+  SyncHandlers,
+  SyncResult,
+  updateOutboxEntry,
+  writeCache,
+} from '../utils/offlineSync';
+
+const store: KeyValueStore = AsyncStorage;
+
+export interface CachedResult<T> {
+  data: T;
+  fromCache: boolean;
+  savedAt: string | null; // When the cached copy was fetched
+}
+
+type OutboxListener = (entries: OutboxEntry[]) => void;
+
+const listeners = new Set<OutboxListener>();
+let syncing: Promise<SyncResult> | null = null;
+
+async function notifyListeners(): Promise<void> {
+  const entries = await getOutbox(store);
+  listeners.forEach((listener) => listener(entries));
+}
+
+/**
+ * Fetch data, keeping a copy to fall back on when offline
+ * @param key - Cache key, e.g. "group:<id>"
+ * @param fetcher - Loads the data from the server
+ * @returns Fresh data, or the cached copy if the server cannot be reached
+ * @throws The fetch error if offline with nothing cached, or if the server
+ *   refused the request
+ */
+export async function withOfflineCache<T>(key: string, fetcher: () => Promise<T>): Promise<CachedResult<T>> {
+  try {
+    const data = await retryWithBackoff(fetcher, 2);
+    await writeCache(store, key, data);
+    return { data, fromCache: false, savedAt: null };
+  } catch (error) {
+    if (!isOfflineError(error)) throw error;
+
+    const cached = await readCache<T>(store, key);
+    if (!cached) throw error;
+    return { data: cached.data, fromCache: true, savedAt: cached.saved_at };
+  }
+}
+
+/**
+ * Make a change now, or queue it if the server cannot be reached
+ * @param change - How to replay the change later
+ * @param run - Makes the change now
+ * @returns 'done' if the change was made, 'queued' if it waits for sync
+ */
+export async function runOrQueue(change: NewOutboxEntry, run: () => Promise<unknown>): Promise<'done' | 'queued'> {
+  try {
+    await run();
+    return 'done';
+  } catch (error) {
+    if (!isOfflineError(error)) throw error;
+
+    await enqueue(store, change);
+    await notifyListeners();
+    return 'queued';
+  }
+}
+
+async function getServerVersion(expenseId: string): Promise<ServerVersion | null> {
+  return expenseRepository.getVersion(expenseId);
+}
+
+const handlers: SyncHandlers = {
+  getServerVersion,
+  run: {
+    async create_expense(entry) {
+      const { expense, receipt } = entry.payload;
+      await createExpenseWithMultiplePayers({ ...expense, receipt });
+    },
+    async update_expense(entry) {
+      const { data, receipt, change_id } = entry.payload;
+      await updateExpense(entry.expense_id!, { ...data, receipt }, change_id ?? null);
+    },
+    async delete_expense(entry) {
+      await deleteExpense(entry.expense_id!, entry.payload.user_id);
+    },
+    async record_settlement(entry) {
+      await recordSettlement(entry.payload);
+    },
+  },
+};
+
+/**
+ * Send queued changes now; concurrent calls share one sync
+ */
+export async function syncPendingChanges(): Promise<SyncResult> {
+  if (!syncing) {
+    syncing = replayOutbox(store, handlers).finally(() => {
+      syncing = null;
+      notifyListeners();
+    });
+  }
+  return syncing;
+}
+
+export async function getPendingChanges(): Promise<OutboxEntry[]> {
+  return getOutbox(store);
+}
+
+/**
+ * Drop a queued change without sending it
+ */
+export async function discardPendingChange(id: string): Promise<void> {
+  await removeOutboxEntry(store, id);
+  await notifyListeners();
+}
+
+/**
+ * Try a conflicting or failed change again
+ * @param id - Outbox entry
+ * @param force - Apply it even though the expense changed on the server
+ */
+export async function retryPendingChange(id: string, force: boolean = false): Promise<SyncResult> {
+  await updateOutboxEntry(store, id, { status: 'pending', error: null, force });
+  return syncPendingChanges();
+}
+
+/**
+ * Listen for changes to the outbox
+ * @returns Unsubscribe function
+ */
+export function subscribeToPendingChanges(listener: OutboxListener): () => void {
+  listeners.add(listener);
+  getOutbox(store).then(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Sync whenever the device comes back online
+ * @param onSynced - Called after a sync that sent at least one change
+ * @returns Function that stops listening
+ */
+export function startOfflineSync(onSynced?: (result: SyncResult) => void): () => void {
+  // Starts out "offline" so changes left from a previous session sync on launch
+  let wasConnected = false;
+  return NetInfo.addEventListener((state) => {
+    const connected = state.isConnected !== false && state.isInternetReachable !== false;
+    if (connected && !wasConnected) {
+      syncPendingChanges()
+        .then((result) => {
+          if (result.synced > 0) onSynced?.(result);
+        })
+        .catch((error) => console.error('Error syncing pending changes:', error));
+    }
+    wasConnected = connected;
+  });
+}
@@ -0,0 +1,104 @@
+/**
+ * Realtime API
+ * Loads a group snapshot and streams changes to it while the group is open
+ *
+ * See utils/realtimeSync.ts for how changes are applied.
+ */
+
+import { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { expenseRepository, memberRepository, settlementRepository } from './repositories';
+import { Tables } from '../types/database';
+import { parseSupabaseError } from '../utils/errorHandler';
+import { GroupSnapshot, RealtimeChange, RealtimeTable, SnapshotExpense } from '../utils/realtimeSync';
+
+// Tables with a group_id column can be filtered to the group on the server;
+// splits and payers are filtered on the device by expense
+const GROUP_TABLES: RealtimeTable[] = ['expenses', 'settlement_transactions', 'group_members'];
+const EXPENSE_TABLES: RealtimeTable[] = ['splits', 'expense_payers'];
+
+export interface GroupSubscriptionHandlers {
+  onChange: (change: RealtimeChange) => void;
+  // Called after the connection drops and comes back; changes made in
+  // between were missed, so the group should be reloaded
+  onResync: () => void;
+}
+
+/**
+ * Load everything a group screen shows and keeps current
+ * @param groupId - UUID of the group
+ * @returns Expenses with splits and payers, members and recorded payments
+ */
+export async function fetchGroupSnapshot(groupId: string): Promise<GroupSnapshot> {
+  return {
+    expenses: await expenseRepository.listForGroup(groupId),
+    members: await memberRepository.listWithProfiles(groupId),
+    settlements: await settlementRepository.listForGroup(groupId),
+    legacy_payments: await settlementRepository.listLegacyPayments(groupId),
+  };
+}
+
+/**
+ * Load one expense with its splits and payers, e.g. after it was restored
+ * @returns The expense, or null if it is gone
+ */
+export async function fetchSnapshotExpense(expenseId: string): Promise<SnapshotExpense | null> {
+  return expenseRepository.getWithShares(expenseId);
+}
+
+/**
+ * Load user profiles, e.g. for members who just joined
+ */
+export async function fetchProfiles(userIds: string[]): Promise<Tables<'users'>[]> {
+  const { data, error } = await supabase.from('users').select('*').in('id', userIds);
+
+  if (error) throw parseSupabaseError(error);
+  return data || [];
+}
+
+/**
+ * Stream changes to a group's expenses, splits, payers, payments and members
+ * @param groupId - UUID of the group
+ * @param handlers - Receive each change, and reconnects that need a reload
+ * @returns Function that unsubscribes
+ */
+export function subscribeToGroup(groupId: string, handlers: GroupSubscriptionHandlers): () => void {
+  let channel: RealtimeChannel = supabase.channel(`group:${groupId}`);
+  let subscribed = false;
+
+  // Only the tables subscribed to below send changes
+  const forward = (payload: RealtimePostgresChangesPayload<Record<string, any>>) => {
+    handlers.onChange({
+      table: payload.table as RealtimeTable,
+      eventType: payload.eventType,
+      new: payload.new || {},
+      old: payload.old || {},
+      commit_timestamp: payload.commit_timestamp,
+    });
+  };
+
+  for (const table of GROUP_TABLES) {
+    channel = channel.on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table, filter: `group_id=eq.${groupId}` },
+      forward
+    );
+  }
+  for (const table of EXPENSE_TABLES) {
+    channel = channel.on('postgres_changes', { event: '*', schema: 'public', table }, forward);
+  }
+
+  // The client rejoins the channel by itself after a dropped connection
+  channel.subscribe((status, error) => {
+    if (status === 'SUBSCRIBED') {
+      if (subscribed) handlers.onResync();
+      subscribed = true;
+    } else if (error) {
+      console.error(`Realtime ${status} for group ${groupId}:`, error);
+    }
+  });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
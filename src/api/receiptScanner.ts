@@ -0,0 +1,52 @@
+/**
+ * Receipt Scanner
+ * Reads a photographed receipt on the device to prefill a new expense
+ *
+ * The default parser recognizes text with ML Kit, which runs offline and
+ * needs a development build (it is not available in Expo Go).
+ */
+
+import TextRecognition from '@react-native-ml-kit/text-recognition';
+import { createError, ErrorCode } from '../utils/errorHandler';
+import { createTextReceiptParser, ParsedReceipt, ReceiptParser } from '../utils/receiptParser';
+
+let activeParser: ReceiptParser = createTextReceiptParser(async (imageUri) => {
+  const result = await TextRecognition.recognize(imageUri);
+  return result.text;
+});
+
+/**
+ * Get the parser used to read receipts
+ */
+export function getReceiptParser(): ReceiptParser {
+  return activeParser;
+}
+
+/**
+ * Replace the receipt parser (e.g. with another OCR engine)
+ * @param parser - Parser to use from now on
+ */
+export function setReceiptParser(parser: ReceiptParser): void {
+  activeParser = parser;
+}
+
+/**
+ * Read a receipt photo
+ * @param imageUri - Local URI of the photo
+ * @returns What could be read from the receipt
+ * @throws AppError if the photo could not be read at all
+ */
+export async function scanReceipt(imageUri: string): Promise<ParsedReceipt> {
+  try {
+    return await activeParser.parse(imageUri);
+  } catch (error: any) {
+    const notLinked = error?.message?.includes('linked');
+    throw createError(
+      ErrorCode.UNKNOWN_ERROR,
+      notLinked
+        ? 'Receipt scanning is not available in this build of the app'
+        : 'Could not read the receipt. Try a sharper, well-lit photo.',
+      { imageUri, reason: error?.message }
+    );
+  }
+}
@@ -0,0 +1,331 @@
+/**
+ * Recurring Expenses API
+ * Manage recurring expense templates and generate their due occurrences
+ */
+
+import { supabase, createExpenseWithMultiplePayers } from './supabase';
+import { expenseRepository } from './repositories';
+import { Json, Tables } from '../types/database';
+import { CurrencyCode, DEFAULT_CURRENCY } from '../utils/currency';
+import {
+  getDueOccurrences,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  todayISO,
+  validateRecurrenceRule,
+} from '../utils/recurrence';
+import { validateSplits, SplitType } from '../validators/splitValidator';
+import { toMajorUnits, toMinorUnits } from '../utils/money';
+
+// Postgres error code for a unique constraint violation (AppError details.code)
+const UNIQUE_VIOLATION = '23505';
+
+export interface RecurringShare {
+  user_id: string;
+  amount: number;
+  value?: number | null;
+}
+
+export interface RecurringExpense extends RecurrenceRule {
+  id: string;
+  group_id: string;
+  created_by: string;
+  description: string;
+  amount: number;
+  currency: CurrencyCode;
+  split_type: SplitType | null;
+  payers: RecurringShare[];
+  splits: RecurringShare[];
+  skipped_dates: string[];
+  active: boolean;
+  last_generated_date: string | null;
+}
+
+export interface CreateRecurringExpenseInput {
+  group_id: string;
+  created_by: string;
+  description: string;
+  amount: number;
+  currency?: CurrencyCode;
+  split_type?: SplitType;
+  payers: RecurringShare[];
+  splits: RecurringShare[];
+  frequency: RecurrenceFrequency;
+  interval?: number;
+  start_date: string;
+  end_date?: string | null;
+}
+
+export interface GenerationResult {
+  created: number; // Expenses created in this run
+  skipped: number; // Occurrences another run had already created
+  failed: Array<{ recurring_expense_id: string; occurrence_date: string; error: string }>;
+}
+
+/**
+ * Get all recurring expense templates for a group
+ * @param groupId - Group ID
+ * @returns Templates, soonest start first
+ */
+export async function getRecurringExpenses(groupId: string): Promise<RecurringExpense[]> {
+  try {
+    const { data, error } = await supabase
+      .from('recurring_expenses')
+      .select('*')
+      .eq('group_id', groupId)
+      .order('start_date', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch recurring expenses: ${error.message}`);
+    }
+
+    return (data || []).map(toRecurringExpense);
+  } catch (error: any) {
+    console.error('Error fetching recurring expenses:', error);
+    throw error;
+  }
+}
+
+/**
+ * Create a recurring expense template
+ * @param input - Template details and schedule
+ * @returns Created template
+ */
+export async function createRecurringExpense(
+  input: CreateRecurringExpenseInput
+): Promise<RecurringExpense> {
+  try {
+    const rule: RecurrenceRule = {
+      frequency: input.frequency,
+      interval: input.interval ?? 1,
+      start_date: input.start_date,
+      end_date: input.end_date || null,
+    };
+
+    const ruleErrors = validateRecurrenceRule(rule);
+    if (ruleErrors.length > 0) {
+      throw new Error(ruleErrors[0].message);
+    }
+
+    if (!input.description.trim()) {
+      throw new Error('Description is required');
+    }
+
+    const splitErrors = validateSplits(input.splits, input.amount, input.currency);
+    if (splitErrors.length > 0) {
+      throw new Error(splitErrors[0].message);
+    }
+
+    const paidMinor = input.payers.reduce((sum, p) => sum + toMinorUnits(p.amount), 0);
+    if (input.payers.length === 0 || paidMinor !== toMinorUnits(input.amount)) {
+      throw new Error('Payer amounts must sum to the expense amount');
+    }
+
+    const { data, error } = await supabase
+      .from('recurring_expenses')
+      .insert({
+        group_id: input.group_id,
+        created_by: input.created_by,
+        description: input.description.trim(),
+        amount: toMajorUnits(toMinorUnits(input.amount)),
+        currency: input.currency || DEFAULT_CURRENCY,
+        split_type: input.split_type || null,
+        payers: input.payers.map(toShareJson),
+        splits: input.splits.map(toShareJson),
+        ...rule,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create recurring expense: ${error.message}`);
+    }
+
+    return toRecurringExpense(data);
+  } catch (error: any) {
+    console.error('Error creating recurring expense:', error);
+    throw error;
+  }
+}
+
+/**
+ * Pause or resume a recurring expense
+ * @param id - Template ID
+ * @param active - Whether occurrences should keep being generated
+ */
+export async function setRecurringExpenseActive(id: string, active: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('recurring_expenses')
+    .update({ active, updated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to update recurring expense: ${error.message}`);
+  }
+}
+
+/**
+ * Skip a single occurrence so it is never generated
+ * @param template - Template to update
+ * @param date - Occurrence date to skip
+ */
+export async function skipOccurrence(template: RecurringExpense, date: string): Promise<void> {
+  if (template.skipped_dates.includes(date)) return;
+
+  const { error } = await supabase
+    .from('recurring_expenses')
+    .update({
+      skipped_dates: [...template.skipped_dates, date].sort(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', template.id);
+
+  if (error) {
+    throw new Error(`Failed to skip occurrence: ${error.message}`);
+  }
+}
+
+/**
+ * Delete a recurring expense template
+ * Expenses it already generated are kept.
+ * @param id - Template ID
+ */
+export async function deleteRecurringExpense(id: string): Promise<void> {
+  const { error } = await supabase.from('recurring_expenses').delete().eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to delete recurring expense: ${error.message}`);
+  }
+}
+
+/**
+ * Create expenses for every due occurrence of a group's active templates
+ *
+ * Safe to run any number of times: occurrences that already have an expense
+ * are skipped, and the unique (recurring_expense_id, occurrence_date) index
+ * rejects duplicates if two devices generate at the same moment. Only the
+ * primary payer may insert an expense, so each device generates the
+ * templates paid for by its own user.
+ *
+ * @param groupId - Group ID
+ * @param userId - Current user
+ * @param today - Generate occurrences on or before this date
+ * @returns Counts of created and skipped occurrences, plus failures
+ */
+export async function generateDueExpenses(
+  groupId: string,
+  userId: string,
+  today: string = todayISO()
+): Promise<GenerationResult> {
+  const result: GenerationResult = { created: 0, skipped: 0, failed: [] };
+
+  const templates = (await getRecurringExpenses(groupId)).filter(
+    (t) => t.active && t.payers[0]?.user_id === userId
+  );
+
+  for (const template of templates) {
+    // Deleted occurrences count as generated so deleting one does not bring it back
+    const generated = await expenseRepository.listOccurrenceDates(template.id);
+    const due = getDueOccurrences(template, today, generated);
+
+    // Latest occurrence with every earlier one created; failed ones are
+    // retried next run, so the date stops short of the first failure
+    let lastGenerated: string | null = null;
+    let hasFailed = false;
+
+    for (const date of due) {
+      try {
+        await createExpenseWithMultiplePayers({
+          groupId,
+          description: template.description,
+          amount: template.amount,
+          payers: template.payers.map((p) => ({ userId: p.user_id, amount: p.amount })),
+          splits: template.splits.map((s) => ({ userId: s.user_id, amount: s.amount, value: s.value })),
+          splitType: template.split_type || undefined,
+          currency: template.currency,
+          date,
+          recurringExpenseId: template.id,
+          occurrenceDate: date,
+        });
+        result.created++;
+        if (!hasFailed) lastGenerated = date;
+      } catch (error: any) {
+        if (error?.details?.code === UNIQUE_VIOLATION) {
+          // Another run created this occurrence first
+          result.skipped++;
+          if (!hasFailed) lastGenerated = date;
+        } else {
+          hasFailed = true;
+          console.error('Error generating recurring expense:', error);
+          result.failed.push({
+            recurring_expense_id: template.id,
+            occurrence_date: date,
+            error: error?.message || 'Unknown error',
+          });
+        }
+      }
+    }
+
+    if (lastGenerated && (!template.last_generated_date || lastGenerated > template.last_generated_date)) {
+      const { error } = await supabase
+        .from('recurring_expenses')
+        .update({ last_generated_date: lastGenerated })
+        .eq('id', template.id);
+
+      if (error) {
+        throw new Error(`Failed to update recurring expense: ${error.message}`);
+      }
+    }
+  }
+
+  return result;
+}
+
+// currency, split_type and frequency are constrained by check constraints
+function toRecurringExpense(row: Tables<'recurring_expenses'>): RecurringExpense {
+  return {
+    id: row.id,
+    group_id: row.group_id,
+    created_by: row.created_by,
+    description: row.description,
+    amount: Number(row.amount),
+    currency: (row.currency || DEFAULT_CURRENCY) as CurrencyCode,
+    split_type: row.split_type as SplitType | null,
+    payers: toShares(row.payers),
+    splits: toShares(row.splits),
+    frequency: row.frequency as RecurrenceFrequency,
+    interval: row.interval,
+    start_date: row.start_date,
+    end_date: row.end_date,
+    skipped_dates: row.skipped_dates || [],
+    active: row.active,
+    last_generated_date: row.last_generated_date,
+  };
+}
+
+function toShareJson(share: RecurringShare) {
+  return { user_id: share.user_id, amount: share.amount, value: share.value ?? null };
+}
+
+type ShareJson = { user_id: string; amount: number | string; value?: number | string | null };
+
+function isShareJson(value: Json): value is ShareJson {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    typeof value.user_id === 'string' &&
+    (typeof value.amount === 'number' || typeof value.amount === 'string')
+  );
+}
+
+// payers and splits are JSON arrays written by toShareJson; anything else
+// in them is ignored
+function toShares(json: Json): RecurringShare[] {
+  if (!Array.isArray(json)) return [];
+  return json.filter(isShareJson).map((share) => ({
+    user_id: share.user_id,
+    amount: Number(share.amount),
+    value: share.value === null || share.value === undefined ? null : Number(share.value),
+  }));
+}
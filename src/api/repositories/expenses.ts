@@ -0,0 +1,170 @@
+/**
+ * Expenses Repository
+ * Expense rows, on their own or with their splits and payers. Expenses are
+ * created and edited through the create/update_expense_with_splits
+ * functions so the three tables change together.
+ */
+
+import { supabase } from '../client';
+import { Tables } from '../../types/database';
+import { CurrencyCode, DEFAULT_CURRENCY, isSupportedCurrency } from '../../utils/currency';
+import { SplitType } from '../../validators/splitValidator';
+import { PayerRow } from './payers';
+import { SplitRow } from './splits';
+import { unwrap } from './result';
+
+export type ExpenseRow = Omit<Tables<'expenses'>, 'currency' | 'split_type'> & {
+  currency: CurrencyCode;
+  split_type: SplitType | null; // Null for expenses saved before split types were stored
+};
+
+export type ExpenseWithShares = ExpenseRow & {
+  splits: SplitRow[];
+  payers: PayerRow[];
+};
+
+const WITH_SHARES = '*, splits(*), payers:expense_payers(*)';
+
+// split_type is constrained to the SplitType values by a check constraint
+function toExpense<T extends Tables<'expenses'>>(
+  row: T
+): Omit<T, 'currency' | 'split_type'> & Pick<ExpenseRow, 'currency' | 'split_type'> {
+  return {
+    ...row,
+    currency: isSupportedCurrency(row.currency) ? row.currency : DEFAULT_CURRENCY,
+    split_type: row.split_type as SplitType | null,
+  };
+}
+
+export const expenseRepository = {
+  /**
+   * @returns The expense (deleted or not), or null if it does not exist
+   */
+  async getById(expenseId: string): Promise<ExpenseRow | null> {
+    const row = await unwrap(supabase.from('expenses').select('*').eq('id', expenseId).maybeSingle());
+    return row ? toExpense(row) : null;
+  },
+
+  /**
+   * @returns The expense with its splits and payers, or null if it does not exist
+   */
+  async getWithShares(expenseId: string): Promise<ExpenseWithShares | null> {
+    const row = await unwrap(supabase.from('expenses').select(WITH_SHARES).eq('id', expenseId).maybeSingle());
+    return row ? toExpense(row) : null;
+  },
+
+  /**
+   * @returns The expense and its group's base currency, or null if it does not exist
+   */
+  async getWithBaseCurrency(expenseId: string): Promise<{ expense: ExpenseRow; base_currency: CurrencyCode } | null> {
+    const row = await unwrap(
+      supabase.from('expenses').select('*, groups(base_currency)').eq('id', expenseId).maybeSingle()
+    );
+    if (!row) return null;
+
+    const { groups, ...expense } = row;
+    const baseCurrency = groups?.base_currency;
+    return {
+      expense: toExpense(expense),
+      base_currency: baseCurrency && isSupportedCurrency(baseCurrency) ? baseCurrency : DEFAULT_CURRENCY,
+    };
+  },
+
+  /**
+   * A group's expenses with their splits and payers
+   * @param groupId - Group ID
+   * @returns Expenses that are not deleted, newest date first, then newest created
+   */
+  async listForGroup(groupId: string): Promise<ExpenseWithShares[]> {
+    const rows = await unwrap(
+      supabase
+        .from('expenses')
+        .select(WITH_SHARES)
+        .eq('group_id', groupId)
+        .is('deleted_at', null)
+        .order('date', { ascending: false })
+        .order('created_at', { ascending: false })
+    );
+    return rows.map(toExpense);
+  },
+
+  /**
+   * @param since - Oldest deletion time to include
+   * @returns Deleted expenses, most recently deleted first
+   */
+  async listDeletedSince(groupId: string, since: string): Promise<ExpenseRow[]> {
+    const rows = await unwrap(
+      supabase
+        .from('expenses')
+        .select('*')
+        .eq('group_id', groupId)
+        .not('deleted_at', 'is', null)
+        .gte('deleted_at', since)
+        .order('deleted_at', { ascending: false })
+    );
+    return rows.map(toExpense);
+  },
+
+  /**
+   * Descriptions and categories of a group's most recent categorized expenses
+   */
+  async listCategorized(groupId: string, limit: number): Promise<Array<{ description: string; category: string }>> {
+    const rows = await unwrap(
+      supabase
+        .from('expenses')
+        .select('description, category')
+        .eq('group_id', groupId)
+        .not('category', 'is', null)
+        .is('deleted_at', null)
+        .order('created_at', { ascending: false })
+        .limit(limit)
+    );
+    return rows.flatMap(({ description, category }) => (category ? [{ description, category }] : []));
+  },
+
+  /**
+   * Dates already generated from a recurring expense, including deleted ones
+   */
+  async listOccurrenceDates(recurringExpenseId: string): Promise<string[]> {
+    const rows = await unwrap(
+      supabase.from('expenses').select('occurrence_date').eq('recurring_expense_id', recurringExpenseId)
+    );
+    return rows.flatMap((row) => (row.occurrence_date ? [row.occurrence_date] : []));
+  },
+
+  /**
+   * @returns When the expense last changed, the app's ID for that change and
+   *   whether it is deleted, or null if it does not exist
+   */
+  async getVersion(
+    expenseId: string
+  ): Promise<Pick<ExpenseRow, 'updated_at' | 'deleted_at' | 'last_change_id'> | null> {
+    return unwrap(
+      supabase.from('expenses').select('updated_at, deleted_at, last_change_id').eq('id', expenseId).maybeSingle()
+    );
+  },
+
+  /**
+   * Mark an expense deleted
+   * @returns The deleted expense, or null if it does not exist or is already deleted
+   */
+  async softDelete(expenseId: string, userId: string, deletedAt: string): Promise<ExpenseRow | null> {
+    const row = await unwrap(
+      supabase
+        .from('expenses')
+        .update({ deleted_at: deletedAt, deleted_by: userId })
+        .eq('id', expenseId)
+        .is('deleted_at', null)
+        .select()
+        .maybeSingle()
+    );
+    return row ? toExpense(row) : null;
+  },
+
+  async restore(expenseId: string): Promise<ExpenseRow> {
+    const row = await unwrap(
+      supabase.from('expenses').update({ deleted_at: null, deleted_by: null }).eq('id', expenseId).select().single()
+    );
+    return toExpense(row);
+  },
+};
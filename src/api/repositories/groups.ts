@@ -0,0 +1,58 @@
+/**
+ * Groups Repository
+ */
+
+import { supabase } from '../client';
+import { Tables, TablesInsert, TablesUpdate } from '../../types/database';
+import { CurrencyCode, DEFAULT_CURRENCY, isSupportedCurrency } from '../../utils/currency';
+import { unwrap } from './result';
+
+export type GroupRow = Omit<Tables<'groups'>, 'base_currency'> & {
+  base_currency: CurrencyCode;
+};
+
+function toGroup(row: Tables<'groups'>): GroupRow {
+  return {
+    ...row,
+    base_currency: isSupportedCurrency(row.base_currency) ? row.base_currency : DEFAULT_CURRENCY,
+  };
+}
+
+export const groupRepository = {
+  /**
+   * All groups the signed-in user can see
+   */
+  async list(): Promise<GroupRow[]> {
+    const rows = await unwrap(supabase.from('groups').select('*'));
+    return rows.map(toGroup);
+  },
+
+  /**
+   * Groups a user is a member of
+   * @param userId - User ID
+   */
+  async listForUser(userId: string): Promise<GroupRow[]> {
+    const rows = await unwrap(supabase.from('group_members').select('groups(*)').eq('user_id', userId));
+    return rows.flatMap((row) => (row.groups ? [toGroup(row.groups)] : []));
+  },
+
+  /**
+   * @param groupId - Group ID
+   * @throws AppError (NOT_FOUND) when the group does not exist or is hidden
+   */
+  async getById(groupId: string): Promise<GroupRow> {
+    return toGroup(await unwrap(supabase.from('groups').select('*').eq('id', groupId).single()));
+  },
+
+  async create(group: TablesInsert<'groups'>): Promise<GroupRow> {
+    return toGroup(await unwrap(supabase.from('groups').insert(group).select().single()));
+  },
+
+  /**
+   * @returns The updated rows; empty when RLS hides the group from the user
+   */
+  async update(groupId: string, changes: TablesUpdate<'groups'>): Promise<GroupRow[]> {
+    const rows = await unwrap(supabase.from('groups').update(changes).eq('id', groupId).select());
+    return rows.map(toGroup);
+  },
+};
@@ -0,0 +1,19 @@
+/**
+ * Typed repositories, one per table
+ * Rows come from the generated Database types (src/types/database.ts), with
+ * check-constrained text columns narrowed to the app's union types.
+ */
+
+export { expenseRepository } from './expenses';
+export type { ExpenseRow, ExpenseWithShares } from './expenses';
+export { groupRepository } from './groups';
+export type { GroupRow } from './groups';
+export { memberRepository } from './members';
+export type { MemberRow, MemberWithProfile } from './members';
+export { payerRepository } from './payers';
+export type { PayerRow } from './payers';
+export { settlementRepository } from './settlements';
+export type { SettlementFilter, SettlementRow, SettlementStatus } from './settlements';
+export { splitRepository } from './splits';
+export type { SplitRow } from './splits';
+export { unwrap } from './result';
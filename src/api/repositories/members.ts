@@ -0,0 +1,68 @@
+/**
+ * Group Members Repository
+ */
+
+import { supabase } from '../client';
+import { Tables, TablesInsert } from '../../types/database';
+import { GroupRole } from '../../utils/permissions';
+import { unwrap } from './result';
+
+export type MemberRow = Omit<Tables<'group_members'>, 'role'> & {
+  role: GroupRole;
+};
+
+/**
+ * Membership with the member's profile
+ */
+export type MemberWithProfile = MemberRow & {
+  users: Tables<'users'> | null;
+};
+
+// role is constrained to these values by a check constraint
+function toMember<T extends Tables<'group_members'>>(row: T): Omit<T, 'role'> & { role: GroupRole } {
+  return { ...row, role: row.role as GroupRole };
+}
+
+export const memberRepository = {
+  /**
+   * @param groupId - Group ID
+   */
+  async listWithProfiles(groupId: string): Promise<MemberWithProfile[]> {
+    const rows = await unwrap(supabase.from('group_members').select('*, users(*)').eq('group_id', groupId));
+    return rows.map(toMember);
+  },
+
+  /**
+   * @returns Role, or null if the user is not a member
+   */
+  async getRole(groupId: string, userId: string): Promise<GroupRole | null> {
+    const row = await unwrap(
+      supabase.from('group_members').select('*').eq('group_id', groupId).eq('user_id', userId).maybeSingle()
+    );
+    return row ? toMember(row).role : null;
+  },
+
+  async add(member: TablesInsert<'group_members'> & { role?: GroupRole }): Promise<MemberRow> {
+    return toMember(await unwrap(supabase.from('group_members').insert(member).select().single()));
+  },
+
+  /**
+   * @returns The updated rows; empty when RLS does not let the user change it
+   */
+  async updateRole(groupId: string, userId: string, role: GroupRole): Promise<MemberRow[]> {
+    const rows = await unwrap(
+      supabase.from('group_members').update({ role }).eq('group_id', groupId).eq('user_id', userId).select()
+    );
+    return rows.map(toMember);
+  },
+
+  /**
+   * @returns The deleted rows; empty when RLS does not let the user delete it
+   */
+  async remove(groupId: string, userId: string): Promise<MemberRow[]> {
+    const rows = await unwrap(
+      supabase.from('group_members').delete().eq('group_id', groupId).eq('user_id', userId).select()
+    );
+    return rows.map(toMember);
+  },
+};
@@ -0,0 +1,20 @@
+/**
+ * Expense Payers Repository
+ * Who paid for an expense, and how much each
+ */
+
+import { supabase } from '../client';
+import { Tables } from '../../types/database';
+import { unwrap } from './result';
+
+export type PayerRow = Tables<'expense_payers'>;
+
+export const payerRepository = {
+  /**
+   * @param expenseId - Expense ID
+   * @returns Payer rows; empty for older single-payer expenses
+   */
+  async listForExpense(expenseId: string): Promise<PayerRow[]> {
+    return unwrap(supabase.from('expense_payers').select('*').eq('expense_id', expenseId));
+  },
+};
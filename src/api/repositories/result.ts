@@ -0,0 +1,22 @@
+/**
+ * Repository query results
+ * Repositories hand back rows and throw AppError on failure, instead of
+ * returning Supabase's { data, error } pair
+ */
+
+import { PostgrestSingleResponse } from '@supabase/supabase-js';
+import { parseSupabaseError } from '../../utils/errorHandler';
+
+/**
+ * Run a query and return its data
+ * @param query - Supabase query builder
+ * @returns Rows (or row, for single queries)
+ * @throws AppError when the query fails
+ */
+export async function unwrap<T>(query: PromiseLike<PostgrestSingleResponse<T>>): Promise<T> {
+  const { data, error } = await query;
+  if (error) {
+    throw parseSupabaseError(error);
+  }
+  return data;
+}
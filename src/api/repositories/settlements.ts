@@ -0,0 +1,98 @@
+/**
+ * Settlements Repository
+ * Payments between members: settlement_transactions, plus the older
+ * settlements table, which is read-only
+ */
+
+import { supabase } from '../client';
+import { Tables } from '../../types/database';
+import { LedgerSettlement } from '../../utils/ledger';
+import { unwrap } from './result';
+
+// Postgres error code for a unique constraint violation (AppError details.code)
+const UNIQUE_VIOLATION = '23505';
+
+export type SettlementStatus = 'pending' | 'completed';
+
+export type SettlementRow = Omit<Tables<'settlement_transactions'>, 'status'> & {
+  status: SettlementStatus;
+};
+
+export interface SettlementFilter {
+  status?: SettlementStatus;
+  payerId?: string;
+  payeeId?: string;
+  involving?: string; // User ID, as payer or payee
+  amount?: number;
+}
+
+// status is constrained to these values by a check constraint
+function toSettlement(row: Tables<'settlement_transactions'>): SettlementRow {
+  return { ...row, status: row.status as SettlementStatus };
+}
+
+export const settlementRepository = {
+  /**
+   * Record a completed payment
+   * When the app chose the payment's ID and it was already recorded (a
+   * replayed or retried request), the recorded payment is returned instead.
+   */
+  async record(payment: {
+    id?: string;
+    group_id: string;
+    payer_id: string;
+    payee_id: string;
+    amount: number;
+  }): Promise<SettlementRow> {
+    try {
+      const row = await unwrap(
+        supabase
+          .from('settlement_transactions')
+          .insert({ ...payment, status: 'completed', completed_at: new Date().toISOString() })
+          .select()
+          .single()
+      );
+      return toSettlement(row);
+    } catch (error: any) {
+      if (!payment.id || error?.details?.code !== UNIQUE_VIOLATION) throw error;
+
+      const row = await unwrap(
+        supabase.from('settlement_transactions').select('*').eq('id', payment.id).single()
+      );
+      return toSettlement(row);
+    }
+  },
+
+  /**
+   * @param groupId - Group ID
+   * @param filter - Only settlements matching all of these
+   * @returns Settlements, newest first
+   */
+  async listForGroup(groupId: string, filter: SettlementFilter = {}): Promise<SettlementRow[]> {
+    let query = supabase.from('settlement_transactions').select('*').eq('group_id', groupId);
+
+    if (filter.status) query = query.eq('status', filter.status);
+    if (filter.payerId) query = query.eq('payer_id', filter.payerId);
+    if (filter.payeeId) query = query.eq('payee_id', filter.payeeId);
+    if (filter.involving) query = query.or(`payer_id.eq.${filter.involving},payee_id.eq.${filter.involving}`);
+    if (filter.amount !== undefined) query = query.eq('amount', filter.amount);
+
+    const rows = await unwrap(query.order('created_at', { ascending: false }));
+    return rows.map(toSettlement);
+  },
+
+  /**
+   * Payments recorded in the older settlements table, in ledger form
+   */
+  async listLegacyPayments(groupId: string): Promise<LedgerSettlement[]> {
+    const rows = await unwrap(
+      supabase.from('settlements').select('id, from_user_id, to_user_id, amount').eq('group_id', groupId)
+    );
+    return rows.map((row) => ({
+      id: row.id,
+      payer_id: row.from_user_id,
+      payee_id: row.to_user_id,
+      amount: row.amount,
+    }));
+  },
+};
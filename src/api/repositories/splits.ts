@@ -0,0 +1,19 @@
+/**
+ * Splits Repository
+ * What each participant owes for an expense
+ */
+
+import { supabase } from '../client';
+import { Tables } from '../../types/database';
+import { unwrap } from './result';
+
+export type SplitRow = Tables<'splits'>;
+
+export const splitRepository = {
+  /**
+   * @param expenseId - Expense ID
+   */
+  async listForExpense(expenseId: string): Promise<SplitRow[]> {
+    return unwrap(supabase.from('splits').select('*').eq('expense_id', expenseId));
+  },
+};
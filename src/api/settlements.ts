@@ -3,25 +3,18 @@
  * Functions to record and manage settlement transactions
  */
 
-import { supabase } from './supabase';
+import { settlementRepository, SettlementRow, SettlementStatus } from './repositories';
+import { toMajorUnits, toMinorUnits } from '../utils/money';
 
 export interface RecordSettlementInput {
+  id?: string; // Chosen by the app, so a replayed payment is only recorded once
   group_id: string;
   payer_id: string;
   payee_id: string;
   amount: number;
 }
 
-export interface SettlementRecord {
-  id: string;
-  group_id: string;
-  payer_id: string;
-  payee_id: string;
-  amount: number;
-  status: 'pending' | 'completed';
-  created_at: string;
-  completed_at?: string;
-}
+export type SettlementRecord = SettlementRow;
 
 /**
  * Record a settlement transaction (mark debt as paid)
@@ -46,26 +39,15 @@ export async function recordSettlement(
     }
 
     // Round amount to 2 decimal places
-    const roundedAmount = Math.round(settlement.amount * 100) / 100;
-
-    const { data, error } = await supabase
-      .from('settlement_transactions')
-      .insert([
-        {
-          group_id: settlement.group_id,
-          payer_id: settlement.payer_id,
-          payee_id: settlement.payee_id,
-          amount: roundedAmount,
-          status: 'completed',
-          completed_at: new Date().toISOString(),
-        },
-      ])
-      .select('id')
-      .single();
+    const roundedAmount = toMajorUnits(toMinorUnits(settlement.amount));
 
-    if (error) {
-      throw new Error(`Failed to record settlement: ${error.message}`);
-    }
+    const data = await settlementRepository.record({
+      id: settlement.id,
+      group_id: settlement.group_id,
+      payer_id: settlement.payer_id,
+      payee_id: settlement.payee_id,
+      amount: roundedAmount,
+    });
 
     return { id: data.id };
   } catch (error: any) {
@@ -83,18 +65,7 @@ export async function getCompletedSettlements(
   groupId: string
 ): Promise<SettlementRecord[]> {
   try {
-    const { data, error } = await supabase
-      .from('settlement_transactions')
-      .select('*')
-      .eq('group_id', groupId)
-      .eq('status', 'completed')
-      .order('completed_at', { ascending: false });
-
-    if (error) {
-      throw new Error(`Failed to fetch settlements: ${error.message}`);
-    }
-
-    return data || [];
+    return await settlementRepository.listForGroup(groupId, { status: 'completed' });
   } catch (error: any) {
     console.error('Error fetching completed settlements:', error);
     throw error;
@@ -108,17 +79,7 @@ export async function getCompletedSettlements(
  */
 export async function getAllSettlements(groupId: string): Promise<SettlementRecord[]> {
   try {
-    const { data, error } = await supabase
-      .from('settlement_transactions')
-      .select('*')
-      .eq('group_id', groupId)
-      .order('created_at', { ascending: false });
-
-    if (error) {
-      throw new Error(`Failed to fetch settlements: ${error.message}`);
-    }
-
-    return data || [];
+    return await settlementRepository.listForGroup(groupId);
   } catch (error: any) {
     console.error('Error fetching all settlements:', error);
     throw error;
@@ -133,37 +94,29 @@ export async function getAllSettlements(groupId: string): Promise<SettlementReco
  */
 export async function getSettlementStats(groupId: string, userId: string) {
   try {
-    const { data, error } = await supabase
-      .from('settlement_transactions')
-      .select('*')
-      .eq('group_id', groupId)
-      .eq('status', 'completed')
-      .or(`payer_id.eq.${userId},payee_id.eq.${userId}`);
-
-    if (error) {
-      throw new Error(`Failed to fetch settlement stats: ${error.message}`);
-    }
-
-    const settlements = data || [];
+    const settlements = await settlementRepository.listForGroup(groupId, {
+      status: 'completed',
+      involving: userId,
+    });
 
     // Calculate statistics
-    let totalPaid = 0;
-    let totalReceived = 0;
+    let totalPaidMinor = 0;
+    let totalReceivedMinor = 0;
     let paymentCount = 0;
 
     for (const settlement of settlements) {
       if (settlement.payer_id === userId) {
-        totalPaid += settlement.amount;
+        totalPaidMinor += toMinorUnits(settlement.amount);
         paymentCount++;
       }
       if (settlement.payee_id === userId) {
-        totalReceived += settlement.amount;
+        totalReceivedMinor += toMinorUnits(settlement.amount);
       }
     }
 
     return {
-      totalPaid: Math.round(totalPaid * 100) / 100,
-      totalReceived: Math.round(totalReceived * 100) / 100,
+      totalPaid: toMajorUnits(totalPaidMinor),
+      totalReceived: toMajorUnits(totalReceivedMinor),
       paymentCount,
       settlementRecords: settlements,
     };
@@ -178,38 +131,18 @@ export async function getSettlementStats(groupId: string, userId: string) {
  * @param groupId - Group ID
  * @param payerId - Payer user ID
  * @param payeeId - Payee user ID
- * @returns Settlement record if exists
+ * @returns Most recent matching settlement, or null
  */
 export async function getSettlement(
   groupId: string,
   payerId: string,
   payeeId: string,
-  status?: 'pending' | 'completed'
-) {
+  status?: SettlementStatus
+): Promise<SettlementRecord | null> {
   try {
-    let query = supabase
-      .from('settlement_transactions')
-      .select('*')
-      .eq('group_id', groupId)
-      .eq('payer_id', payerId)
-      .eq('payee_id', payeeId);
-
-    if (status) {
-      query = query.eq('status', status);
-    }
-
-    const { data, error } = await query.single();
-
-    if (error && error.code !== 'PGRST116') {
-      // PGRST116 is "no rows returned"
-      throw new Error(`Failed to fetch settlement: ${error.message}`);
-    }
-
-    return data || null;
+    const settlements = await settlementRepository.listForGroup(groupId, { payerId, payeeId, status });
+    return settlements[0] ?? null;
   } catch (error: any) {
-    if (error.code === 'PGRST116') {
-      return null; // No settlement found
-    }
     console.error('Error fetching settlement:', error);
     throw error;
   }
@@ -245,25 +178,14 @@ export async function settlementExists(
   amount?: number
 ): Promise<boolean> {
   try {
-    let query = supabase
-      .from('settlement_transactions')
-      .select('id')
-      .eq('group_id', groupId)
-      .eq('payer_id', payerId)
-      .eq('payee_id', payeeId)
-      .eq('status', 'completed');
-
-    if (amount) {
-      query = query.eq('amount', Math.round(amount * 100) / 100);
-    }
-
-    const { data, error } = await query.limit(1);
-
-    if (error) {
-      throw new Error(`Failed to check settlement: ${error.message}`);
-    }
-
-    return (data && data.length > 0) || false;
+    const settlements = await settlementRepository.listForGroup(groupId, {
+      payerId,
+      payeeId,
+      status: 'completed',
+      amount: amount ? toMajorUnits(toMinorUnits(amount)) : undefined,
+    });
+
+    return settlements.length > 0;
   } catch (error: any) {
     console.error('Error checking settlement existence:', error);
     throw error;
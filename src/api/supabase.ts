@@ -1,16 +1,29 @@
-import { createClient } from '@supabase/supabase-js';
-
-// Get these from your Supabase project dashboard
-const SUPABASE_URL = process.env.EXPO_PUBLIC_SUPABASE_URL || '';
-const SUPABASE_ANON_KEY = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY || '';
-
-if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
-  console.warn(
-    'Supabase URL and/or Anon Key are missing. Add them to your .env file.'
-  );
-}
-
-export const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
+import { supabase } from './client';
+import {
+  CurrencyCode,
+  DEFAULT_CURRENCY,
+  getExchangeRateProvider,
+} from '../utils/currency';
+import { buildLedger, LedgerExpense, LedgerSettlement } from '../utils/ledger';
+import { Receipt } from '../utils/receipt';
+import { allocateMinorUnits, toMajorUnits, toMinorUnits } from '../utils/money';
+import { todayISO } from '../utils/recurrence';
+import { SplitType } from '../validators/splitValidator';
+import { assertValidExpense } from '../validators/expenseValidator';
+import { createError, ErrorCode, parseSupabaseError } from '../utils/errorHandler';
+import { toExpenseItemsParam } from './expenseItems';
+import {
+  expenseRepository,
+  ExpenseWithShares,
+  groupRepository,
+  GroupRow,
+  memberRepository,
+  MemberRow,
+  MemberWithProfile,
+  settlementRepository,
+} from './repositories';
+
+export { supabase };
 
 // Helper functions for common operations
 export const signUp = async (email: string, password: string) => {
@@ -29,22 +42,16 @@ export const getCurrentUser = async () => {
   return await supabase.auth.getUser();
 };
 
-export const fetchGroups = async () => {
-  return await supabase.from('groups').select('*');
+export const fetchGroups = async (): Promise<GroupRow[]> => {
+  return await groupRepository.list();
 };
 
-export const fetchGroupMembers = async (groupId: string) => {
-  return await supabase
-    .from('group_members')
-    .select('*, users(*)')
-    .eq('group_id', groupId);
+export const fetchGroupMembers = async (groupId: string): Promise<MemberWithProfile[]> => {
+  return await memberRepository.listWithProfiles(groupId);
 };
 
-export const fetchExpenses = async (groupId: string) => {
-  return await supabase
-    .from('expenses')
-    .select('*, splits(*)')
-    .eq('group_id', groupId);
+export const fetchExpenses = async (groupId: string): Promise<ExpenseWithShares[]> => {
+  return await expenseRepository.listForGroup(groupId);
 };
 
 // Create a new group and add the creator as a member
@@ -52,55 +59,115 @@ export const createGroup = async (data: {
   name: string;
   description?: string;
   createdBy: string;
-}) => {
-  try {
-    // Insert the group
-    const { data: groupData, error: groupError } = await supabase
-      .from('groups')
-      .insert({
-        name: data.name,
-        description: data.description || null,
-        created_by: data.createdBy,
-      })
-      .select()
-      .single();
-
-    if (groupError) throw groupError;
-
-    // Add creator as a member
-    const { error: memberError } = await supabase
-      .from('group_members')
-      .insert({
-        group_id: groupData.id,
-        user_id: data.createdBy,
-      });
-
-    if (memberError) throw memberError;
-
-    return groupData;
-  } catch (error) {
-    throw error;
-  }
+  baseCurrency?: CurrencyCode;
+}): Promise<GroupRow> => {
+  const group = await groupRepository.create({
+    name: data.name,
+    description: data.description || null,
+    created_by: data.createdBy,
+    base_currency: data.baseCurrency || DEFAULT_CURRENCY,
+  });
+
+  // Add creator as the owner
+  await memberRepository.add({
+    group_id: group.id,
+    user_id: data.createdBy,
+    role: 'owner',
+  });
+
+  return group;
 };
 
-// Add a user to a group (group creator only)
-export const addGroupMember = async (groupId: string, userId: string) => {
-  return await supabase
-    .from('group_members')
-    .insert({
-      group_id: groupId,
-      user_id: userId,
-    })
-    .select()
-    .single();
+// Add a user to a group (owners and admins)
+export const addGroupMember = async (groupId: string, userId: string): Promise<MemberRow> => {
+  return await memberRepository.add({
+    group_id: groupId,
+    user_id: userId,
+  });
 };
 
 // Get groups for the current user (groups they're members of)
-export const getUserGroups = async (userId: string) => {
-  return await supabase
-    .from('group_members')
-    .select('groups(*)')
-    .eq('user_id', userId);
+export const getUserGroups = async (userId: string): Promise<GroupRow[]> => {
+  return await groupRepository.listForUser(userId);
+};
+
+// Resolve the currency fields stored on an expense: the original currency and
+// the rate that converts it into the group's base currency
+export const resolveExpenseCurrency = async (
+  groupId: string,
+  currency?: CurrencyCode
+): Promise<{ currency: CurrencyCode; exchange_rate: number }> => {
+  const { base_currency: baseCurrency } = await groupRepository.getById(groupId);
+  const expenseCurrency = currency || baseCurrency;
+
+  const rate = await getExchangeRateProvider().getRate(expenseCurrency, baseCurrency);
+
+  return { currency: expenseCurrency, exchange_rate: rate };
+};
+
+// Insert an expense with its payers, splits and receipt items in a single
+// transaction (create_expense_with_splits in supabase/migrations). Validates first so
+// bad input never reaches the database; errors are thrown as AppError.
+const insertExpenseWithSplits = async (data: {
+  groupId: string;
+  description: string;
+  amount: number;
+  payers: Array<{ userId: string; amount: number }>;
+  splits: Array<{ userId: string; amount: number; value?: number | null }>;
+  splitType: SplitType;
+  currency?: CurrencyCode;
+  date?: string;
+  recurringExpenseId?: string;
+  occurrenceDate?: string;
+  category?: string | null;
+  notes?: string | null;
+  receipt?: Receipt | null;
+  expenseId?: string;
+}) => {
+  // Local calendar date: toISOString() would give yesterday's date before
+  // midnight UTC in time zones ahead of it
+  const date = data.date || todayISO();
+
+  assertValidExpense({
+    group_id: data.groupId,
+    description: data.description,
+    amount: data.amount,
+    date,
+    notes: data.notes,
+    paid_by: data.payers[0]?.userId || '',
+    splits: data.splits.map((split) => ({ user_id: split.userId, amount: split.amount })),
+  });
+
+  const currencyFields = await resolveExpenseCurrency(data.groupId, data.currency);
+
+  const { data: expenseData, error } = await supabase.rpc('create_expense_with_splits', {
+    p_group_id: data.groupId,
+    p_description: data.description,
+    p_amount: toMajorUnits(toMinorUnits(data.amount)),
+    p_payers: data.payers.map((payer) => ({
+      user_id: payer.userId,
+      amount: toMajorUnits(toMinorUnits(payer.amount)),
+    })),
+    p_splits: data.splits.map((split) => ({
+      user_id: split.userId,
+      amount: toMajorUnits(toMinorUnits(split.amount)),
+      value: split.value ?? null,
+    })),
+    p_date: date,
+    p_currency: currencyFields.currency,
+    p_exchange_rate: currencyFields.exchange_rate,
+    p_split_type: data.splitType,
+    p_recurring_expense_id: data.recurringExpenseId ?? null,
+    p_occurrence_date: data.occurrenceDate ?? null,
+    p_category: data.category || null,
+    p_notes: data.notes?.trim() || null,
+    p_items: data.receipt ? toExpenseItemsParam(data.receipt) : null,
+    p_expense_id: data.expenseId ?? null,
+  });
+
+  if (error) throw parseSupabaseError(error);
+
+  return expenseData;
 };
 
 // Create an expense and corresponding splits
@@ -110,39 +177,30 @@ export const createExpense = async (data: {
   amount: number;
   paidBy: string;
   participantIds: string[]; // list of user ids to split among
+  currency?: CurrencyCode;
+  date?: string;
+  notes?: string | null;
 }) => {
-  try {
-    // Insert expense
-    const { data: expenseData, error: expenseError } = await supabase
-      .from('expenses')
-      .insert({
-        group_id: data.groupId,
-        description: data.description,
-        amount: data.amount,
-        paid_by: data.paidBy,
-        date: new Date().toISOString().slice(0, 10),
-      })
-      .select()
-      .single();
-
-    if (expenseError) throw expenseError;
-
-    // Calculate equal split by default
-    const perUser = parseFloat((data.amount / data.participantIds.length).toFixed(2));
-
-    const splits = data.participantIds.map((uid) => ({
-      expense_id: expenseData.id,
-      user_id: uid,
-      amount: perUser,
-    }));
-
-    const { error: splitsError } = await supabase.from('splits').insert(splits);
-    if (splitsError) throw splitsError;
+  // Calculate equal split by default; leftover paise go to the first participants
+  const shares = allocateMinorUnits(
+    toMinorUnits(data.amount),
+    data.participantIds.map(() => 1)
+  );
 
-    return expenseData;
-  } catch (error) {
-    throw error;
-  }
+  return await insertExpenseWithSplits({
+    groupId: data.groupId,
+    description: data.description,
+    amount: data.amount,
+    payers: [{ userId: data.paidBy, amount: data.amount }],
+    splits: data.participantIds.map((uid, index) => ({
+      userId: uid,
+      amount: toMajorUnits(shares[index]),
+    })),
+    splitType: 'equal',
+    currency: data.currency,
+    date: data.date,
+    notes: data.notes,
+  });
 };
 
 // Create an expense with custom split amounts
@@ -151,105 +209,66 @@ export const createExpenseWithCustomSplits = async (data: {
   description: string;
   amount: number;
   paidBy: string;
-  splits: Array<{ userId: string; amount: number }>;
+  splits: Array<{ userId: string; amount: number; value?: number | null }>;
+  splitType?: SplitType;
+  currency?: CurrencyCode;
+  category?: string | null;
+  date?: string;
+  notes?: string | null;
 }) => {
-  try {
-    // Insert expense
-    const { data: expenseData, error: expenseError } = await supabase
-      .from('expenses')
-      .insert({
-        group_id: data.groupId,
-        description: data.description,
-        amount: data.amount,
-        paid_by: data.paidBy,
-        date: new Date().toISOString().slice(0, 10),
-      })
-      .select()
-      .single();
-
-    if (expenseError) throw expenseError;
-
-    const splits = data.splits.map((split) => ({
-      expense_id: expenseData.id,
-      user_id: split.userId,
-      amount: parseFloat(split.amount.toFixed(2)),
-    }));
+  return await insertExpenseWithSplits({
+    groupId: data.groupId,
+    description: data.description,
+    amount: data.amount,
+    payers: [{ userId: data.paidBy, amount: data.amount }],
+    splits: data.splits,
+    splitType: data.splitType || 'custom',
+    currency: data.currency,
+    category: data.category,
+    date: data.date,
+    notes: data.notes,
+  });
+};
 
-    const { error: splitsError } = await supabase.from('splits').insert(splits);
-    if (splitsError) throw splitsError;
+// Get expenses for a group including splits and payers
+export const getGroupExpenses = async (groupId: string): Promise<ExpenseWithShares[]> => {
+  return await expenseRepository.listForGroup(groupId);
+};
 
-    return expenseData;
-  } catch (error) {
-    throw error;
-  }
+// Fetch payments already made in a group: completed settlement transactions
+// plus rows from the legacy settlements table
+export const fetchRecordedPayments = async (
+  groupId: string
+): Promise<LedgerSettlement[]> => {
+  const transactions = await settlementRepository.listForGroup(groupId, { status: 'completed' });
+  const legacy = await settlementRepository.listLegacyPayments(groupId);
+
+  return [...transactions, ...legacy];
 };
 
-// Get expenses for a group including splits
-export const getGroupExpenses = async (groupId: string) => {
-  return await supabase.from('expenses').select('*, splits(*)').eq('group_id', groupId).order('created_at', { ascending: false });
+// Fetch everything the ledger needs for a group: expenses with their payers
+// and splits, plus recorded payments. Soft-deleted expenses are left out.
+export const fetchLedgerInputs = async (
+  groupId: string
+): Promise<{ expenses: LedgerExpense[]; settlements: LedgerSettlement[] }> => {
+  const expenses = await expenseRepository.listForGroup(groupId);
+  const settlements = await fetchRecordedPayments(groupId);
+
+  return { expenses, settlements };
 };
 
 // Calculate settlements for a group based on expenses and splits
 // Returns array of settlements: {from: userId, to: userId, amount: number}
 export const calculateSettlements = async (groupId: string) => {
   try {
-    // Get all expenses and splits for the group
-    const { data: expenses, error: expError } = await supabase
-      .from('expenses')
-      .select('*, splits(*)')
-      .eq('group_id', groupId);
-
-    if (expError) throw expError;
-
-    // Build a balance map: balance[userId] = net amount (positive = owed to, negative = owes)
-    const balance: Record<string, number> = {};
-
-    expenses.forEach((expense: any) => {
-      const paidBy = expense.paid_by;
-      const totalAmount = parseFloat(expense.amount);
-
-      // Initialize payer if not exists
-      if (!balance[paidBy]) balance[paidBy] = 0;
-
-      // Add the amount paid by this person
-      balance[paidBy] += totalAmount;
-
-      // Subtract each person's share
-      expense.splits.forEach((split: any) => {
-        const userId = split.user_id;
-        const splitAmount = parseFloat(split.amount);
-        if (!balance[userId]) balance[userId] = 0;
-        balance[userId] -= splitAmount;
-      });
-    });
-
-    // Convert balances to settlements (who owes whom)
-    const settlements: Array<{ from: string; to: string; amount: number }> = [];
-    const debtors = Object.entries(balance).filter(([, amt]) => amt < 0);
-    const creditors = Object.entries(balance).filter(([, amt]) => amt > 0);
-
-    // Simple greedy algorithm: match debtors with creditors
-    for (const [debtor, debtAmount] of debtors) {
-      let remaining = Math.abs(debtAmount);
-
-      for (let i = 0; i < creditors.length && remaining > 0; i++) {
-        const [creditor, creditAmount] = creditors[i];
-        const settleAmount = Math.min(remaining, creditAmount);
-
-        if (settleAmount > 0) {
-          settlements.push({
-            from: debtor,
-            to: creditor,
-            amount: parseFloat(settleAmount.toFixed(2)),
-          });
-
-          creditors[i][1] -= settleAmount;
-          remaining -= settleAmount;
-        }
-      }
-    }
-
-    return settlements;
+    const { expenses, settlements } = await fetchLedgerInputs(groupId);
+    const { plan } = buildLedger(expenses, settlements);
+
+    return plan.map((payment) => ({
+      from: payment.payer_id,
+      to: payment.payee_id,
+      amount: payment.amount,
+    }));
   } catch (error) {
     console.error('Error calculating settlements:', error);
     throw error;
@@ -259,34 +278,13 @@ export const calculateSettlements = async (groupId: string) => {
 // Get settlement summary for a group (balances per user)
 export const getGroupBalances = async (groupId: string) => {
   try {
-    const { data: expenses, error: expError } = await supabase
-      .from('expenses')
-      .select('*, splits(*)')
-      .eq('group_id', groupId);
-
-    if (expError) throw expError;
-
-    const balance: Record<string, number> = {};
-
-    expenses.forEach((expense: any) => {
-      const paidBy = expense.paid_by;
-      const totalAmount = parseFloat(expense.amount);
-
-      if (!balance[paidBy]) balance[paidBy] = 0;
-      balance[paidBy] += totalAmount;
-
-      expense.splits.forEach((split: any) => {
-        const userId = split.user_id;
-        const splitAmount = parseFloat(split.amount);
-        if (!balance[userId]) balance[userId] = 0;
-        balance[userId] -= splitAmount;
-      });
-    });
+    const { expenses, settlements } = await fetchLedgerInputs(groupId);
+    const { balances } = buildLedger(expenses, settlements);
 
     // Return as array with user details
-    return Object.entries(balance).map(([userId, amount]) => ({
-      userId,
-      balance: parseFloat(amount.toFixed(2)),
+    return balances.map((entry) => ({
+      userId: entry.user_id,
+      balance: entry.balance,
     }));
   } catch (error) {
     console.error('Error getting group balances:', error);
@@ -294,58 +292,33 @@ export const getGroupBalances = async (groupId: string) => {
   }
 };
 
-// Create an expense with multiple payers and splits
-export const createExpenseWithMultiplePayers = async (data: {
+export interface NewExpenseInput {
   groupId: string;
   description: string;
   amount: number;
   payers: Array<{ userId: string; amount: number }>;
-  splits: Array<{ userId: string; amount: number }>;
-}) => {
-  try {
-    // Use first payer as the primary paid_by (main payer)
-    const primaryPayer = data.payers[0].userId;
-
-    // Insert expense with primary payer
-    const { data: expenseData, error: expenseError } = await supabase
-      .from('expenses')
-      .insert({
-        group_id: data.groupId,
-        description: data.description,
-        amount: data.amount,
-        paid_by: primaryPayer,
-        date: new Date().toISOString().slice(0, 10),
-      })
-      .select()
-      .single();
-
-    if (expenseError) throw expenseError;
-
-    // Insert splits
-    const splits = data.splits.map((split) => ({
-      expense_id: expenseData.id,
-      user_id: split.userId,
-      amount: parseFloat(split.amount.toFixed(2)),
-    }));
-
-    const { error: splitsError } = await supabase.from('splits').insert(splits);
-    if (splitsError) throw splitsError;
-
-    // Insert expense payers for all contributors
-    const payers = data.payers.map((payer) => ({
-      expense_id: expenseData.id,
-      user_id: payer.userId,
-      amount: parseFloat(payer.amount.toFixed(2)),
-    }));
-
-    const { error: payersError } = await supabase
-      .from('expense_payers')
-      .insert(payers);
-    if (payersError) throw payersError;
+  splits: Array<{ userId: string; amount: number; value?: number | null }>;
+  splitType?: SplitType;
+  currency?: CurrencyCode;
+  date?: string;
+  recurringExpenseId?: string;
+  occurrenceDate?: string;
+  category?: string | null;
+  notes?: string | null;
+  receipt?: Receipt | null; // Items of an itemized expense
+  expenseId?: string; // ID chosen by the app, so a retried create returns the first one
+}
 
-    return expenseData;
-  } catch (error) {
-    throw error;
+// Create an expense with multiple payers and splits
+export const createExpenseWithMultiplePayers = async (data: NewExpenseInput) => {
+  const paidMinor = data.payers.reduce((sum, payer) => sum + toMinorUnits(payer.amount), 0);
+  if (data.payers.length === 0 || paidMinor !== toMinorUnits(data.amount)) {
+    throw createError(ErrorCode.VALIDATION_ERROR, 'Payer amounts must sum to the expense amount');
   }
-};
 
+  // The first payer is stored as the primary paid_by
+  return await insertExpenseWithSplits({
+    ...data,
+    splitType: data.splitType || 'equal',
+  });
+};
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Linking,
+  StyleSheet,
+} from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import { ExpenseAttachment } from '../api/attachments';
+import { ATTACHMENT_CONTENT_TYPES, AttachmentFile, isImageAttachment } from '../utils/attachments';
+
+/**
+ * Let the user pick receipt photos or PDFs and read them into memory
+ * @param types - Content types to offer
+ * @param multiple - Allow picking several files
+ * @returns Picked files, empty if the user cancelled
+ */
+export async function pickAttachmentFiles(
+  types: string[] = ATTACHMENT_CONTENT_TYPES,
+  multiple: boolean = true
+): Promise<AttachmentFile[]> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: types,
+    multiple,
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled) return [];
+
+  return Promise.all(
+    result.assets.map(async (asset) => {
+      const body = await fetch(asset.uri).then((response) => response.arrayBuffer());
+      return {
+        name: asset.name,
+        content_type: asset.mimeType || 'application/octet-stream',
+        size: asset.size ?? body.byteLength,
+        body,
+        uri: asset.uri,
+      };
+    })
+  );
+}
+
+interface AttachmentGalleryProps {
+  attachments: ExpenseAttachment[];
+  canEdit: boolean;
+  busy?: boolean;
+  onAdd?: () => void;
+  onRemove?: (attachment: ExpenseAttachment) => void;
+}
+
+/**
+ * Thumbnails of an expense's receipts; tapping one opens it full screen
+ */
+export default function AttachmentGallery({ attachments, canEdit, busy, onAdd, onRemove }: AttachmentGalleryProps) {
+  const [viewing, setViewing] = useState<ExpenseAttachment | null>(null);
+
+  const open = (attachment: ExpenseAttachment) => {
+    if (!attachment.url) return;
+    if (isImageAttachment(attachment.content_type)) {
+      setViewing(attachment);
+    } else {
+      // PDFs open in the system viewer
+      Linking.openURL(attachment.url);
+    }
+  };
+
+  const remove = () => {
+    if (viewing && onRemove) {
+      onRemove(viewing);
+    }
+    setViewing(null);
+  };
+
+  return (
+    <View>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+        {attachments.map((attachment) => (
+          <TouchableOpacity key={attachment.id} style={styles.thumb} onPress={() => open(attachment)}>
+            {attachment.url && isImageAttachment(attachment.content_type) ? (
+              <Image source={{ uri: attachment.url }} style={styles.thumbImage} />
+            ) : (
+              <View style={styles.fileTile}>
+                <Text style={styles.fileIcon}>{attachment.url ? '📄' : '⚠️'}</Text>
+                <Text style={styles.fileName} numberOfLines={2}>
+                  {attachment.file_name}
+                </Text>
+              </View>
+            )}
+          </TouchableOpacity>
+        ))}
+        {canEdit && onAdd && (
+          <TouchableOpacity style={[styles.thumb, styles.addTile]} onPress={onAdd} disabled={busy}>
+            {busy ? <ActivityIndicator color="#007AFF" /> : <Text style={styles.addText}>+ Add receipt</Text>}
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+      {attachments.length === 0 && !canEdit && <Text style={styles.emptyText}>No receipts attached</Text>}
+
+      <Modal visible={!!viewing} transparent animationType="fade" onRequestClose={() => setViewing(null)}>
+        <View style={styles.viewer}>
+          {viewing?.url && <Image source={{ uri: viewing.url }} style={styles.viewerImage} resizeMode="contain" />}
+          <View style={styles.viewerActions}>
+            {canEdit && onRemove && (
+              <TouchableOpacity style={styles.viewerButton} onPress={remove}>
+                <Text style={styles.removeText}>Remove</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.viewerButton} onPress={() => setViewing(null)}>
+              <Text style={styles.closeText}>Close</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: { gap: 10 },
+  thumb: { width: 84, height: 84, borderRadius: 8, overflow: 'hidden', backgroundColor: '#f0f0f0' },
+  thumbImage: { width: '100%', height: '100%' },
+  fileTile: { flex: 1, alignItems: 'center', justifyContent: 'center', padding: 6 },
+  fileIcon: { fontSize: 26 },
+  fileName: { fontSize: 10, color: '#666', textAlign: 'center', marginTop: 4 },
+  addTile: { alignItems: 'center', justifyContent: 'center', borderWidth: 1, borderColor: '#007AFF', borderStyle: 'dashed', backgroundColor: '#fff' },
+  addText: { color: '#007AFF', fontWeight: '600', fontSize: 12, textAlign: 'center' },
+  emptyText: { color: '#999', fontSize: 14 },
+  viewer: { flex: 1, backgroundColor: 'rgba(0,0,0,0.95)', justifyContent: 'center' },
+  viewerImage: { flex: 1, width: '100%' },
+  viewerActions: { flexDirection: 'row', justifyContent: 'space-between', padding: 24 },
+  viewerButton: { paddingHorizontal: 16, paddingVertical: 10 },
+  removeText: { color: '#FF3B30', fontSize: 16, fontWeight: '600' },
+  closeText: { color: '#fff', fontSize: 16, fontWeight: '600' },
+});
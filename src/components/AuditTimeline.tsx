@@ -0,0 +1,114 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { AuditEvent } from '../api/auditLog';
+import { ACTION_LABELS, describeChange } from '../utils/auditDiff';
+import { formatCurrency } from '../utils/errorHandler';
+
+interface AuditTimelineProps {
+  events: AuditEvent[];
+  names: Record<string, string>;
+  currency: string;
+  showEntity?: boolean; // Name the expense or payment in each entry (group feed)
+}
+
+export default function AuditTimeline({ events, names, currency, showEntity = false }: AuditTimelineProps) {
+  const nameOf = (userId: string) => names[userId] || 'Unknown User';
+
+  if (events.length === 0) {
+    return <Text style={styles.emptyText}>No history yet</Text>;
+  }
+
+  return (
+    <View>
+      {events.map((event) => (
+        <View key={event.id} style={styles.entry}>
+          <View style={styles.dot} />
+          <View style={styles.body}>
+            <Text style={styles.headline}>{describeEvent(event, nameOf, currency, showEntity)}</Text>
+            <Text style={styles.timestamp}>{new Date(event.created_at).toLocaleString()}</Text>
+            {event.action === 'update' &&
+              event.changes
+                .filter((change) => change.from !== change.to)
+                .map((change, index) => (
+                  <Text key={`${event.id}-${index}`} style={styles.change}>
+                    {describeChange(change, currency, nameOf)}
+                  </Text>
+                ))}
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+// What happened to a payment, for the one-line summary
+const SETTLEMENT_ACTIONS: Record<AuditEvent['action'], string> = {
+  create: 'recorded',
+  update: 'edited a payment',
+  delete: 'deleted a payment',
+  restore: 'restored a payment',
+};
+
+/**
+ * One-line summary, e.g. 'Alex edited "Dinner"' or 'Sam recorded: Sam paid Alex ₹50.00'
+ */
+function describeEvent(
+  event: AuditEvent,
+  nameOf: (userId: string) => string,
+  currency: string,
+  showEntity: boolean
+): string {
+  const actor = nameOf(event.actor_id);
+
+  if (event.entity_type === 'settlement') {
+    // Deleted payments only have the values from before
+    const field = (name: string) => {
+      const change = event.changes.find((c) => c.field === name);
+      return change ? (change.to ?? change.from) : undefined;
+    };
+    const amount = field('amount');
+    const payment = `${nameOf(field('payer_id'))} paid ${nameOf(field('payee_id'))}`;
+    return `${actor} ${SETTLEMENT_ACTIONS[event.action]}: ${payment}${amount !== undefined ? ` ${formatCurrency(amount, currency)}` : ''}`;
+  }
+
+  const entity = showEntity && event.entity_label ? ` "${event.entity_label}"` : '';
+  return `${actor} ${ACTION_LABELS[event.action]}${entity || (showEntity ? ' an expense' : ' this expense')}`;
+}
+
+const styles = StyleSheet.create({
+  entry: {
+    flexDirection: 'row',
+    paddingVertical: 8,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#007AFF',
+    marginTop: 5,
+    marginRight: 10,
+  },
+  body: {
+    flex: 1,
+  },
+  headline: {
+    fontSize: 14,
+    color: '#333',
+    fontWeight: '500',
+  },
+  timestamp: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 2,
+  },
+  change: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: '#999',
+    fontStyle: 'italic',
+  },
+});
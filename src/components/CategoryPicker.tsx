@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { View, ScrollView, Text, TextInput, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { createGroupCategory, deleteGroupCategory } from '../api/categories';
+import { ExpenseCategory } from '../utils/categories';
+
+interface CategoryPickerProps {
+  groupId: string;
+  categories: ExpenseCategory[];
+  value: string | null; // Category key, null for uncategorized
+  onChange: (key: string | null) => void;
+  onCategoryCreated?: (category: ExpenseCategory) => void; // Omit to hide "New"
+  onCategoryDeleted?: (key: string) => void; // Omit to stop custom categories being removed
+  disabled?: boolean;
+}
+
+export default function CategoryPicker({
+  groupId,
+  categories,
+  value,
+  onChange,
+  onCategoryCreated,
+  onCategoryDeleted,
+  disabled,
+}: CategoryPickerProps) {
+  const [adding, setAdding] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleCreate = async () => {
+    setSaving(true);
+    try {
+      const category = await createGroupCategory(groupId, newName, categories);
+      onCategoryCreated?.(category);
+      onChange(category.key);
+      setNewName('');
+      setAdding(false);
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Failed to add category');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Long press on a custom category removes it from the group. Expenses
+  // already filed under it keep it.
+  const confirmDelete = (category: ExpenseCategory) => {
+    Alert.alert('Remove Category', `Remove ${category.label}? Expenses already in it keep the category.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteGroupCategory(groupId, category.key);
+            if (value === category.key) onChange(null);
+            onCategoryDeleted?.(category.key);
+          } catch (err: any) {
+            Alert.alert('Error', err.message || 'Failed to remove category');
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+        {categories.map((category) => {
+          const active = category.key === value;
+          return (
+            <TouchableOpacity
+              key={category.key}
+              style={[styles.chip, active && styles.chipActive]}
+              onPress={() => onChange(active ? null : category.key)}
+              onLongPress={category.custom && onCategoryDeleted ? () => confirmDelete(category) : undefined}
+              disabled={disabled}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                {category.icon} {category.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+        {onCategoryCreated && !adding && (
+          <TouchableOpacity style={[styles.chip, styles.newChip]} onPress={() => setAdding(true)} disabled={disabled}>
+            <Text style={styles.newChipText}>+ New</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+
+      {adding && (
+        <View style={styles.newRow}>
+          <TextInput
+            style={styles.input}
+            placeholder="Category name"
+            value={newName}
+            onChangeText={setNewName}
+            editable={!saving}
+            autoFocus
+          />
+          <TouchableOpacity style={styles.addBtn} onPress={handleCreate} disabled={saving}>
+            <Text style={styles.addBtnText}>{saving ? '...' : 'Add'}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => {
+              setAdding(false);
+              setNewName('');
+            }}
+            disabled={saving}
+          >
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: { gap: 8, paddingVertical: 4 },
+  chip: { paddingHorizontal: 12, paddingVertical: 6, borderRadius: 16, borderWidth: 1, borderColor: '#ddd' },
+  chipActive: { backgroundColor: '#007AFF', borderColor: '#007AFF' },
+  chipText: { color: '#666', fontWeight: '600', fontSize: 13 },
+  chipTextActive: { color: '#fff' },
+  newChip: { borderStyle: 'dashed', borderColor: '#007AFF' },
+  newChipText: { color: '#007AFF', fontWeight: '600', fontSize: 13 },
+  newRow: { flexDirection: 'row', alignItems: 'center', gap: 8, marginTop: 8 },
+  input: { flex: 1, borderWidth: 1, borderColor: '#ddd', borderRadius: 6, paddingHorizontal: 10, paddingVertical: 6, fontSize: 14 },
+  addBtn: { backgroundColor: '#007AFF', paddingHorizontal: 14, paddingVertical: 8, borderRadius: 6 },
+  addBtnText: { color: '#fff', fontWeight: '600' },
+  cancelText: { color: '#666', fontWeight: '600' },
+});
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, StyleSheet } from 'react-native';
+import { CategorizedExpense, ExpenseCategory, findCategory, summarizeByCategory } from '../utils/categories';
+import { formatCurrency } from '../utils/errorHandler';
+
+interface CategoryReportProps {
+  expenses: CategorizedExpense[];
+  categories: ExpenseCategory[];
+  memberIds: string[];
+  names: Record<string, string>;
+  currency: string; // Group's base currency
+}
+
+export default function CategoryReport({ expenses, categories, memberIds, names, currency }: CategoryReportProps) {
+  const [memberId, setMemberId] = useState<string | null>(null); // null for the whole group
+  const totals = summarizeByCategory(expenses, memberId ?? undefined);
+
+  return (
+    <View>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {[null, ...memberIds].map((id) => {
+          const active = id === memberId;
+          return (
+            <TouchableOpacity
+              key={id ?? 'group'}
+              style={[styles.chip, active && styles.chipActive]}
+              onPress={() => setMemberId(id)}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                {id ? names[id] || 'Unknown User' : 'Whole group'}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      {memberId && <Text style={styles.hint}>{names[memberId] || 'Unknown User'}'s share of each expense</Text>}
+
+      {totals.length === 0 ? (
+        <Text style={styles.emptyText}>No spending yet</Text>
+      ) : (
+        totals.map((total) => {
+          const category = findCategory(total.key, categories);
+          return (
+            <View key={total.key} style={styles.row}>
+              <View style={styles.rowHeader}>
+                <Text style={styles.label}>
+                  {category.icon} {category.label}
+                </Text>
+                <Text style={styles.amount}>{formatCurrency(total.total, currency)}</Text>
+              </View>
+              <View style={styles.barTrack}>
+                <View style={[styles.bar, { width: `${total.percent}%` }]} />
+              </View>
+              <Text style={styles.meta}>
+                {total.percent}% · {total.count} expense{total.count === 1 ? '' : 's'}
+              </Text>
+            </View>
+          );
+        })
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chipRow: { gap: 8, paddingVertical: 4, marginBottom: 8 },
+  chip: { paddingHorizontal: 12, paddingVertical: 6, borderRadius: 16, borderWidth: 1, borderColor: '#ddd', backgroundColor: '#fff' },
+  chipActive: { backgroundColor: '#007AFF', borderColor: '#007AFF' },
+  chipText: { color: '#666', fontWeight: '600', fontSize: 13 },
+  chipTextActive: { color: '#fff' },
+  hint: { fontSize: 12, color: '#999', fontStyle: 'italic', marginBottom: 8 },
+  emptyText: { color: '#999', fontStyle: 'italic' },
+  row: { marginBottom: 12 },
+  rowHeader: { flexDirection: 'row', justifyContent: 'space-between', marginBottom: 4 },
+  label: { color: '#333', fontWeight: '600' },
+  amount: { color: '#333', fontWeight: '600' },
+  barTrack: { height: 6, borderRadius: 3, backgroundColor: '#eee', overflow: 'hidden' },
+  bar: { height: 6, borderRadius: 3, backgroundColor: '#007AFF' },
+  meta: { fontSize: 12, color: '#999', marginTop: 2 },
+});
@@ -0,0 +1,39 @@
+import React from 'react';
+import { ScrollView, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { CurrencyCode, SUPPORTED_CURRENCIES } from '../utils/currency';
+
+interface CurrencyPickerProps {
+  value: CurrencyCode;
+  onChange: (currency: CurrencyCode) => void;
+  disabled?: boolean;
+}
+
+export default function CurrencyPicker({ value, onChange, disabled }: CurrencyPickerProps) {
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+      {(Object.keys(SUPPORTED_CURRENCIES) as CurrencyCode[]).map((code) => {
+        const active = code === value;
+        return (
+          <TouchableOpacity
+            key={code}
+            style={[styles.chip, active && styles.chipActive]}
+            onPress={() => onChange(code)}
+            disabled={disabled}
+          >
+            <Text style={[styles.chipText, active && styles.chipTextActive]}>
+              {SUPPORTED_CURRENCIES[code].symbol.trim()} {code}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: { gap: 8, paddingVertical: 4 },
+  chip: { paddingHorizontal: 12, paddingVertical: 6, borderRadius: 16, borderWidth: 1, borderColor: '#ddd' },
+  chipActive: { backgroundColor: '#007AFF', borderColor: '#007AFF' },
+  chipText: { color: '#666', fontWeight: '600', fontSize: 13 },
+  chipTextActive: { color: '#fff' },
+});
@@ -12,6 +12,37 @@ import {
 } from 'react-native';
 import { updateExpense, validateSplits } from '../api/expenseActions';
 import { getExpenseDetail, ExpenseDetail } from '../api/expenses';
+import { DEFAULT_CURRENCY } from '../utils/currency';
+import { formatCurrency } from '../utils/errorHandler';
+import {
+  calculateSplits,
+  distributeEvenly,
+  SplitType,
+  validateSplitInputs,
+} from '../validators/splitValidator';
+import SplitModePicker, { SPLIT_TYPE_LABELS } from './SplitModePicker';
+import CategoryPicker from './CategoryPicker';
+import ExpenseDatePicker from './ExpenseDatePicker';
+import ItemizedReceiptEditor, {
+  createReceiptDraft,
+  parseReceiptDraft,
+  ReceiptDraft,
+  receiptToDraft,
+} from './ItemizedReceiptEditor';
+import { fetchGroupMembers } from '../api/supabase';
+import { MemberWithProfile } from '../api/repositories';
+import { getMyRole } from '../api/members';
+import { getGroupCategories } from '../api/categories';
+import { runOrQueue, withOfflineCache } from '../api/offline';
+import { generateUuid } from '../utils/offlineSync';
+import { useAuth } from '../contexts/AuthContext';
+import { canModifyExpense } from '../utils/permissions';
+import { calculateItemizedSplits, getReceiptTotal, validateReceipt } from '../utils/receipt';
+import { getMemberLabel } from '../utils/members';
+import { DEFAULT_CATEGORIES, ExpenseCategory } from '../utils/categories';
+import { validateExpenseDate } from '../utils/expenseDates';
+import { todayISO } from '../utils/recurrence';
+import { NOTES_MAX_LENGTH } from '../validators/expenseValidator';
 
 interface EditExpenseModalProps {
   visible: boolean;
@@ -26,12 +57,22 @@ export default function EditExpenseModal({
   onClose,
   onSuccess,
 }: EditExpenseModalProps) {
+  const { user } = useAuth();
   const [loading, setLoading] = useState(true);
+  const [canEdit, setCanEdit] = useState(false);
   const [saving, setSaving] = useState(false);
   const [expense, setExpense] = useState<ExpenseDetail | null>(null);
   const [description, setDescription] = useState('');
   const [amount, setAmount] = useState('');
-  const [splits, setSplits] = useState<Array<{ user_id: string; name: string; amount: string }>>([]);
+  const [date, setDate] = useState(todayISO());
+  const [notes, setNotes] = useState('');
+  const [category, setCategory] = useState<string | null>(null);
+  const [categories, setCategories] = useState<ExpenseCategory[]>(DEFAULT_CATEGORIES);
+  const [splitType, setSplitType] = useState<SplitType>('custom');
+  // input is the amount for custom splits, otherwise the value for the split mode
+  const [splits, setSplits] = useState<Array<{ user_id: string; name: string; input: string }>>([]);
+  const [receiptDraft, setReceiptDraft] = useState<ReceiptDraft>(createReceiptDraft([]));
+  const [members, setMembers] = useState<Array<{ id: string; name: string }>>([]);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
@@ -44,15 +85,47 @@ export default function EditExpenseModal({
     try {
       setLoading(true);
       setError(null);
-      const data = await getExpenseDetail(expenseId);
+      // Same cache entry as the expense detail screen, so edits work offline
+      const cached = await withOfflineCache(`expense:${expenseId}`, async () => {
+        const detail = await getExpenseDetail(expenseId);
+        return { detail, role: user ? await getMyRole(detail.group_id, user.id) : null };
+      });
+      const { detail: data, role } = cached.data;
       setExpense(data);
+      setCanEdit(!!user && canModifyExpense(role, user.id, data.paid_by));
       setDescription(data.description);
       setAmount(data.amount.toString());
+      setDate(data.date);
+      setNotes(data.notes || '');
+      setCategory(data.category);
+      setCategories(await getGroupCategories(data.group_id).catch(() => DEFAULT_CATEGORIES));
+
+      // Reopen in the mode the expense was created with; fall back to
+      // amounts if the mode's values were never stored
+      const hasValues = data.split_type === 'itemized'
+        ? data.receipt !== null
+        : data.splits.every((s) => s.value !== null);
+      const type: SplitType =
+        data.split_type === 'equal' || data.split_type === 'custom' || hasValues
+          ? data.split_type
+          : 'custom';
+      setSplitType(type);
+      setReceiptDraft(
+        data.receipt ? receiptToDraft(data.receipt) : createReceiptDraft(data.splits.map((s) => s.user_id))
+      );
+
+      // Anyone in the group can be added to a receipt item
+      const { data: memberRows } = await withOfflineCache(`members:${data.group_id}`, () =>
+        fetchGroupMembers(data.group_id)
+      ).catch(() => ({ data: [] as MemberWithProfile[] }));
+      const groupMembers = memberRows.flatMap((row) => (row.users ? [{ id: row.users.id, name: getMemberLabel(row.users) }] : []));
+      setMembers(groupMembers.length > 0 ? groupMembers : data.splits.map((s) => ({ id: s.user_id, name: s.name })));
+
       setSplits(
         data.splits.map((s) => ({
           user_id: s.user_id,
           name: s.name,
-          amount: s.amount.toString(),
+          input: type === 'custom' ? s.amount.toString() : type === 'equal' ? '' : String(s.value),
         }))
       );
     } catch (err: any) {
@@ -63,12 +136,66 @@ export default function EditExpenseModal({
     }
   };
 
-  const handleSplitAmountChange = (index: number, value: string) => {
+  const handleSplitInputChange = (index: number, value: string) => {
     const newSplits = [...splits];
-    newSplits[index].amount = value;
+    newSplits[index] = { ...newSplits[index], input: value };
     setSplits(newSplits);
   };
 
+  const handleSplitTypeChange = (type: SplitType) => {
+    setSplitType(type);
+
+    const userIds = splits.map((s) => s.user_id);
+    const numAmount = parseFloat(amount);
+    let inputs: string[] = userIds.map(() => '');
+    if (type === 'shares') {
+      inputs = userIds.map(() => '1');
+    } else if (type === 'percentage') {
+      inputs = distributeEvenly(userIds, 100).map((s) => s.amount.toString());
+    } else if (type === 'custom' && !isNaN(numAmount) && numAmount > 0) {
+      inputs = distributeEvenly(userIds, numAmount).map((s) => s.amount.toFixed(2));
+    }
+    setSplits(splits.map((s, index) => ({ ...s, input: inputs[index] })));
+  };
+
+  // Itemized expenses take their total and splits from the receipt
+  const receipt = splitType === 'itemized' ? parseReceiptDraft(receiptDraft) : null;
+
+  /**
+   * Resolve the entered values into split amounts for the current mode
+   */
+  const resolveSplits = (numAmount: number) => {
+    if (receipt) {
+      const receiptErrors = validateReceipt(receipt);
+      if (receiptErrors.length > 0) {
+        return { splits: [], error: receiptErrors[0].message };
+      }
+      return {
+        splits: calculateItemizedSplits(receipt).map((split) => ({ ...split, value: null })),
+      };
+    }
+
+    const inputs = splits.map((s) => {
+      const raw = s.input.trim();
+      return {
+        user_id: s.user_id,
+        value: raw === '' && (splitType === 'adjustment' || splitType === 'equal') ? 0 : parseFloat(raw),
+      };
+    });
+
+    const inputErrors = validateSplitInputs(splitType, inputs, numAmount, expense?.currency || DEFAULT_CURRENCY);
+    if (inputErrors.length > 0) {
+      return { splits: [], error: inputErrors[0].message };
+    }
+
+    return {
+      splits: calculateSplits(splitType, inputs, numAmount).map((split, index) => ({
+        ...split,
+        value: splitType === 'equal' ? null : inputs[index].value,
+      })),
+    };
+  };
+
   const handleSave = async () => {
     try {
       setSaving(true);
@@ -80,17 +207,24 @@ export default function EditExpenseModal({
         return;
       }
 
-      const numAmount = parseFloat(amount);
-      if (isNaN(numAmount) || numAmount <= 0) {
+      const numAmount = receipt ? getReceiptTotal(receipt) : parseFloat(amount);
+      if (!receipt && (isNaN(numAmount) || numAmount <= 0)) {
         setError('Please enter a valid amount greater than 0');
         return;
       }
 
-      // Parse and validate splits
-      const parsedSplits = splits.map((s) => ({
-        user_id: s.user_id,
-        amount: parseFloat(s.amount),
-      }));
+      const dateError = validateExpenseDate(date);
+      if (dateError) {
+        setError(dateError);
+        return;
+      }
+
+      // Resolve and validate splits
+      const { splits: parsedSplits, error: splitError } = resolveSplits(numAmount);
+      if (splitError) {
+        setError(splitError);
+        return;
+      }
 
       const validation = validateSplits(numAmount, parsedSplits);
       if (!validation.valid) {
@@ -98,14 +232,41 @@ export default function EditExpenseModal({
         return;
       }
 
-      // Update expense
-      await updateExpense(expenseId, {
+      const data = {
         description: description.trim(),
         amount: numAmount,
+        date,
+        notes,
+        split_type: splitType,
+        category,
         splits: parsedSplits,
-      });
+      };
+      // null removes the itemized receipt the expense had
+      const receiptChange = receipt || (expense?.receipt ? null : undefined);
+      // Stored with the expense, so a replay of this edit is recognised
+      const changeId = generateUuid();
 
-      Alert.alert('Success', 'Expense updated successfully');
+      // Update expense, or queue the update if offline
+      const outcome = await runOrQueue(
+        {
+          action: 'update_expense',
+          group_id: expense!.group_id,
+          expense_id: expenseId,
+          base_updated_at: expense!.updated_at,
+          label: data.description,
+          payload: { data, receipt: receiptChange, change_id: changeId },
+        },
+        async () => {
+          await updateExpense(expenseId, { ...data, receipt: receiptChange }, changeId);
+        }
+      );
+
+      Alert.alert(
+        'Success',
+        outcome === 'queued'
+          ? 'You are offline. Your changes will sync when you reconnect.'
+          : 'Expense updated successfully'
+      );
       onSuccess();
       onClose();
     } catch (err: any) {
@@ -120,22 +281,18 @@ export default function EditExpenseModal({
     const numAmount = parseFloat(amount);
     if (isNaN(numAmount) || splits.length === 0) return;
 
-    const perPerson = numAmount / splits.length;
-    const roundedPerPerson = parseFloat(perPerson.toFixed(2));
-    
-    const newSplits = splits.map((s, index) => {
-      // Last person gets any rounding difference
-      if (index === splits.length - 1) {
-        const othersTotal = roundedPerPerson * (splits.length - 1);
-        const lastAmount = numAmount - othersTotal;
-        return { ...s, amount: lastAmount.toFixed(2) };
-      }
-      return { ...s, amount: roundedPerPerson.toFixed(2) };
-    });
+    const shares = distributeEvenly(splits.map((s) => s.user_id), numAmount);
+    const newSplits = splits.map((s, index) => ({
+      ...s,
+      input: shares[index].amount.toFixed(2),
+    }));
 
     setSplits(newSplits);
   };
 
+  const amountValue = receipt ? getReceiptTotal(receipt) : parseFloat(amount);
+  const preview = !isNaN(amountValue) && amountValue > 0 ? resolveSplits(amountValue).splits : [];
+
   if (loading) {
     return (
       <Modal visible={visible} animationType="slide" transparent>
@@ -175,14 +332,40 @@ export default function EditExpenseModal({
 
             {/* Amount */}
             <View style={styles.inputGroup}>
-              <Text style={styles.label}>Total Amount (₹)</Text>
-              <TextInput
-                style={styles.input}
-                value={amount}
-                onChangeText={setAmount}
-                placeholder="0.00"
-                keyboardType="decimal-pad"
-                placeholderTextColor="#999"
+              <Text style={styles.label}>Total Amount ({expense?.currency || DEFAULT_CURRENCY})</Text>
+              {receipt ? (
+                <Text style={styles.input}>
+                  {formatCurrency(getReceiptTotal(receipt), expense?.currency || DEFAULT_CURRENCY)} (from items)
+                </Text>
+              ) : (
+                <TextInput
+                  style={styles.input}
+                  value={amount}
+                  onChangeText={setAmount}
+                  placeholder="0.00"
+                  keyboardType="decimal-pad"
+                  placeholderTextColor="#999"
+                />
+              )}
+            </View>
+
+            {/* Date */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Date</Text>
+              <ExpenseDatePicker value={date} onChange={setDate} disabled={!canEdit} />
+            </View>
+
+            {/* Category */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Category</Text>
+              <CategoryPicker
+                groupId={expense?.group_id || ''}
+                categories={categories}
+                value={category}
+                onChange={setCategory}
+                onCategoryCreated={canEdit ? (created) => setCategories((list) => [...list, created]) : undefined}
+                onCategoryDeleted={canEdit ? (key) => setCategories((list) => list.filter((c) => c.key !== key)) : undefined}
+                disabled={!canEdit}
               />
             </View>
 
@@ -190,25 +373,61 @@ export default function EditExpenseModal({
             <View style={styles.inputGroup}>
               <View style={styles.splitsHeader}>
                 <Text style={styles.label}>Split Among</Text>
-                <TouchableOpacity onPress={handleDistributeEvenly}>
-                  <Text style={styles.distributeButton}>Distribute Evenly</Text>
-                </TouchableOpacity>
+                {splitType === 'custom' && (
+                  <TouchableOpacity onPress={handleDistributeEvenly}>
+                    <Text style={styles.distributeButton}>Distribute Evenly</Text>
+                  </TouchableOpacity>
+                )}
               </View>
-              {splits.map((split, index) => (
+              <SplitModePicker value={splitType} onChange={handleSplitTypeChange} />
+              {receipt && (
+                <ItemizedReceiptEditor
+                  members={members}
+                  value={receiptDraft}
+                  onChange={setReceiptDraft}
+                  currency={expense?.currency || DEFAULT_CURRENCY}
+                />
+              )}
+              {!receipt && splits.map((split, index) => (
                 <View key={split.user_id} style={styles.splitRow}>
                   <Text style={styles.splitName}>{split.name}</Text>
-                  <TextInput
-                    style={styles.splitInput}
-                    value={split.amount}
-                    onChangeText={(value) => handleSplitAmountChange(index, value)}
-                    placeholder="0.00"
-                    keyboardType="decimal-pad"
-                    placeholderTextColor="#999"
-                  />
+                  {splitType !== 'custom' && (
+                    <Text style={styles.splitPreview}>
+                      {formatCurrency(
+                        preview.find((p) => p.user_id === split.user_id)?.amount || 0,
+                        expense?.currency || DEFAULT_CURRENCY
+                      )}
+                    </Text>
+                  )}
+                  {splitType !== 'equal' && (
+                    <TextInput
+                      style={styles.splitInput}
+                      value={split.input}
+                      onChangeText={(value) => handleSplitInputChange(index, value)}
+                      placeholder={SPLIT_TYPE_LABELS[splitType].inputHint}
+                      keyboardType={splitType === 'adjustment' ? 'numbers-and-punctuation' : 'decimal-pad'}
+                      placeholderTextColor="#999"
+                    />
+                  )}
                 </View>
               ))}
             </View>
 
+            {/* Notes */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Notes</Text>
+              <TextInput
+                style={[styles.input, styles.notesInput]}
+                value={notes}
+                onChangeText={setNotes}
+                placeholder="Optional"
+                placeholderTextColor="#999"
+                maxLength={NOTES_MAX_LENGTH}
+                editable={canEdit}
+                multiline
+              />
+            </View>
+
             {/* Error Message */}
             {error && (
               <View style={styles.errorContainer}>
@@ -219,7 +438,9 @@ export default function EditExpenseModal({
             {/* Info */}
             <View style={styles.infoBox}>
               <Text style={styles.infoText}>
-                💡 Changes will recalculate group balances. Make sure splits add up to the total amount.
+                {canEdit
+                  ? '💡 Changes will recalculate group balances. Make sure splits add up to the total amount.'
+                  : '🔒 Only the payer or a group admin can edit this expense.'}
               </Text>
             </View>
           </ScrollView>
@@ -231,19 +452,21 @@ export default function EditExpenseModal({
               onPress={onClose}
               disabled={saving}
             >
-              <Text style={styles.cancelButtonText}>Cancel</Text>
-            </TouchableOpacity>
-            <TouchableOpacity
-              style={[styles.button, styles.saveButton, saving && styles.disabledButton]}
-              onPress={handleSave}
-              disabled={saving}
-            >
-              {saving ? (
-                <ActivityIndicator size="small" color="#fff" />
-              ) : (
-                <Text style={styles.saveButtonText}>Save Changes</Text>
-              )}
+              <Text style={styles.cancelButtonText}>{canEdit ? 'Cancel' : 'Close'}</Text>
             </TouchableOpacity>
+            {canEdit && (
+              <TouchableOpacity
+                style={[styles.button, styles.saveButton, saving && styles.disabledButton]}
+                onPress={handleSave}
+                disabled={saving}
+              >
+                {saving ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <Text style={styles.saveButtonText}>Save Changes</Text>
+                )}
+              </TouchableOpacity>
+            )}
           </View>
         </View>
       </View>
@@ -317,6 +540,10 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#333',
   },
+  notesInput: {
+    minHeight: 70,
+    textAlignVertical: 'top',
+  },
   splitsHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -339,6 +566,12 @@ const styles = StyleSheet.create({
     color: '#333',
     flex: 1,
   },
+  splitPreview: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '600',
+    marginRight: 12,
+  },
   splitInput: {
     borderWidth: 1,
     borderColor: '#ddd',
@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { formatExpenseDate, shiftDate, validateExpenseDate } from '../utils/expenseDates';
+import { todayISO } from '../utils/recurrence';
+
+interface ExpenseDatePickerProps {
+  value: string; // 'YYYY-MM-DD'
+  onChange: (date: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Date field for expenses: quick picks for today and yesterday, day-by-day
+ * arrows for backdating, and a text field for any other date
+ */
+export default function ExpenseDatePicker({ value, onChange, disabled }: ExpenseDatePickerProps) {
+  const today = todayISO();
+  const [text, setText] = useState(value);
+
+  // Keep the text field in step with the arrows and quick picks
+  useEffect(() => {
+    setText(value);
+  }, [value]);
+
+  const handleTextChange = (next: string) => {
+    setText(next);
+    if (!validateExpenseDate(next, today)) {
+      onChange(next);
+    }
+  };
+
+  const textError = text !== value ? validateExpenseDate(text, today) : null;
+
+  return (
+    <View>
+      <View style={styles.row}>
+        {[today, shiftDate(today, -1)].map((date) => {
+          const active = date === value;
+          return (
+            <TouchableOpacity
+              key={date}
+              style={[styles.chip, active && styles.chipActive]}
+              onPress={() => onChange(date)}
+              disabled={disabled}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>{formatExpenseDate(date, today)}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={styles.stepper}>
+        <TouchableOpacity style={styles.stepBtn} onPress={() => onChange(shiftDate(value, -1))} disabled={disabled}>
+          <Text style={styles.stepText}>‹</Text>
+        </TouchableOpacity>
+        <Text style={styles.dateLabel}>{formatExpenseDate(value, today)}</Text>
+        <TouchableOpacity
+          style={styles.stepBtn}
+          onPress={() => onChange(shiftDate(value, 1))}
+          disabled={disabled || value >= today}
+        >
+          <Text style={[styles.stepText, value >= today && styles.stepTextDisabled]}>›</Text>
+        </TouchableOpacity>
+        <TextInput
+          style={styles.input}
+          value={text}
+          onChangeText={handleTextChange}
+          placeholder="YYYY-MM-DD"
+          keyboardType="numbers-and-punctuation"
+          maxLength={10}
+          editable={!disabled}
+        />
+      </View>
+      {textError && <Text style={styles.errorText}>{textError}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: { flexDirection: 'row', gap: 8, paddingVertical: 4 },
+  chip: { paddingHorizontal: 12, paddingVertical: 6, borderRadius: 16, borderWidth: 1, borderColor: '#ddd' },
+  chipActive: { backgroundColor: '#007AFF', borderColor: '#007AFF' },
+  chipText: { color: '#666', fontWeight: '600', fontSize: 13 },
+  chipTextActive: { color: '#fff' },
+  stepper: { flexDirection: 'row', alignItems: 'center', gap: 8, marginTop: 8 },
+  stepBtn: { paddingHorizontal: 10, paddingVertical: 4, borderRadius: 6, borderWidth: 1, borderColor: '#ddd' },
+  stepText: { fontSize: 18, color: '#007AFF', fontWeight: '600' },
+  stepTextDisabled: { color: '#ccc' },
+  dateLabel: { minWidth: 110, textAlign: 'center', color: '#333', fontWeight: '600' },
+  input: { flex: 1, borderWidth: 1, borderColor: '#ddd', borderRadius: 6, paddingHorizontal: 10, paddingVertical: 6, fontSize: 14 },
+  errorText: { color: '#FF3B30', fontSize: 12, marginTop: 4 },
+});
@@ -0,0 +1,198 @@
+import React from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { CurrencyCode } from '../utils/currency';
+import { formatCurrency } from '../utils/errorHandler';
+import {
+  calculateReceiptShares,
+  CHARGE_LABELS,
+  getReceiptTotal,
+  Receipt,
+  ReceiptCharges,
+  validateReceipt,
+} from '../utils/receipt';
+
+/**
+ * Receipt as typed into the form (amounts are still strings)
+ */
+export interface ReceiptDraft {
+  items: Array<{ name: string; amount: string; participant_ids: string[] }>;
+  charges: Record<keyof ReceiptCharges, string>;
+}
+
+const CHARGE_KEYS: Array<keyof ReceiptCharges> = ['tax', 'service_charge', 'tip'];
+
+export function createReceiptDraft(participantIds: string[]): ReceiptDraft {
+  return {
+    items: [{ name: '', amount: '', participant_ids: participantIds }],
+    charges: { tax: '', service_charge: '', tip: '' },
+  };
+}
+
+export function receiptToDraft(receipt: Receipt): ReceiptDraft {
+  return {
+    items: receipt.items.map((item) => ({
+      name: item.name,
+      amount: item.amount.toString(),
+      participant_ids: item.participant_ids,
+    })),
+    charges: {
+      tax: receipt.charges.tax ? receipt.charges.tax.toString() : '',
+      service_charge: receipt.charges.service_charge ? receipt.charges.service_charge.toString() : '',
+      tip: receipt.charges.tip ? receipt.charges.tip.toString() : '',
+    },
+  };
+}
+
+export function parseReceiptDraft(draft: ReceiptDraft): Receipt {
+  const parseCharge = (value: string) => (value.trim() === '' ? 0 : parseFloat(value));
+  return {
+    items: draft.items.map((item) => ({
+      name: item.name,
+      amount: parseFloat(item.amount),
+      participant_ids: item.participant_ids,
+    })),
+    charges: {
+      tax: parseCharge(draft.charges.tax),
+      service_charge: parseCharge(draft.charges.service_charge),
+      tip: parseCharge(draft.charges.tip),
+    },
+  };
+}
+
+interface ItemizedReceiptEditorProps {
+  members: Array<{ id: string; name: string }>;
+  value: ReceiptDraft;
+  onChange: (draft: ReceiptDraft) => void;
+  currency: CurrencyCode;
+}
+
+export default function ItemizedReceiptEditor({ members, value, onChange, currency }: ItemizedReceiptEditorProps) {
+  const receipt = parseReceiptDraft(value);
+  const valid = validateReceipt(receipt).length === 0;
+  const shares = valid ? calculateReceiptShares(receipt) : [];
+
+  const updateItem = (index: number, changes: Partial<ReceiptDraft['items'][number]>) => {
+    const items = value.items.map((item, i) => (i === index ? { ...item, ...changes } : item));
+    onChange({ ...value, items });
+  };
+
+  const toggleItemParticipant = (index: number, userId: string) => {
+    const current = value.items[index].participant_ids;
+    updateItem(index, {
+      participant_ids: current.includes(userId)
+        ? current.filter((id) => id !== userId)
+        : [...current, userId],
+    });
+  };
+
+  const addItem = () => {
+    onChange({
+      ...value,
+      items: [...value.items, { name: '', amount: '', participant_ids: [] }],
+    });
+  };
+
+  const removeItem = (index: number) => {
+    onChange({ ...value, items: value.items.filter((_, i) => i !== index) });
+  };
+
+  const nameOf = (userId: string) => members.find((m) => m.id === userId)?.name || 'Unknown';
+
+  return (
+    <View>
+      {value.items.map((item, index) => (
+        <View key={`item-${index}`} style={styles.item}>
+          <View style={styles.itemRow}>
+            <TextInput
+              style={[styles.input, styles.itemName]}
+              value={item.name}
+              onChangeText={(name) => updateItem(index, { name })}
+              placeholder="Item"
+            />
+            <TextInput
+              style={[styles.input, styles.itemAmount]}
+              value={item.amount}
+              onChangeText={(amount) => updateItem(index, { amount })}
+              placeholder="0.00"
+              keyboardType="decimal-pad"
+            />
+            {value.items.length > 1 && (
+              <TouchableOpacity onPress={() => removeItem(index)} style={styles.removeBtn}>
+                <Text style={styles.removeText}>✕</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          <View style={styles.chips}>
+            {members.map((m) => {
+              const active = item.participant_ids.includes(m.id);
+              return (
+                <TouchableOpacity
+                  key={m.id}
+                  style={[styles.chip, active && styles.chipActive]}
+                  onPress={() => toggleItemParticipant(index, m.id)}
+                >
+                  <Text style={[styles.chipText, active && styles.chipTextActive]}>{m.name}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      ))}
+
+      <TouchableOpacity onPress={addItem}>
+        <Text style={styles.addText}>+ Add item</Text>
+      </TouchableOpacity>
+
+      {CHARGE_KEYS.map((key) => (
+        <View key={key} style={styles.chargeRow}>
+          <Text style={styles.chargeLabel}>{CHARGE_LABELS[key]}</Text>
+          <TextInput
+            style={[styles.input, styles.itemAmount]}
+            value={value.charges[key]}
+            onChangeText={(text) => onChange({ ...value, charges: { ...value.charges, [key]: text } })}
+            placeholder="0.00"
+            keyboardType="decimal-pad"
+          />
+        </View>
+      ))}
+
+      {valid && (
+        <View style={styles.summary}>
+          {shares.map((share) => (
+            <View key={share.user_id} style={styles.summaryRow}>
+              <Text style={styles.summaryName}>{nameOf(share.user_id)}</Text>
+              <Text style={styles.summaryAmount}>{formatCurrency(share.total, currency)}</Text>
+            </View>
+          ))}
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryTotal}>Total</Text>
+            <Text style={styles.summaryTotal}>{formatCurrency(getReceiptTotal(receipt), currency)}</Text>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  item: { marginBottom: 12, paddingBottom: 8, borderBottomWidth: 1, borderBottomColor: '#f0f0f0' },
+  itemRow: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  input: { borderWidth: 1, borderColor: '#ddd', borderRadius: 6, padding: 8, fontSize: 13 },
+  itemName: { flex: 1 },
+  itemAmount: { width: 90, textAlign: 'right' },
+  removeBtn: { padding: 6 },
+  removeText: { color: '#f44336', fontWeight: '700' },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', gap: 6, marginTop: 8 },
+  chip: { paddingHorizontal: 10, paddingVertical: 4, borderRadius: 12, borderWidth: 1, borderColor: '#ddd' },
+  chipActive: { backgroundColor: '#007AFF', borderColor: '#007AFF' },
+  chipText: { color: '#666', fontSize: 12 },
+  chipTextActive: { color: '#fff' },
+  addText: { color: '#007AFF', fontWeight: '600', marginBottom: 12 },
+  chargeRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 },
+  chargeLabel: { color: '#333', fontWeight: '500' },
+  summary: { marginTop: 8, padding: 10, backgroundColor: '#f0f9ff', borderRadius: 8 },
+  summaryRow: { flexDirection: 'row', justifyContent: 'space-between', paddingVertical: 2 },
+  summaryName: { color: '#333' },
+  summaryAmount: { color: '#007AFF', fontWeight: '600' },
+  summaryTotal: { color: '#333', fontWeight: '700' },
+});
@@ -0,0 +1,207 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import {
+  getMyInvitations,
+  joinWithCode,
+  PendingInvitation,
+  previewJoinCode,
+  respondToInvitation,
+} from '../api/invitations';
+import { describeExpiry, parseJoinCode } from '../utils/invitations';
+import { useTheme } from '../hooks/useTheme';
+
+interface JoinGroupPanelProps {
+  initialCode?: string | null; // From an invite link the app was opened with
+  onJoined: (groupId: string) => void;
+  refreshTrigger?: number;
+}
+
+export default function JoinGroupPanel({ initialCode, onJoined, refreshTrigger }: JoinGroupPanelProps) {
+  const { theme } = useTheme();
+  const { colors } = theme;
+
+  const [invitations, setInvitations] = useState<PendingInvitation[]>([]);
+  const [code, setCode] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    loadInvitations();
+  }, [refreshTrigger]);
+
+  useEffect(() => {
+    if (initialCode) {
+      setCode(initialCode);
+      handleJoin(initialCode);
+    }
+  }, [initialCode]);
+
+  const loadInvitations = async () => {
+    try {
+      setInvitations(await getMyInvitations());
+    } catch (err: any) {
+      // The rest of the groups screen still works without invitations
+      setInvitations([]);
+    }
+  };
+
+  const handleJoin = async (input: string = code) => {
+    const joinCode = parseJoinCode(input);
+    if (!joinCode) {
+      Alert.alert('Invalid Code', 'Enter the 8-character join code or paste an invite link.');
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const preview = await previewJoinCode(joinCode);
+      if (!preview) {
+        Alert.alert('Invalid Code', 'This join code is invalid or has expired.');
+        return;
+      }
+      if (preview.already_member) {
+        setCode('');
+        onJoined(preview.group_id);
+        return;
+      }
+
+      const invitedBy = preview.invited_by_name ? `${preview.invited_by_name} invited you to ` : '';
+      Alert.alert(
+        'Join Group',
+        `${invitedBy}"${preview.group_name}" (${preview.member_count} member${preview.member_count === 1 ? '' : 's'}).`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Join',
+            onPress: async () => {
+              try {
+                const groupId = await joinWithCode(joinCode);
+                setCode('');
+                onJoined(groupId);
+              } catch (err: any) {
+                Alert.alert('Error', err.message || 'Failed to join group');
+              }
+            },
+          },
+        ]
+      );
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Failed to look up join code');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRespond = async (invitation: PendingInvitation, accept: boolean) => {
+    try {
+      const groupId = await respondToInvitation(invitation.id, accept);
+      await loadInvitations();
+      if (accept) onJoined(groupId);
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Failed to respond to invitation');
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      {invitations.map((invitation) => (
+        <View key={invitation.id} style={[styles.card, { backgroundColor: colors.card, borderColor: colors.primary }]}>
+          <Text style={[styles.title, { color: colors.text }]}>
+            {invitation.invited_by_name || 'Someone'} invited you to "{invitation.group_name}"
+          </Text>
+          <Text style={[styles.hint, { color: colors.textTertiary }]}>{describeExpiry(invitation.expires_at)}</Text>
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: colors.primary }]}
+              onPress={() => handleRespond(invitation, true)}
+            >
+              <Text style={[styles.buttonText, { color: colors.textInverse }]}>Accept</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: colors.backgroundSecondary }]}
+              onPress={() => handleRespond(invitation, false)}
+            >
+              <Text style={[styles.buttonText, { color: colors.error }]}>Decline</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ))}
+
+      <View style={styles.joinRow}>
+        <TextInput
+          style={[
+            styles.input,
+            { backgroundColor: colors.inputBackground, borderColor: colors.inputBorder, color: colors.inputText },
+          ]}
+          value={code}
+          onChangeText={setCode}
+          placeholder="Join code or invite link"
+          placeholderTextColor={colors.inputPlaceholder}
+          autoCapitalize="characters"
+          autoCorrect={false}
+        />
+        <TouchableOpacity
+          style={[styles.joinButton, { backgroundColor: colors.primary }, (!code.trim() || busy) && styles.disabled]}
+          onPress={() => handleJoin()}
+          disabled={!code.trim() || busy}
+        >
+          <Text style={[styles.buttonText, { color: colors.textInverse }]}>Join</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 12,
+    paddingTop: 12,
+  },
+  card: {
+    padding: 14,
+    borderRadius: 8,
+    borderWidth: 1,
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  buttonText: {
+    fontWeight: '600',
+  },
+  joinRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+  },
+  joinButton: {
+    paddingHorizontal: 18,
+    justifyContent: 'center',
+    borderRadius: 6,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+});
@@ -0,0 +1,378 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Alert, Share, ActivityIndicator } from 'react-native';
+import {
+  createJoinCode,
+  getGroupInvitations,
+  GroupInvitation,
+  inviteByEmail,
+  revokeInvitation,
+} from '../api/invitations';
+import { addGuestMember, claimGuestMember, removeMember, updateMemberRole } from '../api/members';
+import {
+  buildInviteLink,
+  DEFAULT_INVITE_EXPIRY_DAYS,
+  describeExpiry,
+  formatJoinCode,
+  isInvitationExpired,
+  normalizeEmail,
+} from '../utils/invitations';
+import { getMemberLabel, getMemberName, GroupMember } from '../utils/members';
+import { can, canRemoveMember, getAssignableRoles, GroupRole, ROLE_DESCRIPTIONS, ROLE_LABELS } from '../utils/permissions';
+
+interface MembersPanelProps {
+  groupId: string;
+  groupName: string;
+  members: GroupMember[];
+  userId: string;
+  role?: GroupRole; // Current user's role
+  readOnly?: boolean; // Archived group: list members only
+  onMembersChanged?: () => void;
+  refreshTrigger?: number;
+}
+
+// Lifetimes offered when inviting
+const EXPIRY_OPTIONS = [1, DEFAULT_INVITE_EXPIRY_DAYS, 30];
+
+export default function MembersPanel({
+  groupId,
+  groupName,
+  members,
+  userId,
+  role,
+  readOnly,
+  onMembersChanged,
+  refreshTrigger,
+}: MembersPanelProps) {
+  const canInvite = !readOnly && can(role, 'invite_members');
+  const canAddGuests = !readOnly && can(role, 'add_guests');
+
+  const assignableRoles = (member: GroupMember) =>
+    readOnly || !member.role ? [] : getAssignableRoles(role, member.role, member.id === userId);
+
+  const [invitations, setInvitations] = useState<GroupInvitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [email, setEmail] = useState('');
+  const [expiryDays, setExpiryDays] = useState(DEFAULT_INVITE_EXPIRY_DAYS);
+  const [guestName, setGuestName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadInvitations();
+  }, [groupId, refreshTrigger]);
+
+  const loadInvitations = async () => {
+    try {
+      setLoading(true);
+      setInvitations(await getGroupInvitations(groupId));
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Failed to load invitations');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleInvite = async () => {
+    const address = normalizeEmail(email);
+    if (members.some((m) => m.email && normalizeEmail(m.email) === address)) {
+      Alert.alert('Already a member', `${address} is already in this group`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await inviteByEmail(groupId, address, expiryDays);
+      setEmail('');
+      await loadInvitations();
+      Alert.alert('Invitation sent', `${address} will see the invitation when they sign in with this email.`);
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Failed to send invitation');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const shareCode = async (invitation: GroupInvitation) => {
+    try {
+      await Share.share({
+        message: `Join "${groupName}" on SplitYourBills with code ${formatJoinCode(invitation.code)} or open ${buildInviteLink(invitation.code)}`,
+      });
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Failed to share join code');
+    }
+  };
+
+  const handleCreateCode = async () => {
+    setSaving(true);
+    try {
+      const invitation = await createJoinCode(groupId, expiryDays);
+      await loadInvitations();
+      await shareCode(invitation);
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Failed to create join code');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddGuest = async () => {
+    setSaving(true);
+    try {
+      await addGuestMember(groupId, guestName, members);
+      setGuestName('');
+      onMembersChanged?.();
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Failed to add guest');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleClaim = (guest: GroupMember) => {
+    const name = getMemberName(guest);
+    Alert.alert(
+      `Are you ${name}?`,
+      `Everything ${name} paid or owes in this group will move to your account. This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: `I'm ${name}`,
+          onPress: async () => {
+            try {
+              await claimGuestMember(guest.id);
+              onMembersChanged?.();
+            } catch (err: any) {
+              Alert.alert('Error', err.message || 'Failed to claim guest');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleRemove = (member: GroupMember) => {
+    const name = getMemberName(member);
+    Alert.alert('Remove Member', `Remove ${name} from ${groupName}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await removeMember(groupId, member);
+            onMembersChanged?.();
+          } catch (err: any) {
+            Alert.alert('Cannot Remove', err.message || 'Failed to remove member');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleChangeRole = (member: GroupMember, roles: GroupRole[]) => {
+    Alert.alert(
+      `Role for ${getMemberName(member)}`,
+      roles.map((r) => `${ROLE_LABELS[r]}: ${ROLE_DESCRIPTIONS[r]}`).join('\n'),
+      [
+        ...roles
+          .filter((r) => r !== member.role)
+          .map((r) => ({
+            text: ROLE_LABELS[r],
+            onPress: async () => {
+              try {
+                await updateMemberRole(groupId, member.id, r);
+                onMembersChanged?.();
+              } catch (err: any) {
+                Alert.alert('Error', err.message || 'Failed to change role');
+              }
+            },
+          })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  const handleRevoke = (invitation: GroupInvitation) => {
+    const label = invitation.email || formatJoinCode(invitation.code);
+    Alert.alert('Revoke Invitation', `${label} will no longer be able to join.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Revoke',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await revokeInvitation(invitation.id);
+            await loadInvitations();
+          } catch (err: any) {
+            Alert.alert('Error', err.message || 'Failed to revoke invitation');
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View>
+      <Text style={styles.sectionTitle}>👥 Members ({members.length})</Text>
+      <View style={styles.card}>
+        {members.map((member) => (
+          <View key={member.id} style={[styles.row, styles.memberRow]}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.memberName}>{getMemberLabel(member)}</Text>
+              {member.name && member.email ? <Text style={styles.hint}>{member.email}</Text> : null}
+            </View>
+            {member.is_guest && !readOnly && (
+              <TouchableOpacity onPress={() => handleClaim(member)}>
+                <Text style={styles.linkText}>This is me</Text>
+              </TouchableOpacity>
+            )}
+            {!member.is_guest && member.role && (
+              <TouchableOpacity
+                style={styles.roleTag}
+                onPress={() => handleChangeRole(member, assignableRoles(member))}
+                disabled={assignableRoles(member).length === 0}
+              >
+                <Text style={styles.roleTagText}>{ROLE_LABELS[member.role]}</Text>
+              </TouchableOpacity>
+            )}
+            {!readOnly && member.id !== userId && canRemoveMember(role, member.role || 'member') && (
+              <TouchableOpacity onPress={() => handleRemove(member)}>
+                <Text style={styles.deleteText}>Remove</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        ))}
+      </View>
+
+      {canAddGuests && (
+        <View style={styles.card}>
+          <Text style={styles.label}>Add someone without an account</Text>
+          <View style={styles.guestRow}>
+            <TextInput
+              style={[styles.input, styles.guestInput]}
+              value={guestName}
+              onChangeText={setGuestName}
+              placeholder="Guest name"
+            />
+            <TouchableOpacity
+              style={[styles.guestButton, (!guestName.trim() || saving) && styles.buttonDisabled]}
+              onPress={handleAddGuest}
+              disabled={!guestName.trim() || saving}
+            >
+              <Text style={styles.buttonText}>Add Guest</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {canInvite && (
+        <>
+          <View style={styles.card}>
+            <Text style={styles.label}>Invite people</Text>
+            <TextInput
+              style={styles.input}
+              value={email}
+              onChangeText={setEmail}
+              placeholder="friend@example.com"
+              keyboardType="email-address"
+              autoCapitalize="none"
+            />
+            <View style={styles.chips}>
+              {EXPIRY_OPTIONS.map((days) => (
+                <TouchableOpacity
+                  key={days}
+                  style={[styles.chip, expiryDays === days && styles.chipActive]}
+                  onPress={() => setExpiryDays(days)}
+                >
+                  <Text style={[styles.chipText, expiryDays === days && styles.chipTextActive]}>
+                    {days} day{days === 1 ? '' : 's'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <View style={styles.buttonRow}>
+              <TouchableOpacity
+                style={[styles.button, (!email.trim() || saving) && styles.buttonDisabled]}
+                onPress={handleInvite}
+                disabled={!email.trim() || saving}
+              >
+                <Text style={styles.buttonText}>Invite by Email</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.button, styles.secondaryButton, saving && styles.buttonDisabled]}
+                onPress={handleCreateCode}
+                disabled={saving}
+              >
+                <Text style={styles.secondaryButtonText}>New Join Code</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          {loading ? (
+            <ActivityIndicator size="small" color="#007AFF" />
+          ) : (
+            invitations.length > 0 && (
+              <View style={styles.card}>
+                <Text style={styles.label}>Pending invitations</Text>
+                {invitations.map((invitation) => {
+                  const expired = isInvitationExpired(invitation.expires_at);
+                  return (
+                    <View key={invitation.id} style={[styles.inviteRow, expired && styles.expired]}>
+                      <View style={{ flex: 1 }}>
+                        <Text style={styles.memberName}>
+                          {invitation.email || `Code ${formatJoinCode(invitation.code)}`}
+                        </Text>
+                        <Text style={styles.hint}>
+                          {describeExpiry(invitation.expires_at)}
+                          {!invitation.email && invitation.use_count > 0 ? ` · used ${invitation.use_count}×` : ''}
+                        </Text>
+                      </View>
+                      {!invitation.email && !expired && (
+                        <TouchableOpacity onPress={() => shareCode(invitation)}>
+                          <Text style={styles.linkText}>Share</Text>
+                        </TouchableOpacity>
+                      )}
+                      <TouchableOpacity onPress={() => handleRevoke(invitation)}>
+                        <Text style={styles.deleteText}>{expired ? 'Remove' : 'Revoke'}</Text>
+                      </TouchableOpacity>
+                    </View>
+                  );
+                })}
+              </View>
+            )
+          )}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  sectionTitle: { fontSize: 16, fontWeight: 'bold', color: '#333', marginBottom: 12 },
+  card: { backgroundColor: '#fff', borderRadius: 8, padding: 12, marginBottom: 8 },
+  row: { paddingVertical: 6 },
+  memberRow: { flexDirection: 'row', alignItems: 'center', gap: 12 },
+  roleTag: { paddingHorizontal: 8, paddingVertical: 2, borderRadius: 10, backgroundColor: '#f0f0f0' },
+  roleTagText: { fontSize: 11, fontWeight: '600', color: '#666' },
+  memberName: { fontSize: 14, fontWeight: '600', color: '#333' },
+  label: { fontSize: 13, fontWeight: '600', color: '#666', marginBottom: 8 },
+  hint: { fontSize: 12, color: '#999', marginTop: 2 },
+  input: { borderWidth: 1, borderColor: '#ddd', borderRadius: 6, padding: 8, marginBottom: 8, fontSize: 13 },
+  guestRow: { flexDirection: 'row', gap: 8 },
+  guestInput: { flex: 1, marginBottom: 0 },
+  guestButton: { backgroundColor: '#007AFF', paddingHorizontal: 14, borderRadius: 8, justifyContent: 'center' },
+  chips: { flexDirection: 'row', gap: 6, marginBottom: 8 },
+  chip: { flex: 1, paddingVertical: 6, borderRadius: 6, borderWidth: 1, borderColor: '#ddd', alignItems: 'center' },
+  chipActive: { backgroundColor: '#007AFF', borderColor: '#007AFF' },
+  chipText: { color: '#666', fontWeight: '600', fontSize: 12 },
+  chipTextActive: { color: '#fff' },
+  buttonRow: { flexDirection: 'row', gap: 8 },
+  button: { flex: 1, backgroundColor: '#007AFF', padding: 10, borderRadius: 8, alignItems: 'center' },
+  buttonDisabled: { opacity: 0.5 },
+  buttonText: { color: '#fff', fontWeight: '600' },
+  secondaryButton: { backgroundColor: '#fff', borderWidth: 1, borderColor: '#007AFF' },
+  secondaryButtonText: { color: '#007AFF', fontWeight: '600' },
+  inviteRow: { flexDirection: 'row', alignItems: 'center', gap: 12, paddingVertical: 8 },
+  expired: { opacity: 0.5 },
+  linkText: { color: '#007AFF', fontWeight: '600' },
+  deleteText: { color: '#FF3B30', fontWeight: '600' },
+});
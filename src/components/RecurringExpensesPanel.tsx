@@ -0,0 +1,263 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Alert, ActivityIndicator } from 'react-native';
+import {
+  createRecurringExpense,
+  deleteRecurringExpense,
+  getRecurringExpenses,
+  RecurringExpense,
+  setRecurringExpenseActive,
+  skipOccurrence,
+} from '../api/recurringExpenses';
+import { CurrencyCode } from '../utils/currency';
+import { formatCurrency } from '../utils/errorHandler';
+import {
+  describeRecurrence,
+  getNextOccurrence,
+  RECURRENCE_FREQUENCIES,
+  RecurrenceFrequency,
+  todayISO,
+} from '../utils/recurrence';
+import { distributeEvenly } from '../validators/splitValidator';
+
+interface RecurringExpensesPanelProps {
+  groupId: string;
+  userId: string;
+  memberIds: string[];
+  currency: CurrencyCode;
+  refreshTrigger?: number;
+  onChanged: () => void;
+}
+
+const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  yearly: 'Yearly',
+};
+
+export default function RecurringExpensesPanel({
+  groupId,
+  userId,
+  memberIds,
+  currency,
+  refreshTrigger,
+  onChanged,
+}: RecurringExpensesPanelProps) {
+  const [templates, setTemplates] = useState<RecurringExpense[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [description, setDescription] = useState('');
+  const [amount, setAmount] = useState('');
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>('monthly');
+  const [repeatEvery, setRepeatEvery] = useState('1');
+  const [startDate, setStartDate] = useState(todayISO());
+  const [endDate, setEndDate] = useState('');
+
+  useEffect(() => {
+    loadTemplates();
+  }, [groupId, refreshTrigger]);
+
+  const loadTemplates = async () => {
+    try {
+      setLoading(true);
+      setTemplates(await getRecurringExpenses(groupId));
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Failed to load recurring expenses');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setDescription('');
+    setAmount('');
+    setFrequency('monthly');
+    setRepeatEvery('1');
+    setStartDate(todayISO());
+    setEndDate('');
+    setShowForm(false);
+  };
+
+  const handleCreate = async () => {
+    const amt = parseFloat(amount);
+    if (!description.trim() || isNaN(amt) || amt <= 0) {
+      Alert.alert('Error', 'Please enter description and valid amount');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      // Paid by you, split equally among all members
+      await createRecurringExpense({
+        group_id: groupId,
+        created_by: userId,
+        description,
+        amount: amt,
+        currency,
+        split_type: 'equal',
+        payers: [{ user_id: userId, amount: amt }],
+        splits: distributeEvenly(memberIds, amt),
+        frequency,
+        interval: parseInt(repeatEvery, 10),
+        start_date: startDate.trim(),
+        end_date: endDate.trim() || null,
+      });
+      resetForm();
+      await loadTemplates();
+      onChanged();
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Failed to create recurring expense');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSkip = async (template: RecurringExpense, date: string) => {
+    try {
+      await skipOccurrence(template, date);
+      await loadTemplates();
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Failed to skip occurrence');
+    }
+  };
+
+  const handleToggleActive = async (template: RecurringExpense) => {
+    try {
+      await setRecurringExpenseActive(template.id, !template.active);
+      await loadTemplates();
+      onChanged();
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Failed to update recurring expense');
+    }
+  };
+
+  const handleDelete = (template: RecurringExpense) => {
+    Alert.alert(
+      'Delete Recurring Expense',
+      `Stop repeating "${template.description}"? Expenses already created are kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteRecurringExpense(template.id);
+              await loadTemplates();
+            } catch (err: any) {
+              Alert.alert('Error', err.message || 'Failed to delete recurring expense');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const today = todayISO();
+
+  return (
+    <View>
+      <View style={styles.headerRow}>
+        <Text style={styles.sectionTitle}>🔁 Recurring</Text>
+        <TouchableOpacity onPress={() => (showForm ? resetForm() : setShowForm(true))}>
+          <Text style={styles.linkText}>{showForm ? 'Cancel' : '+ New'}</Text>
+        </TouchableOpacity>
+      </View>
+
+      {showForm && (
+        <View style={styles.card}>
+          <TextInput style={styles.input} value={description} onChangeText={setDescription} placeholder="Rent, Internet, Netflix" />
+          <TextInput style={styles.input} value={amount} onChangeText={setAmount} placeholder="Amount" keyboardType="decimal-pad" />
+          <View style={styles.chips}>
+            {RECURRENCE_FREQUENCIES.map((f) => (
+              <TouchableOpacity
+                key={f}
+                style={[styles.chip, frequency === f && styles.chipActive]}
+                onPress={() => setFrequency(f)}
+              >
+                <Text style={[styles.chipText, frequency === f && styles.chipTextActive]}>{FREQUENCY_LABELS[f]}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.row}>
+            <Text style={styles.rowLabel}>Repeat every</Text>
+            <TextInput style={[styles.input, styles.smallInput]} value={repeatEvery} onChangeText={setRepeatEvery} keyboardType="number-pad" />
+          </View>
+          <View style={styles.row}>
+            <Text style={styles.rowLabel}>Starts</Text>
+            <TextInput style={[styles.input, styles.dateInput]} value={startDate} onChangeText={setStartDate} placeholder="YYYY-MM-DD" />
+          </View>
+          <View style={styles.row}>
+            <Text style={styles.rowLabel}>Ends (optional)</Text>
+            <TextInput style={[styles.input, styles.dateInput]} value={endDate} onChangeText={setEndDate} placeholder="YYYY-MM-DD" />
+          </View>
+          <Text style={styles.hint}>Paid by you and split equally among all members</Text>
+          <TouchableOpacity style={styles.saveBtn} onPress={handleCreate} disabled={saving}>
+            <Text style={styles.saveBtnText}>{saving ? 'Saving...' : 'Save Recurring Expense'}</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {loading ? (
+        <ActivityIndicator size="small" color="#007AFF" />
+      ) : templates.length === 0 && !showForm ? (
+        <Text style={styles.hint}>No recurring expenses</Text>
+      ) : (
+        templates.map((template) => {
+          const next = getNextOccurrence(template, today);
+          return (
+            <View key={template.id} style={[styles.card, !template.active && styles.cardPaused]}>
+              <View style={styles.row}>
+                <Text style={styles.templateName}>{template.description}</Text>
+                <Text style={styles.templateAmount}>{formatCurrency(template.amount, template.currency)}</Text>
+              </View>
+              <Text style={styles.hint}>
+                {describeRecurrence(template)}
+                {template.active ? (next ? ` · next ${next}` : ' · ended') : ' · paused'}
+              </Text>
+              <View style={styles.actions}>
+                {template.active && next && (
+                  <TouchableOpacity onPress={() => handleSkip(template, next)}>
+                    <Text style={styles.linkText}>Skip next</Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity onPress={() => handleToggleActive(template)}>
+                  <Text style={styles.linkText}>{template.active ? 'Pause' : 'Resume'}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => handleDelete(template)}>
+                  <Text style={styles.deleteText}>Delete</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          );
+        })
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  headerRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 },
+  sectionTitle: { fontSize: 16, fontWeight: 'bold', color: '#333' },
+  linkText: { color: '#007AFF', fontWeight: '600' },
+  deleteText: { color: '#FF3B30', fontWeight: '600' },
+  card: { backgroundColor: '#fff', borderRadius: 8, padding: 12, marginBottom: 8 },
+  cardPaused: { opacity: 0.6 },
+  input: { borderWidth: 1, borderColor: '#ddd', borderRadius: 6, padding: 8, marginBottom: 8, fontSize: 13 },
+  smallInput: { width: 60, textAlign: 'center' },
+  dateInput: { width: 120 },
+  chips: { flexDirection: 'row', gap: 6, marginBottom: 8 },
+  chip: { flex: 1, paddingVertical: 6, borderRadius: 6, borderWidth: 1, borderColor: '#ddd', alignItems: 'center' },
+  chipActive: { backgroundColor: '#007AFF', borderColor: '#007AFF' },
+  chipText: { color: '#666', fontWeight: '600', fontSize: 12 },
+  chipTextActive: { color: '#fff' },
+  row: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  rowLabel: { color: '#333' },
+  hint: { fontSize: 12, color: '#999', marginTop: 4 },
+  saveBtn: { backgroundColor: '#4CAF50', padding: 10, borderRadius: 8, alignItems: 'center', marginTop: 8 },
+  saveBtnText: { color: '#fff', fontWeight: '700' },
+  templateName: { fontSize: 15, fontWeight: '600', color: '#333' },
+  templateAmount: { fontSize: 15, fontWeight: '600', color: '#007AFF' },
+  actions: { flexDirection: 'row', gap: 16, marginTop: 8 },
+});
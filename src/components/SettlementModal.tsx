@@ -11,11 +11,17 @@ import {
 } from 'react-native';
 import { SettlementTransaction } from '../api/debtSimplification';
 import { recordSettlement } from '../api/settlements';
+import { runOrQueue } from '../api/offline';
+import { formatCurrency } from '../utils/errorHandler';
+import { DEFAULT_CURRENCY, getCurrencySymbol } from '../utils/currency';
+import { toMinorUnits } from '../utils/money';
+import { generateUuid } from '../utils/offlineSync';
 
 interface SettlementModalProps {
   visible: boolean;
   settlement: SettlementTransaction | null;
   groupId: string;
+  currency?: string;
   payerName: string;
   payeeName: string;
   onClose: () => void;
@@ -26,6 +32,7 @@ export default function SettlementModal({
   visible,
   settlement,
   groupId,
+  currency = DEFAULT_CURRENCY,
   payerName,
   payeeName,
   onClose,
@@ -52,8 +59,8 @@ export default function SettlementModal({
       return;
     }
 
-    if (parsedAmount > settlement.amount + 0.01) {
-      setError(`Amount cannot exceed ₹${settlement.amount.toFixed(2)}`);
+    if (toMinorUnits(parsedAmount) > toMinorUnits(settlement.amount)) {
+      setError(`Amount cannot exceed ${formatCurrency(settlement.amount, currency)}`);
       return;
     }
 
@@ -61,24 +68,41 @@ export default function SettlementModal({
     setError(null);
 
     try {
-      // Record the settlement
-      await recordSettlement({
+      // Record the settlement, or queue it if offline
+      const payment = {
+        id: generateUuid(),
         group_id: groupId,
         payer_id: settlement.payer_id,
         payee_id: settlement.payee_id,
         amount: parsedAmount,
-      });
+      };
+      const outcome = await runOrQueue(
+        {
+          action: 'record_settlement',
+          group_id: groupId,
+          label: `${payerName} → ${payeeName}`,
+          payload: payment,
+        },
+        () => recordSettlement(payment)
+      );
 
       // Show success message
-      Alert.alert('Success', `Settlement recorded!\n${payerName} paid ${payeeName} ₹${parsedAmount.toFixed(2)}`, [
-        {
-          text: 'OK',
-          onPress: () => {
-            onSuccess();
-            onClose();
+      const recorded = `${payerName} paid ${payeeName} ${formatCurrency(parsedAmount, currency)}`;
+      Alert.alert(
+        'Success',
+        outcome === 'queued'
+          ? `Saved offline: ${recorded}. It will be recorded when you reconnect.`
+          : `Settlement recorded!\n${recorded}`,
+        [
+          {
+            text: 'OK',
+            onPress: () => {
+              onSuccess();
+              onClose();
+            },
           },
-        },
-      ]);
+        ]
+      );
     } catch (err: any) {
       const errorMsg = err.message || 'Failed to record settlement';
       setError(errorMsg);
@@ -121,9 +145,9 @@ export default function SettlementModal({
 
             {/* Amount Input */}
             <View style={styles.formGroup}>
-              <Text style={styles.label}>Amount (₹)</Text>
+              <Text style={styles.label}>Amount ({currency})</Text>
               <View style={styles.inputContainer}>
-                <Text style={styles.currencySymbol}>₹</Text>
+                <Text style={styles.currencySymbol}>{getCurrencySymbol(currency).trim()}</Text>
                 <TextInput
                   style={styles.input}
                   value={amount}
@@ -139,7 +163,7 @@ export default function SettlementModal({
               </View>
               {amount && (
                 <Text style={styles.amountDisplay}>
-                  {parseFloat(amount).toFixed(2)} rupees
+                  {parseFloat(amount).toFixed(2)} {currency}
                 </Text>
               )}
             </View>
@@ -152,7 +176,7 @@ export default function SettlementModal({
                 disabled={loading}
               >
                 <Text style={styles.suggestedLabel}>Full amount:</Text>
-                <Text style={styles.suggestedValue}>₹{settlement.amount.toFixed(2)}</Text>
+                <Text style={styles.suggestedValue}>{formatCurrency(settlement.amount, currency)}</Text>
               </TouchableOpacity>
             )}
 
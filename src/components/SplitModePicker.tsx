@@ -0,0 +1,48 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { SplitType, SPLIT_TYPES } from '../validators/splitValidator';
+
+export const SPLIT_TYPE_LABELS: Record<SplitType, { short: string; title: string; inputHint: string }> = {
+  equal: { short: 'Equal', title: 'Equal Split', inputHint: '' },
+  custom: { short: 'Custom', title: 'Custom Split', inputHint: 'Amount' },
+  shares: { short: 'Shares', title: 'Split by Shares', inputHint: 'Shares' },
+  percentage: { short: '%', title: 'Split by Percentage', inputHint: 'Percent' },
+  adjustment: { short: '+/-', title: 'Equal + Adjustments', inputHint: 'Adjustment (+/-)' },
+  itemized: { short: 'Items', title: 'Itemized Receipt', inputHint: '' },
+};
+
+interface SplitModePickerProps {
+  value: SplitType;
+  onChange: (splitType: SplitType) => void;
+  disabled?: boolean;
+}
+
+export default function SplitModePicker({ value, onChange, disabled }: SplitModePickerProps) {
+  return (
+    <View style={styles.row}>
+      {SPLIT_TYPES.map((type) => {
+        const active = type === value;
+        return (
+          <TouchableOpacity
+            key={type}
+            style={[styles.modeBtn, active && styles.modeBtnActive]}
+            onPress={() => onChange(type)}
+            disabled={disabled}
+          >
+            <Text style={[styles.modeBtnText, active && styles.modeBtnTextActive]}>
+              {SPLIT_TYPE_LABELS[type].short}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: { flexDirection: 'row', gap: 6, marginBottom: 12, marginTop: 10 },
+  modeBtn: { flex: 1, paddingVertical: 8, borderRadius: 6, borderWidth: 1, borderColor: '#ddd', alignItems: 'center' },
+  modeBtnActive: { backgroundColor: '#007AFF', borderColor: '#007AFF' },
+  modeBtnText: { color: '#666', fontWeight: '600', fontSize: 13 },
+  modeBtnTextActive: { color: '#fff' },
+});
@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import { Text, TouchableOpacity, Alert, StyleSheet } from 'react-native';
+import {
+  discardPendingChange,
+  retryPendingChange,
+  subscribeToPendingChanges,
+  syncPendingChanges,
+} from '../api/offline';
+import { OutboxEntry } from '../utils/offlineSync';
+
+interface SyncBadgeProps {
+  onSynced?: () => void;
+}
+
+/**
+ * Shows how many changes are waiting to sync; tapping it syncs now or asks
+ * what to do with changes that conflict or failed
+ */
+export default function SyncBadge({ onSynced }: SyncBadgeProps) {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [syncing, setSyncing] = useState(false);
+
+  useEffect(() => subscribeToPendingChanges(setEntries), []);
+
+  if (entries.length === 0) return null;
+
+  const stuck = entries.filter((entry) => entry.status !== 'pending');
+
+  const resolve = (entry: OutboxEntry) => {
+    const conflict = entry.status === 'conflict';
+    Alert.alert(conflict ? 'Sync conflict' : 'Could not sync', `${entry.label}: ${entry.error || 'Unknown error'}`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Discard my change', style: 'destructive', onPress: () => discardPendingChange(entry.id) },
+      {
+        text: conflict ? 'Apply anyway' : 'Retry',
+        onPress: async () => {
+          const result = await retryPendingChange(entry.id, conflict);
+          if (result.synced > 0) onSynced?.();
+        },
+      },
+    ]);
+  };
+
+  const handlePress = async () => {
+    if (stuck.length > 0) {
+      resolve(stuck[0]);
+      return;
+    }
+
+    setSyncing(true);
+    try {
+      const result = await syncPendingChanges();
+      if (result.synced > 0) onSynced?.();
+      if (result.offline) {
+        Alert.alert('Still offline', 'Your changes will sync when you are back online.');
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to sync changes');
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  return (
+    <TouchableOpacity
+      style={[styles.badge, stuck.length > 0 && styles.badgeWarning]}
+      onPress={handlePress}
+      disabled={syncing}
+    >
+      <Text style={[styles.text, stuck.length > 0 && styles.textWarning]}>
+        {syncing
+          ? 'Syncing…'
+          : stuck.length > 0
+            ? `⚠️ ${stuck.length} to resolve`
+            : `⏳ ${entries.length} to sync`}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: '#E5F1FF',
+  },
+  badgeWarning: { backgroundColor: '#FFF4E5' },
+  text: { fontSize: 12, fontWeight: '600', color: '#007AFF' },
+  textWarning: { color: '#FF9500' },
+});
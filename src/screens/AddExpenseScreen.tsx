@@ -1,11 +1,48 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { View, Text, TextInput, TouchableOpacity, StyleSheet, Alert, ScrollView } from 'react-native';
 import { useAuth } from '../contexts/AuthContext';
-import { fetchGroupMembers, createExpenseWithCustomSplits, createExpenseWithMultiplePayers } from '../api/supabase';
+import { fetchGroupMembers, createExpenseWithMultiplePayers, NewExpenseInput } from '../api/supabase';
+import CurrencyPicker from '../components/CurrencyPicker';
+import CategoryPicker from '../components/CategoryPicker';
+import ExpenseDatePicker from '../components/ExpenseDatePicker';
+import SplitModePicker, { SPLIT_TYPE_LABELS } from '../components/SplitModePicker';
+import ItemizedReceiptEditor, {
+  createReceiptDraft,
+  parseReceiptDraft,
+  ReceiptDraft,
+  receiptToDraft,
+} from '../components/ItemizedReceiptEditor';
+import { pickAttachmentFiles } from '../components/AttachmentGallery';
+import { getCategoryHistory, getGroupCategories } from '../api/categories';
+import { addExpenseAttachments } from '../api/attachments';
+import { scanReceipt } from '../api/receiptScanner';
+import { runOrQueue, withOfflineCache } from '../api/offline';
+import { generateUuid } from '../utils/offlineSync';
+import { calculateItemizedSplits, getReceiptTotal, validateReceipt } from '../utils/receipt';
+import { DEFAULT_CATEGORIES, ExpenseCategory, findCategory } from '../utils/categories';
+import { buildCategoryModel, CategorizedDescription, suggestCategory } from '../utils/categorySuggestion';
+import { CurrencyCode, DEFAULT_CURRENCY } from '../utils/currency';
+import { formatCurrency } from '../utils/errorHandler';
+import { toMajorUnits, toMinorUnits } from '../utils/money';
+import { getMemberLabel } from '../utils/members';
+import { validateExpenseDate } from '../utils/expenseDates';
+import { ATTACHMENT_CONTENT_TYPES, AttachmentFile, isImageAttachment } from '../utils/attachments';
+import { itemsMatchTotal, ParsedReceipt, receiptFormValues } from '../utils/receiptParser';
+import { todayISO } from '../utils/recurrence';
+import { can, GroupRole } from '../utils/permissions';
+import {
+  calculateSplits,
+  distributeEvenly,
+  SplitType,
+  validateSplitInputs,
+  validateSplits,
+} from '../validators/splitValidator';
+import { NOTES_MAX_LENGTH } from '../validators/expenseValidator';
 
 type SplitAmount = {
   userId: string;
   amount: number;
+  value: number | null; // Value entered for the split mode
 };
 
 type PayerAmount = {
@@ -13,63 +50,82 @@ type PayerAmount = {
   amount: number;
 };
 
-export default function AddExpenseScreen({ groupId, onCreated, onCancel }: { groupId: string; onCreated: () => void; onCancel: () => void }) {
+export default function AddExpenseScreen({ groupId, baseCurrency = DEFAULT_CURRENCY, onCreated, onCancel }: { groupId: string; baseCurrency?: CurrencyCode; onCreated: () => void; onCancel: () => void }) {
   const { user } = useAuth();
   const [description, setDescription] = useState('');
   const [amount, setAmount] = useState('');
+  const [currency, setCurrency] = useState<CurrencyCode>(baseCurrency);
+  const [date, setDate] = useState(todayISO());
+  const [notes, setNotes] = useState('');
+  const [category, setCategory] = useState<string | null>(null);
+  const [categories, setCategories] = useState<ExpenseCategory[]>(DEFAULT_CATEGORIES);
+  const [categoryHistory, setCategoryHistory] = useState<CategorizedDescription[]>([]);
+  const [categoryChosen, setCategoryChosen] = useState(false); // Stop suggesting once the user picks
   const [members, setMembers] = useState<any[]>([]);
+  const [role, setRole] = useState<GroupRole | undefined>();
   const [selected, setSelected] = useState<Record<string, boolean>>({}); // participants
   const [payers, setPayers] = useState<Record<string, boolean>>({}); // multiple payers
-  const [splits, setSplits] = useState<Record<string, string>>({}); // userId -> split amount as string
+  const [splits, setSplits] = useState<Record<string, string>>({}); // userId -> value for the split mode
   const [payerAmounts, setPayerAmounts] = useState<Record<string, string>>({}); // payer userId -> amount
-  const [useCustomSplits, setUseCustomSplits] = useState(false);
+  const [splitType, setSplitType] = useState<SplitType>('equal');
+  const [receiptDraft, setReceiptDraft] = useState<ReceiptDraft>(createReceiptDraft([]));
   const [useMultiplePayers, setUseMultiplePayers] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [scanning, setScanning] = useState(false);
+  const [scanned, setScanned] = useState<ParsedReceipt | null>(null);
+  const [receiptPhoto, setReceiptPhoto] = useState<AttachmentFile | null>(null); // Attached once the expense is created
 
   useEffect(() => {
     loadMembers();
+    getGroupCategories(groupId).then(setCategories).catch(() => {
+      // keep the default categories
+    });
+    getCategoryHistory(groupId).then(setCategoryHistory).catch(() => {
+      // suggest from the keyword rules alone
+    });
   }, []);
 
   const loadMembers = async () => {
     try {
-      const { data, error } = await fetchGroupMembers(groupId);
-      if (error) {
-        Alert.alert('Error', error.message || 'Failed to load members');
-      } else {
-        const m = (data || []).map((row: any) => row.users).filter(Boolean);
-        setMembers(m);
-        // by default select all members as participants
-        const sel: Record<string, boolean> = {};
-        const sp: Record<string, string> = {};
-        const pay: Record<string, boolean> = {};
-        const payAmt: Record<string, string> = {};
-        m.forEach((u: any) => {
-          sel[u.id] = true;
-          sp[u.id] = '';
-          pay[u.id] = false;
-          payAmt[u.id] = '';
-        });
-        // current user is default payer
-        pay[user!.id] = true;
-        setSelected(sel);
-        setSplits(sp);
-        setPayers(pay);
-        setPayerAmounts(payAmt);
-      }
+      // Cached so expenses can be added offline
+      const { data } = await withOfflineCache(`members:${groupId}`, () => fetchGroupMembers(groupId));
+      const m = data.map((row) => row.users).filter(Boolean);
+      setMembers(m);
+      setRole(data.find((row) => row.user_id === user!.id)?.role);
+      // by default select all members as participants
+      const sel: Record<string, boolean> = {};
+      const sp: Record<string, string> = {};
+      const pay: Record<string, boolean> = {};
+      const payAmt: Record<string, string> = {};
+      m.forEach((u: any) => {
+        sel[u.id] = true;
+        sp[u.id] = '';
+        pay[u.id] = false;
+        payAmt[u.id] = '';
+      });
+      // current user is default payer
+      pay[user!.id] = true;
+      setSelected(sel);
+      setSplits(sp);
+      setPayers(pay);
+      setPayerAmounts(payAmt);
     } catch (err: any) {
-      // ignore
+      Alert.alert('Error', err.message || 'Failed to load members');
     }
   };
 
   const toggleParticipant = (id: string) => {
     setSelected((s) => ({ ...s, [id]: !s[id] }));
+    if (splitType === 'shares' && !splits[id]) {
+      setSplits((s) => ({ ...s, [id]: '1' }));
+    }
   };
 
   const togglePayer = (id: string) => {
     setPayers((p) => ({ ...p, [id]: !p[id] }));
   };
 
-  const updateSplitAmount = (id: string, val: string) => {
+  const updateSplitValue = (id: string, val: string) => {
     setSplits((s) => ({ ...s, [id]: val }));
   };
 
@@ -77,119 +133,261 @@ export default function AddExpenseScreen({ groupId, onCreated, onCancel }: { gro
     setPayerAmounts((p) => ({ ...p, [id]: val }));
   };
 
-  const calculateEqualSplits = () => {
+  const changeSplitType = (type: SplitType) => {
+    setSplitType(type);
+
+    // Prefill sensible starting values for the new mode
+    const participantIds = Object.keys(selected).filter((k) => selected[k]);
     const amt = parseFloat(amount);
-    if (isNaN(amt) || amt <= 0) {
-      Alert.alert('Error', 'Enter a valid amount first');
-      return;
+    const defaults: Record<string, string> = {};
+    if (type === 'itemized' && receiptDraft.items.every((item) => !item.name && !item.amount)) {
+      setReceiptDraft(createReceiptDraft(participantIds));
+    } else if (type === 'shares') {
+      participantIds.forEach((id) => (defaults[id] = '1'));
+    } else if (type === 'percentage') {
+      distributeEvenly(participantIds, 100).forEach((s) => (defaults[s.user_id] = s.amount.toString()));
+    } else if (type === 'custom' && !isNaN(amt) && amt > 0) {
+      distributeEvenly(participantIds, amt).forEach((s) => (defaults[s.user_id] = s.amount.toFixed(2)));
     }
-    const participantIds = Object.keys(selected).filter((k) => selected[k]);
-    if (participantIds.length === 0) {
-      Alert.alert('Error', 'Select at least one participant');
-      return;
+    setSplits(defaults);
+  };
+
+  const handleScanReceipt = async () => {
+    try {
+      const [photo] = await pickAttachmentFiles(ATTACHMENT_CONTENT_TYPES.filter(isImageAttachment), false);
+      if (!photo?.uri) return;
+
+      setScanning(true);
+      const parsed = await scanReceipt(photo.uri);
+      setReceiptPhoto(photo);
+      setScanned(parsed);
+
+      // Fill in what was found; keep anything the user already typed
+      const values = receiptFormValues(parsed, { description, amount });
+      if (values.description) setDescription(values.description);
+      if (values.amount) setAmount(values.amount);
+      if (values.date) setDate(values.date);
+      if (values.currency) setCurrency(values.currency);
+      if (itemsMatchTotal(parsed)) {
+        const participantIds = Object.keys(selected).filter((k) => selected[k]);
+        setReceiptDraft(
+          receiptToDraft({
+            items: parsed.items.map((item) => ({ ...item, participant_ids: participantIds })),
+            charges: parsed.charges,
+          })
+        );
+      }
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Failed to scan receipt');
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  const attachReceiptPhoto = async (expenseId: string) => {
+    if (!receiptPhoto) return;
+    try {
+      await addExpenseAttachments(groupId, expenseId, [receiptPhoto], user!.id);
+    } catch (err) {
+      // The expense is saved; the photo can be attached again from its details
+      console.error('Error attaching receipt photo:', err);
+    }
+  };
+
+  /**
+   * Create the expense, or queue it to be created once back online
+   */
+  const submitExpense = async (input: NewExpenseInput, successMessage: string) => {
+    // Chosen here so that if the create reaches the server but the response
+    // is lost, replaying it from the outbox returns the same expense
+    const expense = { ...input, expenseId: generateUuid() };
+    const outcome = await runOrQueue(
+      { action: 'create_expense', group_id: groupId, label: input.description, payload: { expense, receipt } },
+      () => createExpenseWithMultiplePayers({ ...expense, receipt })
+    );
+
+    if (outcome === 'queued') {
+      Alert.alert(
+        'Saved offline',
+        `The expense will be added when you reconnect.${receiptPhoto ? ' Attach the receipt photo from its details then.' : ''}`
+      );
+    } else {
+      await attachReceiptPhoto(expense.expenseId);
+      Alert.alert('Success', successMessage);
+    }
+    onCreated();
+  };
+
+  // Suggest a category from the description until the user picks one
+  const categoryModel = useMemo(() => buildCategoryModel(categoryHistory), [categoryHistory]);
+  const suggestion = categoryChosen
+    ? null
+    : suggestCategory(description, categoryModel, categories.map((c) => c.key));
+  const selectedCategory = categoryChosen ? category : suggestion?.key ?? null;
+
+  const chooseCategory = (key: string | null) => {
+    setCategory(key);
+    setCategoryChosen(true);
+  };
+
+  // Itemized expenses take their total and splits from the receipt
+  const receipt = splitType === 'itemized' ? parseReceiptDraft(receiptDraft) : null;
+
+  /**
+   * Resolve the entered split values into amounts for the selected mode
+   */
+  const resolveSplits = (amt: number): { splits: SplitAmount[]; error?: string } => {
+    if (receipt) {
+      const receiptErrors = validateReceipt(receipt);
+      if (receiptErrors.length > 0) {
+        return { splits: [], error: receiptErrors[0].message };
+      }
+      return {
+        splits: calculateItemizedSplits(receipt).map((split) => ({
+          userId: split.user_id,
+          amount: split.amount,
+          value: null,
+        })),
+      };
     }
-    const perUser = (amt / participantIds.length).toFixed(2);
-    const newSplits: Record<string, string> = {};
-    members.forEach((m) => {
-      newSplits[m.id] = selected[m.id] ? perUser : '';
+
+    const participantIds = Object.keys(selected).filter((k) => selected[k]);
+    const inputs = participantIds.map((id) => {
+      const raw = (splits[id] || '').trim();
+      return {
+        user_id: id,
+        value: raw === '' && (splitType === 'adjustment' || splitType === 'equal') ? 0 : parseFloat(raw),
+      };
     });
-    setSplits(newSplits);
+
+    const inputErrors = validateSplitInputs(splitType, inputs, amt, currency);
+    if (inputErrors.length > 0) {
+      return { splits: [], error: inputErrors[0].message };
+    }
+
+    const resolved = calculateSplits(splitType, inputs, amt);
+    const splitErrors = validateSplits(resolved, amt, currency);
+    if (splitErrors.length > 0) {
+      return { splits: [], error: splitErrors[0].message };
+    }
+
+    return {
+      splits: resolved.map((split, index) => ({
+        userId: split.user_id,
+        amount: split.amount,
+        value: splitType === 'equal' ? null : inputs[index].value,
+      })),
+    };
   };
 
+  const amountValue = receipt ? getReceiptTotal(receipt) : parseFloat(amount);
+  const preview = !isNaN(amountValue) && amountValue > 0 ? resolveSplits(amountValue).splits : [];
+
   const validateAndCreate = async () => {
-    const amt = parseFloat(amount);
+    if (receipt) {
+      const receiptErrors = validateReceipt(receipt);
+      if (receiptErrors.length > 0) {
+        Alert.alert('Error', receiptErrors[0].message);
+        return;
+      }
+    }
+
+    const amt = receipt ? getReceiptTotal(receipt) : parseFloat(amount);
     if (!description.trim() || !amt || amt <= 0) {
       Alert.alert('Error', 'Please enter description and valid amount');
       return;
     }
 
+    const dateError = validateExpenseDate(date);
+    if (dateError) {
+      Alert.alert('Error', dateError);
+      return;
+    }
+
     const participantIds = Object.keys(selected).filter((k) => selected[k]);
-    if (participantIds.length === 0) {
+    if (!receipt && participantIds.length === 0) {
       Alert.alert('Error', 'Select at least one participant');
       return;
     }
 
+    const { splits: splitData, error: splitError } = resolveSplits(amt);
+    if (splitError) {
+      Alert.alert('Error', splitError);
+      return;
+    }
+
     if (useMultiplePayers) {
       // Multiple payers mode
-      const payerIds = Object.keys(payers).filter((k) => payers[k]);
+      // The first payer is stored as paid_by, so put the current user first
+      const payerIds = Object.keys(payers)
+        .filter((k) => payers[k])
+        .sort((a, b) => (a === user!.id ? -1 : b === user!.id ? 1 : 0));
       if (payerIds.length === 0) {
         Alert.alert('Error', 'Select at least one payer');
         return;
       }
+      if (!payerIds.includes(user!.id) && !can(role, 'add_expense_for_others')) {
+        Alert.alert('Error', 'You must be one of the payers. Ask a group admin to enter expenses paid by others.');
+        return;
+      }
 
-      let totalPaid = 0;
+      let totalPaidMinor = 0;
       const payerData: PayerAmount[] = [];
       for (const id of payerIds) {
         const val = parseFloat(payerAmounts[id] || '0');
         if (isNaN(val) || val < 0) {
-          Alert.alert('Error', `Invalid amount for payer ${members.find((m) => m.id === id)?.email}`);
+          Alert.alert('Error', `Invalid amount for payer ${getMemberLabel(members.find((m) => m.id === id))}`);
           return;
         }
-        totalPaid += val;
+        totalPaidMinor += toMinorUnits(val);
         payerData.push({ userId: id, amount: val });
       }
-      if (Math.abs(totalPaid - amt) > 0.01) {
-        Alert.alert('Error', `Payer amounts must sum to ₹${amt.toFixed(2)}, got ₹${totalPaid.toFixed(2)}`);
+      if (totalPaidMinor !== toMinorUnits(amt)) {
+        Alert.alert('Error', `Payer amounts must sum to ${formatCurrency(amt, currency)}, got ${formatCurrency(toMajorUnits(totalPaidMinor), currency)}`);
         return;
       }
 
-      // Calculate equal splits among participants
-      const perUser = amt / participantIds.length;
-      const splitData = participantIds.map((id) => ({ userId: id, amount: perUser }));
-
       setLoading(true);
       try {
-        await createExpenseWithMultiplePayers({
-          groupId,
-          description: description.trim(),
-          amount: amt,
-          payers: payerData,
-          splits: splitData,
-        });
-        Alert.alert('Success', 'Expense created with multiple payers');
-        onCreated();
+        await submitExpense(
+          {
+            groupId,
+            description: description.trim(),
+            amount: amt,
+            payers: payerData,
+            splits: splitData,
+            splitType,
+            currency,
+            category: selectedCategory,
+            date,
+            notes,
+          },
+          'Expense created with multiple payers'
+        );
       } catch (err: any) {
         Alert.alert('Error', err.message || 'Failed to create expense');
       } finally {
         setLoading(false);
       }
     } else {
-      // Single payer (current user) with custom or equal splits
-      let splitData: SplitAmount[] = [];
-
-      if (useCustomSplits) {
-        // Validate custom splits
-        let totalSplit = 0;
-        for (const id of participantIds) {
-          const val = parseFloat(splits[id] || '0');
-          if (isNaN(val) || val < 0) {
-            Alert.alert('Error', `Invalid amount for ${members.find((m) => m.id === id)?.email}`);
-            return;
-          }
-          totalSplit += val;
-          splitData.push({ userId: id, amount: val });
-        }
-        if (Math.abs(totalSplit - amt) > 0.01) {
-          Alert.alert('Error', `Split amounts must sum to ₹${amt.toFixed(2)}, got ₹${totalSplit.toFixed(2)}`);
-          return;
-        }
-      } else {
-        // Equal split
-        const perUser = amt / participantIds.length;
-        splitData = participantIds.map((id) => ({ userId: id, amount: perUser }));
-      }
-
+      // Single payer (current user)
       setLoading(true);
       try {
-        await createExpenseWithCustomSplits({
-          groupId,
-          description: description.trim(),
-          amount: amt,
-          paidBy: user!.id,
-          splits: splitData,
-        });
-        Alert.alert('Success', 'Expense created');
-        onCreated();
+        await submitExpense(
+          {
+            groupId,
+            description: description.trim(),
+            amount: amt,
+            payers: [{ userId: user!.id, amount: amt }],
+            splits: splitData,
+            splitType,
+            currency,
+            category: selectedCategory,
+            date,
+            notes,
+          },
+          'Expense created'
+        );
       } catch (err: any) {
         Alert.alert('Error', err.message || 'Failed to create expense');
       } finally {
@@ -201,42 +399,64 @@ export default function AddExpenseScreen({ groupId, onCreated, onCancel }: { gro
   return (
     <ScrollView style={styles.container}>
       <View style={styles.form}>
+        <TouchableOpacity style={styles.modeBtn} onPress={handleScanReceipt} disabled={scanning || loading}>
+          <Text style={styles.modeBtnText}>{scanning ? 'Reading receipt...' : '📷 Scan receipt'}</Text>
+        </TouchableOpacity>
+        {scanned && (
+          <Text style={styles.currencyHint}>
+            {scanned.total === null
+              ? 'Could not find a total on the receipt; please enter it.'
+              : 'Filled in from the receipt; check before saving.'}
+            {itemsMatchTotal(scanned) && ` ${scanned.items.length} items found: choose Itemized to split by item.`}
+            {receiptPhoto && ' The photo will be attached.'}
+          </Text>
+        )}
+
         <Text style={styles.label}>Description</Text>
         <TextInput style={styles.input} value={description} onChangeText={setDescription} placeholder="Dinner, Taxi, Rent" />
 
         <Text style={styles.label}>Total Amount</Text>
-        <TextInput style={styles.input} value={amount} onChangeText={setAmount} placeholder="1000" keyboardType="numeric" />
-
-        <View style={styles.splitModeContainer}>
-          <TouchableOpacity
-            style={[styles.modeBtn, !useCustomSplits && !useMultiplePayers && styles.modeBtnActive]}
-            onPress={() => {
-              setUseCustomSplits(false);
-              setUseMultiplePayers(false);
-              calculateEqualSplits();
-            }}
-          >
-            <Text style={[styles.modeBtnText, !useCustomSplits && !useMultiplePayers && styles.modeBtnTextActive]}>Equal</Text>
-          </TouchableOpacity>
-          <TouchableOpacity
-            style={[styles.modeBtn, useCustomSplits && !useMultiplePayers && styles.modeBtnActive]}
-            onPress={() => {
-              setUseCustomSplits(true);
-              setUseMultiplePayers(false);
-            }}
-          >
-            <Text style={[styles.modeBtnText, useCustomSplits && !useMultiplePayers && styles.modeBtnTextActive]}>Custom</Text>
-          </TouchableOpacity>
-          <TouchableOpacity
-            style={[styles.modeBtn, useMultiplePayers && styles.modeBtnActive]}
-            onPress={() => {
-              setUseMultiplePayers(true);
-              setUseCustomSplits(false);
-            }}
-          >
-            <Text style={[styles.modeBtnText, useMultiplePayers && styles.modeBtnTextActive]}>Multi-Payer</Text>
-          </TouchableOpacity>
-        </View>
+        {receipt ? (
+          <Text style={styles.receiptTotal}>{formatCurrency(getReceiptTotal(receipt), currency)} (from items)</Text>
+        ) : (
+          <TextInput style={styles.input} value={amount} onChangeText={setAmount} placeholder="1000" keyboardType="numeric" />
+        )}
+
+        <Text style={styles.label}>Date</Text>
+        <ExpenseDatePicker value={date} onChange={setDate} />
+
+        <Text style={styles.label}>Currency</Text>
+        <CurrencyPicker value={currency} onChange={setCurrency} />
+        {currency !== baseCurrency && (
+          <Text style={styles.currencyHint}>Converted to {baseCurrency} for group balances</Text>
+        )}
+
+        <Text style={styles.label}>Category</Text>
+        <CategoryPicker
+          groupId={groupId}
+          categories={categories}
+          value={selectedCategory}
+          onChange={chooseCategory}
+          onCategoryCreated={(created) => setCategories((list) => [...list, created])}
+          onCategoryDeleted={(key) => setCategories((list) => list.filter((c) => c.key !== key))}
+        />
+        {suggestion && (
+          <Text style={styles.currencyHint}>
+            Suggested {findCategory(suggestion.key, categories).label} from the description
+          </Text>
+        )}
+
+        <Text style={styles.label}>Split</Text>
+        <SplitModePicker value={splitType} onChange={changeSplitType} />
+
+        <TouchableOpacity
+          style={[styles.modeBtn, useMultiplePayers && styles.modeBtnActive]}
+          onPress={() => setUseMultiplePayers((m) => !m)}
+        >
+          <Text style={[styles.modeBtnText, useMultiplePayers && styles.modeBtnTextActive]}>
+            {useMultiplePayers ? 'Paid by multiple people' : 'Paid by you'}
+          </Text>
+        </TouchableOpacity>
 
         {useMultiplePayers && (
           <>
@@ -244,7 +464,7 @@ export default function AddExpenseScreen({ groupId, onCreated, onCancel }: { gro
             {members.map((m) => (
               <View key={`payer-${m.id}`} style={styles.participantContainer}>
                 <TouchableOpacity style={styles.memberRow} onPress={() => togglePayer(m.id)}>
-                  <Text style={styles.memberName}>{m.name || m.email}</Text>
+                  <Text style={styles.memberName}>{getMemberLabel(m)}</Text>
                   <Text style={styles.checkbox}>{payers[m.id] ? '✓' : ''}</Text>
                 </TouchableOpacity>
                 {payers[m.id] && (
@@ -261,31 +481,52 @@ export default function AddExpenseScreen({ groupId, onCreated, onCancel }: { gro
           </>
         )}
 
-        <Text style={[styles.label, { marginTop: 12 }]}>Participants</Text>
-        {members.map((m) => (
+        {receipt && (
+          <>
+            <Text style={[styles.label, { marginTop: 12 }]}>Items</Text>
+            <ItemizedReceiptEditor
+              members={members.map((m) => ({ id: m.id, name: getMemberLabel(m) }))}
+              value={receiptDraft}
+              onChange={setReceiptDraft}
+              currency={currency}
+            />
+          </>
+        )}
+
+        {!receipt && <Text style={[styles.label, { marginTop: 12 }]}>Participants</Text>}
+        {!receipt && members.map((m) => (
           <View key={m.id} style={styles.participantContainer}>
             <TouchableOpacity style={styles.memberRow} onPress={() => toggleParticipant(m.id)}>
-              <Text style={styles.memberName}>{m.name || m.email}</Text>
+              <Text style={styles.memberName}>{getMemberLabel(m)}</Text>
               <Text style={styles.checkbox}>{selected[m.id] ? '✓' : ''}</Text>
             </TouchableOpacity>
-            {selected[m.id] && useCustomSplits && !useMultiplePayers && (
+            {selected[m.id] && splitType !== 'equal' && (
               <TextInput
                 style={styles.splitInput}
                 value={splits[m.id] || ''}
-                onChangeText={(val) => updateSplitAmount(m.id, val)}
-                placeholder="0"
-                keyboardType="decimal-pad"
+                onChangeText={(val) => updateSplitValue(m.id, val)}
+                placeholder={SPLIT_TYPE_LABELS[splitType].inputHint}
+                keyboardType={splitType === 'adjustment' ? 'numbers-and-punctuation' : 'decimal-pad'}
               />
             )}
-            {selected[m.id] && !useCustomSplits && !useMultiplePayers && (
-              <Text style={styles.splitAmount}>₹{(parseFloat(splits[m.id] || '0') || 0).toFixed(2)}</Text>
-            )}
-            {useMultiplePayers && selected[m.id] && (
-              <Text style={styles.splitAmount}>Split: ₹{(parseFloat(amount) / Object.keys(selected).filter(k => selected[k]).length || 0).toFixed(2)}</Text>
+            {selected[m.id] && (
+              <Text style={styles.splitAmount}>
+                {formatCurrency(preview.find((p) => p.userId === m.id)?.amount || 0, currency)}
+              </Text>
             )}
           </View>
         ))}
 
+        <Text style={[styles.label, { marginTop: 12 }]}>Notes</Text>
+        <TextInput
+          style={[styles.input, styles.notesInput]}
+          value={notes}
+          onChangeText={setNotes}
+          placeholder="Optional: who ordered what, booking reference…"
+          maxLength={NOTES_MAX_LENGTH}
+          multiline
+        />
+
         <TouchableOpacity style={styles.createBtn} onPress={validateAndCreate} disabled={loading}>
           <Text style={styles.createBtnText}>{loading ? 'Creating...' : 'Create Expense'}</Text>
         </TouchableOpacity>
@@ -303,8 +544,10 @@ const styles = StyleSheet.create({
   form: { padding: 16, backgroundColor: '#fff', margin: 10, borderRadius: 8, marginBottom: 100 },
   label: { fontWeight: '600', marginBottom: 6, color: '#333', marginTop: 10 },
   input: { borderWidth: 1, borderColor: '#ddd', borderRadius: 8, padding: 12, marginBottom: 12 },
-  splitModeContainer: { flexDirection: 'row', gap: 8, marginBottom: 12, marginTop: 10 },
-  modeBtn: { flex: 1, paddingVertical: 8, borderRadius: 6, borderWidth: 1, borderColor: '#ddd', alignItems: 'center' },
+  notesInput: { minHeight: 70, textAlignVertical: 'top' },
+  receiptTotal: { fontSize: 16, fontWeight: '600', color: '#333', marginBottom: 12 },
+  currencyHint: { fontSize: 12, color: '#999', fontStyle: 'italic', marginTop: 4 },
+  modeBtn: { paddingVertical: 8, borderRadius: 6, borderWidth: 1, borderColor: '#ddd', alignItems: 'center' },
   modeBtnActive: { backgroundColor: '#007AFF', borderColor: '#007AFF' },
   modeBtnText: { color: '#666', fontWeight: '600', fontSize: 13 },
   modeBtnTextActive: { color: '#fff' },
@@ -11,6 +11,8 @@ import {
 } from 'react-native';
 import { useAuth } from '../contexts/AuthContext';
 import { createGroup } from '../api/supabase';
+import CurrencyPicker from '../components/CurrencyPicker';
+import { CurrencyCode, DEFAULT_CURRENCY } from '../utils/currency';
 
 type CreateGroupScreenProps = {
   onGroupCreated?: () => void;
@@ -21,6 +23,7 @@ export default function CreateGroupScreen({ onGroupCreated, onCancel }: CreateGr
   const { user } = useAuth();
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
+  const [baseCurrency, setBaseCurrency] = useState<CurrencyCode>(DEFAULT_CURRENCY);
   const [loading, setLoading] = useState(false);
 
   const handleCreateGroup = async () => {
@@ -41,11 +44,13 @@ export default function CreateGroupScreen({ onGroupCreated, onCancel }: CreateGr
         name: name.trim(),
         description: description.trim(),
         createdBy: user.id,
+        baseCurrency,
       });
 
       Alert.alert('Success', `Group "${newGroup.name}" created!`);
       setName('');
       setDescription('');
+      setBaseCurrency(DEFAULT_CURRENCY);
 
       // Callback to refresh groups list
       if (onGroupCreated) {
@@ -100,6 +105,15 @@ export default function CreateGroupScreen({ onGroupCreated, onCancel }: CreateGr
           />
         </View>
 
+        {/* Base Currency */}
+        <View style={styles.inputGroup}>
+          <Text style={styles.label}>Base Currency</Text>
+          <CurrencyPicker value={baseCurrency} onChange={setBaseCurrency} disabled={loading} />
+          <Text style={styles.hintText}>
+            Balances are settled in this currency. Expenses in other currencies are converted.
+          </Text>
+        </View>
+
         {/* Create Button */}
         <TouchableOpacity
           style={[styles.button, loading && styles.buttonDisabled]}
@@ -116,7 +130,7 @@ export default function CreateGroupScreen({ onGroupCreated, onCancel }: CreateGr
         {/* Info Text */}
         <View style={styles.infoBox}>
           <Text style={styles.infoText}>
-            You will be the group creator. You can add members after creating the group.
+            You will be the group creator. You can invite members from the group's Members section after creating it.
           </Text>
         </View>
       </View>
@@ -185,6 +199,11 @@ const styles = StyleSheet.create({
     backgroundColor: '#f9f9f9',
     color: '#333',
   },
+  hintText: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 6,
+  },
   multilineInput: {
     minHeight: 100,
     textAlignVertical: 'top',
@@ -9,6 +9,25 @@ import {
   Alert,
 } from 'react-native';
 import { getExpenseDetail, ExpenseDetail } from '../api/expenses';
+import { getExpenseHistory, AuditTrail } from '../api/auditLog';
+import { getMyRole } from '../api/members';
+import { getGroupCategories } from '../api/categories';
+import { withOfflineCache } from '../api/offline';
+import {
+  addExpenseAttachments,
+  deleteExpenseAttachment,
+  ExpenseAttachment,
+  getExpenseAttachments,
+} from '../api/attachments';
+import { useAuth } from '../contexts/AuthContext';
+import AuditTimeline from '../components/AuditTimeline';
+import AttachmentGallery, { pickAttachmentFiles } from '../components/AttachmentGallery';
+import { formatCurrency } from '../utils/errorHandler';
+import { convertAmount } from '../utils/currency';
+import { SPLIT_TYPE_LABELS } from '../components/SplitModePicker';
+import { CHARGE_LABELS, ReceiptCharges } from '../utils/receipt';
+import { canModifyExpense, GroupRole } from '../utils/permissions';
+import { DEFAULT_CATEGORIES, ExpenseCategory, findCategory } from '../utils/categories';
 
 interface ExpenseDetailScreenProps {
   expenseId: string;
@@ -23,9 +42,15 @@ export default function ExpenseDetailScreen({
   onEdit,
   onDelete,
 }: ExpenseDetailScreenProps) {
+  const { user } = useAuth();
   const [expense, setExpense] = useState<ExpenseDetail | null>(null);
+  const [role, setRole] = useState<GroupRole | null>(null);
+  const [categories, setCategories] = useState<ExpenseCategory[]>(DEFAULT_CATEGORIES);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [history, setHistory] = useState<AuditTrail | null>(null);
+  const [attachments, setAttachments] = useState<ExpenseAttachment[]>([]);
+  const [uploading, setUploading] = useState(false);
 
   useEffect(() => {
     loadExpenseDetail();
@@ -35,8 +60,20 @@ export default function ExpenseDetailScreen({
     try {
       setLoading(true);
       setError(null);
-      const data = await getExpenseDetail(expenseId);
+      const cached = await withOfflineCache(`expense:${expenseId}`, async () => {
+        const detail = await getExpenseDetail(expenseId);
+        return { detail, role: user ? await getMyRole(detail.group_id, user.id) : null };
+      });
+      const data = cached.data.detail;
       setExpense(data);
+      setRole(cached.data.role);
+      // History and receipts need a connection
+      if (cached.fromCache) return;
+      if (data.category) {
+        setCategories(await getGroupCategories(data.group_id).catch(() => DEFAULT_CATEGORIES));
+      }
+      loadHistory();
+      loadAttachments();
     } catch (err: any) {
       setError(err.message || 'Failed to load expense details');
       console.error('Error loading expense:', err);
@@ -45,6 +82,57 @@ export default function ExpenseDetailScreen({
     }
   };
 
+  const loadHistory = async () => {
+    try {
+      setHistory(await getExpenseHistory(expenseId));
+    } catch (err: any) {
+      // History is supplementary; the expense itself still shows
+      setHistory(null);
+    }
+  };
+
+  const loadAttachments = async () => {
+    try {
+      setAttachments(await getExpenseAttachments(expenseId));
+    } catch (err: any) {
+      console.error('Error loading attachments:', err);
+    }
+  };
+
+  const handleAddAttachments = async () => {
+    if (!expense || !user) return;
+
+    try {
+      const files = await pickAttachmentFiles();
+      if (files.length === 0) return;
+      setUploading(true);
+      await addExpenseAttachments(expense.group_id, expense.id, files, user.id, attachments.length);
+      await loadAttachments();
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Failed to attach receipt');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleRemoveAttachment = (attachment: ExpenseAttachment) => {
+    Alert.alert('Remove Receipt', `Remove ${attachment.file_name} from this expense?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteExpenseAttachment(attachment);
+            setAttachments((current) => current.filter((a) => a.id !== attachment.id));
+          } catch (err: any) {
+            Alert.alert('Error', err.message || 'Failed to remove receipt');
+          }
+        },
+      },
+    ]);
+  };
+
   const handleEdit = () => {
     if (onEdit && expense) {
       onEdit(expense.id);
@@ -56,7 +144,7 @@ export default function ExpenseDetailScreen({
 
     Alert.alert(
       'Delete Expense',
-      `Are you sure you want to delete "${expense.description}"? This action cannot be undone.`,
+      `Are you sure you want to delete "${expense.description}"? You can undo this from Recently Deleted for 24 hours.`,
       [
         {
           text: 'Cancel',
@@ -75,12 +163,20 @@ export default function ExpenseDetailScreen({
     );
   };
 
+  // Hide actions the database would refuse
+  const canModify = !!expense && !!user && canModifyExpense(role, user.id, expense.paid_by);
+  const showEdit = !!onEdit && canModify;
+  const showDelete = !!onDelete && canModify;
+
   const formatDate = (dateString: string) => {
+    // 'YYYY-MM-DD' parses as UTC midnight; format it in UTC so it does not
+    // show as the previous day west of UTC
     const date = new Date(dateString);
     return date.toLocaleDateString('en-US', {
       year: 'numeric',
       month: 'short',
       day: 'numeric',
+      timeZone: 'UTC',
     });
   };
 
@@ -123,6 +219,8 @@ export default function ExpenseDetailScreen({
     );
   }
 
+  const category = expense.category ? findCategory(expense.category, categories) : null;
+
   return (
     <View style={styles.container}>
       {/* Header */}
@@ -139,11 +237,32 @@ export default function ExpenseDetailScreen({
         <View style={styles.overviewCard}>
           <Text style={styles.expenseTitle}>{expense.description}</Text>
           <Text style={styles.expenseDate}>{formatDate(expense.date)}</Text>
+          {category && (
+            <Text style={styles.expenseDate}>
+              {category.icon} {category.label}
+            </Text>
+          )}
           <View style={styles.divider} />
           <Text style={styles.totalLabel}>Total Amount</Text>
-          <Text style={styles.totalAmount}>₹{expense.amount.toFixed(2)}</Text>
+          <Text style={styles.totalAmount}>{formatCurrency(expense.amount, expense.currency)}</Text>
+          {expense.currency !== expense.base_currency && (
+            <Text style={styles.convertedAmount}>
+              ≈ {formatCurrency(convertAmount(expense.amount, expense.exchange_rate), expense.base_currency)}
+              {' '}(1 {expense.currency} = {expense.exchange_rate} {expense.base_currency})
+            </Text>
+          )}
         </View>
 
+        {/* Notes Section */}
+        {expense.notes && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>📝 Notes</Text>
+            <View style={styles.card}>
+              <Text style={styles.notesText}>{expense.notes}</Text>
+            </View>
+          </View>
+        )}
+
         {/* Paid By Section */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>💳 Paid By</Text>
@@ -151,7 +270,7 @@ export default function ExpenseDetailScreen({
             {expense.payers.map((payer, index) => (
               <View key={`payer-${index}`} style={styles.listItem}>
                 <Text style={styles.listItemName}>{payer.name}</Text>
-                <Text style={styles.listItemAmount}>₹{payer.amount.toFixed(2)}</Text>
+                <Text style={styles.listItemAmount}>{formatCurrency(payer.amount, expense.currency)}</Text>
               </View>
             ))}
           </View>
@@ -163,20 +282,83 @@ export default function ExpenseDetailScreen({
             <Text style={styles.sectionTitle}>📊 Split Breakdown</Text>
             <View style={styles.splitTypeBadge}>
               <Text style={styles.splitTypeText}>
-                {expense.split_type === 'equal' ? 'Equal Split' : 'Custom Split'}
+                {SPLIT_TYPE_LABELS[expense.split_type].title}
               </Text>
             </View>
           </View>
           <View style={styles.card}>
             {expense.splits.map((split, index) => (
               <View key={`split-${index}`} style={styles.listItem}>
-                <Text style={styles.listItemName}>{split.name}</Text>
-                <Text style={styles.listItemAmount}>₹{split.amount.toFixed(2)}</Text>
+                <Text style={styles.listItemName}>
+                  {split.name}
+                  {split.value !== null && (
+                    <Text style={styles.splitValue}>  {formatSplitValue(expense.split_type, split.value)}</Text>
+                  )}
+                </Text>
+                <Text style={styles.listItemAmount}>{formatCurrency(split.amount, expense.currency)}</Text>
               </View>
             ))}
           </View>
         </View>
 
+        {/* Receipt Items */}
+        {expense.receipt && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>🧾 Items</Text>
+            <View style={styles.card}>
+              {expense.receipt.items.map((item, index) => (
+                <View key={`item-${index}`} style={styles.listItem}>
+                  <View style={styles.itemInfo}>
+                    <Text style={styles.listItemName}>{item.name}</Text>
+                    <Text style={styles.itemParticipants}>
+                      {item.participant_ids
+                        .map((id) => expense.splits.find((s) => s.user_id === id)?.name || 'Unknown User')
+                        .join(', ')}
+                    </Text>
+                  </View>
+                  <Text style={styles.listItemAmount}>{formatCurrency(item.amount, expense.currency)}</Text>
+                </View>
+              ))}
+              {(Object.keys(expense.receipt.charges) as Array<keyof ReceiptCharges>)
+                .filter((key) => expense.receipt!.charges[key] > 0)
+                .map((key) => (
+                  <View key={key} style={styles.listItem}>
+                    <Text style={styles.itemParticipants}>{CHARGE_LABELS[key]} (shared by order size)</Text>
+                    <Text style={styles.listItemAmount}>
+                      {formatCurrency(expense.receipt!.charges[key], expense.currency)}
+                    </Text>
+                  </View>
+                ))}
+            </View>
+          </View>
+        )}
+
+        {/* Receipt Attachments */}
+        {(attachments.length > 0 || showEdit) && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>📎 Receipts</Text>
+            <View style={styles.card}>
+              <AttachmentGallery
+                attachments={attachments}
+                canEdit={showEdit}
+                busy={uploading}
+                onAdd={handleAddAttachments}
+                onRemove={handleRemoveAttachment}
+              />
+            </View>
+          </View>
+        )}
+
+        {/* Edit History */}
+        {history && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>🕘 History</Text>
+            <View style={styles.card}>
+              <AuditTimeline events={history.events} names={history.names} currency={expense.currency} />
+            </View>
+          </View>
+        )}
+
         {/* Summary Info */}
         <View style={styles.infoBox}>
           <Text style={styles.infoText}>
@@ -188,14 +370,14 @@ export default function ExpenseDetailScreen({
       </ScrollView>
 
       {/* Action Buttons */}
-      {(onEdit || onDelete) && (
+      {(showEdit || showDelete) && (
         <View style={styles.actionButtons}>
-          {onEdit && (
+          {showEdit && (
             <TouchableOpacity style={styles.editButton} onPress={handleEdit}>
               <Text style={styles.editButtonText}>✏️ Edit</Text>
             </TouchableOpacity>
           )}
-          {onDelete && (
+          {showDelete && (
             <TouchableOpacity style={styles.deleteButton} onPress={handleDelete}>
               <Text style={styles.deleteButtonText}>🗑️ Delete</Text>
             </TouchableOpacity>
@@ -206,6 +388,22 @@ export default function ExpenseDetailScreen({
   );
 }
 
+/**
+ * Describe the value entered for a split mode, e.g. "2 shares" or "40%"
+ */
+function formatSplitValue(splitType: ExpenseDetail['split_type'], value: number): string {
+  switch (splitType) {
+    case 'shares':
+      return `${value} share${value === 1 ? '' : 's'}`;
+    case 'percentage':
+      return `${value}%`;
+    case 'adjustment':
+      return value === 0 ? '' : `${value > 0 ? '+' : ''}${value}`;
+    default:
+      return '';
+  }
+}
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -315,6 +513,11 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#007AFF',
   },
+  convertedAmount: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 6,
+  },
   section: {
     marginBottom: 16,
   },
@@ -330,6 +533,23 @@ const styles = StyleSheet.create({
     color: '#333',
     marginBottom: 8,
   },
+  notesText: {
+    fontSize: 15,
+    color: '#333',
+    lineHeight: 21,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemParticipants: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 2,
+  },
+  splitValue: {
+    fontSize: 13,
+    color: '#999',
+  },
   splitTypeBadge: {
     backgroundColor: '#e7f3ff',
     paddingHorizontal: 12,
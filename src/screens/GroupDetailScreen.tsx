@@ -1,17 +1,59 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { View, Text, StyleSheet, FlatList, TouchableOpacity, ActivityIndicator, Alert, ScrollView } from 'react-native';
-import { getGroupExpenses, fetchGroupMembers, getGroupBalances } from '../api/supabase';
-import { calculateGroupDebts, SettlementTransaction } from '../api/debtSimplification';
+import { SettlementTransaction } from '../api/debtSimplification';
+import { fetchGroupSnapshot, fetchProfiles, fetchSnapshotExpense, subscribeToGroup } from '../api/realtime';
 import SettlementModal from '../components/SettlementModal';
+import EditExpenseModal from '../components/EditExpenseModal';
+import {
+  deleteExpense,
+  restoreExpense,
+  getRecentlyDeletedExpenses,
+  RecentlyDeletedExpense,
+} from '../api/expenseActions';
+import RecurringExpensesPanel from '../components/RecurringExpensesPanel';
+import MembersPanel from '../components/MembersPanel';
+import { archiveGroup, leaveGroup, unarchiveGroup } from '../api/members';
+import { generateDueExpenses } from '../api/recurringExpenses';
+import { purgeDeletedExpenseAttachments } from '../api/attachments';
+import { getGroupActivity, AuditTrail } from '../api/auditLog';
+import AuditTimeline from '../components/AuditTimeline';
+import CategoryReport from '../components/CategoryReport';
+import { getGroupCategories } from '../api/categories';
+import { runOrQueue, subscribeToPendingChanges, withOfflineCache } from '../api/offline';
+import SyncBadge from '../components/SyncBadge';
 import ExpenseDetailScreen from './ExpenseDetailScreen';
 import { useAuth } from '../contexts/AuthContext';
+import { formatCurrency } from '../utils/errorHandler';
+import { CurrencyCode, DEFAULT_CURRENCY } from '../utils/currency';
+import { buildMemberLabels } from '../utils/members';
+import { DEFAULT_CATEGORIES, ExpenseCategory, filterByCategory, findCategory } from '../utils/categories';
+import { groupByDate } from '../utils/expenseDates';
+import { can } from '../utils/permissions';
+import { applyOutbox, OutboxEntry, OutboxStatus } from '../utils/offlineSync';
+import { DebtContribution, PairwiseDebt } from '../utils/ledger';
+import {
+  applyChanges,
+  attachProfiles,
+  createRealtimeState,
+  MissingRows,
+  RealtimeChange,
+  RealtimeState,
+  SnapshotExpense,
+  snapshotLedger,
+  upsertExpense,
+} from '../utils/realtimeSync';
 
 type Group = {
   id: string;
   name: string;
   description?: string;
+  base_currency?: string;
+  archived_at?: string | null;
 };
 
+// Expense as listed, with any change still waiting to sync
+type ShownExpense = SnapshotExpense & { pending?: OutboxStatus };
+
 type BalanceItem = {
   userId: string;
   balance: number;
@@ -19,70 +61,163 @@ type BalanceItem = {
 
 export default function GroupDetailScreen({ group, onAddExpense, onBack, refreshTrigger }: { group: Group; onAddExpense: (groupId: string) => void; onBack: () => void; refreshTrigger?: number }) {
   const { user } = useAuth();
-  const [expenses, setExpenses] = useState<any[]>([]);
-  const [members, setMembers] = useState<any[]>([]);
-  const [balances, setBalances] = useState<BalanceItem[]>([]);
-  const [settlements, setSettlements] = useState<SettlementTransaction[]>([]);
-  const [memberMap, setMemberMap] = useState<Record<string, string>>({});
+  const baseCurrency = (group.base_currency || DEFAULT_CURRENCY) as CurrencyCode;
+  // Expenses, members and payments, kept current by realtime changes
+  const [realtime, setRealtime] = useState<RealtimeState | null>(null);
+  const realtimeRef = useRef<RealtimeState | null>(null);
+  const queuedChanges = useRef<RealtimeChange[] | null>(null); // Changes that arrive during a reload
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [modalVisible, setModalVisible] = useState(false);
   const [selectedSettlement, setSelectedSettlement] = useState<SettlementTransaction | null>(null);
   const [selectedExpenseId, setSelectedExpenseId] = useState<string | null>(null);
+  const [editModalVisible, setEditModalVisible] = useState(false);
+  const [editingExpenseId, setEditingExpenseId] = useState<string | null>(null);
+  const [deletedExpenses, setDeletedExpenses] = useState<RecentlyDeletedExpense[]>([]);
+  const [showDeleted, setShowDeleted] = useState(false);
+  const [activity, setActivity] = useState<AuditTrail | null>(null);
+  const [showActivity, setShowActivity] = useState(false);
+  const [categories, setCategories] = useState<ExpenseCategory[]>(DEFAULT_CATEGORIES);
+  const [categoryFilter, setCategoryFilter] = useState<string | null>(null); // null shows every category
+  const [showCategoryReport, setShowCategoryReport] = useState(false);
+  const [offlineSince, setOfflineSince] = useState<string | null>(null); // When the cached data shown was saved
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  const [archivedAt, setArchivedAt] = useState<string | null>(group.archived_at || null);
+  const [debtView, setDebtView] = useState<'simplified' | 'pairwise'>('simplified');
+  const [openDebt, setOpenDebt] = useState<string | null>(null); // "payer|payee" of the debt showing its breakdown
+  const readOnly = !!archivedAt;
+
+  const snapshot = realtime?.snapshot;
+  const expenses = snapshot?.expenses || [];
+  const members = useMemo(
+    () => (snapshot?.members || []).map((r) => ({ email: null, ...r.users, id: r.user_id, role: r.role })),
+    [snapshot?.members]
+  );
+  // Map of userId -> name for display (guests are marked)
+  const memberMap = useMemo(() => buildMemberLabels(members), [members]);
+  const ledger = useMemo(() => (snapshot ? snapshotLedger(snapshot) : null), [snapshot]);
+  const balances: BalanceItem[] = (ledger?.balances || []).map((b) => ({ userId: b.user_id, balance: b.balance }));
+  const settlements = ledger?.plan || [];
+  const pairwiseDebts = ledger?.debts || [];
+  const myRole = members.find((m) => m.id === user?.id)?.role;
 
   useEffect(() => {
     loadData();
   }, [refreshTrigger]);
 
+  useEffect(() => subscribeToPendingChanges(setOutbox), []);
+
+  const loadDataRef = useRef<() => void>(() => {});
+
+  // Apply other members' changes as they happen instead of reloading
+  useEffect(
+    () =>
+      subscribeToGroup(group.id, {
+        onChange: (change) => {
+          if (queuedChanges.current) {
+            queuedChanges.current.push(change);
+          } else {
+            applyRealtimeChanges([change]);
+          }
+        },
+        // Changes made while disconnected were missed
+        onResync: () => loadDataRef.current(),
+      }),
+    [group.id]
+  );
+
+  const updateRealtime = (next: RealtimeState) => {
+    realtimeRef.current = next;
+    setRealtime(next);
+  };
+
+  const applyRealtimeChanges = (changes: RealtimeChange[]) => {
+    if (!realtimeRef.current) return;
+    const { state, missing } = applyChanges(realtimeRef.current, changes, group.id);
+    updateRealtime(state);
+    loadMissingRows(missing);
+  };
+
+  // Restored expenses and new members' profiles are not in the change itself
+  const loadMissingRows = async (missing: MissingRows) => {
+    try {
+      for (const expenseId of missing.expenses) {
+        const expense = await fetchSnapshotExpense(expenseId);
+        if (expense && realtimeRef.current) {
+          updateRealtime(upsertExpense(realtimeRef.current, expense));
+        }
+      }
+      if (missing.users.length > 0) {
+        const profiles = await fetchProfiles(missing.users);
+        if (realtimeRef.current) {
+          updateRealtime(attachProfiles(realtimeRef.current, profiles));
+        }
+      }
+    } catch (err) {
+      console.error('Error loading changed rows:', err);
+    }
+  };
+
   const loadData = async () => {
     setLoading(true);
     setError(null);
     try {
-      // Load expenses
-      const { data: expData, error: expError } = await getGroupExpenses(group.id);
-      if (expError) {
-        throw new Error(expError.message || 'Failed to load expenses');
-      } else {
-        setExpenses(expData || []);
-      }
+      // Create any recurring expenses that have come due since the last visit
+      if (!readOnly) {
+        try {
+          await generateDueExpenses(group.id, user!.id);
+        } catch (genError) {
+          console.error('Error generating recurring expenses:', genError);
+        }
 
-      // Load members
-      const { data: memberData, error: memberError } = await fetchGroupMembers(group.id);
-      if (memberError) {
-        throw new Error(memberError.message || 'Failed to load members');
-      }
-      if (memberData) {
-        const membersList = memberData.map((r: any) => r.users);
-        setMembers(membersList);
-        // Create a map of userId -> email for display
-        const map: Record<string, string> = {};
-        membersList.forEach((m: any) => {
-          map[m.id] = m.email;
+        // Free the receipts of expenses that can no longer be restored
+        purgeDeletedExpenseAttachments(group.id).catch((purgeError) => {
+          console.error('Error removing old attachments:', purgeError);
         });
-        setMemberMap(map);
       }
 
-      // Load balances
-      const balData = await getGroupBalances(group.id);
-      setBalances(balData);
+      // Expenses, members and payments are kept for offline use; changes
+      // streamed while loading are applied on top once it arrives
+      queuedChanges.current = [];
+      const cached = await withOfflineCache(`group:${group.id}`, () => fetchGroupSnapshot(group.id));
+      const { state, missing } = applyChanges(createRealtimeState(cached.data), queuedChanges.current, group.id);
+      queuedChanges.current = null;
+      updateRealtime(state);
+      loadMissingRows(missing);
+      setOfflineSince(cached.fromCache ? cached.savedAt : null);
+      if (cached.fromCache) return;
 
-      // Calculate simplified settlements using debt algorithm
-      try {
-        const calculatedSettlements = await calculateGroupDebts(group.id);
-        setSettlements(calculatedSettlements);
-      } catch (debtError: any) {
-        console.warn('Debt simplification warning:', debtError.message);
-        // Don't fail entire load if debt calculation fails
-        setSettlements([]);
+      // Load the group's categories (custom ones on top of the defaults)
+      setCategories(await getGroupCategories(group.id));
+
+      // Load expenses that can still be restored
+      setDeletedExpenses(await getRecentlyDeletedExpenses(group.id));
+
+      if (showActivity) {
+        setActivity(await getGroupActivity(group.id));
       }
     } catch (err: any) {
       const errorMsg = err.message || 'Failed to load group data';
       setError(errorMsg);
       Alert.alert('Error', errorMsg);
     } finally {
+      queuedChanges.current = null;
       setLoading(false);
     }
   };
+  loadDataRef.current = loadData;
+
+  const toggleActivity = async () => {
+    const next = !showActivity;
+    setShowActivity(next);
+    if (next) {
+      try {
+        setActivity(await getGroupActivity(group.id));
+      } catch (err: any) {
+        Alert.alert('Error', err.message || 'Failed to load activity');
+      }
+    }
+  };
 
   const handleSettlementPress = (settlement: SettlementTransaction) => {
     setSelectedSettlement(settlement);
@@ -94,62 +229,259 @@ export default function GroupDetailScreen({ group, onAddExpense, onBack, refresh
     loadData();
   };
 
-  const handleExpensePress = (expenseId: string) => {
-    setSelectedExpenseId(expenseId);
+  const handleExpensePress = (item: ShownExpense) => {
+    // Expenses added offline only exist on the server once they sync
+    if (!expenses.some((expense) => expense.id === item.id)) {
+      Alert.alert(item.description, 'This expense will be added when you are back online.');
+      return;
+    }
+    setSelectedExpenseId(item.id);
   };
 
   const handleExpenseDetailBack = () => {
     setSelectedExpenseId(null);
-    // Optionally reload data if changes were made
+    // Reload to get updated balances
     loadData();
   };
 
+  const handleEdit = (expenseId: string) => {
+    setEditingExpenseId(expenseId);
+    setEditModalVisible(true);
+    setSelectedExpenseId(null); // Close detail view
+  };
+
+  const handleEditSuccess = () => {
+    setEditModalVisible(false);
+    setEditingExpenseId(null);
+    loadData();
+  };
+
+  const handleRestore = async (expenseId: string) => {
+    try {
+      await restoreExpense(expenseId);
+      loadData();
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Failed to restore expense');
+      loadData();
+    }
+  };
+
+  const handleDelete = async (expenseId: string) => {
+    const expense = expenses.find((e) => e.id === expenseId);
+    let hoursRemaining = 0;
+    try {
+      const outcome = await runOrQueue(
+        {
+          action: 'delete_expense',
+          group_id: group.id,
+          expense_id: expenseId,
+          base_updated_at: expense?.updated_at || null,
+          label: expense?.description || 'Expense',
+          payload: { user_id: user!.id },
+        },
+        async () => {
+          hoursRemaining = (await deleteExpense(expenseId, user!.id)).hours_remaining;
+        }
+      );
+      setSelectedExpenseId(null); // Close detail view
+      loadData();
+      if (outcome === 'queued') {
+        Alert.alert('Expense deleted', 'You are offline. The expense will be deleted when you reconnect.');
+        return;
+      }
+      Alert.alert('Expense deleted', `You can restore it from Recently Deleted for ${hoursRemaining} hours.`, [
+        { text: 'Undo', onPress: () => handleRestore(expenseId) },
+        { text: 'OK', style: 'cancel' },
+      ]);
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Failed to delete expense');
+    }
+  };
+
+  const handleLeave = () => {
+    Alert.alert('Leave Group', `Leave ${group.name}? You will need a new invitation to rejoin.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Leave',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await leaveGroup(group.id, user!.id);
+            onBack();
+          } catch (err: any) {
+            Alert.alert('Cannot Leave', err.message || 'Failed to leave group');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleArchive = () => {
+    Alert.alert('Archive Group', `${group.name} will be hidden from your groups and become read-only.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Archive',
+        onPress: async () => {
+          try {
+            setArchivedAt(await archiveGroup(group.id));
+          } catch (err: any) {
+            Alert.alert('Cannot Archive', err.message || 'Failed to archive group');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleUnarchive = async () => {
+    try {
+      await unarchiveGroup(group.id);
+      setArchivedAt(null);
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Failed to unarchive group');
+    }
+  };
+
   // If expense is selected, show detail view
   if (selectedExpenseId) {
     return (
       <ExpenseDetailScreen
         expenseId={selectedExpenseId}
         onBack={handleExpenseDetailBack}
-        onEdit={(id) => {
-          // TODO: Implement edit functionality (Issue #3)
-          Alert.alert('Coming Soon', 'Expense editing will be available soon!');
-        }}
-        onDelete={(id) => {
-          // TODO: Implement delete functionality (Issue #3)
-          Alert.alert('Coming Soon', 'Expense deletion will be available soon!');
-        }}
+        onEdit={readOnly ? undefined : handleEdit}
+        onDelete={readOnly ? undefined : handleDelete}
       />
     );
   }
 
-  const renderExpense = ({ item }: { item: any }) => (
-    <TouchableOpacity
-      style={styles.expenseCard}
-      onPress={() => handleExpensePress(item.id)}
-      activeOpacity={0.7}
-    >
-      <Text style={styles.expenseDesc}>{item.description}</Text>
-      <Text style={styles.expenseAmount}>₹{item.amount}</Text>
-      <Text style={styles.expenseMeta}>Paid by: {memberMap[item.paid_by] || item.paid_by}</Text>
-      <Text style={styles.tapHint}>Tap for details</Text>
-    </TouchableOpacity>
-  );
+  // Categories used by at least one expense, for the filter chips
+  // Changes waiting to sync show on top of what the server (or cache) has
+  const shownExpenses = applyOutbox(expenses, outbox, group.id);
+  const usedCategoryKeys = Array.from(new Set(shownExpenses.map((e) => e.category || '')));
+  const filteredExpenses = filterByCategory(shownExpenses, categoryFilter);
+  const expenseSections = groupByDate(filteredExpenses);
+
+  const renderExpense = ({ item }: { item: ShownExpense }) => {
+    const category = findCategory(item.category, categories);
+    return (
+      <TouchableOpacity
+        style={styles.expenseCard}
+        onPress={() => handleExpensePress(item)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.expenseHeader}>
+          <Text style={styles.expenseDesc}>{item.description}</Text>
+          {item.category ? (
+            <Text style={styles.categoryBadge}>
+              {category.icon} {category.label}
+            </Text>
+          ) : null}
+        </View>
+        {item.pending ? (
+          <Text style={[styles.pendingBadge, item.pending !== 'pending' && styles.pendingBadgeWarning]}>
+            {item.pending === 'pending' ? '⏳ Waiting to sync' : '⚠️ Not synced'}
+          </Text>
+        ) : null}
+      <Text style={styles.expenseAmount}>{formatCurrency(item.amount, item.currency || baseCurrency)}</Text>
+        <Text style={styles.expenseMeta}>Paid by: {memberMap[item.paid_by] || item.paid_by}</Text>
+        {item.notes ? (
+          <Text style={styles.expenseNotes} numberOfLines={1}>
+            📝 {item.notes}
+          </Text>
+        ) : null}
+        <Text style={styles.tapHint}>Tap for details</Text>
+      </TouchableOpacity>
+    );
+  };
 
   const renderBalance = ({ item }: { item: BalanceItem }) => {
     const isPositive = item.balance > 0;
     const status = isPositive ? 'is owed' : 'owes';
-    const absAmount = Math.abs(item.balance).toFixed(2);
+    const absAmount = formatCurrency(Math.abs(item.balance), baseCurrency);
     return (
       <View style={styles.balanceCard}>
         <Text style={styles.balanceName}>{memberMap[item.userId] || item.userId}</Text>
         <Text style={[styles.balanceAmount, { color: isPositive ? '#34C759' : '#FF3B30' }]}>
-          {isPositive ? '+' : '-'}₹{absAmount}
+          {isPositive ? '+' : '-'}{absAmount}
         </Text>
         <Text style={styles.balanceStatus}>{status}</Text>
       </View>
     );
   };
 
+  // Expense or payment behind part of a pairwise debt
+  const renderContribution = (contribution: DebtContribution, index: number) => {
+    const amount = `${contribution.amount > 0 ? '+' : '-'}${formatCurrency(Math.abs(contribution.amount), baseCurrency)}`;
+
+    if (contribution.source === 'settlement') {
+      const payment = [...(snapshot?.settlements || []), ...(snapshot?.legacy_payments || [])].find(
+        (s) => s.id === contribution.id
+      );
+      return (
+        <View key={`settlement-${contribution.id ?? index}`} style={styles.contributionRow}>
+          <Text style={styles.contributionLabel}>
+            💸 {payment ? `${memberMap[payment.payer_id] || payment.payer_id} paid ${memberMap[payment.payee_id] || payment.payee_id}` : 'Payment'}
+          </Text>
+          <Text style={styles.contributionAmount}>{amount}</Text>
+        </View>
+      );
+    }
+
+    const expense = expenses.find((e) => e.id === contribution.id);
+    return (
+      <TouchableOpacity
+        key={`expense-${contribution.id}`}
+        style={styles.contributionRow}
+        onPress={() => expense && handleExpensePress(expense)}
+        activeOpacity={0.7}
+      >
+        <View style={{ flex: 1 }}>
+          <Text style={styles.contributionLabel}>{expense?.description || 'Expense'}</Text>
+          {expense ? <Text style={styles.expenseMeta}>{expense.date}</Text> : null}
+        </View>
+        <Text style={styles.contributionAmount}>{amount}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderPairwiseDebt = (debt: PairwiseDebt) => {
+    const key = `${debt.payer_id}|${debt.payee_id}`;
+    const open = openDebt === key;
+    const payerName = memberMap[debt.payer_id] || debt.payer_id;
+    const payeeName = memberMap[debt.payee_id] || debt.payee_id;
+    return (
+      <View key={key} style={styles.pairwiseCard}>
+        <TouchableOpacity
+          style={styles.settlementContent}
+          onPress={() => setOpenDebt(open ? null : key)}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.settlementText}>
+            <Text style={styles.settlementName}>{payerName}</Text>
+            <Text style={styles.settlementArrow}> owes </Text>
+            <Text style={styles.settlementName}>{payeeName}</Text>
+          </Text>
+          <View style={styles.sectionHeaderContainer}>
+            <Text style={styles.settlementAmount}>{formatCurrency(debt.amount, baseCurrency)}</Text>
+            <Text style={styles.toggleText}>{open ? 'Hide' : 'Details'}</Text>
+          </View>
+        </TouchableOpacity>
+        {open && (
+          <View>
+            <Text style={styles.settlementHint}>
+              + adds to what {payerName} owes, - takes it off
+            </Text>
+            {debt.contributions.map(renderContribution)}
+            {!readOnly && can(myRole, 'record_settlement') && (
+              <TouchableOpacity style={styles.recordBtn} onPress={() => handleSettlementPress(debt)}>
+                <Text style={styles.toggleText}>Record payment</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
   const renderSettlement = ({ item }: { item: SettlementTransaction }) => {
     const payerName = memberMap[item.payer_id] || item.payer_id;
     const payeeName = memberMap[item.payee_id] || item.payee_id;
@@ -157,6 +489,7 @@ export default function GroupDetailScreen({ group, onAddExpense, onBack, refresh
       <TouchableOpacity 
         style={styles.settlementCard}
         onPress={() => handleSettlementPress(item)}
+        disabled={readOnly || !can(myRole, 'record_settlement')}
         activeOpacity={0.7}
       >
         <View style={styles.settlementContent}>
@@ -165,7 +498,7 @@ export default function GroupDetailScreen({ group, onAddExpense, onBack, refresh
             <Text style={styles.settlementArrow}> → </Text>
             <Text style={styles.settlementName}>{payeeName}</Text>
           </Text>
-          <Text style={styles.settlementAmount}>₹{item.amount.toFixed(2)}</Text>
+          <Text style={styles.settlementAmount}>{formatCurrency(item.amount, baseCurrency)}</Text>
         </View>
         <View style={styles.settlementStatus}>
           <Text style={styles.settlementStatusText}>⚠ Pending</Text>
@@ -187,6 +520,13 @@ export default function GroupDetailScreen({ group, onAddExpense, onBack, refresh
       <View style={styles.infoContainer}>
         {group.description ? <Text style={styles.desc}>{group.description}</Text> : null}
         <Text style={styles.memberCount}>Members: {members.length}</Text>
+        {readOnly && <Text style={styles.archivedNote}>🗄 Archived · read-only</Text>}
+        {offlineSince && (
+          <Text style={styles.offlineNote}>
+            📴 Offline · showing data saved {new Date(offlineSince).toLocaleString()}
+          </Text>
+        )}
+        <SyncBadge onSynced={loadData} />
       </View>
 
       {loading ? (
@@ -200,21 +540,52 @@ export default function GroupDetailScreen({ group, onAddExpense, onBack, refresh
         </View>
       ) : (
         <ScrollView style={{ flex: 1 }} contentContainerStyle={{ paddingBottom: 80 }}>
-          {/* Simplified Settlements Section */}
-          {settlements.length > 0 && (
+          {/* Settlements Section: simplified plan or pairwise debts */}
+          {(settlements.length > 0 || pairwiseDebts.length > 0) && (
             <View style={styles.section}>
               <View style={styles.sectionHeaderContainer}>
-                <Text style={styles.sectionTitle}>💰 Settlements Needed</Text>
-                <Text style={styles.settlementBadge}>{settlements.length}</Text>
+                <Text style={styles.sectionTitle}>
+                  {debtView === 'simplified' ? '💰 Settlements Needed' : '🤝 Who Owes Whom'}
+                </Text>
+                <Text style={styles.settlementBadge}>
+                  {debtView === 'simplified' ? settlements.length : pairwiseDebts.length}
+                </Text>
               </View>
-              <FlatList
-                scrollEnabled={false}
-                data={settlements}
-                renderItem={renderSettlement}
-                keyExtractor={(item, index) => `${item.payer_id}-${item.payee_id}-${index}`}
-                contentContainerStyle={{ gap: 10 }}
-              />
-              <Text style={styles.settlementHint}>Tap any settlement to record payment</Text>
+              <View style={styles.viewToggle}>
+                {(['simplified', 'pairwise'] as const).map((view) => (
+                  <TouchableOpacity
+                    key={view}
+                    style={[styles.filterChip, debtView === view && styles.filterChipActive]}
+                    onPress={() => setDebtView(view)}
+                  >
+                    <Text style={[styles.filterChipText, debtView === view && styles.filterChipTextActive]}>
+                      {view === 'simplified' ? 'Simplified' : 'Who owes whom'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              {debtView === 'simplified' ? (
+                <>
+                  <FlatList
+                    scrollEnabled={false}
+                    data={settlements}
+                    renderItem={renderSettlement}
+                    keyExtractor={(item, index) => `${item.payer_id}-${item.payee_id}-${index}`}
+                    contentContainerStyle={{ gap: 10 }}
+                  />
+                  {!readOnly && can(myRole, 'record_settlement') && settlements.length > 0 && (
+                    <Text style={styles.settlementHint}>Tap any settlement to record payment</Text>
+                  )}
+                  {settlements.length === 0 && (
+                    <Text style={styles.expenseMeta}>Balances are even, but members still owe each other directly</Text>
+                  )}
+                </>
+              ) : (
+                <>
+                  {pairwiseDebts.map(renderPairwiseDebt)}
+                  <Text style={styles.settlementHint}>Tap a debt to see the expenses and payments behind it</Text>
+                </>
+              )}
             </View>
           )}
 
@@ -226,7 +597,7 @@ export default function GroupDetailScreen({ group, onAddExpense, onBack, refresh
                 <View key={bal.userId} style={styles.balanceRow}>
                   <Text style={styles.balanceName}>{memberMap[bal.userId] || bal.userId}</Text>
                   <Text style={[styles.balanceValue, { color: bal.balance > 0 ? '#34C759' : '#FF3B30' }]}>
-                    {bal.balance > 0 ? '+' : ''}₹{bal.balance.toFixed(2)}
+                    {bal.balance > 0 ? '+' : ''}{formatCurrency(bal.balance, baseCurrency)}
                   </Text>
                 </View>
               ))}
@@ -234,20 +605,155 @@ export default function GroupDetailScreen({ group, onAddExpense, onBack, refresh
           )}
 
           {/* Expenses Section */}
-          {expenses.length > 0 && (
+          {shownExpenses.length > 0 && (
             <View style={styles.section}>
               <Text style={styles.sectionTitle}>📋 Expenses</Text>
-              <FlatList
-                scrollEnabled={false}
-                data={expenses}
-                renderItem={renderExpense}
-                keyExtractor={(i) => i.id}
-                contentContainerStyle={{ gap: 8 }}
+              {usedCategoryKeys.length > 1 && (
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterRow}>
+                  {[null, ...usedCategoryKeys].map((key) => {
+                    const active = key === categoryFilter;
+                    const category = key === null ? null : findCategory(key, categories);
+                    return (
+                      <TouchableOpacity
+                        key={key ?? 'all'}
+                        style={[styles.filterChip, active && styles.filterChipActive]}
+                        onPress={() => setCategoryFilter(key)}
+                      >
+                        <Text style={[styles.filterChipText, active && styles.filterChipTextActive]}>
+                          {category ? `${category.icon} ${category.label}` : 'All'}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </ScrollView>
+              )}
+              {expenseSections.length === 0 && <Text style={styles.expenseMeta}>No expenses in this category</Text>}
+              {expenseSections.map((section) => (
+                <View key={section.date}>
+                  <Text style={styles.dateHeading}>{section.title}</Text>
+                  <FlatList
+                    scrollEnabled={false}
+                    data={section.data}
+                    renderItem={renderExpense}
+                    keyExtractor={(i) => i.id}
+                    contentContainerStyle={{ gap: 8 }}
+                  />
+                </View>
+              ))}
+            </View>
+          )}
+
+          {/* Spending by Category Section */}
+          {expenses.length > 0 && (
+            <View style={styles.section}>
+              <TouchableOpacity
+                style={styles.sectionHeaderContainer}
+                onPress={() => setShowCategoryReport(!showCategoryReport)}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.sectionTitle}>📈 Spending by Category</Text>
+                <Text style={styles.toggleText}>{showCategoryReport ? 'Hide' : 'Show'}</Text>
+              </TouchableOpacity>
+              {showCategoryReport && (
+                <View style={styles.activityCard}>
+                  <CategoryReport
+                    expenses={expenses}
+                    categories={categories}
+                    memberIds={members.map((m) => m.id)}
+                    names={memberMap}
+                    currency={baseCurrency}
+                  />
+                </View>
+              )}
+            </View>
+          )}
+
+          {/* Recently Deleted Section */}
+          {deletedExpenses.length > 0 && !readOnly && can(myRole, 'add_expense') && (
+            <View style={styles.section}>
+              <TouchableOpacity
+                style={styles.sectionHeaderContainer}
+                onPress={() => setShowDeleted(!showDeleted)}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.sectionTitle}>🗑 Recently Deleted ({deletedExpenses.length})</Text>
+                <Text style={styles.toggleText}>{showDeleted ? 'Hide' : 'Show'}</Text>
+              </TouchableOpacity>
+              {showDeleted &&
+                deletedExpenses.map((item) => (
+                  <View key={item.id} style={styles.deletedCard}>
+                    <View style={{ flex: 1 }}>
+                      <Text style={styles.deletedDesc}>{item.description}</Text>
+                      <Text style={styles.expenseMeta}>
+                        {formatCurrency(item.amount, item.currency || baseCurrency)} · {item.hours_remaining}h left to restore
+                      </Text>
+                    </View>
+                    <TouchableOpacity style={styles.undoBtn} onPress={() => handleRestore(item.id)}>
+                      <Text style={styles.undoBtnText}>Undo</Text>
+                    </TouchableOpacity>
+                  </View>
+                ))}
+            </View>
+          )}
+
+          {/* Activity Feed Section */}
+          <View style={styles.section}>
+            <TouchableOpacity style={styles.sectionHeaderContainer} onPress={toggleActivity} activeOpacity={0.7}>
+              <Text style={styles.sectionTitle}>🕘 Activity</Text>
+              <Text style={styles.toggleText}>{showActivity ? 'Hide' : 'Show'}</Text>
+            </TouchableOpacity>
+            {showActivity && activity && (
+              <View style={styles.activityCard}>
+                <AuditTimeline events={activity.events} names={activity.names} currency={baseCurrency} showEntity />
+              </View>
+            )}
+          </View>
+
+          {/* Members and Invitations Section */}
+          <View style={styles.section}>
+            <MembersPanel
+              groupId={group.id}
+              groupName={group.name}
+              members={members}
+              userId={user!.id}
+              role={myRole}
+              readOnly={readOnly}
+              onMembersChanged={loadData}
+              refreshTrigger={refreshTrigger}
+            />
+          </View>
+
+          {/* Recurring Expenses Section */}
+          {!readOnly && can(myRole, 'manage_recurring') && (
+            <View style={styles.section}>
+              <RecurringExpensesPanel
+                groupId={group.id}
+                userId={user!.id}
+                memberIds={members.map((m) => m.id)}
+                currency={baseCurrency}
+                refreshTrigger={refreshTrigger}
+                onChanged={loadData}
               />
             </View>
           )}
 
-          {expenses.length === 0 && settlements.length === 0 && !loading && (
+          {/* Group Actions Section */}
+          <View style={styles.section}>
+            {can(myRole, 'archive_group') ? (
+              <TouchableOpacity
+                style={styles.groupActionBtn}
+                onPress={readOnly ? handleUnarchive : handleArchive}
+              >
+                <Text style={styles.groupActionText}>{readOnly ? 'Unarchive Group' : 'Archive Group'}</Text>
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity style={styles.groupActionBtn} onPress={handleLeave}>
+                <Text style={[styles.groupActionText, styles.leaveText]}>Leave Group</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {shownExpenses.length === 0 && settlements.length === 0 && !loading && (
             <View style={styles.emptyState}>
               <Text style={styles.emptyText}>No expenses yet</Text>
               <Text style={styles.emptySubtext}>Add an expense to get started</Text>
@@ -262,6 +768,7 @@ export default function GroupDetailScreen({ group, onAddExpense, onBack, refresh
           visible={modalVisible}
           settlement={selectedSettlement}
           groupId={group.id}
+          currency={baseCurrency}
           payerName={memberMap[selectedSettlement.payer_id] || selectedSettlement.payer_id}
           payeeName={memberMap[selectedSettlement.payee_id] || selectedSettlement.payee_id}
           onClose={() => setModalVisible(false)}
@@ -269,9 +776,24 @@ export default function GroupDetailScreen({ group, onAddExpense, onBack, refresh
         />
       )}
 
-      <TouchableOpacity style={styles.addBtn} onPress={() => onAddExpense(group.id)}>
-        <Text style={styles.addBtnText}>+ Add Expense</Text>
-      </TouchableOpacity>
+      {/* Edit Expense Modal */}
+      {editingExpenseId && (
+        <EditExpenseModal
+          visible={editModalVisible}
+          expenseId={editingExpenseId}
+          onClose={() => {
+            setEditModalVisible(false);
+            setEditingExpenseId(null);
+          }}
+          onSuccess={handleEditSuccess}
+        />
+      )}
+
+      {!readOnly && can(myRole, 'add_expense') && (
+        <TouchableOpacity style={styles.addBtn} onPress={() => onAddExpense(group.id)}>
+          <Text style={styles.addBtnText}>+ Add Expense</Text>
+        </TouchableOpacity>
+      )}
     </View>
   );
 }
@@ -318,6 +840,17 @@ const styles = StyleSheet.create({
     color: '#444',
     fontWeight: '600',
   },
+  archivedNote: {
+    color: '#FF9500',
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  offlineNote: {
+    color: '#666',
+    fontSize: 12,
+    marginTop: 4,
+    marginBottom: 4,
+  },
   section: {
     paddingHorizontal: 12,
     marginTop: 16,
@@ -440,6 +973,7 @@ const styles = StyleSheet.create({
     borderColor: '#eee',
   },
   expenseDesc: {
+    flex: 1,
     fontSize: 16,
     fontWeight: '600',
   },
@@ -453,12 +987,158 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#777',
   },
+  expenseHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    gap: 8,
+  },
+  categoryBadge: {
+    fontSize: 12,
+    color: '#555',
+    backgroundColor: '#f0f0f0',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    overflow: 'hidden',
+  },
+  filterRow: {
+    gap: 8,
+    paddingBottom: 10,
+  },
+  filterChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#fff',
+  },
+  filterChipActive: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  filterChipText: {
+    color: '#666',
+    fontWeight: '600',
+    fontSize: 13,
+  },
+  filterChipTextActive: {
+    color: '#fff',
+  },
+  expenseNotes: {
+    marginTop: 4,
+    fontSize: 12,
+    color: '#666',
+  },
+  dateHeading: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666',
+    marginTop: 4,
+    marginBottom: 6,
+  },
+  pendingBadge: {
+    alignSelf: 'flex-start',
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#007AFF',
+    marginTop: 2,
+  },
+  pendingBadgeWarning: {
+    color: '#FF9500',
+  },
   tapHint: {
     marginTop: 4,
     fontSize: 11,
     color: '#007AFF',
     fontStyle: 'italic',
   },
+  toggleText: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  viewToggle: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingBottom: 10,
+  },
+  pairwiseCard: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    borderLeftWidth: 4,
+    borderLeftColor: '#FF9500',
+    padding: 12,
+    marginBottom: 8,
+  },
+  contributionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+  },
+  contributionLabel: {
+    flex: 1,
+    fontSize: 13,
+    color: '#333',
+  },
+  contributionAmount: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#333',
+    marginLeft: 8,
+  },
+  recordBtn: {
+    alignSelf: 'flex-end',
+    marginTop: 8,
+  },
+  activityCard: {
+    backgroundColor: '#fff',
+    padding: 12,
+    borderRadius: 8,
+  },
+  deletedCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#eee',
+    opacity: 0.8,
+  },
+  deletedDesc: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#666',
+    textDecorationLine: 'line-through',
+  },
+  undoBtn: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 6,
+  },
+  undoBtnText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  groupActionBtn: {
+    backgroundColor: '#fff',
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  groupActionText: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  leaveText: {
+    color: '#FF3B30',
+  },
   emptyState: {
     flex: 1,
     justifyContent: 'center',
@@ -11,22 +11,28 @@ import {
 import { supabase, getUserGroups } from '../api/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '../hooks/useTheme';
+import JoinGroupPanel from '../components/JoinGroupPanel';
+import SyncBadge from '../components/SyncBadge';
+import { withOfflineCache } from '../api/offline';
 
 interface Group {
   id: string;
   name: string;
   description?: string;
+  archived_at?: string | null;
 }
 
 export const GroupsScreen: React.FC<{ 
   onAddGroup?: () => void; 
   onOpenGroup?: (group: Group) => void; 
   onOpenSettings?: () => void;
+  pendingJoinCode?: string | null; // Join code from an invite link
   refreshTrigger?: number 
 }> = ({ 
   onAddGroup,
   onOpenGroup,
   onOpenSettings,
+  pendingJoinCode,
   refreshTrigger 
 }) => {
   const { user, signOut } = useAuth();
@@ -36,6 +42,12 @@ export const GroupsScreen: React.FC<{
   const [groups, setGroups] = useState<Group[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [offline, setOffline] = useState(false);
+
+  // Archived groups are hidden unless asked for
+  const archivedCount = groups.filter((g) => g.archived_at).length;
+  const visibleGroups = showArchived ? groups : groups.filter((g) => !g.archived_at);
 
   useEffect(() => {
     loadGroups();
@@ -47,14 +59,9 @@ export const GroupsScreen: React.FC<{
     setLoading(true);
     setError(null);
     try {
-      const { data, error: fetchError } = await getUserGroups(user.id);
-      if (fetchError) {
-        setError(fetchError.message);
-      } else {
-        // Extract groups from the nested structure
-        const userGroups = data?.map((item: any) => item.groups).filter(Boolean) || [];
-        setGroups(userGroups);
-      }
+      const result = await withOfflineCache(`groups:${user.id}`, () => getUserGroups(user.id));
+      setGroups(result.data);
+      setOffline(result.fromCache);
     } catch (err: any) {
       setError(err.message || 'Failed to load groups');
     } finally {
@@ -82,6 +89,9 @@ export const GroupsScreen: React.FC<{
       onPress={() => onOpenGroup && onOpenGroup(item)}
     >
       <Text style={[styles.groupName, { color: colors.text }]}>{item.name}</Text>
+      {item.archived_at && (
+        <Text style={[styles.archivedLabel, { color: colors.textTertiary }]}>Archived</Text>
+      )}
       {item.description && (
         <Text style={[styles.groupDesc, { color: colors.textSecondary }]}>
           {item.description}
@@ -102,6 +112,10 @@ export const GroupsScreen: React.FC<{
         <View>
           <Text style={[styles.headerTitle, { color: colors.text }]}>Groups</Text>
           <Text style={[styles.userEmail, { color: colors.textTertiary }]}>{user?.email}</Text>
+          {offline && (
+            <Text style={[styles.userEmail, { color: colors.textTertiary }]}>Offline, showing saved groups</Text>
+          )}
+          <SyncBadge onSynced={loadGroups} />
         </View>
         <View style={styles.headerButtons}>
           {onOpenSettings && (
@@ -127,6 +141,12 @@ export const GroupsScreen: React.FC<{
         </View>
       </View>
 
+      <JoinGroupPanel
+        initialCode={pendingJoinCode}
+        onJoined={loadGroups}
+        refreshTrigger={refreshTrigger}
+      />
+
       {loading ? (
         <ActivityIndicator size="large" color={colors.primary} style={styles.loader} />
       ) : error ? (
@@ -147,16 +167,25 @@ export const GroupsScreen: React.FC<{
                 No groups yet
               </Text>
               <Text style={[styles.emptySubText, { color: colors.textTertiary }]}>
-                Create a group to get started
+                Create a group or join one with a code to get started
               </Text>
             </View>
           ) : (
-            <FlatList
-              data={groups}
-              renderItem={renderGroup}
-              keyExtractor={(item) => item.id}
-              contentContainerStyle={styles.listContainer}
-            />
+            <>
+              {archivedCount > 0 && (
+                <TouchableOpacity style={styles.archivedToggle} onPress={() => setShowArchived(!showArchived)}>
+                  <Text style={[styles.archivedToggleText, { color: colors.primary }]}>
+                    {showArchived ? 'Hide archived groups' : `Show archived groups (${archivedCount})`}
+                  </Text>
+                </TouchableOpacity>
+              )}
+              <FlatList
+                data={visibleGroups}
+                renderItem={renderGroup}
+                keyExtractor={(item) => item.id}
+                contentContainerStyle={styles.listContainer}
+              />
+            </>
           )}
         </View>
       )}
@@ -232,6 +261,19 @@ const styles = StyleSheet.create({
     fontSize: 13,
     marginTop: 4,
   },
+  archivedLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  archivedToggle: {
+    paddingHorizontal: 12,
+    paddingTop: 12,
+  },
+  archivedToggleText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
   emptyContainer: {
     flex: 1,
     justifyContent: 'center',
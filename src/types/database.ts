@@ -0,0 +1,937 @@
+/**
+ * Database types
+ *
+ * Generated from supabase/migrations with `npm run db:types`
+ * (supabase gen types typescript). Do not edit by hand: add a migration
+ * and regenerate. src/__tests__/databaseTypes.test.ts fails when this file
+ * and the schema disagree.
+ */
+
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];
+
+export type Database = {
+  // Allows to automatically instantiate createClient with right options
+  // instead of createClient<Database, { PostgrestVersion: 'XX' }>(URL, KEY)
+  __InternalSupabase: {
+    PostgrestVersion: '12.2.3 (519615d)';
+  };
+  public: {
+    Tables: {
+      audit_log: {
+        Row: {
+          action: string;
+          actor_id: string;
+          changes: Json;
+          created_at: string;
+          entity_id: string;
+          entity_label: string | null;
+          entity_type: string;
+          group_id: string;
+          id: string;
+        };
+        Insert: {
+          action: string;
+          actor_id?: string;
+          changes?: Json;
+          created_at?: string;
+          entity_id: string;
+          entity_label?: string | null;
+          entity_type: string;
+          group_id: string;
+          id?: string;
+        };
+        Update: {
+          action?: string;
+          actor_id?: string;
+          changes?: Json;
+          created_at?: string;
+          entity_id?: string;
+          entity_label?: string | null;
+          entity_type?: string;
+          group_id?: string;
+          id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'audit_log_actor_id_fkey';
+            columns: ['actor_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'audit_log_group_id_fkey';
+            columns: ['group_id'];
+            isOneToOne: false;
+            referencedRelation: 'groups';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      expense_attachments: {
+        Row: {
+          content_type: string;
+          created_at: string | null;
+          expense_id: string;
+          file_name: string;
+          id: string;
+          size_bytes: number;
+          storage_path: string;
+          uploaded_by: string | null;
+        };
+        Insert: {
+          content_type: string;
+          created_at?: string | null;
+          expense_id: string;
+          file_name: string;
+          id?: string;
+          size_bytes: number;
+          storage_path: string;
+          uploaded_by?: string | null;
+        };
+        Update: {
+          content_type?: string;
+          created_at?: string | null;
+          expense_id?: string;
+          file_name?: string;
+          id?: string;
+          size_bytes?: number;
+          storage_path?: string;
+          uploaded_by?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'expense_attachments_expense_id_fkey';
+            columns: ['expense_id'];
+            isOneToOne: false;
+            referencedRelation: 'expenses';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'expense_attachments_uploaded_by_fkey';
+            columns: ['uploaded_by'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      expense_item_participants: {
+        Row: {
+          item_id: string;
+          user_id: string;
+        };
+        Insert: {
+          item_id: string;
+          user_id: string;
+        };
+        Update: {
+          item_id?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'expense_item_participants_item_id_fkey';
+            columns: ['item_id'];
+            isOneToOne: false;
+            referencedRelation: 'expense_items';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'expense_item_participants_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      expense_items: {
+        Row: {
+          amount: number;
+          created_at: string | null;
+          expense_id: string;
+          id: string;
+          kind: string;
+          name: string;
+          position: number;
+        };
+        Insert: {
+          amount: number;
+          created_at?: string | null;
+          expense_id: string;
+          id?: string;
+          kind?: string;
+          name: string;
+          position?: number;
+        };
+        Update: {
+          amount?: number;
+          created_at?: string | null;
+          expense_id?: string;
+          id?: string;
+          kind?: string;
+          name?: string;
+          position?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'expense_items_expense_id_fkey';
+            columns: ['expense_id'];
+            isOneToOne: false;
+            referencedRelation: 'expenses';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      expense_payers: {
+        Row: {
+          amount: number;
+          created_at: string | null;
+          expense_id: string;
+          id: string;
+          user_id: string;
+        };
+        Insert: {
+          amount: number;
+          created_at?: string | null;
+          expense_id: string;
+          id?: string;
+          user_id: string;
+        };
+        Update: {
+          amount?: number;
+          created_at?: string | null;
+          expense_id?: string;
+          id?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'expense_payers_expense_id_fkey';
+            columns: ['expense_id'];
+            isOneToOne: false;
+            referencedRelation: 'expenses';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'expense_payers_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      expenses: {
+        Row: {
+          amount: number;
+          category: string | null;
+          created_at: string | null;
+          currency: string;
+          date: string;
+          deleted_at: string | null;
+          deleted_by: string | null;
+          description: string;
+          exchange_rate: number;
+          group_id: string;
+          id: string;
+          last_change_id: string | null;
+          notes: string | null;
+          occurrence_date: string | null;
+          paid_by: string;
+          recurring_expense_id: string | null;
+          split_type: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          amount: number;
+          category?: string | null;
+          created_at?: string | null;
+          currency?: string;
+          date: string;
+          deleted_at?: string | null;
+          deleted_by?: string | null;
+          description: string;
+          exchange_rate?: number;
+          group_id: string;
+          id?: string;
+          last_change_id?: string | null;
+          notes?: string | null;
+          occurrence_date?: string | null;
+          paid_by: string;
+          recurring_expense_id?: string | null;
+          split_type?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          amount?: number;
+          category?: string | null;
+          created_at?: string | null;
+          currency?: string;
+          date?: string;
+          deleted_at?: string | null;
+          deleted_by?: string | null;
+          description?: string;
+          exchange_rate?: number;
+          group_id?: string;
+          id?: string;
+          last_change_id?: string | null;
+          notes?: string | null;
+          occurrence_date?: string | null;
+          paid_by?: string;
+          recurring_expense_id?: string | null;
+          split_type?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'expenses_deleted_by_fkey';
+            columns: ['deleted_by'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'expenses_group_id_fkey';
+            columns: ['group_id'];
+            isOneToOne: false;
+            referencedRelation: 'groups';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'expenses_paid_by_fkey';
+            columns: ['paid_by'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'expenses_recurring_expense_id_fkey';
+            columns: ['recurring_expense_id'];
+            isOneToOne: false;
+            referencedRelation: 'recurring_expenses';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      group_categories: {
+        Row: {
+          created_at: string | null;
+          group_id: string;
+          icon: string | null;
+          id: string;
+          key: string;
+          name: string;
+        };
+        Insert: {
+          created_at?: string | null;
+          group_id: string;
+          icon?: string | null;
+          id?: string;
+          key: string;
+          name: string;
+        };
+        Update: {
+          created_at?: string | null;
+          group_id?: string;
+          icon?: string | null;
+          id?: string;
+          key?: string;
+          name?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'group_categories_group_id_fkey';
+            columns: ['group_id'];
+            isOneToOne: false;
+            referencedRelation: 'groups';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      group_invitations: {
+        Row: {
+          code: string;
+          created_at: string;
+          email: string | null;
+          expires_at: string;
+          group_id: string;
+          id: string;
+          invited_by: string;
+          responded_at: string | null;
+          responded_by: string | null;
+          status: string;
+          use_count: number;
+        };
+        Insert: {
+          code?: string;
+          created_at?: string;
+          email?: string | null;
+          expires_at: string;
+          group_id: string;
+          id?: string;
+          invited_by?: string;
+          responded_at?: string | null;
+          responded_by?: string | null;
+          status?: string;
+          use_count?: number;
+        };
+        Update: {
+          code?: string;
+          created_at?: string;
+          email?: string | null;
+          expires_at?: string;
+          group_id?: string;
+          id?: string;
+          invited_by?: string;
+          responded_at?: string | null;
+          responded_by?: string | null;
+          status?: string;
+          use_count?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'group_invitations_group_id_fkey';
+            columns: ['group_id'];
+            isOneToOne: false;
+            referencedRelation: 'groups';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'group_invitations_invited_by_fkey';
+            columns: ['invited_by'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'group_invitations_responded_by_fkey';
+            columns: ['responded_by'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      group_members: {
+        Row: {
+          group_id: string;
+          id: string;
+          joined_at: string | null;
+          role: string;
+          user_id: string;
+        };
+        Insert: {
+          group_id: string;
+          id?: string;
+          joined_at?: string | null;
+          role?: string;
+          user_id: string;
+        };
+        Update: {
+          group_id?: string;
+          id?: string;
+          joined_at?: string | null;
+          role?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'group_members_group_id_fkey';
+            columns: ['group_id'];
+            isOneToOne: false;
+            referencedRelation: 'groups';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'group_members_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      groups: {
+        Row: {
+          archived_at: string | null;
+          base_currency: string;
+          created_at: string | null;
+          created_by: string;
+          description: string | null;
+          id: string;
+          name: string;
+          updated_at: string | null;
+        };
+        Insert: {
+          archived_at?: string | null;
+          base_currency?: string;
+          created_at?: string | null;
+          created_by: string;
+          description?: string | null;
+          id?: string;
+          name: string;
+          updated_at?: string | null;
+        };
+        Update: {
+          archived_at?: string | null;
+          base_currency?: string;
+          created_at?: string | null;
+          created_by?: string;
+          description?: string | null;
+          id?: string;
+          name?: string;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'groups_created_by_fkey';
+            columns: ['created_by'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      recurring_expenses: {
+        Row: {
+          active: boolean;
+          amount: number;
+          created_at: string | null;
+          created_by: string;
+          currency: string;
+          description: string;
+          end_date: string | null;
+          frequency: string;
+          group_id: string;
+          id: string;
+          interval: number;
+          last_generated_date: string | null;
+          payers: Json;
+          skipped_dates: string[];
+          split_type: string | null;
+          splits: Json;
+          start_date: string;
+          updated_at: string | null;
+        };
+        Insert: {
+          active?: boolean;
+          amount: number;
+          created_at?: string | null;
+          created_by: string;
+          currency?: string;
+          description: string;
+          end_date?: string | null;
+          frequency: string;
+          group_id: string;
+          id?: string;
+          interval?: number;
+          last_generated_date?: string | null;
+          payers?: Json;
+          skipped_dates?: string[];
+          split_type?: string | null;
+          splits?: Json;
+          start_date: string;
+          updated_at?: string | null;
+        };
+        Update: {
+          active?: boolean;
+          amount?: number;
+          created_at?: string | null;
+          created_by?: string;
+          currency?: string;
+          description?: string;
+          end_date?: string | null;
+          frequency?: string;
+          group_id?: string;
+          id?: string;
+          interval?: number;
+          last_generated_date?: string | null;
+          payers?: Json;
+          skipped_dates?: string[];
+          split_type?: string | null;
+          splits?: Json;
+          start_date?: string;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'recurring_expenses_created_by_fkey';
+            columns: ['created_by'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'recurring_expenses_group_id_fkey';
+            columns: ['group_id'];
+            isOneToOne: false;
+            referencedRelation: 'groups';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      settlement_transactions: {
+        Row: {
+          amount: number;
+          completed_at: string | null;
+          created_at: string | null;
+          group_id: string;
+          id: string;
+          payee_id: string;
+          payer_id: string;
+          status: string;
+        };
+        Insert: {
+          amount: number;
+          completed_at?: string | null;
+          created_at?: string | null;
+          group_id: string;
+          id?: string;
+          payee_id: string;
+          payer_id: string;
+          status?: string;
+        };
+        Update: {
+          amount?: number;
+          completed_at?: string | null;
+          created_at?: string | null;
+          group_id?: string;
+          id?: string;
+          payee_id?: string;
+          payer_id?: string;
+          status?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'settlement_transactions_group_id_fkey';
+            columns: ['group_id'];
+            isOneToOne: false;
+            referencedRelation: 'groups';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'settlement_transactions_payee_id_fkey';
+            columns: ['payee_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'settlement_transactions_payer_id_fkey';
+            columns: ['payer_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      settlements: {
+        Row: {
+          amount: number;
+          created_at: string | null;
+          from_user_id: string;
+          group_id: string;
+          id: string;
+          notes: string | null;
+          settled_at: string | null;
+          to_user_id: string;
+        };
+        Insert: {
+          amount: number;
+          created_at?: string | null;
+          from_user_id: string;
+          group_id: string;
+          id?: string;
+          notes?: string | null;
+          settled_at?: string | null;
+          to_user_id: string;
+        };
+        Update: {
+          amount?: number;
+          created_at?: string | null;
+          from_user_id?: string;
+          group_id?: string;
+          id?: string;
+          notes?: string | null;
+          settled_at?: string | null;
+          to_user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'settlements_from_user_id_fkey';
+            columns: ['from_user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'settlements_group_id_fkey';
+            columns: ['group_id'];
+            isOneToOne: false;
+            referencedRelation: 'groups';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'settlements_to_user_id_fkey';
+            columns: ['to_user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      splits: {
+        Row: {
+          amount: number;
+          created_at: string | null;
+          expense_id: string;
+          id: string;
+          split_value: number | null;
+          user_id: string;
+        };
+        Insert: {
+          amount: number;
+          created_at?: string | null;
+          expense_id: string;
+          id?: string;
+          split_value?: number | null;
+          user_id: string;
+        };
+        Update: {
+          amount?: number;
+          created_at?: string | null;
+          expense_id?: string;
+          id?: string;
+          split_value?: number | null;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'splits_expense_id_fkey';
+            columns: ['expense_id'];
+            isOneToOne: false;
+            referencedRelation: 'expenses';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'splits_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      users: {
+        Row: {
+          avatar_url: string | null;
+          claimed_by: string | null;
+          created_at: string | null;
+          email: string | null;
+          guest_group_id: string | null;
+          id: string;
+          is_guest: boolean;
+          name: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          avatar_url?: string | null;
+          claimed_by?: string | null;
+          created_at?: string | null;
+          email?: string | null;
+          guest_group_id?: string | null;
+          id?: string;
+          is_guest?: boolean;
+          name?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          avatar_url?: string | null;
+          claimed_by?: string | null;
+          created_at?: string | null;
+          email?: string | null;
+          guest_group_id?: string | null;
+          id?: string;
+          is_guest?: boolean;
+          name?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'users_claimed_by_fkey';
+            columns: ['claimed_by'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'users_guest_group_id_fkey';
+            columns: ['guest_group_id'];
+            isOneToOne: false;
+            referencedRelation: 'groups';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+    };
+    Views: {
+      [_ in never]: never;
+    };
+    Functions: {
+      add_guest_member: {
+        Args: { p_group_id: string; p_name: string };
+        Returns: string;
+      };
+      appears_in_group: {
+        Args: { p_group_id: string; p_user_id: string };
+        Returns: boolean;
+      };
+      can_edit_expense: {
+        Args: { p_expense_id: string };
+        Returns: boolean;
+      };
+      check_expense_totals: {
+        Args: { p_expense_id: string };
+        Returns: undefined;
+      };
+      claim_guest_member: {
+        Args: { p_guest_id: string };
+        Returns: string;
+      };
+      create_expense_with_splits: {
+        Args: {
+          p_amount: number;
+          p_category?: string | null;
+          p_currency?: string;
+          p_date?: string | null;
+          p_description: string;
+          p_exchange_rate?: number;
+          p_expense_id?: string | null;
+          p_group_id: string;
+          p_items?: Json | null;
+          p_notes?: string | null;
+          p_occurrence_date?: string | null;
+          p_payers: Json;
+          p_recurring_expense_id?: string | null;
+          p_split_type?: string | null;
+          p_splits: Json;
+        };
+        Returns: Database['public']['Tables']['expenses']['Row'];
+      };
+      diff_expense_snapshots: {
+        Args: { p_after: Json; p_before: Json };
+        Returns: Json;
+      };
+      expense_audit_key: {
+        Args: { p_expense_id: string };
+        Returns: string;
+      };
+      expense_audit_snapshot: {
+        Args: { p_expense_id: string };
+        Returns: Json;
+      };
+      generate_join_code: {
+        Args: Record<PropertyKey, never>;
+        Returns: string;
+      };
+      get_join_code_preview: {
+        Args: { p_code: string };
+        Returns: {
+          already_member: boolean;
+          expires_at: string;
+          group_id: string;
+          group_name: string;
+          invited_by_name: string;
+          member_count: number;
+        }[];
+      };
+      get_my_invitations: {
+        Args: Record<PropertyKey, never>;
+        Returns: {
+          expires_at: string;
+          group_id: string;
+          group_name: string;
+          id: string;
+          invited_by_name: string;
+        }[];
+      };
+      group_has_member: {
+        Args: { p_group_id: string; p_user_id: string };
+        Returns: boolean;
+      };
+      group_role: {
+        Args: { p_group_id: string };
+        Returns: string;
+      };
+      has_group_role: {
+        Args: { p_group_id: string; p_roles: string[] };
+        Returns: boolean;
+      };
+      is_group_member: {
+        Args: { p_group_id: string };
+        Returns: boolean;
+      };
+      join_group_with_code: {
+        Args: { p_code: string };
+        Returns: string;
+      };
+      member_balance: {
+        Args: { p_group_id: string; p_user_id: string };
+        Returns: number;
+      };
+      merge_share_list: {
+        Args: { p_from: string; p_list: Json; p_to: string };
+        Returns: Json;
+      };
+      replace_expense_items: {
+        Args: { p_expense_id: string; p_items: Json };
+        Returns: undefined;
+      };
+      replace_expense_shares: {
+        Args: { p_expense_id: string; p_payers: Json; p_splits: Json };
+        Returns: undefined;
+      };
+      respond_to_invitation: {
+        Args: { p_accept: boolean; p_invitation_id: string };
+        Returns: string;
+      };
+      revoke_invitation: {
+        Args: { p_invitation_id: string };
+        Returns: undefined;
+      };
+      update_expense_with_splits: {
+        Args: {
+          p_amount?: number | null;
+          p_category?: string | null;
+          p_change_id?: string | null;
+          p_date?: string | null;
+          p_description?: string | null;
+          p_expense_id: string;
+          p_items?: Json | null;
+          p_notes?: string | null;
+          p_paid_by?: string | null;
+          p_payers?: Json | null;
+          p_split_type?: string | null;
+          p_splits?: Json | null;
+        };
+        Returns: Database['public']['Tables']['expenses']['Row'];
+      };
+    };
+    Enums: {
+      [_ in never]: never;
+    };
+    CompositeTypes: {
+      [_ in never]: never;
+    };
+  };
+};
+
+type PublicSchema = Database['public'];
+
+export type Tables<TableName extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][TableName]['Row'];
+
+export type TablesInsert<TableName extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][TableName]['Insert'];
+
+export type TablesUpdate<TableName extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][TableName]['Update'];
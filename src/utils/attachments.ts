@@ -0,0 +1,182 @@
+/**
+ * Expense Attachments
+ * Receipt images and PDFs: checks, storage paths and the storage backend
+ *
+ * Files live in a storage bucket at <group_id>/<expense_id>/<id>-<name>; the
+ * storage policies in supabase/migrations read the group and expense from the
+ * first two folders. The backend is pluggable like the exchange rate
+ * provider: the app uses Supabase Storage, tests use the in-memory stand-in.
+ */
+
+import { createError, ErrorCode } from './errorHandler';
+
+export const ATTACHMENT_BUCKET = 'receipts';
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+export const MAX_ATTACHMENTS_PER_EXPENSE = 10;
+
+// Keep in sync with the content_type check on expense_attachments
+export const ATTACHMENT_CONTENT_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/heic',
+  'application/pdf',
+];
+
+/**
+ * File picked on the device, read into memory
+ */
+export interface AttachmentFile {
+  name: string;
+  content_type: string;
+  size: number; // Bytes
+  body: ArrayBuffer;
+  uri?: string; // Where it was picked from on the device
+}
+
+/**
+ * File stored for an expense (a row in expense_attachments)
+ */
+export interface StoredAttachment {
+  storage_path: string;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+}
+
+/**
+ * Where attachment files are kept
+ */
+export interface AttachmentStorage {
+  upload(path: string, body: ArrayBuffer, contentType: string): Promise<void>;
+  getUrl(path: string, expiresInSeconds: number): Promise<string>; // Time-limited URL to view the file
+  remove(paths: string[]): Promise<void>; // Missing paths are ignored
+}
+
+export function isImageAttachment(contentType: string): boolean {
+  return contentType.startsWith('image/');
+}
+
+/**
+ * Check a file before uploading it
+ * @param file - File to attach
+ * @param existingCount - Files the expense already has
+ * @returns Error message, or null if the file can be attached
+ */
+export function validateAttachment(
+  file: Pick<AttachmentFile, 'name' | 'content_type' | 'size'>,
+  existingCount: number = 0
+): string | null {
+  if (!ATTACHMENT_CONTENT_TYPES.includes(file.content_type)) {
+    return `${file.name} is not a supported file. Attach a photo (JPEG, PNG, WebP, HEIC) or a PDF.`;
+  }
+  if (file.size <= 0) {
+    return `${file.name} is empty`;
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name} is larger than ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`;
+  }
+  if (existingCount >= MAX_ATTACHMENTS_PER_EXPENSE) {
+    return `An expense can have at most ${MAX_ATTACHMENTS_PER_EXPENSE} attachments`;
+  }
+  return null;
+}
+
+/**
+ * Storage path for a file: <group_id>/<expense_id>/<id>-<safe name>
+ * The id keeps two files with the same name apart.
+ */
+export function buildAttachmentPath(groupId: string, expenseId: string, fileName: string, id: string): string {
+  const safeName = fileName
+    .trim()
+    .replace(/[^A-Za-z0-9._-]+/g, '_')
+    .replace(/^[._]+/, '')
+    .slice(-80) || 'file';
+  return `${groupId}/${expenseId}/${id}-${safeName}`;
+}
+
+function randomId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 10);
+}
+
+/**
+ * Check and upload files for an expense
+ * All files are checked before anything is uploaded. If an upload fails, the
+ * files already uploaded in this call are removed again.
+ * @param storage - Storage backend
+ * @param groupId - Expense's group
+ * @param expenseId - Expense ID
+ * @param files - Files to attach
+ * @param existingCount - Files the expense already has
+ * @param makeId - Unique part of each path (random by default)
+ * @returns Uploaded files, in the order given
+ * @throws AppError VALIDATION_ERROR if a file cannot be attached
+ */
+export async function uploadAttachmentFiles(
+  storage: AttachmentStorage,
+  groupId: string,
+  expenseId: string,
+  files: AttachmentFile[],
+  existingCount: number = 0,
+  makeId: () => string = randomId
+): Promise<StoredAttachment[]> {
+  files.forEach((file, index) => {
+    const error = validateAttachment(file, existingCount + index);
+    if (error) {
+      throw createError(ErrorCode.VALIDATION_ERROR, error, { file: file.name });
+    }
+  });
+
+  const uploaded: StoredAttachment[] = [];
+  try {
+    for (const file of files) {
+      const path = buildAttachmentPath(groupId, expenseId, file.name, makeId());
+      await storage.upload(path, file.body, file.content_type);
+      uploaded.push({
+        storage_path: path,
+        file_name: file.name,
+        content_type: file.content_type,
+        size_bytes: file.size,
+      });
+    }
+  } catch (error) {
+    await storage.remove(uploaded.map((a) => a.storage_path)).catch(() => {
+      // The original error matters more than leftover files
+    });
+    throw error;
+  }
+
+  return uploaded;
+}
+
+/**
+ * In-memory storage, a local stand-in for Supabase Storage in tests
+ */
+export interface MemoryAttachmentStorage extends AttachmentStorage {
+  files: Map<string, { body: ArrayBuffer; content_type: string }>;
+}
+
+export function createMemoryAttachmentStorage(): MemoryAttachmentStorage {
+  const files = new Map<string, { body: ArrayBuffer; content_type: string }>();
+
+  return {
+    files,
+    async upload(path: string, body: ArrayBuffer, contentType: string): Promise<void> {
+      if (files.has(path)) {
+        throw new Error(`The resource already exists: ${path}`);
+      }
+      files.set(path, { body, content_type: contentType });
+    },
+    async getUrl(path: string, expiresInSeconds: number): Promise<string> {
+      if (!files.has(path)) {
+        throw new Error(`Object not found: ${path}`);
+      }
+      return `memory://${ATTACHMENT_BUCKET}/${path}?expires_in=${expiresInSeconds}`;
+    },
+    async remove(paths: string[]): Promise<void> {
+      paths.forEach((path) => files.delete(path));
+    },
+  };
+}
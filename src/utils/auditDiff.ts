@@ -0,0 +1,176 @@
+/**
+ * Audit Diff
+ * Field-level diffs between expense snapshots for the audit log. The
+ * database records events in the same format (diff_expense_snapshots in
+ * supabase/migrations), so the two must stay in step.
+ *
+ * Amounts are compared in minor units so a value re-saved as 100 vs 100.00
+ * is not reported as a change.
+ */
+
+import { toMinorUnits } from './money';
+import { formatCurrency } from './errorHandler';
+import { DEFAULT_CATEGORIES, findCategory } from './categories';
+
+export type AuditEntityType = 'expense' | 'settlement';
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore';
+
+export interface AuditShare {
+  user_id: string;
+  amount: number;
+}
+
+export interface ExpenseSnapshot {
+  description: string;
+  amount: number;
+  currency: string;
+  date: string;
+  split_type: string | null;
+  category?: string | null;
+  notes?: string | null;
+  payers: AuditShare[];
+  splits: AuditShare[];
+}
+
+export type AuditField = keyof ExpenseSnapshot | 'payer_id' | 'payee_id';
+
+export interface FieldChange {
+  field: AuditField;
+  from: any; // Null when the field had no previous value (e.g. on create)
+  to: any;
+}
+
+// Order fields are reported in
+const EXPENSE_FIELDS: Array<keyof ExpenseSnapshot> = ['description', 'amount', 'currency', 'date', 'split_type', 'category', 'notes', 'payers', 'splits'];
+
+export const FIELD_LABELS: Record<AuditField, string> = {
+  description: 'Description',
+  amount: 'Amount',
+  currency: 'Currency',
+  date: 'Date',
+  split_type: 'Split mode',
+  category: 'Category',
+  notes: 'Notes',
+  payers: 'Paid by',
+  splits: 'Split',
+  payer_id: 'From',
+  payee_id: 'To',
+};
+
+export const ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'added',
+  update: 'edited',
+  delete: 'deleted',
+  restore: 'restored',
+};
+
+/**
+ * Diff two expense snapshots
+ * @param before - State before the change, or null for a new expense
+ * @param after - State after the change
+ * @returns Changed fields in a fixed order; empty if nothing changed
+ */
+export function diffExpenseSnapshots(
+  before: ExpenseSnapshot | null,
+  after: ExpenseSnapshot
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  for (const field of EXPENSE_FIELDS) {
+    const from = before ? before[field] : null;
+    const to = after[field];
+
+    if (field === 'payers' || field === 'splits') {
+      const fromShares = normalizeShares((from as AuditShare[]) || []);
+      const toShares = normalizeShares(to as AuditShare[]);
+      if (!sharesEqual(fromShares, toShares)) {
+        changes.push({ field, from: before ? fromShares : null, to: toShares });
+      }
+    } else if (field === 'amount') {
+      if (from === null || toMinorUnits(from as number) !== toMinorUnits(to as number)) {
+        changes.push({ field, from, to });
+      }
+    } else if ((from ?? null) !== (to ?? null)) {
+      changes.push({ field, from: from ?? null, to: to ?? null });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Per-person differences between two share lists
+ * @returns One entry per user whose amount changed, was added or was removed
+ */
+export function diffShares(
+  before: AuditShare[],
+  after: AuditShare[]
+): Array<{ user_id: string; from: number | null; to: number | null }> {
+  const fromMap = new Map(normalizeShares(before).map((s) => [s.user_id, s.amount]));
+  const toMap = new Map(normalizeShares(after).map((s) => [s.user_id, s.amount]));
+  const userIds = Array.from(new Set([...fromMap.keys(), ...toMap.keys()])).sort();
+
+  return userIds
+    .map((user_id) => ({
+      user_id,
+      from: fromMap.has(user_id) ? fromMap.get(user_id)! : null,
+      to: toMap.has(user_id) ? toMap.get(user_id)! : null,
+    }))
+    .filter((entry) => entry.from === null || entry.to === null || toMinorUnits(entry.from) !== toMinorUnits(entry.to));
+}
+
+/**
+ * Human-readable description of a field change
+ * @param change - Change to describe
+ * @param currency - Currency for amounts
+ * @param nameOf - Resolves user IDs to display names
+ * @returns e.g. "Amount: ₹100.00 → ₹120.00"
+ */
+export function describeChange(
+  change: FieldChange,
+  currency: string,
+  nameOf: (userId: string) => string = (id) => id
+): string {
+  const label = FIELD_LABELS[change.field];
+
+  if (change.field === 'payers' || change.field === 'splits') {
+    if (change.from === null) {
+      const parts = (change.to as AuditShare[]).map((s) => `${nameOf(s.user_id)} ${formatCurrency(s.amount, currency)}`);
+      return `${label}: ${parts.join(', ')}`;
+    }
+
+    const parts = diffShares(change.from, change.to).map((entry) => {
+      const name = nameOf(entry.user_id);
+      if (entry.from === null) return `${name} added (${formatCurrency(entry.to!, currency)})`;
+      if (entry.to === null) return `${name} removed`;
+      return `${name} ${formatCurrency(entry.from, currency)} → ${formatCurrency(entry.to, currency)}`;
+    });
+    return `${label}: ${parts.join(', ')}`;
+  }
+
+  const format = (value: any) => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (change.field === 'amount') return formatCurrency(value, currency);
+    if (change.field === 'payer_id' || change.field === 'payee_id') return nameOf(value);
+    if (change.field === 'category') return findCategory(value, DEFAULT_CATEGORIES).label;
+    return String(value);
+  };
+
+  return change.from === null
+    ? `${label}: ${format(change.to)}`
+    : `${label}: ${format(change.from)} → ${format(change.to)}`;
+}
+
+function normalizeShares(shares: AuditShare[]): AuditShare[] {
+  return shares
+    .map((s) => ({ user_id: s.user_id, amount: Number(s.amount) }))
+    .sort((a, b) => a.user_id.localeCompare(b.user_id));
+}
+
+function sharesEqual(a: AuditShare[], b: AuditShare[]): boolean {
+  return (
+    a.length === b.length &&
+    a.every((share, i) => share.user_id === b[i].user_id && toMinorUnits(share.amount) === toMinorUnits(b[i].amount))
+  );
+}
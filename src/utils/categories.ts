@@ -0,0 +1,164 @@
+/**
+ * Expense Categories
+ * Default and per-group categories, and spend per category
+ *
+ * expenses.category stores a category key: one of the default keys below or
+ * the key of a custom category from group_categories.
+ */
+
+import { convertExpense, LedgerExpense } from './ledger';
+import { toMajorUnits } from './money';
+
+export interface ExpenseCategory {
+  key: string;
+  label: string;
+  icon: string;
+  custom?: boolean; // Created for one group
+}
+
+export const DEFAULT_CATEGORIES: ExpenseCategory[] = [
+  { key: 'food', label: 'Food & Drink', icon: '🍽️' },
+  { key: 'groceries', label: 'Groceries', icon: '🛒' },
+  { key: 'transport', label: 'Transport', icon: '🚕' },
+  { key: 'accommodation', label: 'Accommodation', icon: '🏨' },
+  { key: 'travel', label: 'Travel', icon: '✈️' },
+  { key: 'entertainment', label: 'Entertainment', icon: '🎬' },
+  { key: 'shopping', label: 'Shopping', icon: '🛍️' },
+  { key: 'rent', label: 'Rent', icon: '🏠' },
+  { key: 'utilities', label: 'Utilities', icon: '💡' },
+  { key: 'health', label: 'Health', icon: '💊' },
+  { key: 'other', label: 'Other', icon: '📌' },
+];
+
+export const UNCATEGORIZED: ExpenseCategory = { key: '', label: 'Uncategorized', icon: '📦' };
+
+export const CUSTOM_CATEGORY_ICON = '🏷️';
+
+export const CATEGORY_NAME_MAX_LENGTH = 30;
+
+/**
+ * Expense with the category it was filed under
+ */
+export interface CategorizedExpense extends LedgerExpense {
+  category?: string | null;
+}
+
+/**
+ * Spend in one category
+ */
+export interface CategoryTotal {
+  key: string; // '' for uncategorized
+  total: number; // Base currency
+  count: number; // Expenses counted
+  percent: number; // Of the overall total, one decimal place
+}
+
+/**
+ * Build the key stored for a custom category, e.g. "Kids' Club" -> "kids-club"
+ */
+export function toCategoryKey(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Validate the name of a new custom category
+ * @param name - Name as typed
+ * @param categories - Categories already available to the group
+ * @returns Error message, or null if the name can be used
+ */
+export function validateCategoryName(name: string, categories: ExpenseCategory[]): string | null {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    return 'Category name is required';
+  }
+  if (trimmed.length > CATEGORY_NAME_MAX_LENGTH) {
+    return `Category name must be ${CATEGORY_NAME_MAX_LENGTH} characters or less`;
+  }
+
+  const key = toCategoryKey(trimmed);
+  if (!key) {
+    return 'Category name must contain a letter or number';
+  }
+  if (categories.some((c) => c.key === key || c.label.toLowerCase() === trimmed.toLowerCase())) {
+    return `${trimmed} is already a category`;
+  }
+
+  return null;
+}
+
+/**
+ * Categories available to a group: the defaults, then its custom ones
+ */
+export function mergeCategories(custom: ExpenseCategory[]): ExpenseCategory[] {
+  const defaultKeys = new Set(DEFAULT_CATEGORIES.map((c) => c.key));
+  const extra = custom
+    .filter((c) => !defaultKeys.has(c.key))
+    .map((c) => ({ ...c, custom: true }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+  return [...DEFAULT_CATEGORIES, ...extra];
+}
+
+/**
+ * Look up a category by key
+ * Keys of deleted custom categories still resolve, with a generic icon.
+ */
+export function findCategory(key: string | null | undefined, categories: ExpenseCategory[]): ExpenseCategory {
+  if (!key) return UNCATEGORIZED;
+
+  const category = categories.find((c) => c.key === key);
+  if (category) return category;
+
+  const label = key.replace(/-/g, ' ');
+  return { key, label: label.charAt(0).toUpperCase() + label.slice(1), icon: CUSTOM_CATEGORY_ICON, custom: true };
+}
+
+/**
+ * Filter expenses by category
+ * @param key - Category key, '' for uncategorized, or null for all
+ */
+export function filterByCategory<T extends { category?: string | null }>(expenses: T[], key: string | null): T[] {
+  if (key === null) return expenses;
+  return expenses.filter((e) => (e.category || '') === key);
+}
+
+/**
+ * Spend per category in the group's base currency
+ *
+ * For the group, each expense counts in full. For a member, only their
+ * share of each expense (their split) counts, so the totals show what the
+ * member consumed rather than what they paid.
+ *
+ * @param expenses - Expenses with splits, exchange rates and categories
+ * @param userId - Member to report on, or omit for the whole group
+ * @returns Categories with spend, largest first
+ */
+export function summarizeByCategory(expenses: CategorizedExpense[], userId?: string): CategoryTotal[] {
+  const totals = new Map<string, { minor: number; count: number }>();
+
+  for (const expense of expenses) {
+    const splits = convertExpense(expense).splits.filter((s) => !userId || s.user_id === userId);
+    if (splits.length === 0) continue;
+
+    const key = expense.category || '';
+    const entry = totals.get(key) || { minor: 0, count: 0 };
+    entry.minor += splits.reduce((sum, s) => sum + s.minor, 0);
+    entry.count += 1;
+    totals.set(key, entry);
+  }
+
+  const grandTotal = Array.from(totals.values()).reduce((sum, t) => sum + t.minor, 0);
+
+  return Array.from(totals.entries())
+    .map(([key, { minor, count }]) => ({
+      key,
+      total: toMajorUnits(minor),
+      count,
+      percent: grandTotal === 0 ? 0 : Math.round((minor * 1000) / grandTotal) / 10,
+    }))
+    .sort((a, b) => b.total - a.total || a.key.localeCompare(b.key));
+}
@@ -0,0 +1,201 @@
+/**
+ * Category Suggestion
+ * Offline classifier that suggests a category from an expense description
+ *
+ * Two sources of evidence are combined:
+ * - Keyword rules for the default categories ("uber" -> transport)
+ * - The group's own categorized expenses: words that the group has filed
+ *   under a category before point to that category, and an exact repeat of
+ *   a past description reuses its category. Custom categories can only be
+ *   suggested this way.
+ *
+ * History outweighs the built-in rules, so a group that files "airport" under
+ * transport gets transport rather than travel.
+ */
+
+export interface CategorizedDescription {
+  description: string;
+  category: string | null | undefined;
+}
+
+/**
+ * What the classifier learned from a group's past expenses
+ */
+export interface CategoryModel {
+  descriptions: Record<string, Record<string, number>>; // Normalized description -> category -> count
+  tokens: Record<string, Record<string, number>>; // Token -> category -> count
+}
+
+export interface CategorySuggestion {
+  key: string;
+  source: 'history' | 'keywords';
+  confidence: number; // 0-1, share of the evidence pointing at this category
+}
+
+// A word seen under a category in the group's history counts this much more
+// than a built-in keyword
+const HISTORY_WEIGHT = 2;
+
+// Words that say nothing about the category
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'at', 'by', 'for', 'from', 'in', 'of', 'on', 'our', 'my', 'the', 'to', 'with',
+]);
+
+const KEYWORD_RULES: Record<string, string[]> = {
+  food: [
+    'breakfast', 'lunch', 'dinner', 'brunch', 'snacks', 'restaurant', 'cafe', 'coffee', 'tea', 'pizza',
+    'burger', 'biryani', 'dominos', 'mcdonalds', 'kfc', 'subway', 'starbucks', 'swiggy', 'zomato',
+    'bar', 'pub', 'beer', 'drinks', 'food', 'meal', 'takeaway', 'dessert', 'icecream',
+  ],
+  groceries: [
+    'grocery', 'groceries', 'supermarket', 'vegetables', 'fruits', 'milk', 'bread', 'eggs', 'bigbasket',
+    'blinkit', 'zepto', 'instamart', 'dmart', 'walmart', 'costco', 'tesco',
+  ],
+  transport: [
+    'uber', 'ola', 'lyft', 'rapido', 'taxi', 'cab', 'auto', 'rickshaw', 'metro', 'bus', 'train',
+    'fuel', 'petrol', 'diesel', 'parking', 'toll', 'ride',
+  ],
+  accommodation: ['hotel', 'hostel', 'airbnb', 'oyo', 'resort', 'stay', 'lodge', 'booking'],
+  travel: ['flight', 'flights', 'airline', 'airport', 'indigo', 'visa', 'passport', 'trip', 'tour', 'luggage'],
+  entertainment: [
+    'movie', 'movies', 'cinema', 'pvr', 'netflix', 'spotify', 'concert', 'tickets', 'show',
+    'game', 'games', 'bowling', 'party', 'club',
+  ],
+  shopping: ['amazon', 'flipkart', 'myntra', 'clothes', 'shoes', 'mall', 'gift', 'gifts', 'shopping', 'ikea'],
+  rent: ['rent', 'deposit', 'landlord', 'lease'],
+  utilities: [
+    'electricity', 'water', 'wifi', 'internet', 'broadband', 'recharge', 'phone', 'mobile', 'bill',
+    'bills', 'maintenance', 'cleaning', 'laundry',
+  ],
+  health: ['pharmacy', 'medicine', 'medicines', 'doctor', 'hospital', 'clinic', 'dentist', 'gym', 'apollo'],
+};
+
+/**
+ * Split a description into comparable words: lowercased, punctuation and
+ * stop words removed, simple plurals folded ("tickets" -> "ticket")
+ */
+export function tokenize(description: string): string[] {
+  return description
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+function stem(word: string): string {
+  return word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word;
+}
+
+function normalizeDescription(description: string): string {
+  return tokenize(description).join(' ');
+}
+
+// Stemmed keyword -> category
+const KEYWORD_INDEX: Map<string, string> = new Map(
+  Object.entries(KEYWORD_RULES).flatMap(([key, words]) => words.map((word) => [stem(word), key] as [string, string]))
+);
+
+/**
+ * Learn from a group's categorized expenses
+ * Expenses without a category are ignored.
+ * @param expenses - Past expenses, any order
+ */
+export function buildCategoryModel(expenses: CategorizedDescription[]): CategoryModel {
+  const model: CategoryModel = { descriptions: {}, tokens: {} };
+
+  for (const expense of expenses) {
+    if (!expense.category) continue;
+
+    const normalized = normalizeDescription(expense.description);
+    if (!normalized) continue;
+
+    increment(model.descriptions, normalized, expense.category);
+    for (const token of new Set(normalized.split(' '))) {
+      increment(model.tokens, token, expense.category);
+    }
+  }
+
+  return model;
+}
+
+function increment(counts: Record<string, Record<string, number>>, key: string, category: string): void {
+  counts[key] = counts[key] || {};
+  counts[key][category] = (counts[key][category] || 0) + 1;
+}
+
+/**
+ * Suggest a category for a description
+ * @param description - Description as typed so far
+ * @param model - What was learned from the group (omit for keywords only)
+ * @param allowedKeys - Categories the group still has; others are never suggested
+ * @returns Suggestion, or null if nothing in the description points anywhere
+ */
+export function suggestCategory(
+  description: string,
+  model: CategoryModel = { descriptions: {}, tokens: {} },
+  allowedKeys?: string[]
+): CategorySuggestion | null {
+  const allowed = (key: string) => !allowedKeys || allowedKeys.includes(key);
+  const tokens = tokenize(description);
+  if (tokens.length === 0) return null;
+
+  // The same description as before: reuse its most common category
+  const repeat = bestOf(model.descriptions[tokens.join(' ')] || {}, allowed);
+  if (repeat) {
+    return { key: repeat.key, source: 'history', confidence: repeat.share };
+  }
+
+  // Otherwise every word votes. Ties go to the category whose evidence
+  // appears first, since descriptions tend to lead with what was bought.
+  const scores = new Map<string, { score: number; history: number; first: number }>();
+  const vote = (key: string, weight: number, position: number, fromHistory: boolean) => {
+    if (!allowed(key)) return;
+    const entry = scores.get(key) || { score: 0, history: 0, first: position };
+    entry.score += weight;
+    if (fromHistory) entry.history += weight;
+    entry.first = Math.min(entry.first, position);
+    scores.set(key, entry);
+  };
+
+  tokens.forEach((token, position) => {
+    const seen = model.tokens[token];
+    if (seen) {
+      const total = Object.values(seen).reduce((sum, count) => sum + count, 0);
+      for (const [key, count] of Object.entries(seen)) {
+        vote(key, (HISTORY_WEIGHT * count) / total, position, true);
+      }
+    }
+
+    const keywordCategory = KEYWORD_INDEX.get(token);
+    if (keywordCategory) {
+      vote(keywordCategory, 1, position, false);
+    }
+  });
+
+  if (scores.size === 0) return null;
+
+  const ranked = Array.from(scores.entries()).sort(
+    ([, a], [, b]) => b.score - a.score || a.first - b.first
+  );
+  const [key, best] = ranked[0];
+  const totalScore = ranked.reduce((sum, [, entry]) => sum + entry.score, 0);
+
+  return {
+    key,
+    source: best.history >= best.score - best.history ? 'history' : 'keywords',
+    confidence: Math.round((best.score / totalScore) * 100) / 100,
+  };
+}
+
+function bestOf(
+  counts: Record<string, number>,
+  allowed: (key: string) => boolean
+): { key: string; share: number } | null {
+  const entries = Object.entries(counts).filter(([key]) => allowed(key));
+  if (entries.length === 0) return null;
+
+  const total = entries.reduce((sum, [, count]) => sum + count, 0);
+  const [key, count] = entries.sort(([ka, a], [kb, b]) => b - a || ka.localeCompare(kb))[0];
+  return { key, share: Math.round((count / total) * 100) / 100 };
+}
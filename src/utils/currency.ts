@@ -0,0 +1,124 @@
+/**
+ * Currency Utilities
+ * Supported currencies, exchange rate providers and conversion helpers
+ */
+
+export type CurrencyCode = 'INR' | 'USD' | 'EUR' | 'GBP' | 'JPY' | 'AED' | 'SGD' | 'THB';
+
+export interface CurrencyInfo {
+  code: CurrencyCode;
+  symbol: string;
+  name: string;
+}
+
+export const DEFAULT_CURRENCY: CurrencyCode = 'INR';
+
+export const SUPPORTED_CURRENCIES: Record<CurrencyCode, CurrencyInfo> = {
+  INR: { code: 'INR', symbol: '₹', name: 'Indian Rupee' },
+  USD: { code: 'USD', symbol: '$', name: 'US Dollar' },
+  EUR: { code: 'EUR', symbol: '€', name: 'Euro' },
+  GBP: { code: 'GBP', symbol: '£', name: 'British Pound' },
+  JPY: { code: 'JPY', symbol: '¥', name: 'Japanese Yen' },
+  AED: { code: 'AED', symbol: 'AED ', name: 'UAE Dirham' },
+  SGD: { code: 'SGD', symbol: 'S$', name: 'Singapore Dollar' },
+  THB: { code: 'THB', symbol: '฿', name: 'Thai Baht' },
+};
+
+/**
+ * Check if a string is a supported currency code
+ * @param code - Currency code to check
+ * @returns True if supported
+ */
+export function isSupportedCurrency(code: string): code is CurrencyCode {
+  return Object.prototype.hasOwnProperty.call(SUPPORTED_CURRENCIES, code);
+}
+
+/**
+ * Get display symbol for a currency
+ * @param code - Currency code
+ * @returns Symbol (falls back to the code itself)
+ */
+export function getCurrencySymbol(code: string): string {
+  return isSupportedCurrency(code) ? SUPPORTED_CURRENCIES[code].symbol : `${code} `;
+}
+
+/**
+ * Exchange rate source
+ * Returns how many units of `to` one unit of `from` is worth
+ */
+export interface ExchangeRateProvider {
+  getRate(from: CurrencyCode, to: CurrencyCode, date?: string): Promise<number>;
+}
+
+/**
+ * Offline reference rates, expressed as units of currency per 1 USD.
+ * Used by the fixed-table provider so conversion works without network.
+ */
+export const FIXED_RATES_PER_USD: Record<CurrencyCode, number> = {
+  USD: 1,
+  INR: 83.2,
+  EUR: 0.92,
+  GBP: 0.79,
+  JPY: 149.5,
+  AED: 3.6725,
+  SGD: 1.34,
+  THB: 35.8,
+};
+
+/**
+ * Create a provider that looks rates up in a fixed table
+ * @param ratesPerUnit - Units of each currency per 1 unit of a common pivot currency
+ * @returns Exchange rate provider
+ */
+export function createFixedRateProvider(
+  ratesPerUnit: Partial<Record<CurrencyCode, number>> = FIXED_RATES_PER_USD
+): ExchangeRateProvider {
+  return {
+    async getRate(from: CurrencyCode, to: CurrencyCode): Promise<number> {
+      if (from === to) return 1;
+
+      const fromRate = ratesPerUnit[from];
+      const toRate = ratesPerUnit[to];
+
+      if (!fromRate || !toRate) {
+        throw new Error(`No exchange rate available for ${from} → ${to}`);
+      }
+
+      return roundRate(toRate / fromRate);
+    },
+  };
+}
+
+let activeProvider: ExchangeRateProvider = createFixedRateProvider();
+
+/**
+ * Get the exchange rate provider used by the API layer
+ */
+export function getExchangeRateProvider(): ExchangeRateProvider {
+  return activeProvider;
+}
+
+/**
+ * Replace the exchange rate provider (e.g. with a live rates service)
+ * @param provider - Provider to use from now on
+ */
+export function setExchangeRateProvider(provider: ExchangeRateProvider): void {
+  activeProvider = provider;
+}
+
+/**
+ * Convert an amount using a stored exchange rate
+ * @param amount - Amount in the original currency
+ * @param rate - Rate from original to target currency
+ * @returns Converted amount
+ */
+export function convertAmount(amount: number, rate: number = 1): number {
+  return amount * rate;
+}
+
+/**
+ * Round exchange rates to the precision stored in the database (8 dp)
+ */
+function roundRate(rate: number): number {
+  return Math.round(rate * 1e8) / 1e8;
+}
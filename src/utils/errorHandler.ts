@@ -3,6 +3,9 @@
  * Centralized error handling and user-friendly messages
  */
 
+import { DEFAULT_CURRENCY, getCurrencySymbol } from './currency';
+import { toMajorUnits, toMinorUnits } from './money';
+
 export enum ErrorCode {
   VALIDATION_ERROR = 'VALIDATION_ERROR',
   NETWORK_ERROR = 'NETWORK_ERROR',
@@ -37,6 +40,10 @@ export function createError(
   };
 }
 
+function isAppError(error: any): error is AppError {
+  return !!error && Object.values(ErrorCode).includes(error.code);
+}
+
 /**
  * Parse Supabase error into AppError
  * @param error - Error from Supabase
@@ -52,9 +59,19 @@ export function parseSupabaseError(error: any): AppError {
     );
   }
 
+  // Business rule violations raised by database functions carry a message
+  // meant for the user (invalid_parameter_value)
+  if (error.code === '22023') {
+    return createError(ErrorCode.VALIDATION_ERROR, error.message, {
+      original: error.message,
+      code: error.code,
+    });
+  }
+
   // Permission errors
   if (
     error.code === 'PGRST301' ||
+    error.code === '42501' || // Insufficient privilege
     error.message?.includes('permission') ||
     error.message?.includes('denied')
   ) {
@@ -66,7 +83,11 @@ export function parseSupabaseError(error: any): AppError {
   }
 
   // Not found errors
-  if (error.code === 'PGRST116' || error.message?.includes('not found')) {
+  if (
+    error.code === 'PGRST116' ||
+    error.code === 'P0002' || // No data found
+    error.message?.includes('not found')
+  ) {
     return createError(
       ErrorCode.NOT_FOUND,
       'The requested item was not found.',
@@ -150,8 +171,9 @@ export async function retryWithBackoff<T>(
     } catch (error) {
       lastError = error;
 
-      // Don't retry on validation or permission errors
-      const appError = parseSupabaseError(error);
+      // Don't retry on validation or permission errors (AppErrors thrown by
+      // the API layer already carry their code)
+      const appError = isAppError(error) ? error : parseSupabaseError(error);
       if (
         appError.code === ErrorCode.VALIDATION_ERROR ||
         appError.code === ErrorCode.PERMISSION_DENIED
@@ -190,14 +212,18 @@ export function safeParseFloat(
  * @returns Rounded value
  */
 export function roundCurrency(value: number): number {
-  return Math.round(value * 100) / 100;
+  return toMajorUnits(toMinorUnits(value));
 }
 
 /**
  * Format currency for display
  * @param value - Value to format
+ * @param currency - ISO currency code (defaults to INR)
  * @returns Formatted string
  */
-export function formatCurrency(value: number): string {
-  return `₹${roundCurrency(value).toFixed(2)}`;
+export function formatCurrency(
+  value: number,
+  currency: string = DEFAULT_CURRENCY
+): string {
+  return `${getCurrencySymbol(currency)}${roundCurrency(value).toFixed(2)}`;
 }
@@ -0,0 +1,86 @@
+/**
+ * Expense Dates
+ * Picking, validating and grouping the calendar date an expense happened on
+ *
+ * Dates are 'YYYY-MM-DD' strings like the rest of the app (see
+ * recurrence.ts); "today" is the device's local calendar date, so an expense
+ * logged at 1am is not filed under yesterday in time zones ahead of UTC.
+ */
+
+import { isValidDate, todayISO } from './recurrence';
+
+// Oldest backdated expense accepted, in years before today
+const MAX_BACKDATE_YEARS = 5;
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export interface DateSection<T> {
+  date: string;
+  title: string; // e.g. "Today", "Yesterday", "Mon, 14 Oct"
+  data: T[];
+}
+
+/**
+ * Move a date by a number of days
+ * @param date - 'YYYY-MM-DD'
+ * @param days - Days to add (negative to go back)
+ */
+export function shiftDate(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map((part) => parseInt(part, 10));
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * Check the date of a new or edited expense
+ * @param date - Date as entered
+ * @param today - Today's date (defaults to the device's)
+ * @returns Error message, or null if the date can be used
+ */
+export function validateExpenseDate(date: string, today: string = todayISO()): string | null {
+  if (!isValidDate(date)) {
+    return 'Enter the date as YYYY-MM-DD';
+  }
+  if (date > today) {
+    return 'Date cannot be in the future';
+  }
+  if (date < shiftDate(today, -365 * MAX_BACKDATE_YEARS)) {
+    return `Date cannot be more than ${MAX_BACKDATE_YEARS} years ago`;
+  }
+  return null;
+}
+
+/**
+ * Short label for a date relative to today
+ * @returns "Today", "Yesterday", "Mon, 14 Oct", or "Mon, 14 Oct 2025" outside
+ *   the current year
+ */
+export function formatExpenseDate(date: string, today: string = todayISO()): string {
+  if (date === today) return 'Today';
+  if (date === shiftDate(today, -1)) return 'Yesterday';
+
+  const [year, month, day] = date.split('-').map((part) => parseInt(part, 10));
+  const weekday = WEEKDAYS[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+  const label = `${weekday}, ${day} ${MONTHS[month - 1]}`;
+  return date.slice(0, 4) === today.slice(0, 4) ? label : `${label} ${year}`;
+}
+
+/**
+ * Group expenses into one section per date, newest date first
+ * Within a date, expenses keep the order they were given in.
+ * @param expenses - Expenses with a 'YYYY-MM-DD' date
+ * @param today - Today's date, for the section titles
+ */
+export function groupByDate<T extends { date: string }>(expenses: T[], today: string = todayISO()): DateSection<T>[] {
+  const sections = new Map<string, T[]>();
+
+  for (const expense of expenses) {
+    const date = expense.date.slice(0, 10);
+    if (!sections.has(date)) sections.set(date, []);
+    sections.get(date)!.push(expense);
+  }
+
+  return Array.from(sections.entries())
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([date, data]) => ({ date, title: formatExpenseDate(date, today), data }));
+}
@@ -0,0 +1,103 @@
+/**
+ * Invitations
+ * Join codes, invite links and expiry rules for group invitations
+ */
+
+// Codes are generated by the database (generate_join_code) from this
+// alphabet. No 0/O, 1/I/L: codes are read aloud and typed by hand.
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+export const JOIN_CODE_LENGTH = 8;
+
+export const DEFAULT_INVITE_EXPIRY_DAYS = 7;
+
+export const MAX_INVITE_EXPIRY_DAYS = 30;
+
+// Deep link scheme registered in app.json
+export const INVITE_LINK_PREFIX = 'splityourbills://join/';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Normalize a typed or pasted code: upper case, no spaces or dashes
+ */
+export function normalizeJoinCode(input: string): string {
+  return input.toUpperCase().replace(/[\s-]/g, '');
+}
+
+/**
+ * Check that a (normalized) code could be a join code
+ */
+export function isValidJoinCode(code: string): boolean {
+  if (code.length !== JOIN_CODE_LENGTH) return false;
+  return code.split('').every((char) => CODE_ALPHABET.includes(char));
+}
+
+/**
+ * Format a code for display, e.g. "ABCD-EFGH"
+ */
+export function formatJoinCode(code: string): string {
+  const half = Math.ceil(code.length / 2);
+  return `${code.slice(0, half)}-${code.slice(half)}`;
+}
+
+/**
+ * Build the deep link that opens the app on the join screen
+ */
+export function buildInviteLink(code: string): string {
+  return `${INVITE_LINK_PREFIX}${code}`;
+}
+
+/**
+ * Extract a join code from an invite link or a code typed by hand
+ * @param input - Link such as splityourbills://join/ABCD-EFGH, or just the code
+ * @returns Normalized code, or null if the input holds no valid code
+ */
+export function parseJoinCode(input: string): string | null {
+  const trimmed = input.trim();
+  const linkMatch = trimmed.match(/join\/([A-Za-z0-9-]+)\/?(?:[?#].*)?$/);
+  const code = normalizeJoinCode(linkMatch ? linkMatch[1] : trimmed);
+  return isValidJoinCode(code) ? code : null;
+}
+
+/**
+ * Normalize an email address for matching invitations
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function isValidEmail(email: string): boolean {
+  return EMAIL_PATTERN.test(email.trim());
+}
+
+/**
+ * Expiry timestamp for a new invitation
+ * @param days - Days the invitation stays valid (1 to MAX_INVITE_EXPIRY_DAYS)
+ * @param now - Current time
+ * @returns ISO timestamp
+ */
+export function getInviteExpiry(days: number = DEFAULT_INVITE_EXPIRY_DAYS, now: Date = new Date()): string {
+  if (!Number.isInteger(days) || days < 1 || days > MAX_INVITE_EXPIRY_DAYS) {
+    throw new Error(`Invitations can last between 1 and ${MAX_INVITE_EXPIRY_DAYS} days`);
+  }
+  return new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+export function isInvitationExpired(expiresAt: string, now: Date = new Date()): boolean {
+  return new Date(expiresAt).getTime() <= now.getTime();
+}
+
+/**
+ * Human-readable time left, e.g. "Expires in 3 days"
+ */
+export function describeExpiry(expiresAt: string, now: Date = new Date()): string {
+  const remainingMs = new Date(expiresAt).getTime() - now.getTime();
+  if (remainingMs <= 0) return 'Expired';
+
+  const hours = Math.ceil(remainingMs / (60 * 60 * 1000));
+  if (hours < 24) return `Expires in ${hours} hour${hours === 1 ? '' : 's'}`;
+
+  const days = Math.floor(hours / 24);
+  return `Expires in ${days} day${days === 1 ? '' : 's'}`;
+}
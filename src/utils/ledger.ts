@@ -0,0 +1,372 @@
+/**
+ * Group Ledger
+ *
+ * Single source of truth for group balances. Pure functions only: callers
+ * fetch expenses, payers, splits and settlements and pass them in.
+ *
+ * Amounts are converted into the group's base currency with the rate stored
+ * on each expense before they are netted. All arithmetic is done in integer
+ * minor units, so balances always sum to exactly zero.
+ */
+
+import { allocateMinorUnits, toMajorUnits, toMinorUnits } from './money';
+
+/**
+ * Payer or split row attached to an expense
+ */
+export interface LedgerShare {
+  user_id: string;
+  amount: number | string;
+}
+
+/**
+ * Expense as loaded from the database
+ * `payers` falls back to `paid_by` for expenses without expense_payers rows
+ */
+export interface LedgerExpense {
+  id: string;
+  amount: number | string;
+  paid_by?: string;
+  exchange_rate?: number | string | null;
+  payers?: LedgerShare[] | null;
+  splits?: LedgerShare[] | null;
+}
+
+/**
+ * Payment already made from one member to another
+ */
+export interface LedgerSettlement {
+  id?: string;
+  payer_id: string;
+  payee_id: string;
+  amount: number | string;
+}
+
+/**
+ * Net position of a member
+ * Positive = owed money, Negative = owes money
+ */
+export interface LedgerBalance {
+  user_id: string;
+  balance: number;
+}
+
+/**
+ * Payment needed to settle up (payer owes payee)
+ */
+export interface SettlementTransaction {
+  payer_id: string;
+  payee_id: string;
+  amount: number;
+}
+
+/**
+ * Expense or payment that moved part of a pairwise debt
+ * Positive amounts add to what the payer of the debt owes the payee,
+ * negative amounts (payments, or the payee's own share) reduce it
+ */
+export interface DebtContribution {
+  source: 'expense' | 'settlement';
+  id?: string; // Expense or settlement id
+  amount: number;
+}
+
+/**
+ * Direct debt between two members, with what it is made of
+ */
+export interface PairwiseDebt extends SettlementTransaction {
+  contributions: DebtContribution[];
+}
+
+/**
+ * Running total of one expense or payment within a pair, in minor units
+ */
+type SourceTotal = Omit<DebtContribution, 'amount'> & { minor: number };
+
+/**
+ * Result of running the ledger over a group
+ */
+export interface Ledger {
+  balances: LedgerBalance[];
+  debts: PairwiseDebt[]; // Pairwise, unsimplified
+  plan: SettlementTransaction[]; // Simplified, minimal payments
+}
+
+/**
+ * Calculate net balance for each user (amount paid - amount owed)
+ * @param expenses - Expenses with payers and splits
+ * @param settlements - Payments already made
+ * @returns Map of user_id to net balance in major units
+ */
+export function calculateBalances(
+  expenses: LedgerExpense[],
+  settlements: LedgerSettlement[] = []
+): Map<string, number> {
+  const minorBalances = calculateMinorBalances(expenses, settlements);
+  const balances = new Map<string, number>();
+  minorBalances.forEach((minor, userId) => balances.set(userId, toMajorUnits(minor)));
+  return balances;
+}
+
+/**
+ * Net balance for each user in integer minor units
+ */
+function calculateMinorBalances(
+  expenses: LedgerExpense[],
+  settlements: LedgerSettlement[]
+): Map<string, number> {
+  const balances = new Map<string, number>();
+  const add = (userId: string, minor: number) => {
+    balances.set(userId, (balances.get(userId) || 0) + minor);
+  };
+
+  for (const expense of expenses) {
+    const { payers, splits } = convertExpense(expense);
+
+    // Payers advanced money
+    payers.forEach((payer) => add(payer.user_id, payer.minor));
+
+    // Split participants owe money
+    splits.forEach((split) => add(split.user_id, -split.minor));
+  }
+
+  // The payer has paid back part of their debt, the payee has received
+  // part of what they were owed
+  for (const settlement of settlements) {
+    const minor = toMinorUnits(settlement.amount);
+    add(settlement.payer_id, minor);
+    add(settlement.payee_id, -minor);
+  }
+
+  return balances;
+}
+
+/**
+ * Calculate who owes whom directly, without simplification
+ *
+ * Each participant owes each payer in proportion to what that payer
+ * contributed. Debts in both directions between a pair are netted.
+ *
+ * @param expenses - Expenses with payers and splits
+ * @param settlements - Payments already made
+ * @returns Net debt for every pair of members that still owe each other
+ */
+export function calculatePairwiseDebts(
+  expenses: LedgerExpense[],
+  settlements: LedgerSettlement[] = []
+): SettlementTransaction[] {
+  return calculatePairwiseBreakdown(expenses, settlements).map(({ payer_id, payee_id, amount }) => ({
+    payer_id,
+    payee_id,
+    amount,
+  }));
+}
+
+/**
+ * Pairwise debts with the expenses and payments behind each one
+ *
+ * Same debts as calculatePairwiseDebts. Each lists what every expense and
+ * payment added to or took off it, in the order they were passed in, and
+ * the contributions add up to the debt.
+ *
+ * @param expenses - Expenses with payers and splits
+ * @param settlements - Payments already made
+ * @returns Net debt for every pair of members that still owe each other
+ */
+export function calculatePairwiseBreakdown(
+  expenses: LedgerExpense[],
+  settlements: LedgerSettlement[] = []
+): PairwiseDebt[] {
+  // Per pair: minor units `from` owes `to`, and what each source added
+  const pairs = new Map<string, { from: string; to: string; net: number; sources: Map<string, SourceTotal> }>();
+  const addDebt = (from: string, to: string, minor: number, key: string, source: SourceTotal['source'], id?: string) => {
+    if (from === to) return;
+    const pairKey = [from, to].sort().join('|');
+    if (!pairs.has(pairKey)) pairs.set(pairKey, { from, to, net: 0, sources: new Map() });
+    const pair = pairs.get(pairKey)!;
+    const signed = pair.from === from ? minor : -minor;
+
+    pair.net += signed;
+    if (!pair.sources.has(key)) pair.sources.set(key, { source, id, minor: 0 });
+    pair.sources.get(key)!.minor += signed;
+  };
+
+  for (const expense of expenses) {
+    const { payers, splits } = convertExpense(expense);
+    if (payers.length === 0) continue;
+
+    // Bad payer rows (negative amounts) take no part in the split
+    const payerRatios = payers.map((p) => Math.max(p.minor, 0));
+    if (payerRatios.every((r) => r === 0)) continue;
+
+    for (const split of splits) {
+      const shares = allocateMinorUnits(split.minor, payerRatios);
+      payers.forEach((payer, index) =>
+        addDebt(split.user_id, payer.user_id, shares[index], `expense:${expense.id}`, 'expense', expense.id)
+      );
+    }
+  }
+
+  // A payment reduces what the payer owes the payee
+  settlements.forEach((settlement, index) => {
+    addDebt(
+      settlement.payee_id,
+      settlement.payer_id,
+      toMinorUnits(settlement.amount),
+      `settlement:${settlement.id ?? index}`,
+      'settlement',
+      settlement.id
+    );
+  });
+
+  const debts: PairwiseDebt[] = [];
+
+  pairs.forEach(({ from, to, net, sources }) => {
+    if (net === 0) return;
+
+    // Contributions are signed towards whoever ends up owing
+    const direction = net > 0 ? 1 : -1;
+    const contributions: DebtContribution[] = [];
+    sources.forEach(({ source, id, minor }) => {
+      if (minor !== 0) contributions.push({ source, id, amount: toMajorUnits(minor * direction) });
+    });
+
+    debts.push({
+      payer_id: net > 0 ? from : to,
+      payee_id: net > 0 ? to : from,
+      amount: toMajorUnits(net * direction),
+      contributions,
+    });
+  });
+
+  return debts.sort((a, b) => b.amount - a.amount);
+}
+
+/**
+ * Greedy algorithm to simplify debts
+ *
+ * Algorithm:
+ * 1. Separate users into creditors (positive balance) and debtors (negative)
+ * 2. Sort by absolute balance (highest first)
+ * 3. Match debtors with creditors greedily
+ * 4. Create minimal settlement transactions
+ *
+ * @param balances - Map of user_id to net balance
+ * @returns Minimal settlement transactions
+ */
+export function simplifyDebts(balances: Map<string, number>): SettlementTransaction[] {
+  const settlements: SettlementTransaction[] = [];
+
+  // Work in minor units and drop settled users
+  const users = Array.from(balances.entries())
+    .map(([user_id, balance]) => ({ user_id, balance: toMinorUnits(balance) }))
+    .filter((u) => u.balance !== 0);
+
+  const creditors = users.filter((u) => u.balance > 0).sort(byAbsoluteBalance);
+  const debtors = users.filter((u) => u.balance < 0).sort(byAbsoluteBalance);
+
+  let creditorIdx = 0;
+  let debtorIdx = 0;
+
+  while (creditorIdx < creditors.length && debtorIdx < debtors.length) {
+    const creditor = creditors[creditorIdx];
+    const debtor = debtors[debtorIdx];
+
+    // Settlement amount is minimum of what debtor owes and creditor is owed
+    const settlementAmount = Math.min(-debtor.balance, creditor.balance);
+
+    settlements.push({
+      payer_id: debtor.user_id,
+      payee_id: creditor.user_id,
+      amount: toMajorUnits(settlementAmount),
+    });
+
+    debtor.balance += settlementAmount;
+    creditor.balance -= settlementAmount;
+
+    // Move to next creditor/debtor if current is settled
+    if (debtor.balance === 0) {
+      debtorIdx++;
+    }
+    if (creditor.balance === 0) {
+      creditorIdx++;
+    }
+  }
+
+  return settlements;
+}
+
+/**
+ * Run the full ledger over a group's data
+ * @param expenses - Expenses with payers and splits
+ * @param settlements - Payments already made
+ * @returns Net balances, pairwise debts and simplified payment plan
+ */
+export function buildLedger(
+  expenses: LedgerExpense[],
+  settlements: LedgerSettlement[] = []
+): Ledger {
+  const balanceMap = calculateBalances(expenses, settlements);
+
+  const balances = Array.from(balanceMap.entries()).map(([user_id, balance]) => ({
+    user_id,
+    balance,
+  }));
+
+  return {
+    balances,
+    debts: calculatePairwiseBreakdown(expenses, settlements),
+    plan: simplifyDebts(balanceMap),
+  };
+}
+
+/**
+ * Expense payers and splits converted into base-currency minor units
+ *
+ * The expense total is converted once and then allocated across payers and
+ * splits in proportion to their original amounts, so both sides still add up
+ * to the same converted total.
+ */
+export function convertExpense(expense: LedgerExpense): {
+  payers: Array<{ user_id: string; minor: number }>;
+  splits: Array<{ user_id: string; minor: number }>;
+} {
+  const rate = typeof expense.exchange_rate === 'string'
+    ? parseFloat(expense.exchange_rate)
+    : expense.exchange_rate ?? 1;
+
+  const convert = (shares: LedgerShare[]) => {
+    const original = shares.map((s) => toMinorUnits(s.amount));
+    const originalTotal = original.reduce((sum, m) => sum + m, 0);
+
+    if (rate === 1 || originalTotal === 0) {
+      return shares.map((s, i) => ({ user_id: s.user_id, minor: original[i] }));
+    }
+
+    const convertedTotal = Math.round(originalTotal * rate);
+    const converted = allocateMinorUnits(convertedTotal, original.map((m) => Math.max(m, 0)));
+    return shares.map((s, i) => ({ user_id: s.user_id, minor: converted[i] }));
+  };
+
+  return {
+    payers: convert(getPayers(expense)),
+    splits: convert(expense.splits || []),
+  };
+}
+
+/**
+ * Payers of an expense, falling back to paid_by when expense_payers is empty
+ */
+function getPayers(expense: LedgerExpense): LedgerShare[] {
+  if (expense.payers && expense.payers.length > 0) {
+    return expense.payers;
+  }
+  return expense.paid_by ? [{ user_id: expense.paid_by, amount: expense.amount }] : [];
+}
+
+/**
+ * Sort by absolute balance (descending)
+ */
+function byAbsoluteBalance(a: { balance: number }, b: { balance: number }): number {
+  return Math.abs(b.balance) - Math.abs(a.balance);
+}
@@ -0,0 +1,107 @@
+/**
+ * Members
+ * Display names, guest rules and balance checks for group members
+ */
+
+import { formatCurrency } from './errorHandler';
+import { SettlementTransaction } from './ledger';
+import { toMajorUnits, toMinorUnits } from './money';
+import { GroupRole } from './permissions';
+
+export const GUEST_NAME_MAX_LENGTH = 40;
+
+/**
+ * A group member as loaded from the users table. Guests have a name but no
+ * email or account.
+ */
+export interface GroupMember {
+  id: string;
+  email: string | null;
+  name?: string | null;
+  is_guest?: boolean;
+  role?: GroupRole; // From group_members
+}
+
+/**
+ * Name to show for a member: their name, else their email
+ */
+export function getMemberName(member: GroupMember): string {
+  return member.name?.trim() || member.email || 'Unknown User';
+}
+
+/**
+ * Name to show in member lists, with guests marked, e.g. "Sam (guest)"
+ */
+export function getMemberLabel(member: GroupMember): string {
+  const name = getMemberName(member);
+  return member.is_guest ? `${name} (guest)` : name;
+}
+
+/**
+ * Build a userId -> label map for a member list
+ */
+export function buildMemberLabels(members: GroupMember[]): Record<string, string> {
+  const labels: Record<string, string> = {};
+  members.forEach((member) => {
+    labels[member.id] = getMemberLabel(member);
+  });
+  return labels;
+}
+
+/**
+ * Validate the name for a new guest
+ * @param name - Name as typed
+ * @param members - Current members of the group
+ * @returns Error message, or null if the name can be used
+ */
+export function validateGuestName(name: string, members: GroupMember[]): string | null {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    return 'Guest name is required';
+  }
+  if (trimmed.length > GUEST_NAME_MAX_LENGTH) {
+    return `Guest name must be ${GUEST_NAME_MAX_LENGTH} characters or less`;
+  }
+
+  // Guests are told apart by name only, so names must be unique in the group
+  const taken = members.some((member) => member.name?.trim().toLowerCase() === trimmed.toLowerCase());
+  if (taken) {
+    return `Someone called ${trimmed} is already in this group`;
+  }
+
+  return null;
+}
+
+/**
+ * What a member still owes or is owed, according to the settlement plan
+ * @param plan - Simplified payments for the group
+ * @param userId - Member to check
+ * @returns Net balance (positive = owed money, negative = owes money) and the
+ * payments the member is part of
+ */
+export function getOutstandingBalance(
+  plan: SettlementTransaction[],
+  userId: string
+): { balance: number; payments: SettlementTransaction[] } {
+  const payments = plan.filter((p) => p.payer_id === userId || p.payee_id === userId);
+  const minor = payments.reduce(
+    (sum, p) => sum + (p.payee_id === userId ? toMinorUnits(p.amount) : -toMinorUnits(p.amount)),
+    0
+  );
+  return { balance: toMajorUnits(minor), payments };
+}
+
+/**
+ * Explain an unsettled balance, e.g. "You still owe ₹120.00"
+ * @param subject - "You" or the member's name
+ * @param balance - Net balance from getOutstandingBalance
+ * @param currency - Group's base currency
+ */
+export function describeOutstandingBalance(subject: string, balance: number, currency: string): string {
+  const amount = formatCurrency(Math.abs(balance), currency);
+  const you = subject === 'You';
+  if (balance < 0) {
+    return `${subject} still ${you ? 'owe' : 'owes'} ${amount}`;
+  }
+  return `${subject} ${you ? 'are' : 'is'} still owed ${amount}`;
+}
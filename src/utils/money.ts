@@ -0,0 +1,200 @@
+/**
+ * Money
+ * Integer minor-unit money type and allocation helpers
+ *
+ * Amounts are stored as whole minor units (paise, cents) so that sums are
+ * exact. Convert to and from major units only at the edges: user input,
+ * database decimals and display.
+ */
+
+import { CurrencyCode, DEFAULT_CURRENCY, getCurrencySymbol } from './currency';
+
+/**
+ * Minor units per major unit. The database stores decimal(10, 2) for every
+ * currency, so all currencies use two decimal places here as well.
+ */
+export const MINOR_UNITS_PER_MAJOR = 100;
+
+export interface Money {
+  readonly minor: number; // Integer minor units
+  readonly currency: CurrencyCode;
+}
+
+/**
+ * Convert a major-unit amount (number or decimal string) to integer minor units
+ * Rounds half away from zero on the third decimal place.
+ * @param value - Amount in major units, e.g. 12.34 or '12.34'
+ * @returns Integer minor units, e.g. 1234
+ */
+export function toMinorUnits(value: number | string): number {
+  const text = typeof value === 'number' ? value.toString() : value.trim();
+  const match = /^([+-]?)(\d*)(?:\.(\d*))?$/.exec(text);
+
+  if (!match || (match[2] === '' && !match[3])) {
+    // Exponent notation or garbage: fall back to float rounding
+    const parsed = typeof value === 'number' ? value : parseFloat(value);
+    if (isNaN(parsed)) return NaN;
+    return Math.round(parsed * MINOR_UNITS_PER_MAJOR);
+  }
+
+  const [, sign, whole, fraction = ''] = match;
+  const digits = (fraction + '000').slice(0, 3);
+  let minor = parseInt(whole || '0', 10) * MINOR_UNITS_PER_MAJOR + parseInt(digits.slice(0, 2), 10);
+
+  if (parseInt(digits[2], 10) >= 5) {
+    minor += 1;
+  }
+
+  return sign === '-' ? -minor : minor;
+}
+
+/**
+ * Convert integer minor units back to a major-unit number
+ * @param minor - Integer minor units
+ * @returns Amount in major units with at most two decimals
+ */
+export function toMajorUnits(minor: number): number {
+  return minor / MINOR_UNITS_PER_MAJOR;
+}
+
+/**
+ * Create a Money value from a major-unit amount
+ * @param value - Amount in major units (number or decimal string)
+ * @param currency - Currency code
+ * @returns Money value
+ */
+export function money(value: number | string, currency: CurrencyCode = DEFAULT_CURRENCY): Money {
+  return { minor: toMinorUnits(value), currency };
+}
+
+/**
+ * Create a Money value from integer minor units
+ */
+export function fromMinorUnits(minor: number, currency: CurrencyCode = DEFAULT_CURRENCY): Money {
+  if (!Number.isInteger(minor)) {
+    throw new Error(`Minor units must be an integer, got ${minor}`);
+  }
+  return { minor, currency };
+}
+
+/**
+ * Major-unit number for a Money value (for database writes)
+ */
+export function toNumber(value: Money): number {
+  return toMajorUnits(value.minor);
+}
+
+export function addMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return { minor: a.minor + b.minor, currency: a.currency };
+}
+
+export function subtractMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return { minor: a.minor - b.minor, currency: a.currency };
+}
+
+/**
+ * Multiply by a factor (e.g. an exchange rate), rounding to the nearest minor unit
+ * @param value - Money to scale
+ * @param factor - Multiplier
+ * @param currency - Currency of the result (defaults to the input currency)
+ */
+export function multiplyMoney(value: Money, factor: number, currency: CurrencyCode = value.currency): Money {
+  return { minor: roundHalfAwayFromZero(value.minor * factor), currency };
+}
+
+/**
+ * Sum a list of Money values
+ * @param values - Values to sum (must share a currency)
+ * @param currency - Currency of an empty sum
+ */
+export function sumMoney(values: Money[], currency: CurrencyCode = DEFAULT_CURRENCY): Money {
+  return values.reduce((total, value) => addMoney(total, value), {
+    minor: 0,
+    currency: values[0]?.currency ?? currency,
+  });
+}
+
+export function equalsMoney(a: Money, b: Money): boolean {
+  return a.currency === b.currency && a.minor === b.minor;
+}
+
+export function isZeroMoney(value: Money): boolean {
+  return value.minor === 0;
+}
+
+/**
+ * Allocate integer minor units by ratios, distributing the remainder
+ * deterministically (largest fractional part first, ties to the earlier index)
+ * @param minor - Total in integer minor units
+ * @param ratios - Non-negative weights, at least one positive
+ * @returns Integer parts that always sum to `minor`
+ */
+export function allocateMinorUnits(minor: number, ratios: number[]): number[] {
+  if (ratios.length === 0) return [];
+
+  const totalRatio = ratios.reduce((sum, r) => sum + r, 0);
+  if (totalRatio <= 0 || ratios.some((r) => r < 0)) {
+    throw new Error('Allocation ratios must be non-negative and not all zero');
+  }
+
+  const sign = minor < 0 ? -1 : 1;
+  const absolute = Math.abs(minor);
+
+  const exact = ratios.map((r) => (absolute * r) / totalRatio);
+  const parts = exact.map((e) => Math.floor(e));
+  let remainder = absolute - parts.reduce((sum, p) => sum + p, 0);
+
+  const order = exact
+    .map((e, index) => ({ index, fraction: e - Math.floor(e) }))
+    .sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+
+  for (let i = 0; remainder > 0; i = (i + 1) % order.length) {
+    if (ratios[order[i].index] === 0) continue;
+    parts[order[i].index] += 1;
+    remainder -= 1;
+  }
+
+  return parts.map((p) => p * sign);
+}
+
+/**
+ * Allocate a Money value by ratios
+ * @param value - Money to split
+ * @param ratios - Weights for each part
+ * @returns Parts that always sum exactly to `value`
+ */
+export function allocateMoney(value: Money, ratios: number[]): Money[] {
+  return allocateMinorUnits(value.minor, ratios).map((minor) => ({
+    minor,
+    currency: value.currency,
+  }));
+}
+
+/**
+ * Split a Money value into `count` near-equal parts
+ * Earlier parts receive the extra minor units.
+ */
+export function allocateEvenly(value: Money, count: number): Money[] {
+  return allocateMoney(value, new Array(count).fill(1));
+}
+
+/**
+ * Format a Money value for display
+ */
+export function formatMoney(value: Money): string {
+  return `${getCurrencySymbol(value.currency)}${toMajorUnits(value.minor).toFixed(2)}`;
+}
+
+function assertSameCurrency(a: Money, b: Money): void {
+  if (a.currency !== b.currency) {
+    throw new Error(`Currency mismatch: ${a.currency} vs ${b.currency}`);
+  }
+}
+
+function roundHalfAwayFromZero(value: number): number {
+  // Strip float noise (e.g. 1.0049999999) before rounding
+  const cleaned = parseFloat(value.toPrecision(12));
+  return Math.sign(cleaned) * Math.round(Math.abs(cleaned));
+}
@@ -0,0 +1,364 @@
+/**
+ * Offline Sync
+ * Local cache of server data and an outbox of changes made while offline
+ *
+ * Reads are cached per key so screens can show the last data they saw.
+ * Creates, edits, deletes and settlements that fail for lack of a connection
+ * are queued in the outbox and replayed in order once the app is back
+ * online. Edits and deletes remember the expense's updated_at when they were
+ * made; if the server copy has changed since, the change is held back as a
+ * conflict for the user to discard or apply anyway instead of silently
+ * overwriting someone else's edit.
+ *
+ * A change whose request reached the server but whose response was lost is
+ * queued too, so replays must be safe to repeat: new expenses and
+ * settlements carry the ID the app chose for them, and edits carry a change
+ * ID the server stores with the expense.
+ *
+ * Storage is any AsyncStorage-like key-value store, so the replay logic runs
+ * against an in-memory store in tests.
+ */
+
+import type { NewExpenseInput } from '../api/supabase';
+import type { UpdateExpenseData } from '../api/expenseActions';
+import type { RecordSettlementInput } from '../api/settlements';
+import { AppError, ErrorCode, retryWithBackoff } from './errorHandler';
+import { Receipt } from './receipt';
+
+const CACHE_PREFIX = 'offline:cache:';
+const OUTBOX_KEY = 'offline:outbox';
+
+export interface KeyValueStore {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+export interface CacheEntry<T> {
+  data: T;
+  saved_at: string;
+}
+
+export type OutboxAction = 'create_expense' | 'update_expense' | 'delete_expense' | 'record_settlement';
+
+export type OutboxStatus = 'pending' | 'conflict' | 'failed';
+
+/**
+ * What each kind of change carries to replay it
+ */
+export interface OutboxPayloads {
+  create_expense: { expense: NewExpenseInput; receipt: Receipt | null };
+  // receipt: undefined leaves the expense's items, null removes them
+  update_expense: { data: UpdateExpenseData; receipt?: Receipt | null; change_id?: string };
+  delete_expense: { user_id: string };
+  record_settlement: RecordSettlementInput;
+}
+
+interface OutboxEntryFields {
+  id: string;
+  group_id: string;
+  expense_id: string | null; // Expense edited or deleted
+  base_updated_at: string | null; // Expense's updated_at when the change was made
+  label: string; // Shown in the sync list, e.g. "Dinner"
+  created_at: string;
+  status: OutboxStatus;
+  error: string | null;
+  force: boolean; // Apply even if the expense changed on the server
+}
+
+export type OutboxEntry<A extends OutboxAction = OutboxAction> = {
+  [K in A]: OutboxEntryFields & { action: K; payload: OutboxPayloads[K] };
+}[A];
+
+export type NewOutboxEntry<A extends OutboxAction = OutboxAction> = {
+  [K in A]: Pick<OutboxEntry<K>, 'action' | 'group_id' | 'label' | 'payload'> &
+    Partial<Pick<OutboxEntry<K>, 'expense_id' | 'base_updated_at'>>;
+}[A];
+
+/**
+ * Server copy of an expense, for conflict checks
+ */
+export interface ServerVersion {
+  updated_at: string | null;
+  deleted_at: string | null;
+  last_change_id?: string | null; // Change ID of the last edit made through the app
+}
+
+export interface SyncHandlers {
+  run: { [A in OutboxAction]: (entry: OutboxEntry<A>) => Promise<void> };
+  getServerVersion: (expenseId: string) => Promise<ServerVersion | null>; // null if the expense is gone
+  retry?: <T>(fn: () => Promise<T>) => Promise<T>;
+}
+
+export interface SyncResult {
+  synced: number;
+  conflicts: number;
+  failed: number;
+  remaining: number; // Entries still in the outbox, of any status
+  offline: boolean; // Stopped because the connection dropped
+}
+
+/**
+ * In-memory store, a stand-in for AsyncStorage in tests
+ */
+export function createMemoryStore(): KeyValueStore & { items: Map<string, string> } {
+  const items = new Map<string, string>();
+  return {
+    items,
+    async getItem(key: string) {
+      return items.has(key) ? items.get(key)! : null;
+    },
+    async setItem(key: string, value: string) {
+      items.set(key, value);
+    },
+    async removeItem(key: string) {
+      items.delete(key);
+    },
+  };
+}
+
+/**
+ * Whether an error means the server could not be reached (as opposed to
+ * the server refusing the request)
+ */
+export function isOfflineError(error: any): boolean {
+  if (!error) return false;
+  if ((error as AppError).code === ErrorCode.NETWORK_ERROR) return true;
+  // React Native, browsers and Node word a failed request differently
+  return /network request failed|network error|(failed to fetch|fetch failed|load failed)$|timed? ?out|offline/i.test(
+    error.message || String(error)
+  );
+}
+
+export async function readCache<T>(store: KeyValueStore, key: string): Promise<CacheEntry<T> | null> {
+  const raw = await store.getItem(CACHE_PREFIX + key);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+export async function writeCache<T>(store: KeyValueStore, key: string, data: T, now: Date = new Date()): Promise<void> {
+  const entry: CacheEntry<T> = { data, saved_at: now.toISOString() };
+  await store.setItem(CACHE_PREFIX + key, JSON.stringify(entry));
+}
+
+export async function getOutbox(store: KeyValueStore): Promise<OutboxEntry[]> {
+  const raw = await store.getItem(OUTBOX_KEY);
+  if (!raw) return [];
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return [];
+  }
+}
+
+async function saveOutbox(store: KeyValueStore, entries: OutboxEntry[]): Promise<void> {
+  if (entries.length === 0) {
+    await store.removeItem(OUTBOX_KEY);
+  } else {
+    await store.setItem(OUTBOX_KEY, JSON.stringify(entries));
+  }
+}
+
+function randomId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 10);
+}
+
+/**
+ * Random (version 4) UUID, for IDs the app chooses before saving: a new
+ * expense's ID and an edit's change ID
+ */
+export function generateUuid(): string {
+  const bytes = new Uint8Array(16);
+  const crypto = (globalThis as { crypto?: { getRandomValues?: (array: Uint8Array) => Uint8Array } }).crypto;
+  if (crypto?.getRandomValues) {
+    crypto.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < bytes.length; i++) bytes[i] = Math.floor(Math.random() * 256);
+  }
+  bytes[6] = (bytes[6] & 0x0f) | 0x40; // Version 4
+  bytes[8] = (bytes[8] & 0x3f) | 0x80; // RFC 4122 variant
+
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Queue a change to send when the app is back online
+ * @returns The queued entry
+ */
+export async function enqueue(
+  store: KeyValueStore,
+  change: NewOutboxEntry,
+  now: Date = new Date(),
+  makeId: () => string = randomId
+): Promise<OutboxEntry> {
+  const entry = {
+    id: makeId(),
+    expense_id: null,
+    base_updated_at: null,
+    ...change,
+    created_at: now.toISOString(),
+    status: 'pending',
+    error: null,
+    force: false,
+  } as OutboxEntry;
+  await saveOutbox(store, [...(await getOutbox(store)), entry]);
+  return entry;
+}
+
+export async function updateOutboxEntry(
+  store: KeyValueStore,
+  id: string,
+  changes: Partial<Pick<OutboxEntry, 'status' | 'error' | 'force'>>
+): Promise<void> {
+  const entries = await getOutbox(store);
+  await saveOutbox(store, entries.map((entry) => (entry.id === id ? { ...entry, ...changes } : entry)));
+}
+
+export async function removeOutboxEntry(store: KeyValueStore, id: string): Promise<void> {
+  await saveOutbox(store, (await getOutbox(store)).filter((entry) => entry.id !== id));
+}
+
+/**
+ * Check a queued edit or delete against the server copy of the expense
+ * @returns Why the change conflicts, or null if it can be applied
+ */
+export function detectConflict(entry: OutboxEntry, current: ServerVersion | null): string | null {
+  if (!current) {
+    return 'This expense no longer exists';
+  }
+  if (current.deleted_at && entry.action === 'update_expense') {
+    return 'This expense was deleted while you were offline';
+  }
+  if (entry.base_updated_at && current.updated_at && current.updated_at !== entry.base_updated_at) {
+    return 'Someone else changed this expense while you were offline';
+  }
+  return null;
+}
+
+/**
+ * Send queued changes in the order they were made
+ * Pending entries are replayed; conflicts and failures wait for the user.
+ * Replay stops at the first sign the connection is gone, leaving the rest
+ * queued.
+ * @param store - Where the outbox lives
+ * @param handlers - How to send each kind of change and read the server copy
+ * @returns What happened
+ */
+export async function replayOutbox(store: KeyValueStore, handlers: SyncHandlers): Promise<SyncResult> {
+  const retry = handlers.retry || ((fn) => retryWithBackoff(fn));
+  const result: SyncResult = { synced: 0, conflicts: 0, failed: 0, remaining: 0, offline: false };
+
+  for (const entry of await getOutbox(store)) {
+    if (entry.status !== 'pending') continue;
+
+    try {
+      if (entry.expense_id && !entry.force) {
+        const current = await retry(() => handlers.getServerVersion(entry.expense_id!));
+
+        // Deleting something already deleted is already done, and so is an
+        // edit the server already has (its response was lost)
+        if (
+          (entry.action === 'delete_expense' && current?.deleted_at) ||
+          (entry.action === 'update_expense' &&
+            entry.payload.change_id &&
+            current?.last_change_id === entry.payload.change_id)
+        ) {
+          await removeOutboxEntry(store, entry.id);
+          result.synced++;
+          continue;
+        }
+
+        const conflict = detectConflict(entry, current);
+        if (conflict) {
+          await updateOutboxEntry(store, entry.id, { status: 'conflict', error: conflict });
+          result.conflicts++;
+          continue;
+        }
+      }
+
+      // Each handler takes entries of its own action
+      const run = handlers.run[entry.action] as (entry: OutboxEntry) => Promise<void>;
+      await retry(() => run(entry));
+      await removeOutboxEntry(store, entry.id);
+      result.synced++;
+    } catch (error: any) {
+      if (isOfflineError(error)) {
+        result.offline = true;
+        break;
+      }
+      await updateOutboxEntry(store, entry.id, { status: 'failed', error: error?.message || 'Failed to sync' });
+      result.failed++;
+    }
+  }
+
+  result.remaining = (await getOutbox(store)).length;
+  return result;
+}
+
+/**
+ * Show queued changes in an expense list: new expenses are added, deleted
+ * ones hidden and edited ones show the edit. Queued items are marked
+ * pending so the list can badge them.
+ * @param expenses - Expenses from the server (or cache)
+ * @param outbox - Queued changes
+ * @param groupId - Group being shown
+ */
+export function applyOutbox<T extends { id: string }>(
+  expenses: T[],
+  outbox: OutboxEntry[],
+  groupId: string
+): Array<T & { pending?: OutboxStatus }> {
+  const entries = outbox.filter((entry) => entry.group_id === groupId);
+  const deleted = new Set(
+    entries.filter((entry) => entry.action === 'delete_expense').map((entry) => entry.expense_id)
+  );
+
+  // New expenses are shown under the ID the app chose for them, so edits
+  // and deletes queued against them find them (entries queued before the app
+  // chose IDs use their own)
+  const created = entries
+    .filter((entry): entry is OutboxEntry<'create_expense'> => entry.action === 'create_expense')
+    .map((entry) => {
+      const expense = entry.payload.expense;
+      return {
+        id: expense.expenseId || entry.id,
+        group_id: groupId,
+        description: expense.description,
+        amount: expense.amount,
+        currency: expense.currency,
+        paid_by: expense.payers[0]?.userId,
+        date: expense.date,
+        category: expense.category || null,
+        notes: expense.notes || null,
+        created_at: entry.created_at,
+        pending: entry.status,
+      } as unknown as T & { pending: OutboxStatus };
+    });
+
+  return [...created, ...expenses]
+    .filter((expense) => !deleted.has(expense.id))
+    .map((expense) => {
+      const edit = entries
+        .filter(
+          (entry): entry is OutboxEntry<'update_expense'> =>
+            entry.action === 'update_expense' && entry.expense_id === expense.id
+        )
+        .pop();
+      if (!edit) return expense;
+      const { description, amount, date, category, notes } = edit.payload.data || {};
+      return {
+        ...expense,
+        ...(description !== undefined && { description }),
+        ...(amount !== undefined && { amount }),
+        ...(date !== undefined && { date }),
+        ...(category !== undefined && { category: category || null }),
+        ...(notes !== undefined && { notes: notes || null }),
+        pending: edit.status,
+      };
+    });
+}
@@ -0,0 +1,127 @@
+/**
+ * Permissions
+ * What each group role may do. Mirrors the RLS policies in
+ * supabase/migrations, so the app can hide actions the database would refuse.
+ */
+
+export type GroupRole = 'owner' | 'admin' | 'member' | 'viewer';
+
+export const GROUP_ROLES: GroupRole[] = ['owner', 'admin', 'member', 'viewer'];
+
+export const ROLE_LABELS: Record<GroupRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+  viewer: 'Viewer',
+};
+
+export const ROLE_DESCRIPTIONS: Record<GroupRole, string> = {
+  owner: 'Full control, including roles and archiving',
+  admin: 'Manages members and can edit any expense',
+  member: 'Adds and edits their own expenses',
+  viewer: 'Can only view the group',
+};
+
+/**
+ * Actions that depend only on the user's role
+ */
+export type GroupAction =
+  | 'add_expense' // As the payer
+  | 'add_expense_for_others' // With someone else as the payer
+  | 'edit_any_expense'
+  | 'record_settlement'
+  | 'invite_members'
+  | 'add_guests'
+  | 'manage_recurring'
+  | 'remove_members'
+  | 'manage_roles'
+  | 'archive_group';
+
+const ROLE_ACTIONS: Record<GroupRole, GroupAction[]> = {
+  owner: [
+    'add_expense',
+    'add_expense_for_others',
+    'edit_any_expense',
+    'record_settlement',
+    'invite_members',
+    'add_guests',
+    'manage_recurring',
+    'remove_members',
+    'manage_roles',
+    'archive_group',
+  ],
+  admin: [
+    'add_expense',
+    'add_expense_for_others',
+    'edit_any_expense',
+    'record_settlement',
+    'invite_members',
+    'add_guests',
+    'manage_recurring',
+    'remove_members',
+    'manage_roles',
+  ],
+  member: ['add_expense', 'record_settlement', 'invite_members', 'add_guests', 'manage_recurring'],
+  viewer: [],
+};
+
+export function isGroupRole(value: unknown): value is GroupRole {
+  return typeof value === 'string' && (GROUP_ROLES as string[]).includes(value);
+}
+
+/**
+ * Check whether a role allows an action
+ * @param role - User's role in the group (null if not a member)
+ * @param action - Action to check
+ */
+export function can(role: GroupRole | null | undefined, action: GroupAction): boolean {
+  return !!role && ROLE_ACTIONS[role].includes(action);
+}
+
+/**
+ * Check whether a user may edit or delete an expense: members their own,
+ * owners and admins any
+ * @param role - User's role in the group
+ * @param userId - User's ID
+ * @param paidBy - Expense's paid_by
+ */
+export function canModifyExpense(role: GroupRole | null | undefined, userId: string, paidBy: string): boolean {
+  if (can(role, 'edit_any_expense')) return true;
+  return can(role, 'add_expense') && userId === paidBy;
+}
+
+/**
+ * Roles an admin can hand out and take away. Only owners manage admins and
+ * owners.
+ */
+function managedRoles(role: GroupRole | null | undefined): GroupRole[] {
+  if (role === 'owner') return GROUP_ROLES;
+  if (role === 'admin') return ['member', 'viewer'];
+  return [];
+}
+
+/**
+ * Check whether a user may remove another member
+ * @param role - User's role
+ * @param targetRole - Role of the member to remove
+ */
+export function canRemoveMember(role: GroupRole | null | undefined, targetRole: GroupRole): boolean {
+  return can(role, 'remove_members') && managedRoles(role).includes(targetRole);
+}
+
+/**
+ * Roles a user may give another member, or [] if they cannot change that
+ * member's role at all. Nobody changes their own role.
+ * @param role - User's role
+ * @param targetRole - Member's current role
+ * @param isSelf - Whether the member is the user
+ */
+export function getAssignableRoles(
+  role: GroupRole | null | undefined,
+  targetRole: GroupRole,
+  isSelf: boolean
+): GroupRole[] {
+  if (isSelf || !can(role, 'manage_roles')) return [];
+  const roles = managedRoles(role);
+  return roles.includes(targetRole) ? roles : [];
+}
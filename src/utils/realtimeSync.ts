@@ -0,0 +1,275 @@
+/**
+ * Realtime Sync
+ * Applies row changes streamed from the database to an open group
+ *
+ * A group screen loads a snapshot of the group (expenses with their splits
+ * and payers, members and recorded payments) and then keeps it current from
+ * change events instead of reloading. Balances are recomputed from the
+ * snapshot with the same ledger used everywhere else.
+ *
+ * Events can arrive twice (after a reconnect, or for a change already in a
+ * fresh snapshot) and out of order. Every change is an upsert or removal by
+ * row id, so applying one twice is harmless, and each row remembers the
+ * commit time of the last change applied to it so older events are dropped.
+ *
+ * Pure functions only: api/realtime.ts owns the subscription.
+ */
+
+import type {
+  ExpenseWithShares,
+  MemberWithProfile,
+  PayerRow,
+  SettlementRow,
+  SplitRow,
+} from '../api/repositories';
+import { Tables } from '../types/database';
+import { buildLedger, Ledger, LedgerSettlement } from './ledger';
+
+export type RealtimeTable = 'expenses' | 'splits' | 'expense_payers' | 'settlement_transactions' | 'group_members';
+
+export interface RealtimeChange {
+  table: RealtimeTable;
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  new: Record<string, any>;
+  old: Record<string, any>; // Only the primary key for deletes
+  commit_timestamp: string;
+}
+
+/**
+ * Split or payer row of an expense
+ */
+export type SnapshotShare = SplitRow | PayerRow;
+
+export type SnapshotExpense = ExpenseWithShares;
+
+/**
+ * group_members row with the member's profile (null until loaded for members
+ * who just joined)
+ */
+export type SnapshotMember = MemberWithProfile;
+
+export type SnapshotSettlement = SettlementRow;
+
+export interface GroupSnapshot {
+  expenses: SnapshotExpense[]; // Not deleted, newest first
+  members: SnapshotMember[];
+  settlements: SnapshotSettlement[]; // settlement_transactions rows
+  legacy_payments: LedgerSettlement[]; // Old settlements table, not streamed
+}
+
+export interface RealtimeState {
+  snapshot: GroupSnapshot;
+  versions: Record<string, string>; // "table:id" -> commit time of the last change applied
+}
+
+/**
+ * Rows a change refers to that the snapshot does not have yet
+ */
+export interface MissingRows {
+  expenses: string[]; // e.g. a restored expense, whose splits are not resent
+  users: string[]; // Profiles of members who just joined
+}
+
+export interface ApplyResult {
+  state: RealtimeState;
+  missing: MissingRows;
+}
+
+export function createRealtimeState(snapshot: GroupSnapshot): RealtimeState {
+  return { snapshot, versions: {} };
+}
+
+function rowId(change: RealtimeChange): string | undefined {
+  return change.eventType === 'DELETE' ? change.old.id : change.new.id;
+}
+
+/**
+ * Sort expenses the way the group screen lists them: newest date first,
+ * then newest created
+ */
+function sortExpenses(expenses: SnapshotExpense[]): SnapshotExpense[] {
+  return [...expenses].sort(
+    (a, b) => b.date.localeCompare(a.date) || (b.created_at || '').localeCompare(a.created_at || '')
+  );
+}
+
+function upsert<T extends { id: string }>(rows: T[], row: T): T[] {
+  const index = rows.findIndex((r) => r.id === row.id);
+  if (index === -1) return [...rows, row];
+  return rows.map((r, i) => (i === index ? { ...r, ...row } : r));
+}
+
+function applyExpenseChange(
+  snapshot: GroupSnapshot,
+  change: RealtimeChange,
+  groupId: string,
+  missing: MissingRows
+): GroupSnapshot {
+  const { expenses } = snapshot;
+
+  if (change.eventType === 'DELETE') {
+    return { ...snapshot, expenses: expenses.filter((e) => e.id !== change.old.id) };
+  }
+
+  const row = change.new;
+  if (row.group_id !== groupId) return snapshot;
+
+  // Soft deletes arrive as updates
+  if (row.deleted_at) {
+    return { ...snapshot, expenses: expenses.filter((e) => e.id !== row.id) };
+  }
+
+  const existing = expenses.find((e) => e.id === row.id);
+  if (existing) {
+    // The row carries no splits or payers; keep the ones we have
+    const updated = { ...existing, ...row, splits: existing.splits, payers: existing.payers };
+    return { ...snapshot, expenses: sortExpenses(expenses.map((e) => (e.id === row.id ? updated : e))) };
+  }
+
+  if (change.eventType === 'UPDATE') {
+    // Restored expense: its splits and payers are not sent again
+    missing.expenses.push(row.id);
+    return snapshot;
+  }
+
+  // Splits and payers follow as their own inserts
+  const created = { ...row, splits: [], payers: [] } as SnapshotExpense;
+  return { ...snapshot, expenses: sortExpenses([...expenses, created]) };
+}
+
+function applyShareChange(snapshot: GroupSnapshot, change: RealtimeChange, key: 'splits' | 'payers'): GroupSnapshot {
+  if (change.eventType === 'DELETE') {
+    const id = change.old.id;
+    const owner = snapshot.expenses.find((e) => e[key].some((s) => s.id === id));
+    if (!owner) return snapshot;
+    return {
+      ...snapshot,
+      expenses: snapshot.expenses.map((e) => (e === owner ? { ...e, [key]: e[key].filter((s) => s.id !== id) } : e)),
+    };
+  }
+
+  // Rows for expenses in other groups (or not loaded) are ignored
+  const row = change.new as SnapshotShare;
+  if (!snapshot.expenses.some((e) => e.id === row.expense_id)) return snapshot;
+  return {
+    ...snapshot,
+    expenses: snapshot.expenses.map((e) => (e.id === row.expense_id ? { ...e, [key]: upsert(e[key], row) } : e)),
+  };
+}
+
+function applySettlementChange(snapshot: GroupSnapshot, change: RealtimeChange, groupId: string): GroupSnapshot {
+  if (change.eventType === 'DELETE') {
+    return { ...snapshot, settlements: snapshot.settlements.filter((s) => s.id !== change.old.id) };
+  }
+  if (change.new.group_id !== groupId) return snapshot;
+  return { ...snapshot, settlements: upsert(snapshot.settlements, change.new as SnapshotSettlement) };
+}
+
+function applyMemberChange(
+  snapshot: GroupSnapshot,
+  change: RealtimeChange,
+  groupId: string,
+  missing: MissingRows
+): GroupSnapshot {
+  if (change.eventType === 'DELETE') {
+    return { ...snapshot, members: snapshot.members.filter((m) => m.id !== change.old.id) };
+  }
+
+  const row = change.new as SnapshotMember;
+  if (row.group_id !== groupId) return snapshot;
+
+  const existing = snapshot.members.find((m) => m.id === row.id);
+  if (!existing?.users) {
+    missing.users.push(row.user_id);
+  }
+  // Keep the profile we loaded; the row only has the membership columns
+  return { ...snapshot, members: upsert(snapshot.members, { ...row, users: existing?.users ?? null }) };
+}
+
+/**
+ * Apply one change to the group
+ * @param state - Current snapshot and row versions
+ * @param change - Change streamed from the database
+ * @param groupId - Group the snapshot belongs to
+ * @returns The new state, and any rows the caller should load to complete it
+ */
+export function applyChange(state: RealtimeState, change: RealtimeChange, groupId: string): ApplyResult {
+  const missing: MissingRows = { expenses: [], users: [] };
+  const id = rowId(change);
+  if (!id) return { state, missing };
+
+  // Drop repeats and changes older than one already applied
+  const key = `${change.table}:${id}`;
+  const applied = state.versions[key];
+  if (applied && change.commit_timestamp <= applied) {
+    return { state, missing };
+  }
+
+  let snapshot = state.snapshot;
+  switch (change.table) {
+    case 'expenses':
+      snapshot = applyExpenseChange(snapshot, change, groupId, missing);
+      break;
+    case 'splits':
+      snapshot = applyShareChange(snapshot, change, 'splits');
+      break;
+    case 'expense_payers':
+      snapshot = applyShareChange(snapshot, change, 'payers');
+      break;
+    case 'settlement_transactions':
+      snapshot = applySettlementChange(snapshot, change, groupId);
+      break;
+    case 'group_members':
+      snapshot = applyMemberChange(snapshot, change, groupId, missing);
+      break;
+  }
+
+  return {
+    state: { snapshot, versions: { ...state.versions, [key]: change.commit_timestamp } },
+    missing,
+  };
+}
+
+/**
+ * Apply changes in the order they arrived
+ */
+export function applyChanges(state: RealtimeState, changes: RealtimeChange[], groupId: string): ApplyResult {
+  const missing: MissingRows = { expenses: [], users: [] };
+  for (const change of changes) {
+    const result = applyChange(state, change, groupId);
+    state = result.state;
+    missing.expenses.push(...result.missing.expenses);
+    missing.users.push(...result.missing.users);
+  }
+  return { state, missing };
+}
+
+/**
+ * Put an expense loaded on its own (with splits and payers) into the group
+ */
+export function upsertExpense(state: RealtimeState, expense: SnapshotExpense): RealtimeState {
+  if (expense.deleted_at) return state;
+  const expenses = sortExpenses(upsert(state.snapshot.expenses, expense));
+  return { ...state, snapshot: { ...state.snapshot, expenses } };
+}
+
+/**
+ * Fill in the profiles of members who just joined
+ * @param profiles - users rows, by id
+ */
+export function attachProfiles(state: RealtimeState, profiles: Tables<'users'>[]): RealtimeState {
+  const byId = new Map(profiles.map((profile) => [profile.id, profile]));
+  const members = state.snapshot.members.map((m) => (byId.has(m.user_id) ? { ...m, users: byId.get(m.user_id) } : m));
+  return { ...state, snapshot: { ...state.snapshot, members } };
+}
+
+/**
+ * Balances and payment plan for the snapshot
+ */
+export function snapshotLedger(snapshot: GroupSnapshot): Ledger {
+  const payments: LedgerSettlement[] = [
+    ...snapshot.settlements.filter((s) => s.status === 'completed'),
+    ...snapshot.legacy_payments,
+  ];
+  return buildLedger(snapshot.expenses, payments);
+}
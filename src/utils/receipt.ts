@@ -0,0 +1,163 @@
+/**
+ * Itemized Receipts
+ * Turns receipt line items plus tax, service charge and tip into splits
+ *
+ * Each item is shared evenly by the people who had it. Extra charges are
+ * then distributed in proportion to each person's item subtotal. All
+ * arithmetic is done in integer minor units, so the splits always add up
+ * to the receipt total.
+ */
+
+import { allocateMinorUnits, toMajorUnits, toMinorUnits } from './money';
+import { ValidationError } from '../validators/expenseValidator';
+import { SplitInput } from '../validators/splitValidator';
+
+export interface ReceiptItem {
+  name: string;
+  amount: number;
+  participant_ids: string[];
+}
+
+export interface ReceiptCharges {
+  tax: number;
+  service_charge: number;
+  tip: number;
+}
+
+export interface Receipt {
+  items: ReceiptItem[];
+  charges: ReceiptCharges;
+}
+
+/**
+ * What one person owes on a receipt
+ */
+export interface ReceiptShare {
+  user_id: string;
+  subtotal: number; // Their share of the items
+  charges: number; // Their share of tax, service charge and tip
+  total: number;
+}
+
+export const EMPTY_CHARGES: ReceiptCharges = { tax: 0, service_charge: 0, tip: 0 };
+
+export const CHARGE_LABELS: Record<keyof ReceiptCharges, string> = {
+  tax: 'Tax',
+  service_charge: 'Service charge',
+  tip: 'Tip',
+};
+
+/**
+ * Total of all items and charges on a receipt
+ * @param receipt - Receipt to total
+ * @returns Total in major units
+ */
+export function getReceiptTotal(receipt: Receipt): number {
+  const itemsMinor = receipt.items.reduce((sum, item) => sum + toMinorUnits(item.amount), 0);
+  return toMajorUnits(itemsMinor + getChargesMinor(receipt.charges));
+}
+
+/**
+ * Validate receipt items and charges
+ * @param receipt - Receipt to validate
+ * @returns Array of validation errors
+ */
+export function validateReceipt(receipt: Receipt): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (!receipt.items || receipt.items.length === 0) {
+    errors.push({ field: 'items', message: 'At least one item is required' });
+    return errors;
+  }
+
+  receipt.items.forEach((item, index) => {
+    const label = item.name?.trim() || `Item ${index + 1}`;
+
+    if (!item.name || !item.name.trim()) {
+      errors.push({
+        field: `items[${index}].name`,
+        message: `Item ${index + 1}: Name is required`,
+      });
+    }
+
+    if (typeof item.amount !== 'number' || isNaN(item.amount) || item.amount <= 0) {
+      errors.push({
+        field: `items[${index}].amount`,
+        message: `${label}: Amount must be greater than 0`,
+      });
+    }
+
+    if (!item.participant_ids || item.participant_ids.length === 0) {
+      errors.push({
+        field: `items[${index}].participant_ids`,
+        message: `${label}: Select at least one person`,
+      });
+    }
+  });
+
+  (Object.keys(receipt.charges) as Array<keyof ReceiptCharges>).forEach((key) => {
+    const value = receipt.charges[key];
+    if (typeof value !== 'number' || isNaN(value) || value < 0) {
+      errors.push({
+        field: `charges.${key}`,
+        message: `${CHARGE_LABELS[key]} cannot be negative`,
+      });
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Work out what each person owes on a receipt
+ * @param receipt - Validated receipt
+ * @returns One share per person, in the order they first appear on the receipt
+ */
+export function calculateReceiptShares(receipt: Receipt): ReceiptShare[] {
+  const subtotals = new Map<string, number>();
+
+  for (const item of receipt.items) {
+    const parts = allocateMinorUnits(
+      toMinorUnits(item.amount),
+      item.participant_ids.map(() => 1)
+    );
+    item.participant_ids.forEach((userId, index) => {
+      subtotals.set(userId, (subtotals.get(userId) || 0) + parts[index]);
+    });
+  }
+
+  const userIds = Array.from(subtotals.keys());
+  const subtotalMinor = userIds.map((userId) => subtotals.get(userId)!);
+  const chargesMinor = getChargesMinor(receipt.charges);
+
+  // Charges follow what each person ordered
+  const chargeParts = chargesMinor > 0 && subtotalMinor.some((m) => m > 0)
+    ? allocateMinorUnits(chargesMinor, subtotalMinor)
+    : userIds.map(() => 0);
+
+  return userIds.map((userId, index) => ({
+    user_id: userId,
+    subtotal: toMajorUnits(subtotalMinor[index]),
+    charges: toMajorUnits(chargeParts[index]),
+    total: toMajorUnits(subtotalMinor[index] + chargeParts[index]),
+  }));
+}
+
+/**
+ * Generate expense splits from a receipt
+ * @param receipt - Validated receipt
+ * @returns Splits that sum exactly to the receipt total
+ */
+export function calculateItemizedSplits(receipt: Receipt): SplitInput[] {
+  return calculateReceiptShares(receipt)
+    .filter((share) => share.total > 0)
+    .map((share) => ({ user_id: share.user_id, amount: share.total }));
+}
+
+function getChargesMinor(charges: ReceiptCharges): number {
+  return (
+    toMinorUnits(charges.tax || 0) +
+    toMinorUnits(charges.service_charge || 0) +
+    toMinorUnits(charges.tip || 0)
+  );
+}
@@ -0,0 +1,340 @@
+/**
+ * Receipt Parser
+ * Reads the total, date, merchant, currency and line items from a photo of
+ * a receipt
+ *
+ * Parsing is pluggable like the exchange rate provider. The default parser
+ * runs text recognition on the device and then applies the heuristics below
+ * to the recognized text, so no receipt leaves the phone. Anything the
+ * heuristics cannot find is left null for the user to fill in.
+ */
+
+import { CurrencyCode } from './currency';
+import { toMajorUnits, toMinorUnits } from './money';
+import { ReceiptCharges } from './receipt';
+import { validateExpenseDate } from './expenseDates';
+import { todayISO } from './recurrence';
+
+export interface ParsedReceiptItem {
+  name: string;
+  amount: number;
+}
+
+export interface ParsedReceipt {
+  merchant: string | null;
+  total: number | null;
+  date: string | null; // 'YYYY-MM-DD'
+  currency: CurrencyCode | null;
+  items: ParsedReceiptItem[];
+  charges: ReceiptCharges;
+}
+
+export interface ReceiptParser {
+  parse(imageUri: string): Promise<ParsedReceipt>;
+}
+
+/**
+ * Turns an image into the text printed on it (OCR)
+ */
+export type TextRecognizer = (imageUri: string) => Promise<string>;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_PATTERN = 'jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec';
+
+// Amounts always have two decimals; thousands may be grouped with ',' or '.'
+const AMOUNT_PATTERN = /-?\d{1,3}(?:[,.]\d{3})+[.,]\d{2}(?![\d%])|-?\d+[.,]\d{2}(?![\d%])/g;
+
+const DATE_PATTERNS: Array<{ pattern: RegExp; toParts: (m: RegExpMatchArray, monthFirst: boolean) => [number, number, number] }> = [
+  // 2025-10-14, 2025/10/14
+  {
+    pattern: /\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/,
+    toParts: (m) => [+m[1], +m[2], +m[3]],
+  },
+  // 14/10/2025, 10/14/25 (day first unless that is impossible, or the
+  // receipt is in US dollars)
+  {
+    pattern: /\b(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})\b/,
+    toParts: (m, monthFirst) => {
+      const [a, b, year] = [+m[1], +m[2], fullYear(m[3])];
+      const dayFirst = monthFirst ? a > 12 : a > 12 || b <= 12;
+      return dayFirst ? [year, b, a] : [year, a, b];
+    },
+  },
+  // 14 Oct 2025, 14-Oct-25
+  {
+    pattern: new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?[\\s./-]*(${MONTH_PATTERN})[a-z]*\\.?[\\s./,-]*(\\d{4}|\\d{2})\\b`, 'i'),
+    toParts: (m) => [fullYear(m[3]), monthNumber(m[2]), +m[1]],
+  },
+  // Oct 14, 2025
+  {
+    pattern: new RegExp(`\\b(${MONTH_PATTERN})[a-z]*\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'i'),
+    toParts: (m) => [+m[3], monthNumber(m[1]), +m[2]],
+  },
+];
+
+// Checked in order: 'S$' must win over '$'
+const CURRENCY_PATTERNS: Array<[RegExp, CurrencyCode]> = [
+  [/S\$|\bSGD\b/, 'SGD'],
+  [/₹|\bRs\.?(?=\s|\d)|\bINR\b/, 'INR'],
+  [/€|\bEUR\b/, 'EUR'],
+  [/£|\bGBP\b/, 'GBP'],
+  [/\bAED\b|\bDhs?\b/, 'AED'],
+  [/฿|\bTHB\b/, 'THB'],
+  [/¥|\bJPY\b/, 'JPY'],
+  [/\$|\bUSD\b/, 'USD'],
+];
+
+// Total labels by priority: a grand total beats a plain "Total"
+const TOTAL_LABELS: Array<[RegExp, number]> = [
+  [/grand\s*total|total\s*payable|amount\s*payable|net\s*payable|total\s*due|amount\s*due|balance\s*due/i, 2],
+  [/\btotal\b|\bnet\s*amount\b/i, 1],
+];
+const NOT_TOTAL = /sub\s*-?\s*total|total\s*(items?|qty|quantity|savings?|discount|tax|vat|gst)|(tax|vat|gst|items?)\s*total/i;
+const SUBTOTAL = /sub\s*-?\s*total/i;
+const PAYMENT = /\b(cash|change|card|visa|master\s*card|amex|tender(ed)?|paid|upi|payment|rounding|round\s*off)\b/i;
+const TAX = /\b(tax|vat|gst|cgst|sgst|igst|hst|pst|cess)\b/i;
+const SERVICE_CHARGE = /service\s*(charge|chg|fee)|\bsvc\b/i;
+const TIP = /\b(tip|gratuity)\b/i;
+const INCLUDED = /\bincl(uded|\.)?\b/i;
+const NOT_ITEM = /\b(discount|savings?|balance|due|qty|items?)\b/i;
+const NOT_MERCHANT =
+  /receipt|invoice|\bbill\b|welcome|thank|\b(gst|gstin|vat|tin|tel|ph|phone|fssai)\b|www\.|https?:|@|\border\b|\btable\b|cashier|server|\bdate\b|\btime\b/i;
+
+function fullYear(year: string): number {
+  return year.length === 2 ? 2000 + parseInt(year, 10) : parseInt(year, 10);
+}
+
+function monthNumber(name: string): number {
+  return MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+}
+
+/**
+ * Parse an amount as printed, e.g. "1,234.50" or "1.234,50"
+ */
+export function parseReceiptAmount(text: string): number {
+  const negative = text.trim().startsWith('-');
+  const digits = text.replace(/[^\d.,]/g, '');
+  const decimals = digits.slice(-2);
+  const whole = digits.slice(0, -3).replace(/[.,]/g, '');
+  const value = parseFloat(`${whole || '0'}.${decimals}`);
+  return negative ? -value : value;
+}
+
+interface ReceiptLine {
+  text: string;
+  label: string; // Text before the last amount
+  amount: number | null; // Last amount on the line
+}
+
+function readLine(text: string): ReceiptLine {
+  const matches = Array.from(text.matchAll(AMOUNT_PATTERN));
+  const last = matches[matches.length - 1];
+  if (!last || last.index === undefined) {
+    return { text, label: text, amount: null };
+  }
+  return { text, label: text.slice(0, last.index).trim(), amount: parseReceiptAmount(last[0]) };
+}
+
+function hasLetters(text: string, count: number = 2): boolean {
+  return (text.match(/[a-z]/gi) || []).length >= count;
+}
+
+function findDate(lines: string[], today: string, monthFirst: boolean): string | null {
+  for (const line of lines) {
+    for (const { pattern, toParts } of DATE_PATTERNS) {
+      const match = line.match(pattern);
+      if (!match) continue;
+
+      const [year, month, day] = toParts(match, monthFirst);
+      const date = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+      if (!validateExpenseDate(date, today)) {
+        return date;
+      }
+    }
+  }
+  return null;
+}
+
+function findCurrency(text: string): CurrencyCode | null {
+  const found = CURRENCY_PATTERNS.find(([pattern]) => pattern.test(text));
+  return found ? found[1] : null;
+}
+
+function findMerchant(lines: string[]): { name: string; index: number } | null {
+  for (let i = 0; i < Math.min(lines.length, 6); i++) {
+    const line = lines[i];
+    const letters = (line.match(/[a-z]/gi) || []).length;
+    const digits = (line.match(/\d/g) || []).length;
+    if (letters < 3 || digits > letters || NOT_MERCHANT.test(line)) continue;
+
+    return { name: titleCase(line.replace(/[*=_#~]+/g, ' ').replace(/\s+/g, ' ').trim()), index: i };
+  }
+  return null;
+}
+
+/**
+ * Title-case text printed in capitals; leave mixed case alone
+ */
+function titleCase(text: string): string {
+  if (text !== text.toUpperCase()) return text;
+  return text.toLowerCase().replace(/(^|[\s&'-])([a-z])/g, (_, start, letter) => start + letter.toUpperCase());
+}
+
+/**
+ * Index of the line holding the receipt total, and the total
+ */
+function findTotal(lines: ReceiptLine[]): { index: number; amount: number } | null {
+  let best: { index: number; amount: number; priority: number } | null = null;
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    if (NOT_TOTAL.test(line.label) || PAYMENT.test(line.label)) continue;
+    const label = TOTAL_LABELS.find(([pattern]) => pattern.test(line.label));
+    if (!label) continue;
+
+    // The amount may be printed on the line below the label
+    let amount = line.amount;
+    if (amount === null && lines[index + 1] && !hasLetters(lines[index + 1].label, 1)) {
+      amount = lines[index + 1].amount;
+    }
+    if (amount === null || amount <= 0) continue;
+
+    // Later totals of the same priority include more (e.g. after tax)
+    if (!best || label[1] >= best.priority) {
+      best = { index, amount, priority: label[1] };
+    }
+  }
+
+  if (best) {
+    return { index: best.index, amount: best.amount };
+  }
+
+  // No labelled total: the largest amount that is not a payment line
+  const amounts = lines.filter((line) => line.amount !== null && line.amount > 0 && !PAYMENT.test(line.label));
+  if (amounts.length === 0) return null;
+  const largest = amounts.reduce((max, line) => (line.amount! > max.amount! ? line : max));
+  return { index: lines.indexOf(largest), amount: largest.amount! };
+}
+
+function cleanItemName(label: string): string {
+  const name = label
+    .replace(AMOUNT_PATTERN, ' ') // Unit prices
+    .replace(/S\$|[₹€£¥฿$]|\bRs\.?|\b(INR|USD|EUR|GBP|AED|SGD|THB|JPY)\b/g, ' ')
+    .replace(/^\s*\d+\s*[x@*]\s*/i, '') // "2 x Coffee"
+    .replace(/\s*[x@*]\s*\d*\s*$/i, '') // "Coffee x2", "Coffee @"
+    .replace(/(\s+\d+)+\s*$/, '') // Quantity column
+    .replace(/^[\s\d.:-]+(?=[a-z])/i, '') // Item codes
+    .replace(/\s+/g, ' ')
+    .trim();
+  return titleCase(name);
+}
+
+/**
+ * Pull what we can out of the text recognized on a receipt
+ * @param text - OCR output, one printed line per line
+ * @param today - Today's date; dates after it are ignored
+ * @returns Parsed receipt; fields that could not be found are null or empty
+ */
+export function parseReceiptText(text: string, today: string = todayISO()): ParsedReceipt {
+  const rawLines = text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+
+  const currency = findCurrency(text);
+  const date = findDate(rawLines, today, currency === 'USD');
+  const merchant = findMerchant(rawLines);
+
+  // Dates would otherwise read as amounts ("14.10.2025")
+  const lines = rawLines.map((line) =>
+    readLine(DATE_PATTERNS.reduce((stripped, { pattern }) => stripped.replace(pattern, ' '), line))
+  );
+  const total = findTotal(lines);
+
+  // Items come after the header and before the first (sub)total; charges
+  // anywhere above the total
+  const end = total ? total.index : lines.length;
+  const firstTotal = lines.findIndex((line, index) => index < end && (SUBTOTAL.test(line.label) || TOTAL_LABELS.some(([p]) => p.test(line.label))));
+  const itemsEnd = firstTotal === -1 ? end : firstTotal;
+
+  const charges: ReceiptCharges = { tax: 0, service_charge: 0, tip: 0 };
+  const items: ParsedReceiptItem[] = [];
+
+  lines.slice(0, end).forEach((line, index) => {
+    if (line.amount === null || line.amount <= 0 || (merchant && index <= merchant.index)) return;
+
+    const charge = INCLUDED.test(line.label)
+      ? null
+      : SERVICE_CHARGE.test(line.label)
+        ? 'service_charge'
+        : TIP.test(line.label)
+          ? 'tip'
+          : TAX.test(line.label)
+            ? 'tax'
+            : null;
+    if (charge) {
+      charges[charge] = toMajorUnits(toMinorUnits(charges[charge]) + toMinorUnits(line.amount));
+      return;
+    }
+
+    if (index >= itemsEnd || PAYMENT.test(line.label) || NOT_ITEM.test(line.label)) return;
+    const name = cleanItemName(line.label);
+    if (hasLetters(name)) {
+      items.push({ name, amount: line.amount });
+    }
+  });
+
+  return {
+    merchant: merchant ? merchant.name : null,
+    total: total ? total.amount : null,
+    date,
+    currency,
+    items,
+    charges,
+  };
+}
+
+/**
+ * Whether the parsed items and charges add up to the total, i.e. the
+ * receipt can be split item by item as read
+ */
+export function itemsMatchTotal(receipt: ParsedReceipt): boolean {
+  if (receipt.total === null || receipt.items.length === 0) return false;
+
+  const itemsMinor = receipt.items.reduce((sum, item) => sum + toMinorUnits(item.amount), 0);
+  const chargesMinor = Object.values(receipt.charges).reduce((sum, charge) => sum + toMinorUnits(charge), 0);
+  return itemsMinor + chargesMinor === toMinorUnits(receipt.total);
+}
+
+/**
+ * Expense form fields to fill in from a scanned receipt
+ * The description and amount are only filled in if the user has not typed
+ * them already.
+ * @param receipt - Parsed receipt
+ * @param form - Description and amount as currently typed
+ * @returns Fields to set; fields left out keep their value
+ */
+export function receiptFormValues(
+  receipt: ParsedReceipt,
+  form: { description: string; amount: string }
+): { description?: string; amount?: string; date?: string; currency?: CurrencyCode } {
+  const values: { description?: string; amount?: string; date?: string; currency?: CurrencyCode } = {};
+  if (receipt.merchant && !form.description.trim()) values.description = receipt.merchant;
+  if (receipt.total !== null && !form.amount.trim()) values.amount = receipt.total.toFixed(2);
+  if (receipt.date && !validateExpenseDate(receipt.date)) values.date = receipt.date;
+  if (receipt.currency) values.currency = receipt.currency;
+  return values;
+}
+
+/**
+ * Create a parser that recognizes the text on the image and then parses it
+ * @param recognizeText - OCR engine
+ * @returns Receipt parser
+ */
+export function createTextReceiptParser(recognizeText: TextRecognizer): ReceiptParser {
+  return {
+    async parse(imageUri: string): Promise<ParsedReceipt> {
+      return parseReceiptText(await recognizeText(imageUri));
+    },
+  };
+}
@@ -0,0 +1,207 @@
+/**
+ * Recurrence Rules
+ * Schedule engine for recurring expenses
+ *
+ * Dates are plain calendar dates ('YYYY-MM-DD') and all arithmetic is done
+ * in UTC so results do not depend on the device time zone. Every occurrence
+ * is computed from the start date rather than from the previous occurrence,
+ * so a rent due on the 31st comes back to the 31st after a short month.
+ */
+
+import { ValidationError } from '../validators/expenseValidator';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['daily', 'weekly', 'monthly', 'yearly'];
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // Every N days/weeks/months/years
+  start_date: string; // First occurrence
+  end_date?: string | null; // Last possible occurrence (inclusive)
+  skipped_dates?: string[]; // Occurrences that should not be generated
+}
+
+// Upper bound on occurrences produced in one call, guards against bad rules
+const MAX_OCCURRENCES = 1000;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Check that a string is a real calendar date in 'YYYY-MM-DD' form
+ */
+export function isValidDate(value: string): boolean {
+  if (!value || !DATE_PATTERN.test(value)) return false;
+  const date = parseDate(value);
+  return !isNaN(date.getTime()) && formatDate(date) === value;
+}
+
+/**
+ * Today's date in 'YYYY-MM-DD' form (local calendar date)
+ */
+export function todayISO(now: Date = new Date()): string {
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  return `${now.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Validate a recurrence rule
+ * @param rule - Rule to validate
+ * @returns Array of validation errors
+ */
+export function validateRecurrenceRule(rule: RecurrenceRule): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (!RECURRENCE_FREQUENCIES.includes(rule.frequency)) {
+    errors.push({ field: 'frequency', message: 'Frequency must be daily, weekly, monthly or yearly' });
+  }
+
+  if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+    errors.push({ field: 'interval', message: 'Repeat interval must be a whole number of at least 1' });
+  }
+
+  if (!isValidDate(rule.start_date)) {
+    errors.push({ field: 'start_date', message: 'Start date must be a valid date (YYYY-MM-DD)' });
+  }
+
+  if (rule.end_date) {
+    if (!isValidDate(rule.end_date)) {
+      errors.push({ field: 'end_date', message: 'End date must be a valid date (YYYY-MM-DD)' });
+    } else if (isValidDate(rule.start_date) && rule.end_date < rule.start_date) {
+      errors.push({ field: 'end_date', message: 'End date cannot be before start date' });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Nth occurrence of a rule, ignoring end date and skips
+ * @param rule - Recurrence rule
+ * @param n - Zero-based occurrence index
+ * @returns Date in 'YYYY-MM-DD' form
+ */
+export function getNthOccurrence(rule: RecurrenceRule, n: number): string {
+  const start = parseDate(rule.start_date);
+  const step = n * rule.interval;
+
+  switch (rule.frequency) {
+    case 'daily':
+      return formatDate(addDays(start, step));
+    case 'weekly':
+      return formatDate(addDays(start, step * 7));
+    case 'monthly':
+      return formatDate(addMonths(start, step));
+    case 'yearly':
+      return formatDate(addMonths(start, step * 12));
+    default:
+      throw new Error(`Unknown frequency: ${rule.frequency}`);
+  }
+}
+
+/**
+ * All occurrences of a rule within a date range
+ * Skipped dates are left out; the end date is respected.
+ * @param rule - Recurrence rule
+ * @param from - First date to include
+ * @param to - Last date to include
+ * @returns Dates in ascending order
+ */
+export function getOccurrences(rule: RecurrenceRule, from: string, to: string): string[] {
+  return listOccurrences(rule, from, to, new Set(rule.skipped_dates || []));
+}
+
+/**
+ * Occurrences that are due but have not been generated yet
+ * @param rule - Recurrence rule
+ * @param today - Current date; occurrences on or before it are due
+ * @param generatedDates - Occurrence dates that already have an expense
+ * @returns Dates still to generate, oldest first
+ */
+export function getDueOccurrences(
+  rule: RecurrenceRule,
+  today: string,
+  generatedDates: string[] = []
+): string[] {
+  // Generated dates are left out before the cap, so a long-running rule
+  // still reaches the dates after its first MAX_OCCURRENCES
+  const excluded = new Set([...(rule.skipped_dates || []), ...generatedDates]);
+  return listOccurrences(rule, rule.start_date, today, excluded);
+}
+
+/**
+ * First occurrence after a date
+ * @param rule - Recurrence rule
+ * @param after - Date to search from (exclusive)
+ * @returns Next date, or null if the rule has ended
+ */
+export function getNextOccurrence(rule: RecurrenceRule, after: string): string | null {
+  const skipped = new Set(rule.skipped_dates || []);
+
+  for (let n = 0; n < MAX_OCCURRENCES * 10; n++) {
+    const date = getNthOccurrence(rule, n);
+    if (rule.end_date && date > rule.end_date) return null;
+    if (date > after && !skipped.has(date)) return date;
+  }
+
+  return null;
+}
+
+/**
+ * Human-readable description, e.g. "Every 2 weeks"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const units: Record<RecurrenceFrequency, string> = {
+    daily: 'day',
+    weekly: 'week',
+    monthly: 'month',
+    yearly: 'year',
+  };
+  const unit = units[rule.frequency];
+  const every = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+  return rule.end_date ? `${every} until ${rule.end_date}` : every;
+}
+
+/**
+ * Occurrences within a date range, leaving out excluded dates, at most
+ * MAX_OCCURRENCES of them
+ */
+function listOccurrences(rule: RecurrenceRule, from: string, to: string, excluded: Set<string>): string[] {
+  const last = rule.end_date && rule.end_date < to ? rule.end_date : to;
+  const occurrences: string[] = [];
+
+  for (let n = 0; n < MAX_OCCURRENCES * 10; n++) {
+    const date = getNthOccurrence(rule, n);
+    if (date > last) break;
+    if (date >= from && !excluded.has(date)) {
+      occurrences.push(date);
+      if (occurrences.length >= MAX_OCCURRENCES) break;
+    }
+  }
+
+  return occurrences;
+}
+
+function parseDate(value: string): Date {
+  const [year, month, day] = value.split('-').map((part) => parseInt(part, 10));
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days));
+}
+
+/**
+ * Add months, clamping to the last day of shorter months (Jan 31 → Feb 28)
+ */
+function addMonths(date: Date, months: number): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(date.getUTCDate(), lastDay)));
+}
@@ -0,0 +1,45 @@
+/**
+ * Restore Window
+ * How long a soft-deleted expense can still be restored
+ */
+
+export const RESTORE_WINDOW_HOURS = 24;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface RestoreWindow {
+  can_restore: boolean;
+  hours_remaining: number; // Whole hours left, rounded up; 0 once expired
+}
+
+/**
+ * Work out whether a deleted expense can still be restored
+ * @param deletedAt - When the expense was deleted (ISO timestamp)
+ * @param now - Current time
+ * @returns Whether restore is allowed and how many hours are left
+ */
+export function getRestoreWindow(deletedAt: string, now: Date = new Date()): RestoreWindow {
+  const deletedTime = new Date(deletedAt).getTime();
+  if (isNaN(deletedTime)) {
+    return { can_restore: false, hours_remaining: 0 };
+  }
+
+  const remainingMs = deletedTime + RESTORE_WINDOW_HOURS * HOUR_MS - now.getTime();
+  if (remainingMs <= 0) {
+    return { can_restore: false, hours_remaining: 0 };
+  }
+
+  return {
+    can_restore: true,
+    hours_remaining: Math.min(RESTORE_WINDOW_HOURS, Math.ceil(remainingMs / HOUR_MS)),
+  };
+}
+
+/**
+ * Earliest deletion time that is still inside the restore window
+ * @param now - Current time
+ * @returns ISO timestamp
+ */
+export function getRestoreCutoff(now: Date = new Date()): string {
+  return new Date(now.getTime() - RESTORE_WINDOW_HOURS * HOUR_MS).toISOString();
+}
@@ -3,6 +3,11 @@
  * Comprehensive validation for expense data
  */
 
+import { toMajorUnits, toMinorUnits } from '../utils/money';
+import { createError, ErrorCode } from '../utils/errorHandler';
+
+export const NOTES_MAX_LENGTH = 500;
+
 export interface ValidationError {
   field: string;
   message: string;
@@ -12,6 +17,7 @@ export interface ExpenseInput {
   description: string;
   amount: number;
   date?: string;
+  notes?: string | null;
   paid_by: string;
   splits: Array<{ user_id: string; amount: number }>;
   group_id?: string;
@@ -38,6 +44,14 @@ export function validateExpense(expense: ExpenseInput): ValidationError[] {
     });
   }
 
+  // Validate notes (optional)
+  if (expense.notes && expense.notes.length > NOTES_MAX_LENGTH) {
+    errors.push({
+      field: 'notes',
+      message: `Notes must be ${NOTES_MAX_LENGTH} characters or less`,
+    });
+  }
+
   // Validate amount
   if (typeof expense.amount !== 'number' || isNaN(expense.amount)) {
     errors.push({
@@ -112,15 +126,14 @@ export function validateExpense(expense: ExpenseInput): ValidationError[] {
       }
     });
 
-    // Validate splits sum to total (within 0.01 tolerance)
-    const splitSum = expense.splits.reduce((sum, s) => sum + s.amount, 0);
-    const roundedSum = parseFloat(splitSum.toFixed(2));
-    const roundedAmount = parseFloat(expense.amount.toFixed(2));
+    // Validate splits sum to total exactly (in minor units)
+    const splitSumMinor = expense.splits.reduce((sum, s) => sum + toMinorUnits(s.amount), 0);
+    const amountMinor = toMinorUnits(expense.amount);
 
-    if (Math.abs(roundedSum - roundedAmount) > 0.01) {
+    if (splitSumMinor !== amountMinor) {
       errors.push({
         field: 'splits',
-        message: `Splits total (₹${roundedSum.toFixed(2)}) must equal expense amount (₹${roundedAmount.toFixed(2)})`,
+        message: `Splits total (₹${toMajorUnits(splitSumMinor).toFixed(2)}) must equal expense amount (₹${toMajorUnits(amountMinor).toFixed(2)})`,
       });
     }
 
@@ -147,6 +160,18 @@ export function isValidExpense(expense: ExpenseInput): boolean {
   return validateExpense(expense).length === 0;
 }
 
+/**
+ * Validate expense data and throw if it is invalid
+ * @param expense - Expense to validate
+ * @throws AppError with code VALIDATION_ERROR; details.errors lists every problem
+ */
+export function assertValidExpense(expense: ExpenseInput): void {
+  const errors = validateExpense(expense);
+  if (errors.length > 0) {
+    throw createError(ErrorCode.VALIDATION_ERROR, errors[0].message, { errors });
+  }
+}
+
 /**
  * Get first validation error message
  * @param expense - Expense to validate
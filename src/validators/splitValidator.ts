@@ -4,21 +4,48 @@
  */
 
 import { ValidationError } from './expenseValidator';
+import { allocateMinorUnits, toMajorUnits, toMinorUnits } from '../utils/money';
+import { formatCurrency } from '../utils/errorHandler';
+import { DEFAULT_CURRENCY } from '../utils/currency';
 
 export interface SplitInput {
   user_id: string;
   amount: number;
 }
 
+/**
+ * How an expense's splits were entered
+ * - equal: total divided evenly
+ * - custom: exact amount per person
+ * - shares: total divided by share count (e.g. room size)
+ * - percentage: percent of the total per person, summing to 100
+ * - adjustment: equal split of what is left after per-person adjustments
+ * - itemized: calculated from receipt line items (see utils/receipt)
+ */
+export type SplitType = 'equal' | 'custom' | 'shares' | 'percentage' | 'adjustment' | 'itemized';
+
+export const SPLIT_TYPES: SplitType[] = ['equal', 'custom', 'shares', 'percentage', 'adjustment', 'itemized'];
+
+/**
+ * Value entered for one person in a split mode
+ * (amount, share count, percentage or adjustment; ignored for equal)
+ */
+export interface SplitModeInput {
+  user_id: string;
+  value: number;
+}
+
 /**
  * Validate splits sum to total amount
  * @param splits - Array of splits
  * @param totalAmount - Total expense amount
+ * @param currency - Expense currency, for amounts in messages
  * @returns Array of validation errors
  */
 export function validateSplits(
   splits: SplitInput[],
-  totalAmount: number
+  totalAmount: number,
+  currency: string = DEFAULT_CURRENCY
 ): ValidationError[] {
   const errors: ValidationError[] = [];
 
@@ -67,15 +94,14 @@ export function validateSplits(
     }
   });
 
-  // Validate sum equals total (with tolerance for rounding)
-  const sum = splits.reduce((acc, s) => acc + s.amount, 0);
-  const roundedSum = parseFloat(sum.toFixed(2));
-  const roundedTotal = parseFloat(totalAmount.toFixed(2));
+  // Validate sum equals total exactly (in minor units)
+  const sumMinor = splits.reduce((acc, s) => acc + toMinorUnits(s.amount), 0);
+  const totalMinor = toMinorUnits(totalAmount);
 
-  if (Math.abs(roundedSum - roundedTotal) > 0.01) {
+  if (sumMinor !== totalMinor) {
     errors.push({
       field: 'splits',
-      message: `Splits total (₹${roundedSum.toFixed(2)}) must equal expense amount (₹${roundedTotal.toFixed(2)})`,
+      message: `Splits total (${formatCurrency(toMajorUnits(sumMinor), currency)}) must equal expense amount (${formatCurrency(toMajorUnits(totalMinor), currency)})`,
     });
   }
 
@@ -117,8 +143,14 @@ export function isEqualSplit(
 ): boolean {
   if (splits.length === 0) return false;
 
-  const equalAmount = totalAmount / splits.length;
-  return splits.every((split) => Math.abs(split.amount - equalAmount) < 0.01);
+  // Equal means every split is the even share, give or take the one minor
+  // unit of remainder
+  const floorShare = Math.floor(toMinorUnits(totalAmount) / splits.length);
+
+  return splits.every((split) => {
+    const minor = toMinorUnits(split.amount);
+    return minor === floorShare || minor === floorShare + 1;
+  });
 }
 
 /**
@@ -133,23 +165,163 @@ export function distributeEvenly(
 ): SplitInput[] {
   if (userIds.length === 0) return [];
 
-  const perPerson = totalAmount / userIds.length;
-  const roundedPerPerson = parseFloat(perPerson.toFixed(2));
+  // Earlier people get the leftover minor units, so the sum is always exact
+  const parts = allocateMinorUnits(
+    toMinorUnits(totalAmount),
+    userIds.map(() => 1)
+  );
+
+  return userIds.map((userId, index) => ({
+    user_id: userId,
+    amount: toMajorUnits(parts[index]),
+  }));
+}
+
+/**
+ * Validate the values entered for a split mode
+ * @param splitType - Split mode
+ * @param inputs - Value per person
+ * @param totalAmount - Total expense amount
+ * @param currency - Expense currency, for amounts in messages
+ * @returns Array of validation errors
+ */
+export function validateSplitInputs(
+  splitType: SplitType,
+  inputs: SplitModeInput[],
+  totalAmount: number,
+  currency: string = DEFAULT_CURRENCY
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (!SPLIT_TYPES.includes(splitType)) {
+    errors.push({ field: 'splitType', message: `Unknown split type: ${splitType}` });
+    return errors;
+  }
+
+  if (!inputs || inputs.length === 0) {
+    errors.push({ field: 'splits', message: 'At least one split is required' });
+    return errors;
+  }
+
+  if (splitType === 'equal') {
+    return errors;
+  }
+
+  if (splitType === 'itemized') {
+    errors.push({ field: 'splitType', message: 'Itemized splits are calculated from receipt items' });
+    return errors;
+  }
+
+  inputs.forEach((input, index) => {
+    if (typeof input.value !== 'number' || isNaN(input.value)) {
+      errors.push({
+        field: `splits[${index}].value`,
+        message: `Split ${index + 1}: Value must be a number`,
+      });
+    } else if (splitType !== 'adjustment' && input.value <= 0) {
+      errors.push({
+        field: `splits[${index}].value`,
+        message: `Split ${index + 1}: Value must be greater than 0`,
+      });
+    }
+  });
+
+  if (errors.length > 0) {
+    return errors;
+  }
 
-  return userIds.map((userId, index) => {
-    // Last person gets any rounding difference
-    if (index === userIds.length - 1) {
-      const othersTotal = roundedPerPerson * (userIds.length - 1);
-      const lastAmount = totalAmount - othersTotal;
-      return {
+  if (splitType === 'percentage') {
+    // Compare percentages to two decimal places
+    const percentTotal = inputs.reduce((sum, input) => sum + toMinorUnits(input.value), 0);
+    if (percentTotal !== 100 * 100) {
+      errors.push({
+        field: 'splits',
+        message: `Percentages total ${toMajorUnits(percentTotal)}% but must equal 100%`,
+      });
+    }
+  }
+
+  if (splitType === 'adjustment') {
+    const adjustmentTotal = inputs.reduce((sum, input) => sum + toMinorUnits(input.value), 0);
+    if (adjustmentTotal > toMinorUnits(totalAmount)) {
+      errors.push({
+        field: 'splits',
+        message: `Adjustments (${formatCurrency(toMajorUnits(adjustmentTotal), currency)}) cannot exceed expense amount (${formatCurrency(totalAmount, currency)})`,
+      });
+      return errors;
+    }
+
+    // A negative adjustment larger than the person's equal part would leave
+    // them with a negative share
+    calculateSplits(splitType, inputs, totalAmount).forEach((split, index) => {
+      if (split.amount < 0) {
+        errors.push({
+          field: `splits[${index}].value`,
+          message: `Split ${index + 1}: An adjustment of ${formatCurrency(inputs[index].value, currency)} leaves a share of ${formatCurrency(split.amount, currency)}. Shares cannot be negative.`,
+        });
+      }
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Resolve the values entered for a split mode into split amounts
+ * Amounts always sum exactly to the total; leftover minor units go to the
+ * earlier people. Validate the inputs first with validateSplitInputs.
+ * @param splitType - Split mode
+ * @param inputs - Value per person
+ * @param totalAmount - Total expense amount
+ * @returns Array of splits
+ */
+export function calculateSplits(
+  splitType: SplitType,
+  inputs: SplitModeInput[],
+  totalAmount: number
+): SplitInput[] {
+  if (inputs.length === 0) return [];
+
+  const totalMinor = toMinorUnits(totalAmount);
+  const userIds = inputs.map((input) => input.user_id);
+
+  switch (splitType) {
+    case 'equal':
+      return distributeEvenly(userIds, totalAmount);
+
+    case 'custom':
+      return inputs.map((input) => ({
+        user_id: input.user_id,
+        amount: toMajorUnits(toMinorUnits(input.value)),
+      }));
+
+    case 'shares':
+    case 'percentage': {
+      const parts = allocateMinorUnits(
+        totalMinor,
+        inputs.map((input) => input.value)
+      );
+      return userIds.map((userId, index) => ({
         user_id: userId,
-        amount: parseFloat(lastAmount.toFixed(2)),
-      };
+        amount: toMajorUnits(parts[index]),
+      }));
     }
 
-    return {
-      user_id: userId,
-      amount: roundedPerPerson,
-    };
-  });
+    case 'adjustment': {
+      // Everyone splits what is left after adjustments, then adds their own
+      const adjustments = inputs.map((input) => toMinorUnits(input.value || 0));
+      const remaining = totalMinor - adjustments.reduce((sum, a) => sum + a, 0);
+      const parts = allocateMinorUnits(remaining, userIds.map(() => 1));
+      return userIds.map((userId, index) => ({
+        user_id: userId,
+        amount: toMajorUnits(parts[index] + adjustments[index]),
+      }));
+    }
+
+    case 'itemized':
+      throw new Error('Itemized splits are calculated from receipt items');
+
+    default:
+      throw new Error(`Unknown split type: ${splitType}`);
+  }
 }
@@ -0,0 +1,240 @@
+-- Users Table (extends Supabase auth)
+-- Registered users share their id with auth.users. Guests (people in a group
+-- who have no account) also get a row, so expenses, splits and settlements
+-- can reference them; they have no email and belong to a single group.
+create table if not exists users (
+  id uuid primary key default gen_random_uuid(),
+  email text unique,
+  name text,
+  avatar_url text,
+  is_guest boolean not null default false,
+  claimed_by uuid references users(id) on delete set null, -- Account that took over this guest
+  created_at timestamp default now(),
+  updated_at timestamp default now(),
+  check (is_guest or email is not null)
+);
+
+-- Guests have no auth.users row, so the id can no longer reference it.
+-- on_auth_user_deleted (below) removes the profile when an account is deleted.
+alter table users drop constraint if exists users_id_fkey;
+alter table users alter column id set default gen_random_uuid();
+alter table users alter column email drop not null;
+alter table users add column if not exists is_guest boolean not null default false;
+alter table users add column if not exists claimed_by uuid references users(id) on delete set null;
+alter table users drop constraint if exists users_check;
+alter table users add constraint users_check check (is_guest or email is not null);
+
+-- Enable Row Level Security
+alter table users enable row level security;
+
+-- Drop existing policies if present (helps re-running this script safely)
+drop policy if exists "Users can read their own profile" on users;
+drop policy if exists "Allow reading user records" on users;
+drop policy if exists "Users can update their own profile" on users;
+drop policy if exists "Users can insert their own profile" on users;
+drop policy if exists "Users can see their groups" on groups;
+drop policy if exists "Group creator can update" on groups;
+drop policy if exists "Group creator can delete" on groups;
+drop policy if exists "Group owner can update" on groups;
+drop policy if exists "Group owner can delete" on groups;
+drop policy if exists "Users can create groups" on groups;
+drop policy if exists "Allow all for testing" on groups;
+drop policy if exists "Users can see group members" on group_members;
+drop policy if exists "Group creator can add members" on group_members;
+drop policy if exists "Members can leave and creator can remove members" on group_members;
+drop policy if exists "Owners and admins can add members" on group_members;
+drop policy if exists "Owners and admins can change roles" on group_members;
+drop policy if exists "Members can leave and admins can remove members" on group_members;
+drop policy if exists "Users can see group expenses" on expenses;
+drop policy if exists "Expense payer can update" on expenses;
+drop policy if exists "Expense payer can delete" on expenses;
+drop policy if exists "Users can create expenses" on expenses;
+drop policy if exists "Payer or admin can update expenses" on expenses;
+drop policy if exists "Payer or admin can delete expenses" on expenses;
+drop policy if exists "Members can create expenses" on expenses;
+drop policy if exists "Users can see expense payers" on expense_payers;
+drop policy if exists "Expense creator can create payers" on expense_payers;
+drop policy if exists "Expense payer can delete payers" on expense_payers;
+drop policy if exists "Expense editors can create payers" on expense_payers;
+drop policy if exists "Expense editors can delete payers" on expense_payers;
+drop policy if exists "Users can see expense splits" on splits;
+drop policy if exists "Expense payer can create splits" on splits;
+drop policy if exists "Expense payer can delete splits" on splits;
+drop policy if exists "Expense editors can create splits" on splits;
+drop policy if exists "Expense editors can delete splits" on splits;
+drop policy if exists "Users can see group settlements" on settlements;
+
+-- RLS Policy: Users can read their own profile
+create policy "Users can read their own profile"
+  on users for select
+  using (auth.uid() = id);
+
+-- RLS Policy: Allow reading any user record (for FK checks and member lists)
+create policy "Allow reading user records"
+  on users for select
+  using (auth.role() = 'authenticated');
+
+-- RLS Policy: Users can update their own profile
+create policy "Users can update their own profile"
+  on users for update
+  using (auth.uid() = id);
+
+-- RLS Policy: Users can insert their own profile
+create policy "Users can insert their own profile"
+  on users for insert
+  with check (auth.uid() = id);
+
+-- Groups Table
+create table if not exists groups (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  description text,
+  created_by uuid not null references users(id) on delete cascade,
+  base_currency text not null default 'INR',
+  archived_at timestamptz, -- Archived groups are read-only
+  created_at timestamp default now(),
+  updated_at timestamp default now()
+);
+
+-- Base currency for existing groups (balances are netted in this currency)
+alter table groups add column if not exists base_currency text not null default 'INR';
+
+alter table groups add column if not exists archived_at timestamptz;
+
+alter table groups enable row level security;
+
+-- Group a guest was added to (guests are never shared between groups)
+alter table users add column if not exists guest_group_id uuid references groups(id) on delete cascade;
+
+-- Group Members Table (create before RLS policies that reference it)
+create table if not exists group_members (
+  id uuid primary key default gen_random_uuid(),
+  group_id uuid not null references groups(id) on delete cascade,
+  user_id uuid not null references users(id) on delete cascade,
+  role text not null default 'member' check (role in ('owner', 'admin', 'member', 'viewer')),
+  joined_at timestamp default now(),
+  unique(group_id, user_id)
+);
+
+-- Member roles (keep in sync with src/utils/permissions.ts):
+--   owner  - everything, including roles and archiving; the creator
+--   admin  - manage members and edit any expense, e.g. a treasurer entering
+--            expenses paid by others
+--   member - add and edit expenses they paid, record payments, invite
+--   viewer - read only
+alter table group_members add column if not exists role text not null default 'member'
+  check (role in ('owner', 'admin', 'member', 'viewer'));
+
+-- Creators of existing groups become their owners
+update group_members set role = 'owner'
+from groups
+where groups.id = group_members.group_id
+and groups.created_by = group_members.user_id
+and group_members.role = 'member';
+
+alter table group_members enable row level security;
+
+-- The signed-in user's role in a group, or null if they are not a member.
+-- Security definer so policies on group_members can use it without
+-- recursing into their own table.
+create or replace function group_role(p_group_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from group_members where group_id = p_group_id and user_id = auth.uid();
+$$;
+
+-- Whether the signed-in user has one of the given roles in a group
+create or replace function has_group_role(p_group_id uuid, p_roles text[])
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(group_role(p_group_id) = any(p_roles), false);
+$$;
+
+-- RLS Policy: Users can see groups they're members of
+create policy "Users can see their groups"
+  on groups for select
+  using (
+    exists (
+      select 1 from group_members
+      where group_members.group_id = groups.id
+      and group_members.user_id = auth.uid()
+    )
+  );
+
+-- RLS Policy: Group owners can update/delete (rename, archive)
+create policy "Group owner can update"
+  on groups for update
+  using (has_group_role(id, array['owner']));
+
+create policy "Group owner can delete"
+  on groups for delete
+  using (has_group_role(id, array['owner']));
+
+-- RLS Policy: Users can create groups
+create policy "Users can create groups"
+  on groups for insert
+  with check (auth.uid() = created_by);
+
+-- RLS Policy: Users can see members of groups they're in
+drop policy if exists "Users can see group members" on group_members;
+-- NOTE: original policy referenced the same table which can cause recursion
+-- For now allow authenticated users to read group_members so clients can
+-- list members. Tighten this policy later if needed.
+create policy "Users can see group members"
+  on group_members for select
+  using (auth.role() = 'authenticated');
+
+-- RLS Policy: Owners and admins can add members; only owners can add
+-- owners. The creator adds themselves as owner when creating the group.
+create policy "Owners and admins can add members"
+  on group_members for insert
+  with check (
+    exists (
+      select 1 from groups
+      where groups.id = group_members.group_id
+      and groups.created_by = auth.uid()
+    )
+    or has_group_role(group_id, array['owner'])
+    or (has_group_role(group_id, array['admin']) and role <> 'owner')
+  );
+
+-- RLS Policy: Owners can change anyone else's role; admins can move people
+-- between member and viewer. Nobody changes their own role, so a group
+-- always keeps an owner.
+create policy "Owners and admins can change roles"
+  on group_members for update
+  using (
+    user_id <> auth.uid()
+    and (
+      has_group_role(group_id, array['owner'])
+      or (has_group_role(group_id, array['admin']) and role in ('member', 'viewer'))
+    )
+  )
+  with check (
+    has_group_role(group_id, array['owner'])
+    or (has_group_role(group_id, array['admin']) and role in ('member', 'viewer'))
+  );
+
+-- RLS Policy: Members can leave a group; owners can remove anyone else and
+-- admins can remove members and viewers. Owners cannot leave (archive the
+-- group instead). The app checks that the member's balance is settled first.
+create policy "Members can leave and admins can remove members"
+  on group_members for delete
+  using (
+    (user_id = auth.uid() and role <> 'owner')
+    or (
+      user_id <> auth.uid()
+      and (
+        has_group_role(group_id, array['owner'])
+        or (has_group_role(group_id, array['admin']) and role in ('member', 'viewer'))
+      )
+    )
+  );
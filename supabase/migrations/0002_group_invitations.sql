@@ -0,0 +1,219 @@
+-- Group Invitations
+-- Members invite people by email (the invitee sees it in the app once they
+-- sign in with that address) or share a join code / invite link. Every
+-- invitation expires. Joining goes through the security definer functions
+-- below, because an invitee is not yet allowed to add themselves to
+-- group_members or read the group.
+
+-- gen_random_bytes for join codes
+create extension if not exists pgcrypto;
+
+-- Random 8 character code. The alphabet has no 0/O or 1/I/L so codes can be
+-- read aloud; keep it in sync with src/utils/invitations.ts.
+create or replace function generate_join_code()
+returns text
+language plpgsql
+as $$
+declare
+  alphabet constant text := 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+  bytes bytea := gen_random_bytes(8);
+  code text := '';
+begin
+  for i in 0..7 loop
+    code := code || substr(alphabet, (get_byte(bytes, i) % length(alphabet)) + 1, 1);
+  end loop;
+  return code;
+end;
+$$;
+
+create table if not exists group_invitations (
+  id uuid primary key default gen_random_uuid(),
+  group_id uuid not null references groups(id) on delete cascade,
+  invited_by uuid not null default auth.uid() references users(id) on delete cascade,
+  email text check (email is null or email = lower(email)), -- Null for join codes
+  code text not null unique default generate_join_code(),
+  status text not null default 'pending' check (status in ('pending', 'accepted', 'declined', 'revoked')),
+  expires_at timestamptz not null,
+  use_count integer not null default 0, -- People who joined with this code
+  responded_by uuid references users(id) on delete set null,
+  responded_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+-- One pending email invitation per person per group
+create unique index if not exists idx_group_invitations_pending_email
+  on group_invitations(group_id, email)
+  where status = 'pending' and email is not null;
+
+alter table group_invitations enable row level security;
+
+drop policy if exists "Members and invitees can see invitations" on group_invitations;
+drop policy if exists "Group members can invite" on group_invitations;
+drop policy if exists "Group members can revoke invitations" on group_invitations;
+
+-- RLS Policy: Group members see their group's invitations; invitees see
+-- invitations sent to their email address
+create policy "Members and invitees can see invitations"
+  on group_invitations for select
+  using (
+    exists (
+      select 1 from group_members
+      where group_members.group_id = group_invitations.group_id
+      and group_members.user_id = auth.uid()
+    )
+    or group_invitations.email = (select lower(email) from users where id = auth.uid())
+  );
+
+-- RLS Policy: Group members (not viewers) can invite others as themselves
+create policy "Group members can invite"
+  on group_invitations for insert
+  with check (
+    invited_by = auth.uid()
+    and status = 'pending'
+    and has_group_role(group_id, array['owner', 'admin', 'member'])
+  );
+
+-- RLS Policy: Group members (not viewers) can revoke pending invitations
+create policy "Group members can revoke invitations"
+  on group_invitations for update
+  using (has_group_role(group_id, array['owner', 'admin', 'member']))
+  with check (status in ('pending', 'revoked'));
+
+-- Group details for a join code, shown before the user decides to join
+create or replace function get_join_code_preview(p_code text)
+returns table (
+  group_id uuid,
+  group_name text,
+  invited_by_name text,
+  expires_at timestamptz,
+  member_count bigint,
+  already_member boolean
+)
+language sql
+security definer
+set search_path = public
+stable
+as $$
+  select
+    g.id,
+    g.name,
+    coalesce(u.name, u.email),
+    i.expires_at,
+    (select count(*) from group_members gm where gm.group_id = g.id),
+    exists (select 1 from group_members gm where gm.group_id = g.id and gm.user_id = auth.uid())
+  from group_invitations i
+  join groups g on g.id = i.group_id
+  left join users u on u.id = i.invited_by
+  where i.code = upper(p_code)
+  and i.email is null
+  and i.status = 'pending'
+  and i.expires_at > now();
+$$;
+
+-- Join a group with a code. Returns the group ID.
+create or replace function join_group_with_code(p_code text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_invitation group_invitations;
+begin
+  if auth.uid() is null then
+    raise exception 'Permission denied: sign in to join a group' using errcode = '42501';
+  end if;
+
+  select * into v_invitation from group_invitations
+  where code = upper(p_code)
+  and email is null
+  and status = 'pending'
+  and expires_at > now()
+  for update;
+
+  if not found then
+    raise exception 'This join code is invalid or has expired' using errcode = '22023';
+  end if;
+
+  insert into group_members (group_id, user_id)
+  values (v_invitation.group_id, auth.uid())
+  on conflict (group_id, user_id) do nothing;
+
+  if found then
+    update group_invitations set use_count = use_count + 1 where id = v_invitation.id;
+  end if;
+
+  return v_invitation.group_id;
+end;
+$$;
+
+-- Pending, unexpired email invitations for the signed-in user
+create or replace function get_my_invitations()
+returns table (
+  id uuid,
+  group_id uuid,
+  group_name text,
+  invited_by_name text,
+  expires_at timestamptz
+)
+language sql
+security definer
+set search_path = public
+stable
+as $$
+  select i.id, g.id, g.name, coalesce(u.name, u.email), i.expires_at
+  from group_invitations i
+  join groups g on g.id = i.group_id
+  left join users u on u.id = i.invited_by
+  where i.email = (select lower(email) from users where users.id = auth.uid())
+  and i.status = 'pending'
+  and i.expires_at > now()
+  and not exists (
+    select 1 from group_members gm where gm.group_id = i.group_id and gm.user_id = auth.uid()
+  )
+  order by i.created_at desc;
+$$;
+
+-- Accept or decline an email invitation addressed to the signed-in user.
+-- Returns the group ID.
+create or replace function respond_to_invitation(p_invitation_id uuid, p_accept boolean)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_invitation group_invitations;
+begin
+  select * into v_invitation from group_invitations
+  where id = p_invitation_id
+  and email = (select lower(email) from users where users.id = auth.uid())
+  for update;
+
+  if not found then
+    raise exception 'Invitation not found' using errcode = 'P0002';
+  end if;
+
+  if v_invitation.status <> 'pending' then
+    raise exception 'This invitation has already been %', v_invitation.status using errcode = '22023';
+  end if;
+
+  if p_accept and v_invitation.expires_at <= now() then
+    raise exception 'This invitation has expired' using errcode = '22023';
+  end if;
+
+  if p_accept then
+    insert into group_members (group_id, user_id)
+    values (v_invitation.group_id, auth.uid())
+    on conflict (group_id, user_id) do nothing;
+  end if;
+
+  update group_invitations set
+    status = case when p_accept then 'accepted' else 'declined' end,
+    responded_by = auth.uid(),
+    responded_at = now()
+  where id = p_invitation_id;
+
+  return v_invitation.group_id;
+end;
+$$;
@@ -0,0 +1,165 @@
+-- Expenses Table
+create table if not exists expenses (
+  id uuid primary key default gen_random_uuid(),
+  group_id uuid not null references groups(id) on delete cascade,
+  description text not null,
+  amount decimal(10, 2) not null,
+  paid_by uuid not null references users(id) on delete cascade,
+  date date not null,
+  category text,
+  notes text,
+  currency text not null default 'INR',
+  exchange_rate decimal(18, 8) not null default 1 check (exchange_rate > 0),
+  split_type text check (split_type in ('equal', 'custom', 'shares', 'percentage', 'adjustment', 'itemized')),
+  deleted_at timestamptz,
+  deleted_by uuid references users(id) on delete set null,
+  created_at timestamp default now(),
+  updated_at timestamp default now()
+);
+
+-- Original currency of the expense and the rate used to convert it into the
+-- group's base currency (amount * exchange_rate = base currency amount)
+alter table expenses add column if not exists currency text not null default 'INR';
+alter table expenses add column if not exists exchange_rate decimal(18, 8) not null default 1;
+
+-- How the splits were entered, so the expense can be edited in the same mode.
+-- Null for expenses created before split modes existed.
+alter table expenses add column if not exists split_type text
+  check (split_type in ('equal', 'custom', 'shares', 'percentage', 'adjustment', 'itemized'));
+
+-- Soft delete: deleted expenses are hidden from lists and balances and can
+-- be restored for 24 hours
+alter table expenses add column if not exists deleted_at timestamptz;
+alter table expenses add column if not exists deleted_by uuid references users(id) on delete set null;
+
+alter table expenses enable row level security;
+
+-- RLS Policy: Users can see expenses in groups they're members of
+create policy "Users can see group expenses"
+  on expenses for select
+  using (
+    exists (
+      select 1 from group_members
+      where group_members.group_id = expenses.group_id
+      and group_members.user_id = auth.uid()
+    )
+  );
+
+-- RLS Policy: Members can update/delete expenses they paid; owners and
+-- admins can update/delete any expense in the group
+create policy "Payer or admin can update expenses"
+  on expenses for update
+  using (
+    (auth.uid() = paid_by and has_group_role(group_id, array['owner', 'admin', 'member']))
+    or has_group_role(group_id, array['owner', 'admin'])
+  );
+
+create policy "Payer or admin can delete expenses"
+  on expenses for delete
+  using (
+    (auth.uid() = paid_by and has_group_role(group_id, array['owner', 'admin', 'member']))
+    or has_group_role(group_id, array['owner', 'admin'])
+  );
+
+-- RLS Policy: Members can create expenses they paid; owners and admins can
+-- enter expenses paid by anyone in the group
+create policy "Members can create expenses"
+  on expenses for insert
+  with check (
+    (auth.uid() = paid_by and has_group_role(group_id, array['owner', 'admin', 'member']))
+    or has_group_role(group_id, array['owner', 'admin'])
+  );
+
+-- Whether the signed-in user may change an expense's payers, splits and
+-- items (the same rule as editing the expense itself)
+create or replace function can_edit_expense(p_expense_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from expenses
+    where expenses.id = p_expense_id
+    and (
+      (expenses.paid_by = auth.uid() and has_group_role(expenses.group_id, array['owner', 'admin', 'member']))
+      or has_group_role(expenses.group_id, array['owner', 'admin'])
+    )
+  );
+$$;
+
+-- Expense Payers Table (tracks multiple payers for one expense)
+create table if not exists expense_payers (
+  id uuid primary key default gen_random_uuid(),
+  expense_id uuid not null references expenses(id) on delete cascade,
+  user_id uuid not null references users(id) on delete cascade,
+  amount decimal(10, 2) not null,
+  created_at timestamp default now(),
+  unique(expense_id, user_id)
+);
+
+alter table expense_payers enable row level security;
+
+-- RLS Policy: Users can see expense payers for expenses in their groups
+create policy "Users can see expense payers"
+  on expense_payers for select
+  using (
+    exists (
+      select 1 from expenses
+      join group_members on group_members.group_id = expenses.group_id
+      where expenses.id = expense_payers.expense_id
+      and group_members.user_id = auth.uid()
+    )
+  );
+
+-- RLS Policy: Whoever can edit the expense can add payers
+create policy "Expense editors can create payers"
+  on expense_payers for insert
+  with check (can_edit_expense(expense_id));
+
+-- RLS Policy: Whoever can edit the expense can remove payers (replaced when
+-- the expense is edited)
+create policy "Expense editors can delete payers"
+  on expense_payers for delete
+  using (can_edit_expense(expense_id));
+
+-- Splits Table (tracks who owes what on an expense)
+create table if not exists splits (
+  id uuid primary key default gen_random_uuid(),
+  expense_id uuid not null references expenses(id) on delete cascade,
+  user_id uuid not null references users(id) on delete cascade,
+  amount decimal(10, 2) not null,
+  split_value decimal(12, 4),
+  created_at timestamp default now(),
+  unique(expense_id, user_id)
+);
+
+-- Value entered for the split mode (share count, percentage or adjustment);
+-- amount is always the resolved share of the expense
+alter table splits add column if not exists split_value decimal(12, 4);
+
+alter table splits enable row level security;
+
+-- RLS Policy: Users can see splits for expenses they're members of
+create policy "Users can see expense splits"
+  on splits for select
+  using (
+    exists (
+      select 1 from expenses
+      join group_members on group_members.group_id = expenses.group_id
+      where expenses.id = splits.expense_id
+      and group_members.user_id = auth.uid()
+    )
+  );
+
+-- RLS Policy: Whoever can edit the expense can create splits
+create policy "Expense editors can create splits"
+  on splits for insert
+  with check (can_edit_expense(expense_id));
+
+-- RLS Policy: Whoever can edit the expense can remove splits (replaced when
+-- the expense is edited)
+create policy "Expense editors can delete splits"
+  on splits for delete
+  using (can_edit_expense(expense_id));
@@ -0,0 +1,76 @@
+-- Expense Items Table (receipt line items and charges for itemized expenses)
+create table if not exists expense_items (
+  id uuid primary key default gen_random_uuid(),
+  expense_id uuid not null references expenses(id) on delete cascade,
+  kind text not null default 'item' check (kind in ('item', 'tax', 'service_charge', 'tip')),
+  name text not null,
+  amount decimal(10, 2) not null check (amount >= 0),
+  position integer not null default 0,
+  created_at timestamp default now()
+);
+
+-- Who had each item (charges have no participants)
+create table if not exists expense_item_participants (
+  item_id uuid not null references expense_items(id) on delete cascade,
+  user_id uuid not null references users(id) on delete cascade,
+  primary key (item_id, user_id)
+);
+
+alter table expense_items enable row level security;
+alter table expense_item_participants enable row level security;
+
+drop policy if exists "Users can see expense items" on expense_items;
+drop policy if exists "Expense payer can manage items" on expense_items;
+drop policy if exists "Users can see expense item participants" on expense_item_participants;
+drop policy if exists "Expense payer can manage item participants" on expense_item_participants;
+drop policy if exists "Expense editors can manage items" on expense_items;
+drop policy if exists "Expense editors can manage item participants" on expense_item_participants;
+
+-- RLS Policy: Users can see items for expenses in their groups
+create policy "Users can see expense items"
+  on expense_items for select
+  using (
+    exists (
+      select 1 from expenses
+      join group_members on group_members.group_id = expenses.group_id
+      where expenses.id = expense_items.expense_id
+      and group_members.user_id = auth.uid()
+    )
+  );
+
+-- RLS Policy: Whoever can edit the expense can add, change and remove items
+create policy "Expense editors can manage items"
+  on expense_items for all
+  using (can_edit_expense(expense_id))
+  with check (can_edit_expense(expense_id));
+
+-- RLS Policy: Users can see item participants for expenses in their groups
+create policy "Users can see expense item participants"
+  on expense_item_participants for select
+  using (
+    exists (
+      select 1 from expense_items
+      join expenses on expenses.id = expense_items.expense_id
+      join group_members on group_members.group_id = expenses.group_id
+      where expense_items.id = expense_item_participants.item_id
+      and group_members.user_id = auth.uid()
+    )
+  );
+
+-- RLS Policy: Whoever can edit the expense can manage item participants
+create policy "Expense editors can manage item participants"
+  on expense_item_participants for all
+  using (
+    exists (
+      select 1 from expense_items
+      where expense_items.id = expense_item_participants.item_id
+      and can_edit_expense(expense_items.expense_id)
+    )
+  )
+  with check (
+    exists (
+      select 1 from expense_items
+      where expense_items.id = expense_item_participants.item_id
+      and can_edit_expense(expense_items.expense_id)
+    )
+  );
@@ -0,0 +1,97 @@
+-- Expense Attachments Table (receipt photos and PDFs)
+-- The files live in the private "receipts" storage bucket at
+-- <group_id>/<expense_id>/<file>; this table lists them per expense. Rows go
+-- with the expense, but storage objects must be removed through the Storage
+-- API: the app removes them once a deleted expense can no longer be restored.
+create table if not exists expense_attachments (
+  id uuid primary key default gen_random_uuid(),
+  expense_id uuid not null references expenses(id) on delete cascade,
+  uploaded_by uuid references users(id) on delete set null,
+  storage_path text not null unique,
+  file_name text not null,
+  content_type text not null
+    check (content_type in ('image/jpeg', 'image/png', 'image/webp', 'image/heic', 'application/pdf')),
+  size_bytes integer not null check (size_bytes > 0 and size_bytes <= 10485760),
+  created_at timestamptz default now()
+);
+
+alter table expense_attachments enable row level security;
+
+drop policy if exists "Users can see expense attachments" on expense_attachments;
+drop policy if exists "Expense editors can add attachments" on expense_attachments;
+drop policy if exists "Expense editors can delete attachments" on expense_attachments;
+
+-- RLS Policy: Users can see attachments for expenses in their groups
+create policy "Users can see expense attachments"
+  on expense_attachments for select
+  using (
+    exists (
+      select 1 from expenses
+      join group_members on group_members.group_id = expenses.group_id
+      where expenses.id = expense_attachments.expense_id
+      and group_members.user_id = auth.uid()
+    )
+  );
+
+-- RLS Policy: Whoever can edit the expense can add attachments as themselves
+create policy "Expense editors can add attachments"
+  on expense_attachments for insert
+  with check (can_edit_expense(expense_id) and uploaded_by = auth.uid());
+
+-- RLS Policy: Whoever can edit the expense can remove attachments
+create policy "Expense editors can delete attachments"
+  on expense_attachments for delete
+  using (can_edit_expense(expense_id));
+
+-- Private bucket for attachment files (10 MB each, same types as above)
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'receipts',
+  'receipts',
+  false,
+  10485760,
+  array['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'application/pdf']
+)
+on conflict (id) do nothing;
+
+drop policy if exists "Group members can read receipts" on storage.objects;
+drop policy if exists "Expense editors can upload receipts" on storage.objects;
+drop policy if exists "Expense editors can delete receipts" on storage.objects;
+
+-- Storage Policy: Group members can read their group's files (the first
+-- folder is the group ID)
+create policy "Group members can read receipts"
+  on storage.objects for select
+  using (
+    bucket_id = 'receipts'
+    and exists (
+      select 1 from group_members
+      where group_members.group_id::text = (storage.foldername(name))[1]
+      and group_members.user_id = auth.uid()
+    )
+  );
+
+-- Storage Policy: Whoever can edit the expense (the second folder) can
+-- upload and remove its files
+create policy "Expense editors can upload receipts"
+  on storage.objects for insert
+  with check (
+    bucket_id = 'receipts'
+    and exists (
+      select 1 from expenses
+      where expenses.id::text = (storage.foldername(name))[2]
+      and expenses.group_id::text = (storage.foldername(name))[1]
+      and can_edit_expense(expenses.id)
+    )
+  );
+
+create policy "Expense editors can delete receipts"
+  on storage.objects for delete
+  using (
+    bucket_id = 'receipts'
+    and exists (
+      select 1 from expenses
+      where expenses.id::text = (storage.foldername(name))[2]
+      and can_edit_expense(expenses.id)
+    )
+  );
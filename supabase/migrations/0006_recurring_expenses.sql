@@ -0,0 +1,48 @@
+-- Recurring Expenses Table (templates that generate an expense on a schedule)
+create table if not exists recurring_expenses (
+  id uuid primary key default gen_random_uuid(),
+  group_id uuid not null references groups(id) on delete cascade,
+  created_by uuid not null references users(id) on delete cascade,
+  description text not null,
+  amount decimal(10, 2) not null check (amount > 0),
+  currency text not null default 'INR',
+  split_type text,
+  payers jsonb not null default '[]', -- [{ "user_id": ..., "amount": ... }]
+  splits jsonb not null default '[]', -- [{ "user_id": ..., "amount": ..., "value": ... }]
+  frequency text not null check (frequency in ('daily', 'weekly', 'monthly', 'yearly')),
+  interval integer not null default 1 check (interval >= 1),
+  start_date date not null,
+  end_date date check (end_date is null or end_date >= start_date),
+  skipped_dates date[] not null default '{}',
+  active boolean not null default true,
+  last_generated_date date,
+  created_at timestamp default now(),
+  updated_at timestamp default now()
+);
+
+-- Link generated expenses back to their template. The unique index makes
+-- generation idempotent: each occurrence can only be inserted once.
+alter table expenses add column if not exists recurring_expense_id uuid references recurring_expenses(id) on delete set null;
+alter table expenses add column if not exists occurrence_date date;
+
+alter table recurring_expenses enable row level security;
+
+drop policy if exists "Users can see group recurring expenses" on recurring_expenses;
+drop policy if exists "Group members can manage recurring expenses" on recurring_expenses;
+
+-- RLS Policy: Users can see recurring expenses in their groups
+create policy "Users can see group recurring expenses"
+  on recurring_expenses for select
+  using (
+    exists (
+      select 1 from group_members
+      where group_members.group_id = recurring_expenses.group_id
+      and group_members.user_id = auth.uid()
+    )
+  );
+
+-- RLS Policy: Group members (not viewers) can create, change and remove templates
+create policy "Group members can manage recurring expenses"
+  on recurring_expenses for all
+  using (has_group_role(group_id, array['owner', 'admin', 'member']))
+  with check (has_group_role(group_id, array['owner', 'admin', 'member']));
@@ -0,0 +1,35 @@
+-- Group Categories (custom expense categories for one group)
+-- expenses.category holds a category key: one of the built-in keys in
+-- src/utils/categories.ts or a key from this table. Deleting a category
+-- leaves existing expenses filed under its key.
+create table if not exists group_categories (
+  id uuid primary key default gen_random_uuid(),
+  group_id uuid not null references groups(id) on delete cascade,
+  key text not null check (key ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  name text not null check (length(trim(name)) between 1 and 30),
+  icon text,
+  created_at timestamp default now(),
+  unique(group_id, key)
+);
+
+alter table group_categories enable row level security;
+
+drop policy if exists "Users can see group categories" on group_categories;
+drop policy if exists "Group members can manage categories" on group_categories;
+
+-- RLS Policy: Users can see the categories of groups they're members of
+create policy "Users can see group categories"
+  on group_categories for select
+  using (
+    exists (
+      select 1 from group_members
+      where group_members.group_id = group_categories.group_id
+      and group_members.user_id = auth.uid()
+    )
+  );
+
+-- RLS Policy: Group members (not viewers) can add and remove categories
+create policy "Group members can manage categories"
+  on group_categories for all
+  using (has_group_role(group_id, array['owner', 'admin', 'member']))
+  with check (has_group_role(group_id, array['owner', 'admin', 'member']));
@@ -0,0 +1,58 @@
+-- Settlements Table (tracks payments between users)
+create table if not exists settlements (
+  id uuid primary key default gen_random_uuid(),
+  group_id uuid not null references groups(id) on delete cascade,
+  from_user_id uuid not null references users(id) on delete cascade,
+  to_user_id uuid not null references users(id) on delete cascade,
+  amount decimal(10, 2) not null,
+  settled_at timestamp default now(),
+  notes text,
+  created_at timestamp default now()
+);
+
+alter table settlements enable row level security;
+
+-- RLS Policy: Users can see settlements in groups they're members of
+create policy "Users can see group settlements"
+  on settlements for select
+  using (
+    exists (
+      select 1 from group_members
+      where group_members.group_id = settlements.group_id
+      and group_members.user_id = auth.uid()
+    )
+  );
+
+-- Settlement Transactions Table (payments recorded from the app)
+create table if not exists settlement_transactions (
+  id uuid primary key default gen_random_uuid(),
+  group_id uuid not null references groups(id) on delete cascade,
+  payer_id uuid not null references users(id) on delete cascade,
+  payee_id uuid not null references users(id) on delete cascade,
+  amount decimal(10, 2) not null check (amount > 0),
+  status text not null default 'pending' check (status in ('pending', 'completed')),
+  created_at timestamp default now(),
+  completed_at timestamp,
+  check (payer_id <> payee_id)
+);
+
+alter table settlement_transactions enable row level security;
+
+drop policy if exists "Users can see group settlement transactions" on settlement_transactions;
+drop policy if exists "Group members can record settlements" on settlement_transactions;
+
+-- RLS Policy: Users can see settlement transactions in groups they're members of
+create policy "Users can see group settlement transactions"
+  on settlement_transactions for select
+  using (
+    exists (
+      select 1 from group_members
+      where group_members.group_id = settlement_transactions.group_id
+      and group_members.user_id = auth.uid()
+    )
+  );
+
+-- RLS Policy: Group members (not viewers) can record settlements in their groups
+create policy "Group members can record settlements"
+  on settlement_transactions for insert
+  with check (has_group_role(group_id, array['owner', 'admin', 'member']));
@@ -0,0 +1,61 @@
+-- Audit Log Table (append-only history of changes to expenses and settlements)
+create table if not exists audit_log (
+  id uuid primary key default gen_random_uuid(),
+  group_id uuid not null references groups(id) on delete cascade,
+  entity_type text not null check (entity_type in ('expense', 'settlement')),
+  entity_id uuid not null,
+  action text not null check (action in ('create', 'update', 'delete', 'restore')),
+  actor_id uuid not null default auth.uid() references users(id) on delete cascade,
+  entity_label text, -- Description of the expense when the event happened
+  changes jsonb not null default '[]', -- [{ "field": ..., "from": ..., "to": ... }]
+  created_at timestamptz not null default now()
+);
+
+alter table audit_log enable row level security;
+
+drop policy if exists "Users can see group audit log" on audit_log;
+drop policy if exists "Group members can append to audit log" on audit_log;
+
+-- RLS Policy: Users can see the history of groups they're members of
+create policy "Users can see group audit log"
+  on audit_log for select
+  using (
+    exists (
+      select 1 from group_members
+      where group_members.group_id = audit_log.group_id
+      and group_members.user_id = auth.uid()
+    )
+  );
+
+-- RLS Policy: Members can add events as themselves. There are no update or
+-- delete policies, so entries cannot be changed once written.
+create policy "Group members can append to audit log"
+  on audit_log for insert
+  with check (
+    actor_id = auth.uid()
+    and exists (
+      select 1 from group_members
+      where group_members.group_id = audit_log.group_id
+      and group_members.user_id = auth.uid()
+    )
+  );
+
+-- Reject updates and deletes, including from roles that bypass RLS. Deletes
+-- are only allowed once the group itself is gone, so deleting a group still
+-- cascades to its history.
+create or replace function prevent_audit_log_changes()
+returns trigger as $$
+begin
+  if tg_op = 'DELETE' and not exists (select 1 from groups where id = old.group_id) then
+    return old;
+  end if;
+  raise exception 'audit_log is append-only';
+end;
+$$ language plpgsql;
+
+drop trigger if exists audit_log_append_only on audit_log;
+
+create trigger audit_log_append_only
+  before update or delete on audit_log
+  for each row
+  execute function prevent_audit_log_changes();
@@ -0,0 +1,190 @@
+-- Atomic Expense Writes
+-- Each function runs as a single transaction, so a failed split or payer
+-- insert rolls back the whole write instead of leaving an expense without
+-- splits. They run with the caller's permissions and the RLS policies above
+-- still apply. Business rule violations are raised with SQLSTATE 22023
+-- (invalid_parameter_value) so clients can show the message as-is.
+
+-- Replace an expense's payers and/or splits; null leaves that list untouched.
+-- Each list is a JSON array of { "user_id", "amount" } (splits may also
+-- carry the split mode "value").
+create or replace function replace_expense_shares(
+  p_expense_id uuid,
+  p_payers jsonb,
+  p_splits jsonb
+)
+returns void
+language plpgsql
+as $$
+begin
+  if p_payers is not null then
+    delete from expense_payers where expense_id = p_expense_id;
+
+    insert into expense_payers (expense_id, user_id, amount)
+    select p_expense_id, payer.user_id, round(payer.amount, 2)
+    from jsonb_to_recordset(p_payers) as payer(user_id uuid, amount numeric);
+  end if;
+
+  if p_splits is not null then
+    delete from splits where expense_id = p_expense_id;
+
+    insert into splits (expense_id, user_id, amount, split_value)
+    select p_expense_id, split.user_id, round(split.amount, 2), split.value
+    from jsonb_to_recordset(p_splits) as split(user_id uuid, amount numeric, value numeric);
+  end if;
+end;
+$$;
+
+-- Check that splits (and payers, when the expense has payer rows) add up to
+-- the expense amount
+create or replace function check_expense_totals(p_expense_id uuid)
+returns void
+language plpgsql
+as $$
+declare
+  v_amount numeric;
+  v_split_total numeric;
+  v_split_count integer;
+  v_payer_total numeric;
+  v_payer_count integer;
+begin
+  select amount into v_amount from expenses where id = p_expense_id;
+
+  select coalesce(sum(amount), 0), count(*) into v_split_total, v_split_count
+  from splits where expense_id = p_expense_id;
+
+  if v_split_count = 0 then
+    raise exception 'At least one split is required' using errcode = '22023';
+  end if;
+
+  if v_split_total <> v_amount then
+    raise exception 'Splits total (%) must equal expense amount (%)', v_split_total, v_amount
+      using errcode = '22023';
+  end if;
+
+  if exists (select 1 from splits where expense_id = p_expense_id and amount <= 0) then
+    raise exception 'All split amounts must be greater than 0' using errcode = '22023';
+  end if;
+
+  select coalesce(sum(amount), 0), count(*) into v_payer_total, v_payer_count
+  from expense_payers where expense_id = p_expense_id;
+
+  if v_payer_count > 0 and v_payer_total <> v_amount then
+    raise exception 'Payer amounts (%) must equal expense amount (%)', v_payer_total, v_amount
+      using errcode = '22023';
+  end if;
+end;
+$$;
+
+-- Create an expense with its payers and splits. The first payer becomes
+-- paid_by, so the caller must be that payer unless they are an owner or admin.
+-- Drop the signatures from before categories and notes, which would make
+-- calls ambiguous
+drop function if exists create_expense_with_splits(uuid, text, numeric, jsonb, jsonb, date, text, numeric, text, uuid, date);
+drop function if exists create_expense_with_splits(uuid, text, numeric, jsonb, jsonb, date, text, numeric, text, uuid, date, text);
+create or replace function create_expense_with_splits(
+  p_group_id uuid,
+  p_description text,
+  p_amount numeric,
+  p_payers jsonb,
+  p_splits jsonb,
+  p_date date default null,
+  p_currency text default 'INR',
+  p_exchange_rate numeric default 1,
+  p_split_type text default null,
+  p_recurring_expense_id uuid default null,
+  p_occurrence_date date default null,
+  p_category text default null,
+  p_notes text default null
+)
+returns expenses
+language plpgsql
+as $$
+declare
+  v_expense expenses;
+begin
+  if p_payers is null or jsonb_array_length(p_payers) = 0 then
+    raise exception 'At least one payer is required' using errcode = '22023';
+  end if;
+
+  insert into expenses (
+    group_id, description, amount, paid_by, date, currency, exchange_rate,
+    split_type, recurring_expense_id, occurrence_date, category, notes
+  )
+  values (
+    p_group_id,
+    p_description,
+    round(p_amount, 2),
+    (p_payers -> 0 ->> 'user_id')::uuid,
+    coalesce(p_date, current_date),
+    coalesce(p_currency, 'INR'),
+    coalesce(p_exchange_rate, 1),
+    p_split_type,
+    p_recurring_expense_id,
+    p_occurrence_date,
+    nullif(p_category, ''),
+    nullif(trim(p_notes), '')
+  )
+  returning * into v_expense;
+
+  perform replace_expense_shares(v_expense.id, p_payers, coalesce(p_splits, '[]'::jsonb));
+  perform check_expense_totals(v_expense.id);
+
+  return v_expense;
+end;
+$$;
+
+-- Update an expense and replace its payers and/or splits in one step.
+-- Null parameters leave the current value unchanged; an empty category or
+-- notes clears it. Old signatures are dropped first, as above.
+drop function if exists update_expense_with_splits(uuid, text, numeric, date, uuid, text, jsonb, jsonb);
+drop function if exists update_expense_with_splits(uuid, text, numeric, date, uuid, text, jsonb, jsonb, text);
+create or replace function update_expense_with_splits(
+  p_expense_id uuid,
+  p_description text default null,
+  p_amount numeric default null,
+  p_date date default null,
+  p_paid_by uuid default null,
+  p_split_type text default null,
+  p_payers jsonb default null,
+  p_splits jsonb default null,
+  p_category text default null,
+  p_notes text default null
+)
+returns expenses
+language plpgsql
+as $$
+declare
+  v_expense expenses;
+begin
+  select * into v_expense from expenses where id = p_expense_id;
+
+  if not found then
+    raise exception 'Expense not found' using errcode = 'P0002';
+  end if;
+
+  if v_expense.deleted_at is not null then
+    raise exception 'Deleted expenses cannot be edited. Restore it first.' using errcode = '22023';
+  end if;
+
+  update expenses set
+    description = coalesce(p_description, description),
+    amount = coalesce(round(p_amount, 2), amount),
+    date = coalesce(p_date, date),
+    paid_by = coalesce((p_payers -> 0 ->> 'user_id')::uuid, p_paid_by, paid_by),
+    split_type = coalesce(p_split_type, split_type),
+    category = case when p_category is null then category else nullif(p_category, '') end,
+    notes = case when p_notes is null then notes else nullif(trim(p_notes), '') end
+  where id = p_expense_id
+  returning * into v_expense;
+
+  if not found then
+    raise exception 'Permission denied: you cannot edit this expense' using errcode = '42501';
+  end if;
+
+  perform replace_expense_shares(p_expense_id, p_payers, p_splits);
+  perform check_expense_totals(p_expense_id);
+
+  return v_expense;
+end;
+$$;
@@ -0,0 +1,158 @@
+-- Guest Members
+-- Guests are added by any group member. A registered member can later claim
+-- a guest: everything recorded for the guest moves to their account. Both
+-- functions are security definer because they write users rows that do not
+-- belong to the caller.
+
+-- Add a guest to a group. Returns the guest's user ID.
+create or replace function add_guest_member(p_group_id uuid, p_name text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_name text := trim(p_name);
+  v_guest_id uuid;
+begin
+  if not has_group_role(p_group_id, array['owner', 'admin', 'member']) then
+    raise exception 'Only group members can add guests' using errcode = '42501';
+  end if;
+
+  if coalesce(v_name, '') = '' then
+    raise exception 'Guest name is required' using errcode = '22023';
+  end if;
+
+  if exists (
+    select 1 from group_members gm
+    join users u on u.id = gm.user_id
+    where gm.group_id = p_group_id and lower(trim(u.name)) = lower(v_name)
+  ) then
+    raise exception 'Someone called % is already in this group', v_name using errcode = '22023';
+  end if;
+
+  insert into users (name, is_guest, guest_group_id)
+  values (v_name, true, p_group_id)
+  returning id into v_guest_id;
+
+  insert into group_members (group_id, user_id)
+  values (p_group_id, v_guest_id);
+
+  return v_guest_id;
+end;
+$$;
+
+-- Move one user's entries in a payers/splits JSON list to another user,
+-- adding the amounts together if both are in the list
+create or replace function merge_share_list(p_list jsonb, p_from uuid, p_to uuid)
+returns jsonb
+language sql
+immutable
+as $$
+  select coalesce(jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+    'user_id', merged.user_id,
+    'amount', merged.amount,
+    'value', merged.value
+  )) order by merged.position), '[]'::jsonb)
+  from (
+    select
+      case when (e.share ->> 'user_id')::uuid = p_from then p_to else (e.share ->> 'user_id')::uuid end as user_id,
+      sum((e.share ->> 'amount')::numeric) as amount,
+      sum((e.share ->> 'value')::numeric) as value,
+      min(e.position) as position
+    from jsonb_array_elements(p_list) with ordinality as e(share, position)
+    group by 1
+  ) merged;
+$$;
+
+-- Claim a guest for the signed-in user, who must already be a member of the
+-- guest's group. Where both have a share of the same expense the amounts are
+-- added together, and payments between the two are dropped. The guest row is
+-- kept (marked claimed) so old history still shows a name. Returns the group ID.
+create or replace function claim_guest_member(p_guest_id uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_guest users;
+  v_user_id uuid := auth.uid();
+begin
+  select * into v_guest from users where id = p_guest_id and is_guest for update;
+
+  if not found then
+    raise exception 'Guest not found' using errcode = 'P0002';
+  end if;
+
+  if v_guest.claimed_by is not null then
+    raise exception '% has already been claimed', v_guest.name using errcode = '22023';
+  end if;
+
+  if not exists (
+    select 1 from group_members where group_id = v_guest.guest_group_id and user_id = v_user_id
+  ) then
+    raise exception 'Join the group before claiming a guest' using errcode = '42501';
+  end if;
+
+  -- Payers: add to the user's row when both paid for the same expense
+  update expense_payers p set amount = p.amount + g.amount
+  from expense_payers g
+  where g.user_id = p_guest_id and p.user_id = v_user_id and p.expense_id = g.expense_id;
+
+  delete from expense_payers g
+  where g.user_id = p_guest_id
+  and exists (select 1 from expense_payers p where p.expense_id = g.expense_id and p.user_id = v_user_id);
+
+  update expense_payers set user_id = v_user_id where user_id = p_guest_id;
+
+  -- Splits: same, keeping the split mode value when both have one
+  update splits s set
+    amount = s.amount + g.amount,
+    split_value = s.split_value + g.split_value
+  from splits g
+  where g.user_id = p_guest_id and s.user_id = v_user_id and s.expense_id = g.expense_id;
+
+  delete from splits g
+  where g.user_id = p_guest_id
+  and exists (select 1 from splits s where s.expense_id = g.expense_id and s.user_id = v_user_id);
+
+  update splits set user_id = v_user_id where user_id = p_guest_id;
+
+  delete from expense_item_participants g
+  where g.user_id = p_guest_id
+  and exists (
+    select 1 from expense_item_participants p where p.item_id = g.item_id and p.user_id = v_user_id
+  );
+
+  update expense_item_participants set user_id = v_user_id where user_id = p_guest_id;
+
+  update expenses set paid_by = v_user_id where paid_by = p_guest_id;
+
+  update recurring_expenses set
+    payers = merge_share_list(payers, p_guest_id, v_user_id),
+    splits = merge_share_list(splits, p_guest_id, v_user_id)
+  where group_id = v_guest.guest_group_id;
+
+  -- Payments between the guest and the user are now payments to themselves
+  delete from settlement_transactions
+  where (payer_id = p_guest_id and payee_id = v_user_id)
+  or (payer_id = v_user_id and payee_id = p_guest_id);
+
+  update settlement_transactions set payer_id = v_user_id where payer_id = p_guest_id;
+  update settlement_transactions set payee_id = v_user_id where payee_id = p_guest_id;
+
+  delete from settlements
+  where (from_user_id = p_guest_id and to_user_id = v_user_id)
+  or (from_user_id = v_user_id and to_user_id = p_guest_id);
+
+  update settlements set from_user_id = v_user_id where from_user_id = p_guest_id;
+  update settlements set to_user_id = v_user_id where to_user_id = p_guest_id;
+
+  delete from group_members where user_id = p_guest_id;
+
+  update users set claimed_by = v_user_id where id = p_guest_id;
+
+  return v_guest.guest_group_id;
+end;
+$$;
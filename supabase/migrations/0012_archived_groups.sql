@@ -0,0 +1,50 @@
+-- Archived Groups
+-- Archived groups stay visible but read-only: block new members, invitations,
+-- expenses, payments and templates, and any change to existing expenses
+-- (including soft delete and restore, which are updates).
+create or replace function prevent_archived_group_writes()
+returns trigger as $$
+begin
+  if exists (select 1 from groups where id = new.group_id and archived_at is not null) then
+    raise exception 'This group is archived and can no longer be changed' using errcode = '22023';
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists expenses_archived_group on expenses;
+drop trigger if exists settlement_transactions_archived_group on settlement_transactions;
+drop trigger if exists recurring_expenses_archived_group on recurring_expenses;
+drop trigger if exists group_members_archived_group on group_members;
+drop trigger if exists group_invitations_archived_group on group_invitations;
+drop trigger if exists group_categories_archived_group on group_categories;
+
+create trigger expenses_archived_group
+  before insert or update on expenses
+  for each row
+  execute function prevent_archived_group_writes();
+
+create trigger settlement_transactions_archived_group
+  before insert or update on settlement_transactions
+  for each row
+  execute function prevent_archived_group_writes();
+
+create trigger recurring_expenses_archived_group
+  before insert or update on recurring_expenses
+  for each row
+  execute function prevent_archived_group_writes();
+
+create trigger group_members_archived_group
+  before insert on group_members
+  for each row
+  execute function prevent_archived_group_writes();
+
+create trigger group_invitations_archived_group
+  before insert on group_invitations
+  for each row
+  execute function prevent_archived_group_writes();
+
+create trigger group_categories_archived_group
+  before insert on group_categories
+  for each row
+  execute function prevent_archived_group_writes();
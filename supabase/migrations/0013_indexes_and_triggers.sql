@@ -0,0 +1,89 @@
+-- Create indexes for better query performance
+create index if not exists idx_group_members_user on group_members(user_id);
+create index if not exists idx_group_members_group on group_members(group_id);
+create index if not exists idx_expenses_group on expenses(group_id);
+create index if not exists idx_expenses_payer on expenses(paid_by);
+create index if not exists idx_expenses_category on expenses(group_id, category);
+create index if not exists idx_expenses_date on expenses(group_id, date desc);
+create index if not exists idx_expenses_deleted on expenses(group_id, deleted_at)
+  where deleted_at is not null;
+create index if not exists idx_splits_expense on splits(expense_id);
+create index if not exists idx_splits_user on splits(user_id);
+create index if not exists idx_settlements_group on settlements(group_id);
+create index if not exists idx_settlements_users on settlements(from_user_id, to_user_id);
+create index if not exists idx_expense_items_expense on expense_items(expense_id);
+create index if not exists idx_expense_attachments_expense on expense_attachments(expense_id);
+create index if not exists idx_recurring_expenses_group on recurring_expenses(group_id);
+create unique index if not exists idx_expenses_recurring_occurrence
+  on expenses(recurring_expense_id, occurrence_date)
+  where recurring_expense_id is not null;
+create index if not exists idx_settlement_transactions_group on settlement_transactions(group_id, status);
+create index if not exists idx_group_invitations_group on group_invitations(group_id, status);
+create index if not exists idx_audit_log_group on audit_log(group_id, created_at desc);
+create index if not exists idx_audit_log_entity on audit_log(entity_type, entity_id, created_at);
+
+-- Trigger to auto-create user record when auth user is created
+create or replace function public.handle_new_user()
+returns trigger as $$
+begin
+  insert into public.users (id, email, name)
+  values (new.id, new.email, coalesce(new.user_metadata->>'name', ''))
+  on conflict (id) do nothing;
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- Drop existing trigger if present
+drop trigger if exists on_auth_user_created on auth.users;
+
+-- Create trigger for new auth users
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row
+  execute function public.handle_new_user();
+
+-- Remove the profile when an auth user is deleted (users.id no longer
+-- references auth.users because guests have no account)
+create or replace function public.handle_deleted_user()
+returns trigger as $$
+begin
+  delete from public.users where id = old.id;
+  return old;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_auth_user_deleted on auth.users;
+
+create trigger on_auth_user_deleted
+  after delete on auth.users
+  for each row
+  execute function public.handle_deleted_user();
+
+-- Trigger to update updated_at timestamps
+create or replace function update_updated_at_column()
+returns trigger as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$ language plpgsql;
+
+-- Drop existing triggers if present to allow re-running this script
+drop trigger if exists update_users_updated_at on users;
+drop trigger if exists update_groups_updated_at on groups;
+drop trigger if exists update_expenses_updated_at on expenses;
+
+create trigger update_users_updated_at
+  before update on users
+  for each row
+  execute function update_updated_at_column();
+
+create trigger update_groups_updated_at
+  before update on groups
+  for each row
+  execute function update_updated_at_column();
+
+create trigger update_expenses_updated_at
+  before update on expenses
+  for each row
+  execute function update_updated_at_column();
@@ -0,0 +1,17 @@
+-- Realtime: stream changes to group screens while they are open (RLS still
+-- decides who receives each row). Adding a table twice is an error, so only
+-- add the ones not published yet.
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['expenses', 'splits', 'expense_payers', 'settlement_transactions', 'group_members'] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = t
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', t);
+    end if;
+  end loop;
+end;
+$$;
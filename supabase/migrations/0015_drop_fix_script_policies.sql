@@ -0,0 +1,43 @@
+-- Leftovers of the old fix-infinite-recursion.sql and fix-rls-policies.sql
+-- scripts, which were run by hand on some databases. Their policies were
+-- never dropped by the schema, and policies are permissive (any one of them
+-- grants access), so they would bypass the role checks of the earlier
+-- migrations.
+
+drop policy if exists "allow_select_users" on users;
+drop policy if exists "allow_insert_own_user" on users;
+drop policy if exists "allow_update_own_user" on users;
+drop policy if exists "Anyone can read user profiles" on users;
+drop policy if exists "Users can create own profile" on users;
+drop policy if exists "Users can update own profile" on users;
+
+drop policy if exists "allow_select_own_groups" on groups;
+drop policy if exists "allow_insert_groups" on groups;
+drop policy if exists "allow_update_own_groups" on groups;
+drop policy if exists "allow_delete_own_groups" on groups;
+drop policy if exists "Users can view their groups" on groups;
+drop policy if exists "Authenticated users can create groups" on groups;
+drop policy if exists "Group creators can update" on groups;
+drop policy if exists "Group creators can delete" on groups;
+
+drop policy if exists "allow_select_group_members" on group_members;
+drop policy if exists "allow_insert_group_members" on group_members;
+drop policy if exists "allow_update_group_members" on group_members;
+drop policy if exists "allow_delete_group_members" on group_members;
+drop policy if exists "Users can view group members" on group_members;
+drop policy if exists "Group creators can add members" on group_members;
+drop policy if exists "Users can remove themselves" on group_members;
+
+drop policy if exists "Users can view group expenses" on expenses;
+drop policy if exists "Group members can create expenses" on expenses;
+drop policy if exists "Expense creators can update" on expenses;
+drop policy if exists "Expense creators can delete" on expenses;
+
+drop policy if exists "Users can view splits" on splits;
+drop policy if exists "Expense creators can create splits" on splits;
+
+drop policy if exists "Users can view group settlements" on settlements;
+drop policy if exists "Group members can create settlements" on settlements;
+
+-- Created by fix-rls-policies.sql; nothing calls it
+drop function if exists public.ensure_user_profile();
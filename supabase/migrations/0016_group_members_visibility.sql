@@ -0,0 +1,76 @@
+-- Group Member Visibility
+-- group_members used to be readable by any signed-in user, because a policy
+-- on group_members that queries group_members recurses. Membership is now
+-- checked through a security definer function, which reads the table
+-- without applying its policies, so each user only sees the members of
+-- their own groups.
+
+-- Whether the signed-in user is a member of a group (any role)
+create or replace function is_group_member(p_group_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from group_members where group_id = p_group_id and user_id = auth.uid()
+  );
+$$;
+
+-- RLS Policy: Users can see members of groups they're in
+drop policy if exists "Users can see group members" on group_members;
+create policy "Users can see group members"
+  on group_members for select
+  using (is_group_member(group_id));
+
+-- The read policies below joined group_members directly; they now go
+-- through the same check
+
+-- RLS Policy: Users can see groups they're members of
+drop policy if exists "Users can see their groups" on groups;
+create policy "Users can see their groups"
+  on groups for select
+  using (is_group_member(id));
+
+-- RLS Policy: Users can see expenses in groups they're members of
+drop policy if exists "Users can see group expenses" on expenses;
+create policy "Users can see group expenses"
+  on expenses for select
+  using (is_group_member(group_id));
+
+-- RLS Policy: Users can see expense payers for expenses in their groups
+drop policy if exists "Users can see expense payers" on expense_payers;
+create policy "Users can see expense payers"
+  on expense_payers for select
+  using (
+    exists (
+      select 1 from expenses
+      where expenses.id = expense_payers.expense_id
+      and is_group_member(expenses.group_id)
+    )
+  );
+
+-- RLS Policy: Users can see splits for expenses in their groups
+drop policy if exists "Users can see expense splits" on splits;
+create policy "Users can see expense splits"
+  on splits for select
+  using (
+    exists (
+      select 1 from expenses
+      where expenses.id = splits.expense_id
+      and is_group_member(expenses.group_id)
+    )
+  );
+
+-- RLS Policy: Users can see settlements in groups they're members of
+drop policy if exists "Users can see group settlements" on settlements;
+create policy "Users can see group settlements"
+  on settlements for select
+  using (is_group_member(group_id));
+
+-- RLS Policy: Users can see settlement transactions in groups they're members of
+drop policy if exists "Users can see group settlement transactions" on settlement_transactions;
+create policy "Users can see group settlement transactions"
+  on settlement_transactions for select
+  using (is_group_member(group_id));
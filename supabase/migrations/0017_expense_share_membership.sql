@@ -0,0 +1,102 @@
+-- Expense Share Membership
+-- Payers and splits could name any user, including people outside the
+-- expense's group. Everyone an expense is paid by or split with must now be
+-- a member of its group, whether the shares are written through the
+-- database functions or inserted directly.
+
+-- Whether a user is a member of a group (any role). Security definer so the
+-- check sees every member, like is_group_member.
+create or replace function group_has_member(p_group_id uuid, p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from group_members where group_id = p_group_id and user_id = p_user_id
+  );
+$$;
+
+-- Replace an expense's payers and/or splits; null leaves that list untouched.
+-- Each list is a JSON array of { "user_id", "amount" } (splits may also
+-- carry the split mode "value"). Every user must be a member of the
+-- expense's group.
+create or replace function replace_expense_shares(
+  p_expense_id uuid,
+  p_payers jsonb,
+  p_splits jsonb
+)
+returns void
+language plpgsql
+as $$
+declare
+  v_group_id uuid;
+begin
+  select group_id into v_group_id from expenses where id = p_expense_id;
+
+  if exists (
+    select 1
+    from jsonb_to_recordset(coalesce(p_payers, '[]'::jsonb) || coalesce(p_splits, '[]'::jsonb))
+      as share(user_id uuid)
+    where not group_has_member(v_group_id, share.user_id)
+  ) then
+    raise exception 'Payers and splits must be members of the group' using errcode = '22023';
+  end if;
+
+  if p_payers is not null then
+    delete from expense_payers where expense_id = p_expense_id;
+
+    insert into expense_payers (expense_id, user_id, amount)
+    select p_expense_id, payer.user_id, round(payer.amount, 2)
+    from jsonb_to_recordset(p_payers) as payer(user_id uuid, amount numeric);
+  end if;
+
+  if p_splits is not null then
+    delete from splits where expense_id = p_expense_id;
+
+    insert into splits (expense_id, user_id, amount, split_value)
+    select p_expense_id, split.user_id, round(split.amount, 2), split.value
+    from jsonb_to_recordset(p_splits) as split(user_id uuid, amount numeric, value numeric);
+  end if;
+end;
+$$;
+
+-- RLS Policy: Members can create expenses they paid; owners and admins can
+-- enter expenses paid by anyone in the group
+drop policy if exists "Members can create expenses" on expenses;
+create policy "Members can create expenses"
+  on expenses for insert
+  with check (
+    (
+      (auth.uid() = paid_by and has_group_role(group_id, array['owner', 'admin', 'member']))
+      or has_group_role(group_id, array['owner', 'admin'])
+    )
+    and group_has_member(group_id, paid_by)
+  );
+
+-- RLS Policy: Expense editors can add payers and splits, for members of the
+-- expense's group only
+drop policy if exists "Expense editors can create payers" on expense_payers;
+create policy "Expense editors can create payers"
+  on expense_payers for insert
+  with check (
+    can_edit_expense(expense_id)
+    and exists (
+      select 1 from expenses
+      where expenses.id = expense_payers.expense_id
+      and group_has_member(expenses.group_id, expense_payers.user_id)
+    )
+  );
+
+drop policy if exists "Expense editors can create splits" on splits;
+create policy "Expense editors can create splits"
+  on splits for insert
+  with check (
+    can_edit_expense(expense_id)
+    and exists (
+      select 1 from expenses
+      where expenses.id = splits.expense_id
+      and group_has_member(expenses.group_id, splits.user_id)
+    )
+  );
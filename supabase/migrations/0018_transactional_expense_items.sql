@@ -0,0 +1,166 @@
+-- Transactional Expense Items
+-- Receipt items were written by the client as separate requests after the
+-- expense was saved, so a failure part way left an expense with some or none
+-- of its items. The create and update functions now take the items and write
+-- them in the same transaction as the expense, payers and splits.
+
+-- Replace an expense's receipt items. p_items is a JSON array of
+-- { "kind", "name", "amount", "position", "participant_ids" }; participants
+-- must be members of the expense's group. An empty array removes them all.
+create or replace function replace_expense_items(p_expense_id uuid, p_items jsonb)
+returns void
+language plpgsql
+as $$
+declare
+  v_group_id uuid;
+  v_item record;
+  v_item_id uuid;
+begin
+  select group_id into v_group_id from expenses where id = p_expense_id;
+
+  delete from expense_items where expense_id = p_expense_id;
+
+  for v_item in
+    select *
+    from jsonb_to_recordset(p_items)
+      as item(kind text, name text, amount numeric, position integer, participant_ids jsonb)
+    order by item.position
+  loop
+    insert into expense_items (expense_id, kind, name, amount, position)
+    values (p_expense_id, v_item.kind, trim(v_item.name), round(v_item.amount, 2), v_item.position)
+    returning id into v_item_id;
+
+    if exists (
+      select 1 from jsonb_array_elements_text(coalesce(v_item.participant_ids, '[]'::jsonb)) as participant(user_id)
+      where not group_has_member(v_group_id, participant.user_id::uuid)
+    ) then
+      raise exception 'Item participants must be members of the group' using errcode = '22023';
+    end if;
+
+    insert into expense_item_participants (item_id, user_id)
+    select distinct v_item_id, participant.user_id::uuid
+    from jsonb_array_elements_text(coalesce(v_item.participant_ids, '[]'::jsonb)) as participant(user_id);
+  end loop;
+end;
+$$;
+
+-- Create an expense with its payers, splits and (for itemized expenses)
+-- receipt items. The first payer becomes paid_by, so the caller must be that
+-- payer unless they are an owner or admin. The signature from before items
+-- is dropped, as it would make calls ambiguous.
+drop function if exists create_expense_with_splits(uuid, text, numeric, jsonb, jsonb, date, text, numeric, text, uuid, date, text, text);
+create or replace function create_expense_with_splits(
+  p_group_id uuid,
+  p_description text,
+  p_amount numeric,
+  p_payers jsonb,
+  p_splits jsonb,
+  p_date date default null,
+  p_currency text default 'INR',
+  p_exchange_rate numeric default 1,
+  p_split_type text default null,
+  p_recurring_expense_id uuid default null,
+  p_occurrence_date date default null,
+  p_category text default null,
+  p_notes text default null,
+  p_items jsonb default null
+)
+returns expenses
+language plpgsql
+as $$
+declare
+  v_expense expenses;
+begin
+  if p_payers is null or jsonb_array_length(p_payers) = 0 then
+    raise exception 'At least one payer is required' using errcode = '22023';
+  end if;
+
+  insert into expenses (
+    group_id, description, amount, paid_by, date, currency, exchange_rate,
+    split_type, recurring_expense_id, occurrence_date, category, notes
+  )
+  values (
+    p_group_id,
+    p_description,
+    round(p_amount, 2),
+    (p_payers -> 0 ->> 'user_id')::uuid,
+    coalesce(p_date, current_date),
+    coalesce(p_currency, 'INR'),
+    coalesce(p_exchange_rate, 1),
+    p_split_type,
+    p_recurring_expense_id,
+    p_occurrence_date,
+    nullif(p_category, ''),
+    nullif(trim(p_notes), '')
+  )
+  returning * into v_expense;
+
+  perform replace_expense_shares(v_expense.id, p_payers, coalesce(p_splits, '[]'::jsonb));
+  perform check_expense_totals(v_expense.id);
+
+  if p_items is not null then
+    perform replace_expense_items(v_expense.id, p_items);
+  end if;
+
+  return v_expense;
+end;
+$$;
+
+-- Update an expense and replace its payers, splits and/or receipt items in
+-- one step. Null parameters leave the current value unchanged; an empty
+-- category or notes clears it, and an empty items array removes the items.
+drop function if exists update_expense_with_splits(uuid, text, numeric, date, uuid, text, jsonb, jsonb, text, text);
+create or replace function update_expense_with_splits(
+  p_expense_id uuid,
+  p_description text default null,
+  p_amount numeric default null,
+  p_date date default null,
+  p_paid_by uuid default null,
+  p_split_type text default null,
+  p_payers jsonb default null,
+  p_splits jsonb default null,
+  p_category text default null,
+  p_notes text default null,
+  p_items jsonb default null
+)
+returns expenses
+language plpgsql
+as $$
+declare
+  v_expense expenses;
+begin
+  select * into v_expense from expenses where id = p_expense_id;
+
+  if not found then
+    raise exception 'Expense not found' using errcode = 'P0002';
+  end if;
+
+  if v_expense.deleted_at is not null then
+    raise exception 'Deleted expenses cannot be edited. Restore it first.' using errcode = '22023';
+  end if;
+
+  update expenses set
+    description = coalesce(p_description, description),
+    amount = coalesce(round(p_amount, 2), amount),
+    date = coalesce(p_date, date),
+    paid_by = coalesce((p_payers -> 0 ->> 'user_id')::uuid, p_paid_by, paid_by),
+    split_type = coalesce(p_split_type, split_type),
+    category = case when p_category is null then category else nullif(p_category, '') end,
+    notes = case when p_notes is null then notes else nullif(trim(p_notes), '') end
+  where id = p_expense_id
+  returning * into v_expense;
+
+  if not found then
+    raise exception 'Permission denied: you cannot edit this expense' using errcode = '42501';
+  end if;
+
+  perform replace_expense_shares(p_expense_id, p_payers, p_splits);
+  perform check_expense_totals(p_expense_id);
+
+  if p_items is not null then
+    perform replace_expense_items(p_expense_id, p_items);
+  end if;
+
+  return v_expense;
+end;
+$$;
@@ -0,0 +1,27 @@
+-- Restore Window
+-- Soft-deleted expenses can be restored for 24 hours. The app checked this
+-- itself, so any client could clear deleted_at later on. The database now
+-- stamps the deletion time, keeps it from being moved, and refuses to
+-- restore an expense once the window has passed.
+create or replace function enforce_restore_window()
+returns trigger as $$
+begin
+  if old.deleted_at is null and new.deleted_at is not null then
+    -- Deleted now, by the server's clock
+    new.deleted_at := now();
+  elsif old.deleted_at is not null and new.deleted_at is not null then
+    new.deleted_at := old.deleted_at;
+  elsif old.deleted_at is not null and new.deleted_at is null
+    and old.deleted_at < now() - interval '24 hours' then
+    raise exception 'Restore window has expired (24 hours)' using errcode = '22023';
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists expenses_restore_window on expenses;
+
+create trigger expenses_restore_window
+  before update of deleted_at on expenses
+  for each row
+  execute function enforce_restore_window();
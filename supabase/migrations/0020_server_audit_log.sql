@@ -0,0 +1,251 @@
+-- Server-side Audit Log
+-- Events used to be written by the app, so any member could append made-up
+-- history. Clients can no longer insert into audit_log; triggers record
+-- every change to expenses (and their payers and splits) and every new
+-- settlement as the signed-in user. Changes made without a signed-in user
+-- (migrations, the dashboard) are not recorded.
+
+-- RLS Policy: none for insert. Only the triggers below, which run as the
+-- table owner, write events.
+drop policy if exists "Group members can append to audit log" on audit_log;
+
+-- The fields of an expense the audit log tracks, in the shape the app's
+-- ExpenseSnapshot uses, plus group_id and deleted_at. Single-payer expenses
+-- with no payer rows are paid in full by paid_by. Null if the expense does
+-- not exist.
+create or replace function expense_audit_snapshot(p_expense_id uuid)
+returns jsonb
+language sql
+stable
+as $$
+  select jsonb_build_object(
+    'group_id', e.group_id,
+    'deleted_at', e.deleted_at,
+    'description', e.description,
+    'amount', e.amount,
+    'currency', e.currency,
+    'date', e.date,
+    'split_type', e.split_type,
+    'category', e.category,
+    'notes', e.notes,
+    'payers', coalesce(
+      (select jsonb_agg(jsonb_build_object('user_id', p.user_id, 'amount', p.amount) order by p.user_id)
+       from expense_payers p where p.expense_id = e.id),
+      jsonb_build_array(jsonb_build_object('user_id', e.paid_by, 'amount', e.amount))
+    ),
+    'splits', coalesce(
+      (select jsonb_agg(jsonb_build_object('user_id', s.user_id, 'amount', s.amount) order by s.user_id)
+       from splits s where s.expense_id = e.id),
+      '[]'::jsonb
+    )
+  )
+  from expenses e
+  where e.id = p_expense_id;
+$$;
+
+-- Field-level changes between two snapshots, in the order and format of
+-- diffExpenseSnapshots (src/utils/auditDiff.ts). A null p_before describes
+-- a new expense.
+create or replace function diff_expense_snapshots(p_before jsonb, p_after jsonb)
+returns jsonb
+language plpgsql
+immutable
+as $$
+declare
+  v_changes jsonb := '[]'::jsonb;
+  v_field text;
+  v_from jsonb;
+  v_to jsonb;
+begin
+  foreach v_field in array array[
+    'description', 'amount', 'currency', 'date', 'split_type', 'category', 'notes', 'payers', 'splits'
+  ] loop
+    v_from := coalesce(p_before -> v_field, 'null'::jsonb);
+    v_to := coalesce(p_after -> v_field, 'null'::jsonb);
+
+    if v_field in ('payers', 'splits') then
+      if coalesce(p_before -> v_field, '[]'::jsonb) = v_to then
+        continue;
+      end if;
+    elsif v_field = 'amount' then
+      if p_before is not null and (v_from #>> '{}')::numeric = (v_to #>> '{}')::numeric then
+        continue;
+      end if;
+    elsif v_from = v_to then
+      continue;
+    end if;
+
+    v_changes := v_changes || jsonb_build_array(
+      jsonb_build_object('field', v_field, 'from', v_from, 'to', v_to)
+    );
+  end loop;
+
+  return v_changes;
+end;
+$$;
+
+-- The state of each expense before the current transaction changed it is
+-- kept in a transaction-local setting until the change is recorded at
+-- commit: 'create' for a new expense, otherwise its snapshot.
+create or replace function expense_audit_key(p_expense_id uuid)
+returns text
+language sql
+immutable
+as $$
+  select 'audit.expense_' || replace(p_expense_id::text, '-', '_');
+$$;
+
+create or replace function remember_expense_before()
+returns trigger as $$
+declare
+  v_expense_id uuid;
+begin
+  if tg_table_name = 'expenses' then
+    v_expense_id := new.id;
+  elsif tg_op = 'DELETE' then
+    v_expense_id := old.expense_id;
+  else
+    v_expense_id := new.expense_id;
+  end if;
+
+  if auth.uid() is not null and coalesce(current_setting(expense_audit_key(v_expense_id), true), '') = '' then
+    perform set_config(
+      expense_audit_key(v_expense_id),
+      case
+        when tg_table_name = 'expenses' and tg_op = 'INSERT' then 'create'
+        else coalesce(expense_audit_snapshot(v_expense_id)::text, 'missing')
+      end,
+      true
+    );
+  end if;
+
+  if tg_op = 'DELETE' then
+    return old;
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- Runs at commit, once every statement in the transaction has finished, so
+-- an expense saved with its payers and splits is recorded as one event
+create or replace function record_expense_change()
+returns trigger as $$
+declare
+  v_expense_id uuid;
+  v_before text;
+  v_after jsonb;
+  v_action text;
+  v_changes jsonb := '[]'::jsonb;
+begin
+  if tg_table_name = 'expenses' then
+    v_expense_id := new.id;
+  elsif tg_op = 'DELETE' then
+    v_expense_id := old.expense_id;
+  else
+    v_expense_id := new.expense_id;
+  end if;
+
+  v_before := current_setting(expense_audit_key(v_expense_id), true);
+  if coalesce(v_before, '') = '' then
+    return null; -- Already recorded, or nothing to record
+  end if;
+  perform set_config(expense_audit_key(v_expense_id), '', true);
+
+  v_after := expense_audit_snapshot(v_expense_id);
+  if v_after is null or v_before = 'missing' then
+    return null;
+  end if;
+
+  if v_before = 'create' then
+    v_action := 'create';
+    v_changes := diff_expense_snapshots(null, v_after);
+  elsif v_before::jsonb ->> 'deleted_at' is null and v_after ->> 'deleted_at' is not null then
+    v_action := 'delete';
+  elsif v_before::jsonb ->> 'deleted_at' is not null and v_after ->> 'deleted_at' is null then
+    v_action := 'restore';
+  else
+    v_action := 'update';
+    v_changes := diff_expense_snapshots(v_before::jsonb, v_after);
+    if jsonb_array_length(v_changes) = 0 then
+      return null; -- Saved without changing anything
+    end if;
+  end if;
+
+  insert into audit_log (group_id, entity_type, entity_id, action, actor_id, entity_label, changes)
+  values (
+    (v_after ->> 'group_id')::uuid, 'expense', v_expense_id, v_action, auth.uid(),
+    v_after ->> 'description', v_changes
+  );
+
+  return null;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+drop trigger if exists expenses_audit_before on expenses;
+drop trigger if exists expense_payers_audit_before on expense_payers;
+drop trigger if exists splits_audit_before on splits;
+drop trigger if exists expenses_audit on expenses;
+drop trigger if exists expense_payers_audit on expense_payers;
+drop trigger if exists splits_audit on splits;
+
+create trigger expenses_audit_before
+  before insert or update on expenses
+  for each row
+  execute function remember_expense_before();
+
+create trigger expense_payers_audit_before
+  before insert or delete on expense_payers
+  for each row
+  execute function remember_expense_before();
+
+create trigger splits_audit_before
+  before insert or delete on splits
+  for each row
+  execute function remember_expense_before();
+
+create constraint trigger expenses_audit
+  after insert or update on expenses
+  deferrable initially deferred
+  for each row
+  execute function record_expense_change();
+
+create constraint trigger expense_payers_audit
+  after insert or delete on expense_payers
+  deferrable initially deferred
+  for each row
+  execute function record_expense_change();
+
+create constraint trigger splits_audit
+  after insert or delete on splits
+  deferrable initially deferred
+  for each row
+  execute function record_expense_change();
+
+-- Record each new settlement with the payment's details
+create or replace function record_settlement_created()
+returns trigger as $$
+begin
+  if auth.uid() is null then
+    return null;
+  end if;
+
+  insert into audit_log (group_id, entity_type, entity_id, action, actor_id, changes)
+  values (
+    new.group_id, 'settlement', new.id, 'create', auth.uid(),
+    jsonb_build_array(
+      jsonb_build_object('field', 'payer_id', 'from', null, 'to', new.payer_id),
+      jsonb_build_object('field', 'payee_id', 'from', null, 'to', new.payee_id),
+      jsonb_build_object('field', 'amount', 'from', null, 'to', new.amount)
+    )
+  );
+
+  return null;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+drop trigger if exists settlement_transactions_audit on settlement_transactions;
+
+create trigger settlement_transactions_audit
+  after insert on settlement_transactions
+  for each row
+  execute function record_settlement_created();
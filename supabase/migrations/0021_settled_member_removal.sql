@@ -0,0 +1,88 @@
+-- Settled Member Removal
+-- Members could only leave or be removed once their balance was settled,
+-- but only the app checked. The database now refuses to remove a member who
+-- still owes or is owed money in the group.
+--
+-- The balance is worked out like the app's ledger: what they paid (payer
+-- rows, or paid_by for single-payer expenses) minus their splits, converted
+-- into the group's base currency, plus completed payments they made minus
+-- payments they received. The app allocates each converted expense in whole
+-- minor units, so up to one unit of rounding per converted expense is
+-- allowed.
+
+-- A member's net balance in a group, in its base currency
+create or replace function member_balance(p_group_id uuid, p_user_id uuid)
+returns numeric
+language sql
+stable
+as $$
+  select coalesce(sum(entry.amount), 0)
+  from (
+    select payer.amount * expense.exchange_rate as amount
+    from expense_payers payer
+    join expenses expense on expense.id = payer.expense_id
+    where expense.group_id = p_group_id and expense.deleted_at is null and payer.user_id = p_user_id
+
+    union all
+
+    select expense.amount * expense.exchange_rate
+    from expenses expense
+    where expense.group_id = p_group_id and expense.deleted_at is null and expense.paid_by = p_user_id
+    and not exists (select 1 from expense_payers payer where payer.expense_id = expense.id)
+
+    union all
+
+    select -split.amount * expense.exchange_rate
+    from splits split
+    join expenses expense on expense.id = split.expense_id
+    where expense.group_id = p_group_id and expense.deleted_at is null and split.user_id = p_user_id
+
+    union all
+
+    select case when payer_id = p_user_id then amount else -amount end
+    from settlement_transactions
+    where group_id = p_group_id and status = 'completed'
+    and (payer_id = p_user_id or payee_id = p_user_id)
+
+    union all
+
+    select case when from_user_id = p_user_id then amount else -amount end
+    from settlements
+    where group_id = p_group_id and (from_user_id = p_user_id or to_user_id = p_user_id)
+  ) as entry;
+$$;
+
+create or replace function prevent_unsettled_member_removal()
+returns trigger as $$
+declare
+  v_balance numeric;
+  v_converted integer;
+begin
+  -- Deleting the group or the user's account takes their memberships with it
+  if not exists (select 1 from groups where id = old.group_id)
+    or not exists (select 1 from users where id = old.user_id) then
+    return old;
+  end if;
+
+  v_balance := member_balance(old.group_id, old.user_id);
+
+  select count(*) into v_converted
+  from expenses
+  where group_id = old.group_id and deleted_at is null and exchange_rate <> 1;
+
+  if abs(v_balance) >= 0.005 + 0.01 * v_converted then
+    raise exception 'This member still owes or is owed % in this group. Record the settlement first.',
+      round(abs(v_balance), 2)
+      using errcode = '22023';
+  end if;
+
+  return old;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+drop trigger if exists group_members_settled_removal on group_members;
+
+create trigger group_members_settled_removal
+  before delete on group_members
+  for each row
+  execute function prevent_unsettled_member_removal();
@@ -0,0 +1,145 @@
+-- Idempotent Expense Writes
+-- Changes made offline are replayed when the connection returns. When a
+-- request reached the server but its response was lost, the replay used to
+-- create the expense a second time, or report the app's own edit as a
+-- conflict. The app now sends an ID with each change so a replay can be
+-- recognised:
+-- * New expenses take their ID from the app; creating one that already
+--   exists returns it unchanged.
+-- * Each update stores the app's change ID in last_change_id, which the app
+--   compares before replaying an edit.
+
+alter table expenses add column if not exists last_change_id uuid;
+
+-- Create an expense with its payers, splits and receipt items. p_expense_id
+-- is the ID the app chose; if that expense was already created, it is
+-- returned as it is. The signature from before p_expense_id is dropped, as
+-- it would make calls ambiguous.
+drop function if exists create_expense_with_splits(uuid, text, numeric, jsonb, jsonb, date, text, numeric, text, uuid, date, text, text, jsonb);
+create or replace function create_expense_with_splits(
+  p_group_id uuid,
+  p_description text,
+  p_amount numeric,
+  p_payers jsonb,
+  p_splits jsonb,
+  p_date date default null,
+  p_currency text default 'INR',
+  p_exchange_rate numeric default 1,
+  p_split_type text default null,
+  p_recurring_expense_id uuid default null,
+  p_occurrence_date date default null,
+  p_category text default null,
+  p_notes text default null,
+  p_items jsonb default null,
+  p_expense_id uuid default null
+)
+returns expenses
+language plpgsql
+as $$
+declare
+  v_expense expenses;
+begin
+  if p_expense_id is not null then
+    select * into v_expense from expenses where id = p_expense_id and group_id = p_group_id;
+    if found then
+      return v_expense;
+    end if;
+  end if;
+
+  if p_payers is null or jsonb_array_length(p_payers) = 0 then
+    raise exception 'At least one payer is required' using errcode = '22023';
+  end if;
+
+  insert into expenses (
+    id, group_id, description, amount, paid_by, date, currency, exchange_rate,
+    split_type, recurring_expense_id, occurrence_date, category, notes
+  )
+  values (
+    coalesce(p_expense_id, gen_random_uuid()),
+    p_group_id,
+    p_description,
+    round(p_amount, 2),
+    (p_payers -> 0 ->> 'user_id')::uuid,
+    coalesce(p_date, current_date),
+    coalesce(p_currency, 'INR'),
+    coalesce(p_exchange_rate, 1),
+    p_split_type,
+    p_recurring_expense_id,
+    p_occurrence_date,
+    nullif(p_category, ''),
+    nullif(trim(p_notes), '')
+  )
+  returning * into v_expense;
+
+  perform replace_expense_shares(v_expense.id, p_payers, coalesce(p_splits, '[]'::jsonb));
+  perform check_expense_totals(v_expense.id);
+
+  if p_items is not null then
+    perform replace_expense_items(v_expense.id, p_items);
+  end if;
+
+  return v_expense;
+end;
+$$;
+
+-- Update an expense and replace its payers, splits and/or receipt items in
+-- one step. Null parameters leave the current value unchanged; an empty
+-- category or notes clears it, and an empty items array removes the items.
+-- p_change_id is stored as last_change_id (null when the app sends none).
+drop function if exists update_expense_with_splits(uuid, text, numeric, date, uuid, text, jsonb, jsonb, text, text, jsonb);
+create or replace function update_expense_with_splits(
+  p_expense_id uuid,
+  p_description text default null,
+  p_amount numeric default null,
+  p_date date default null,
+  p_paid_by uuid default null,
+  p_split_type text default null,
+  p_payers jsonb default null,
+  p_splits jsonb default null,
+  p_category text default null,
+  p_notes text default null,
+  p_items jsonb default null,
+  p_change_id uuid default null
+)
+returns expenses
+language plpgsql
+as $$
+declare
+  v_expense expenses;
+begin
+  select * into v_expense from expenses where id = p_expense_id;
+
+  if not found then
+    raise exception 'Expense not found' using errcode = 'P0002';
+  end if;
+
+  if v_expense.deleted_at is not null then
+    raise exception 'Deleted expenses cannot be edited. Restore it first.' using errcode = '22023';
+  end if;
+
+  update expenses set
+    description = coalesce(p_description, description),
+    amount = coalesce(round(p_amount, 2), amount),
+    date = coalesce(p_date, date),
+    paid_by = coalesce((p_payers -> 0 ->> 'user_id')::uuid, p_paid_by, paid_by),
+    split_type = coalesce(p_split_type, split_type),
+    category = case when p_category is null then category else nullif(p_category, '') end,
+    notes = case when p_notes is null then notes else nullif(trim(p_notes), '') end,
+    last_change_id = p_change_id
+  where id = p_expense_id
+  returning * into v_expense;
+
+  if not found then
+    raise exception 'Permission denied: you cannot edit this expense' using errcode = '42501';
+  end if;
+
+  perform replace_expense_shares(p_expense_id, p_payers, p_splits);
+  perform check_expense_totals(p_expense_id);
+
+  if p_items is not null then
+    perform replace_expense_items(p_expense_id, p_items);
+  end if;
+
+  return v_expense;
+end;
+$$;
@@ -0,0 +1,13 @@
+-- Sign-up Name
+-- handle_new_user read the name from new.user_metadata, but auth.users
+-- keeps the sign-up data in raw_user_meta_data, so creating an account
+-- failed. The profile now takes its name from raw_user_meta_data.
+create or replace function public.handle_new_user()
+returns trigger as $$
+begin
+  insert into public.users (id, email, name)
+  values (new.id, new.email, coalesce(new.raw_user_meta_data->>'name', ''))
+  on conflict (id) do nothing;
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
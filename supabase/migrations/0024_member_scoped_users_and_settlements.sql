@@ -0,0 +1,31 @@
+-- Member-scoped Users and Settlements
+-- Any signed-in user could read every profile, including other people's
+-- email addresses, and a member could record a settlement between anyone in
+-- their group's name. Profiles are now only readable by the user and the
+-- members of their groups, and both sides of a settlement must be members
+-- of its group.
+
+-- RLS Policy: Users can see the members of groups they're in (their own
+-- profile stays readable through "Users can read their own profile")
+drop policy if exists "Allow reading user records" on users;
+drop policy if exists "Users can see fellow group members" on users;
+create policy "Users can see fellow group members"
+  on users for select
+  using (
+    exists (
+      select 1 from group_members
+      where group_members.user_id = users.id
+      and is_group_member(group_members.group_id)
+    )
+  );
+
+-- RLS Policy: Group members (not viewers) can record settlements between
+-- members of their groups
+drop policy if exists "Group members can record settlements" on settlement_transactions;
+create policy "Group members can record settlements"
+  on settlement_transactions for insert
+  with check (
+    has_group_role(group_id, array['owner', 'admin', 'member'])
+    and group_has_member(group_id, payer_id)
+    and group_has_member(group_id, payee_id)
+  );
@@ -0,0 +1,173 @@
+-- Former Members
+-- A settled member can leave or be removed while their payer and split rows
+-- stay on old expenses, and a claimed guest keeps their users row for old
+-- history. Since payers and splits had to be group members and profiles were
+-- only readable by fellow members, editing such an expense failed and its
+-- history showed "Unknown User". People who still appear in a group's
+-- history now stay readable to its members, and keep their existing shares
+-- when an expense is edited. They still cannot be added to new shares.
+
+-- Whether a user is a member of a group or still appears in its expenses,
+-- payments or activity. Security definer so the check sees every row, like
+-- group_has_member.
+create or replace function appears_in_group(p_group_id uuid, p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select group_has_member(p_group_id, p_user_id)
+    or exists (select 1 from users where id = p_user_id and guest_group_id = p_group_id)
+    or exists (select 1 from expenses where group_id = p_group_id and paid_by = p_user_id)
+    or exists (
+      select 1 from expense_payers payer
+      join expenses expense on expense.id = payer.expense_id
+      where expense.group_id = p_group_id and payer.user_id = p_user_id
+    )
+    or exists (
+      select 1 from splits split
+      join expenses expense on expense.id = split.expense_id
+      where expense.group_id = p_group_id and split.user_id = p_user_id
+    )
+    or exists (
+      select 1 from settlement_transactions
+      where group_id = p_group_id and (payer_id = p_user_id or payee_id = p_user_id)
+    )
+    or exists (
+      select 1 from settlements
+      where group_id = p_group_id and (from_user_id = p_user_id or to_user_id = p_user_id)
+    )
+    or exists (
+      select 1 from audit_log
+      where group_id = p_group_id
+      and (
+        actor_id = p_user_id
+        or changes @> jsonb_build_array(jsonb_build_object('from', jsonb_build_array(jsonb_build_object('user_id', p_user_id))))
+        or changes @> jsonb_build_array(jsonb_build_object('to', jsonb_build_array(jsonb_build_object('user_id', p_user_id))))
+        or changes @> jsonb_build_array(jsonb_build_object('to', p_user_id))
+      )
+    );
+$$;
+
+-- RLS Policy: Users can see everyone in their groups, including former
+-- members and claimed guests who still appear in its history (their own
+-- profile stays readable through "Users can read their own profile")
+drop policy if exists "Users can see fellow group members" on users;
+drop policy if exists "Users can see people in their groups" on users;
+create policy "Users can see people in their groups"
+  on users for select
+  using (
+    exists (
+      select 1 from group_members
+      where group_members.user_id = auth.uid()
+      and appears_in_group(group_members.group_id, users.id)
+    )
+  );
+
+-- Replace an expense's payers and/or splits; null leaves that list untouched.
+-- Each list is a JSON array of { "user_id", "amount" } (splits may also
+-- carry the split mode "value"). Every user must be a member of the
+-- expense's group, or already have a share of the expense.
+--
+-- Security definer because the insert policies on expense_payers and splits
+-- only accept current members, and the existing shares are gone by the time
+-- the new ones are inserted. The caller must be allowed to edit the expense.
+create or replace function replace_expense_shares(
+  p_expense_id uuid,
+  p_payers jsonb,
+  p_splits jsonb
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_group_id uuid;
+begin
+  if p_payers is null and p_splits is null then
+    return;
+  end if;
+
+  if not can_edit_expense(p_expense_id) then
+    raise exception 'Permission denied: you cannot edit this expense' using errcode = '42501';
+  end if;
+
+  select group_id into v_group_id from expenses where id = p_expense_id;
+
+  if exists (
+    select 1
+    from jsonb_to_recordset(coalesce(p_payers, '[]'::jsonb) || coalesce(p_splits, '[]'::jsonb))
+      as share(user_id uuid)
+    where not group_has_member(v_group_id, share.user_id)
+    and not exists (select 1 from expense_payers where expense_id = p_expense_id and user_id = share.user_id)
+    and not exists (select 1 from splits where expense_id = p_expense_id and user_id = share.user_id)
+  ) then
+    raise exception 'Payers and splits must be members of the group' using errcode = '22023';
+  end if;
+
+  if p_payers is not null then
+    delete from expense_payers where expense_id = p_expense_id;
+
+    insert into expense_payers (expense_id, user_id, amount)
+    select p_expense_id, payer.user_id, round(payer.amount, 2)
+    from jsonb_to_recordset(p_payers) as payer(user_id uuid, amount numeric);
+  end if;
+
+  if p_splits is not null then
+    delete from splits where expense_id = p_expense_id;
+
+    insert into splits (expense_id, user_id, amount, split_value)
+    select p_expense_id, split.user_id, round(split.amount, 2), split.value
+    from jsonb_to_recordset(p_splits) as split(user_id uuid, amount numeric, value numeric);
+  end if;
+end;
+$$;
+
+-- Replace an expense's receipt items. p_items is a JSON array of
+-- { "kind", "name", "amount", "position", "participant_ids" }; participants
+-- must be members of the expense's group or have a share of the expense
+-- (its shares are saved first). An empty array removes them all.
+create or replace function replace_expense_items(p_expense_id uuid, p_items jsonb)
+returns void
+language plpgsql
+as $$
+declare
+  v_group_id uuid;
+  v_item record;
+  v_item_id uuid;
+begin
+  select group_id into v_group_id from expenses where id = p_expense_id;
+
+  delete from expense_items where expense_id = p_expense_id;
+
+  for v_item in
+    select *
+    from jsonb_to_recordset(p_items)
+      as item(kind text, name text, amount numeric, position integer, participant_ids jsonb)
+    order by item.position
+  loop
+    insert into expense_items (expense_id, kind, name, amount, position)
+    values (p_expense_id, v_item.kind, trim(v_item.name), round(v_item.amount, 2), v_item.position)
+    returning id into v_item_id;
+
+    if exists (
+      select 1 from jsonb_array_elements_text(coalesce(v_item.participant_ids, '[]'::jsonb)) as participant(user_id)
+      where not group_has_member(v_group_id, participant.user_id::uuid)
+      and not exists (
+        select 1 from splits where expense_id = p_expense_id and user_id = participant.user_id::uuid
+      )
+      and not exists (
+        select 1 from expense_payers where expense_id = p_expense_id and user_id = participant.user_id::uuid
+      )
+    ) then
+      raise exception 'Item participants must be members of the group' using errcode = '22023';
+    end if;
+
+    insert into expense_item_participants (item_id, user_id)
+    select distinct v_item_id, participant.user_id::uuid
+    from jsonb_array_elements_text(coalesce(v_item.participant_ids, '[]'::jsonb)) as participant(user_id);
+  end loop;
+end;
+$$;
@@ -0,0 +1,37 @@
+-- Revoke Invitation
+-- The update policy on group_invitations only checked the new status, so a
+-- member could also change an invitation's email, expiry or use count, or
+-- reopen one that was already accepted. Clients can no longer update
+-- invitations; revoking a pending one goes through revoke_invitation.
+
+-- RLS Policy: none for update. Invitations change only through the
+-- security definer functions.
+drop policy if exists "Group members can revoke invitations" on group_invitations;
+
+-- Revoke a pending invitation or join code. Group members (not viewers) can
+-- revoke their group's invitations; one that is no longer pending is left as
+-- it is.
+create or replace function revoke_invitation(p_invitation_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_invitation group_invitations;
+begin
+  select * into v_invitation from group_invitations where id = p_invitation_id for update;
+
+  if not found then
+    raise exception 'Invitation not found' using errcode = 'P0002';
+  end if;
+
+  if not has_group_role(v_invitation.group_id, array['owner', 'admin', 'member']) then
+    raise exception 'Permission denied: you cannot revoke this invitation' using errcode = '42501';
+  end if;
+
+  if v_invitation.status = 'pending' then
+    update group_invitations set status = 'revoked' where id = p_invitation_id;
+  end if;
+end;
+$$;
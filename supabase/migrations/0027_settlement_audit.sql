@@ -0,0 +1,66 @@
+-- Settlement Audit
+-- Only new settlements were recorded in the audit log. Changes to a
+-- settlement and its deletion are now recorded as well, like expenses. Each
+-- event lists payer_id, payee_id and amount: from null on create, to null on
+-- delete. Updates that leave all three unchanged are not recorded.
+
+create or replace function record_settlement_change()
+returns trigger as $$
+declare
+  v_row settlement_transactions;
+  v_action text;
+  v_changes jsonb;
+begin
+  if auth.uid() is null then
+    return null;
+  end if;
+
+  if tg_op = 'INSERT' then
+    v_row := new;
+    v_action := 'create';
+    v_changes := jsonb_build_array(
+      jsonb_build_object('field', 'payer_id', 'from', null, 'to', new.payer_id),
+      jsonb_build_object('field', 'payee_id', 'from', null, 'to', new.payee_id),
+      jsonb_build_object('field', 'amount', 'from', null, 'to', new.amount)
+    );
+  elsif tg_op = 'UPDATE' then
+    if (old.payer_id, old.payee_id, old.amount) is not distinct from (new.payer_id, new.payee_id, new.amount) then
+      return null;
+    end if;
+
+    v_row := new;
+    v_action := 'update';
+    v_changes := jsonb_build_array(
+      jsonb_build_object('field', 'payer_id', 'from', old.payer_id, 'to', new.payer_id),
+      jsonb_build_object('field', 'payee_id', 'from', old.payee_id, 'to', new.payee_id),
+      jsonb_build_object('field', 'amount', 'from', old.amount, 'to', new.amount)
+    );
+  else
+    -- Deleting the group takes its settlements and history with it
+    if not exists (select 1 from groups where id = old.group_id) then
+      return null;
+    end if;
+
+    v_row := old;
+    v_action := 'delete';
+    v_changes := jsonb_build_array(
+      jsonb_build_object('field', 'payer_id', 'from', old.payer_id, 'to', null),
+      jsonb_build_object('field', 'payee_id', 'from', old.payee_id, 'to', null),
+      jsonb_build_object('field', 'amount', 'from', old.amount, 'to', null)
+    );
+  end if;
+
+  insert into audit_log (group_id, entity_type, entity_id, action, actor_id, changes)
+  values (v_row.group_id, 'settlement', v_row.id, v_action, auth.uid(), v_changes);
+
+  return null;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+drop trigger if exists settlement_transactions_audit on settlement_transactions;
+drop function if exists record_settlement_created();
+
+create trigger settlement_transactions_audit
+  after insert or update or delete on settlement_transactions
+  for each row
+  execute function record_settlement_change();
@@ -0,0 +1,22 @@
+-- Fixed Expense Group
+-- The expense update policy only checks the caller's role in the group the
+-- expense ends up in, so someone allowed to edit expenses in two groups
+-- could move one between them, leaving its audit trail behind and moving
+-- the balance to people who never shared it. An expense now stays in the
+-- group it was created in.
+create or replace function prevent_expense_group_change()
+returns trigger as $$
+begin
+  if new.group_id is distinct from old.group_id then
+    raise exception 'Expenses cannot be moved to another group' using errcode = '22023';
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists expenses_fixed_group on expenses;
+
+create trigger expenses_fixed_group
+  before update of group_id on expenses
+  for each row
+  execute function prevent_expense_group_change();